@@ -11,11 +11,19 @@ import { ClueManager } from './components/clues/ClueManager';
 import { StoryletSandbox } from './components/sandbox/StoryletSandbox';
 import { DataManager } from './components/data/DataManager';
 import { MinigameTester } from './components/testing/MinigameTester';
+import { CalendarSettings } from './components/calendar/CalendarSettings';
+import { ResourceManager } from './components/resources/ResourceManager';
+import { ItemManager } from './components/items/ItemManager';
+import { SaveManager } from './components/saves/SaveManager';
+import { RevisionSettings } from './components/revisions/RevisionSettings';
+import { ReleasePanel } from './components/release/ReleasePanel';
 import { initializeEnvironment } from './utils/featureFlags';
 import { useCoreGameStore } from './stores/useCoreGameStore';
 import { useNarrativeStore } from './stores/useNarrativeStore';
 import { useCharacterStore } from './stores/useCharacterStore';
 import { useClueStore } from './stores/useClueStore';
+import { useRevisionStore } from './stores/useRevisionStore';
+import { gameSaveManager } from './systems/GameSaveManager';
 import { initializeSecurity } from './utils/security';
 import './utils/debugDatabase'; // Load debug utilities
 import { checkAndInitializeData, diagnoseVisualEditorIssues } from './utils/initializeApp';
@@ -28,9 +36,12 @@ function App() {
   const [editingArcId, setEditingArcId] = useState<string | undefined>();
   
   const environment = useCoreGameStore(state => state.environment);
-  const { storylets, arcs, loadStorylets, loadStoryArcs } = useNarrativeStore();
+  const loadResourceDefinitions = useCoreGameStore(state => state.loadResourceDefinitions);
+  const loadItemDefinitions = useCoreGameStore(state => state.loadItemDefinitions);
+  const { storylets, arcs, loadStorylets, loadStoryArcs, loadCompletedStorylets, loadStoryVariables, loadCalendar } = useNarrativeStore();
   const { characters, loadCharacters } = useCharacterStore();
   const { clues, loadClues } = useClueStore();
+  const loadRevisionSettings = useRevisionStore(state => state.loadRevisionSettings);
 
   useEffect(() => {
     // Initialize environment and feature flags on app start
@@ -42,8 +53,14 @@ function App() {
     // Load existing data from Dexie
     loadStorylets();
     loadStoryArcs();
+    loadCompletedStorylets();
+    loadStoryVariables();
+    loadCalendar();
+    loadResourceDefinitions();
+    loadItemDefinitions();
     loadCharacters();
     loadClues();
+    loadRevisionSettings();
     
     // Check if database is empty and provide helpful information
     setTimeout(() => {
@@ -56,7 +73,9 @@ function App() {
       // Make diagnosis function available globally
       (window as any).diagnoseVisualEditor = diagnoseVisualEditorIssues;
     }, 1000); // Give stores time to load
-  }, [loadStorylets, loadStoryArcs, loadCharacters, loadClues]);
+  }, [loadStorylets, loadStoryArcs, loadCompletedStorylets, loadStoryVariables, loadCalendar, loadResourceDefinitions, loadItemDefinitions, loadCharacters, loadClues, loadRevisionSettings]);
+
+  useEffect(() => gameSaveManager.enableAutosave(), []);
 
   const handleCreateStorylet = () => {
     setEditingStoryletId(undefined);
@@ -223,6 +242,30 @@ function App() {
                 </div>
               )}
             </Card>
+
+            <Card title="Game Calendar">
+              <CalendarSettings />
+            </Card>
+
+            <Card title="Resources">
+              <ResourceManager />
+            </Card>
+
+            <Card title="Items">
+              <ItemManager />
+            </Card>
+
+            <Card title="Saved Games">
+              <SaveManager />
+            </Card>
+
+            <Card title="Revision History">
+              <RevisionSettings />
+            </Card>
+
+            <Card title="Release">
+              <ReleasePanel />
+            </Card>
           </div>
         );
 
@@ -5,7 +5,16 @@ import { TextArea } from '../forms/TextArea';
 import { Modal } from '../common/Modal';
 import { LoadingButton, LoadingSpinner } from '../common/LoadingSpinner';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
 import { type StoryArc } from '../../types/narrative';
+import { ARC_STATUS_LABELS, getArcCompletion, getArcStatus, type ArcStatus } from '../../utils/arcProgress';
+
+const ARC_STATUS_BADGES: Record<ArcStatus, string> = {
+  locked: 'badge-ghost',
+  available: 'badge-outline',
+  in_progress: 'badge-info',
+  completed: 'badge-success'
+};
 
 interface ArcManagerProps {
   onVisualEdit?: (arcId: string) => void;
@@ -17,6 +26,7 @@ interface ArcFormData {
   description: string;
   estimatedLength: number;
   prerequisites: string[];
+  endStoryletIds: string[];
   tags: string[];
 }
 
@@ -25,6 +35,7 @@ const initialArcForm: ArcFormData = {
   description: '',
   estimatedLength: 30,
   prerequisites: [],
+  endStoryletIds: [],
   tags: []
 };
 
@@ -45,6 +56,7 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
     updateStoryArc, 
     deleteStoryArc
   } = useNarrativeStore();
+  const arcProgress = useCoreGameStore(state => state.arcProgress);
 
 
   const filteredArcs = useMemo(() => {
@@ -75,6 +87,7 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
         description: arc.description,
         estimatedLength: arc.estimatedLength || 30,
         prerequisites: arc.prerequisites || [],
+        endStoryletIds: arc.endStoryletIds || [],
         tags: arc.tags || []
       });
     } else {
@@ -99,6 +112,7 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
       description: formData.description,
       estimatedLength: formData.estimatedLength,
       prerequisites: formData.prerequisites,
+      endStoryletIds: formData.endStoryletIds,
       tags: formData.tags
     };
 
@@ -119,6 +133,17 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
     }
   };
 
+  const toggleFormList = (field: 'prerequisites' | 'endStoryletIds', id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      [field]: prev[field].includes(id) ? prev[field].filter(item => item !== id) : [...prev[field], id]
+    }));
+  };
+
+  const getArcName = (arcId: string) => arcs.find(arc => arc.id === arcId)?.name || arcId;
+
+  const getStoryletTitle = (storyletId: string) => storylets.find(storylet => storylet.id === storyletId)?.title || storyletId;
+
   const handleDelete = async (arcId: string) => {
     if (window.confirm('Are you sure you want to delete this story arc? This action cannot be undone.')) {
       try {
@@ -180,69 +205,103 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
             )}
           </Card>
         ) : (
-          filteredArcs.map(arc => (
-            <Card key={arc.id} className="p-4">
-              <div className="flex justify-between items-start">
-                <div className="flex-1">
-                  <div className="flex items-center gap-3 mb-2">
-                    <h3 className="text-lg font-semibold">{arc.name}</h3>
-                    <div className="flex gap-2">
-                      <span className="badge badge-primary badge-sm">
-                        {arcStoryletCounts[arc.id] || 0} storylets
-                      </span>
-                      {arc.estimatedLength && (
-                        <span className="badge badge-secondary badge-sm">
-                          ~{arc.estimatedLength}min
+          filteredArcs.map(arc => {
+            const progress = arcProgress[arc.id];
+            const status = getArcStatus(arc, arcProgress);
+            const completion = Math.round(getArcCompletion(arc, progress, storylets) * 100);
+
+            return (
+              <Card key={arc.id} className="p-4">
+                <div className="flex justify-between items-start">
+                  <div className="flex-1">
+                    <div className="flex items-center gap-3 mb-2">
+                      <h3 className="text-lg font-semibold">{arc.name}</h3>
+                      <div className="flex gap-2">
+                        <span className={`badge badge-sm ${ARC_STATUS_BADGES[status]}`}>
+                          {ARC_STATUS_LABELS[status]}
                         </span>
-                      )}
-                    </div>
-                  </div>
-                  
-                  <p className="text-base-content/80 mb-3">{arc.description}</p>
-                  
-                  {arc.tags && arc.tags.length > 0 && (
-                    <div className="flex flex-wrap gap-2 mb-3">
-                      {arc.tags.map(tag => (
-                        <span key={tag} className="badge badge-ghost badge-sm">
-                          {tag}
+                        <span className="badge badge-primary badge-sm">
+                          {arcStoryletCounts[arc.id] || 0} storylets
                         </span>
-                      ))}
+                        {arc.estimatedLength && (
+                          <span className="badge badge-secondary badge-sm">
+                            ~{arc.estimatedLength}min
+                          </span>
+                        )}
+                      </div>
                     </div>
-                  )}
+                    
+                    <p className="text-base-content/80 mb-3">{arc.description}</p>
+                    
+                    {arc.tags && arc.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-2 mb-3">
+                        {arc.tags.map(tag => (
+                          <span key={tag} className="badge badge-ghost badge-sm">
+                            {tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    
+                    {arc.prerequisites && arc.prerequisites.length > 0 && (
+                      <div className="text-sm text-base-content/60">
+                        <strong>Prerequisites:</strong> {arc.prerequisites.map(getArcName).join(', ')}
+                      </div>
+                    )}
+
+                    {/* Live progress in the current save */}
+                    {progress && (
+                      <div className="mt-3 space-y-1 text-sm">
+                        <div className="flex items-center gap-2">
+                          <progress
+                            className={`progress w-40 ${progress.isCompleted ? 'progress-success' : 'progress-info'}`}
+                            value={completion}
+                            max="100"
+                          ></progress>
+                          <span className="text-base-content/70">{completion}%</span>
+                        </div>
+                        <div className="text-base-content/60">
+                          {progress.currentStoryletId && (
+                            <span><strong>Current:</strong> {getStoryletTitle(progress.currentStoryletId)} · </span>
+                          )}
+                          {progress.completedStorylets.length} storylets finished · {progress.discoveredClues.length} clues found
+                          {progress.steps ? ` · ${progress.steps} steps` : ''}
+                        </div>
+                        <div className="text-xs text-base-content/50">
+                          Started {new Date(progress.startedAt).toLocaleString()}
+                          {progress.completedAt && ` · Completed ${new Date(progress.completedAt).toLocaleString()}`}
+                        </div>
+                      </div>
+                    )}
+                  </div>
                   
-                  {arc.prerequisites && arc.prerequisites.length > 0 && (
-                    <div className="text-sm text-base-content/60">
-                      <strong>Prerequisites:</strong> {arc.prerequisites.join(', ')}
-                    </div>
-                  )}
-                </div>
-                
-                <div className="flex gap-2">
-                  <button
-                    onClick={() => handleVisualEdit(arc.id)}
-                    className="btn btn-sm btn-secondary"
-                    title="Visual Editor"
-                  >
-                    🎨 Visual
-                  </button>
-                  <button
-                    onClick={() => handleOpenModal(arc)}
-                    className="btn btn-sm btn-ghost"
-                    title="Edit Arc"
-                  >
-                    ✏️
-                  </button>
-                  <button
-                    onClick={() => handleDelete(arc.id)}
-                    className="btn btn-sm btn-error btn-ghost"
-                    title="Delete Arc"
-                  >
-                    🗑️
-                  </button>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => handleVisualEdit(arc.id)}
+                      className="btn btn-sm btn-secondary"
+                      title="Visual Editor"
+                    >
+                      🎨 Visual
+                    </button>
+                    <button
+                      onClick={() => handleOpenModal(arc)}
+                      className="btn btn-sm btn-ghost"
+                      title="Edit Arc"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      onClick={() => handleDelete(arc.id)}
+                      className="btn btn-sm btn-error btn-ghost"
+                      title="Delete Arc"
+                    >
+                      🗑️
+                    </button>
+                  </div>
                 </div>
-              </div>
-            </Card>
-          ))
+              </Card>
+            );
+          })
         )}
       </div>
 
@@ -291,6 +350,49 @@ export const ArcManager: React.FC<ArcManagerProps> = ({
             placeholder="mystery, investigation, main-story..."
           />
 
+          {arcs.some(arc => arc.id !== editingArc) && (
+            <div>
+              <label className="label">
+                <span className="label-text">Prerequisite Arcs</span>
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {arcs.filter(arc => arc.id !== editingArc).map(arc => (
+                  <label key={arc.id} className="label cursor-pointer gap-2">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={formData.prerequisites.includes(arc.id)}
+                      onChange={() => toggleFormList('prerequisites', arc.id)}
+                    />
+                    <span className="label-text">{arc.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {editingArc && arcStoryletCounts[editingArc] > 0 && (
+            <div>
+              <label className="label">
+                <span className="label-text">End Storylets</span>
+                <span className="label-text-alt">None selected: storylets without choices end the arc</span>
+              </label>
+              <div className="flex flex-wrap gap-3">
+                {storylets.filter(storylet => storylet.storyArc === editingArc).map(storylet => (
+                  <label key={storylet.id} className="label cursor-pointer gap-2">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-sm"
+                      checked={formData.endStoryletIds.includes(storylet.id)}
+                      onChange={() => toggleFormList('endStoryletIds', storylet.id)}
+                    />
+                    <span className="label-text">{storylet.title}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="flex justify-end gap-3 pt-4">
             <button 
               type="button" 
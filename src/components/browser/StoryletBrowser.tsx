@@ -3,6 +3,10 @@ import { Card } from '../common/Card';
 import { Input } from '../forms/Input';
 import { Select } from '../forms/Select';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { releaseManager } from '../../systems/ReleaseManager';
+import type { ReleaseStatus } from '../../types/release';
+import type { ValidationError } from '../../types/storylet';
+import { getNextStatus } from '../../utils/release';
 
 interface StoryletBrowserProps {
   onEdit?: (storyletId: string) => void;
@@ -24,6 +28,7 @@ export const StoryletBrowser: React.FC<StoryletBrowserProps> = ({
   const [sortBy, setSortBy] = useState<SortBy>('updatedAt');
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [selectedTag, setSelectedTag] = useState('all');
+  const [blockedPromotion, setBlockedPromotion] = useState<{ title: string; to: ReleaseStatus; errors: ValidationError[] } | null>(null);
 
   const { storylets, arcs, deleteStorylet } = useNarrativeStore();
 
@@ -102,6 +107,15 @@ export const StoryletBrowser: React.FC<StoryletBrowserProps> = ({
     }
   }, [deleteStorylet, onDelete]);
 
+  const handlePromote = useCallback(async (storyletId: string, title: string, to: ReleaseStatus) => {
+    try {
+      const { changed, check } = await releaseManager.changeStatus(storyletId, to);
+      setBlockedPromotion(changed ? null : { title, to, errors: check.errors });
+    } catch (error) {
+      console.error('Failed to promote storylet:', error);
+    }
+  }, []);
+
   const getStatusBadge = (status: string) => {
     const statusStyles = {
       dev: 'badge-warning',
@@ -203,6 +217,22 @@ export const StoryletBrowser: React.FC<StoryletBrowserProps> = ({
         </div>
       </Card>
 
+      {blockedPromotion && (
+        <div className="alert alert-error">
+          <div>
+            <p className="font-semibold">"{blockedPromotion.title}" can't move to {blockedPromotion.to} yet:</p>
+            <ul className="list-disc list-inside text-sm">
+              {blockedPromotion.errors.map((error, index) => (
+                <li key={index}>{error.message}</li>
+              ))}
+            </ul>
+          </div>
+          <button onClick={() => setBlockedPromotion(null)} className="btn btn-ghost btn-xs">
+            Dismiss
+          </button>
+        </div>
+      )}
+
       {/* Results */}
       {filteredStorylets.length === 0 ? (
         <Card className="p-8 text-center">
@@ -283,6 +313,14 @@ export const StoryletBrowser: React.FC<StoryletBrowserProps> = ({
 
                 {/* Actions */}
                 <div className="flex justify-end gap-2 pt-2 border-t border-base-300">
+                  {getNextStatus(storylet.status) && (
+                    <button
+                      onClick={() => handlePromote(storylet.id, storylet.title, getNextStatus(storylet.status)!)}
+                      className="btn btn-outline btn-sm"
+                    >
+                      Promote to {getNextStatus(storylet.status)}
+                    </button>
+                  )}
                   {onEdit && (
                     <button 
                       onClick={() => onEdit(storylet.id)}
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import type { CalendarConfig, DayPeriod } from '../../types/calendar';
+import { formatClockTime, formatGameTime, parseClockTime, validateCalendar } from '../../utils/calendar';
+
+/**
+ * Show the current game date and edit the calendar used to display it
+ */
+export const CalendarSettings: React.FC = () => {
+  const { calendar, saveCalendar } = useNarrativeStore();
+  const gameTime = useCoreGameStore(state => state.gameTime);
+  const [draft, setDraft] = useState<CalendarConfig | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updatePeriod = (index: number, updates: Partial<DayPeriod>) => {
+    setDraft(prev => prev && {
+      ...prev,
+      periods: prev.periods.map((period, i) => i === index ? { ...period, ...updates } : period)
+    });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationErrors = validateCalendar(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    try {
+      await saveCalendar({ ...draft, periods: [...draft.periods].sort((a, b) => a.startMinute - b.startMinute) });
+      setDraft(null);
+    } catch {
+      setErrors(['Failed to save calendar']);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="space-y-2">
+        <p className="text-lg font-semibold">{formatGameTime(gameTime, calendar)}</p>
+        <p className="text-sm text-base-content/70">
+          {calendar.minutesPerDay} minutes per day · {calendar.periods.map(p => `${p.name} ${formatClockTime(p.startMinute)}`).join(', ')}
+        </p>
+        <button onClick={() => setDraft(calendar)} className="btn btn-outline btn-sm">
+          Edit Calendar
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <Input
+          type="number"
+          label="Minutes per Day"
+          value={draft.minutesPerDay.toString()}
+          onChange={(e) => setDraft({ ...draft, minutesPerDay: parseInt(e.target.value) || 0 })}
+          min="1"
+        />
+        <Input
+          type="number"
+          label="Starting Day"
+          value={draft.startDay.toString()}
+          onChange={(e) => setDraft({ ...draft, startDay: parseInt(e.target.value) || 1 })}
+        />
+        <Input
+          label="Starting Time (HH:MM)"
+          defaultValue={formatClockTime(draft.startMinuteOfDay)}
+          onChange={(e) => {
+            const minute = parseClockTime(e.target.value);
+            if (minute !== undefined) setDraft({ ...draft, startMinuteOfDay: minute });
+          }}
+        />
+        <Select
+          label="Starting Weekday"
+          value={draft.startWeekday.toString()}
+          onChange={(e) => setDraft({ ...draft, startWeekday: parseInt(e.target.value) })}
+          options={draft.weekdays.map((weekday, index) => ({ value: index.toString(), label: weekday }))}
+        />
+      </div>
+
+      <Input
+        label="Weekdays (comma-separated)"
+        defaultValue={draft.weekdays.join(', ')}
+        onChange={(e) => setDraft({ ...draft, weekdays: e.target.value.split(',').map(day => day.trim()).filter(Boolean) })}
+      />
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Periods of the Day</p>
+        {draft.periods.map((period, index) => (
+          <div key={index} className="grid grid-cols-4 gap-2 items-end">
+            <Input
+              label="Id"
+              value={period.id}
+              onChange={(e) => updatePeriod(index, { id: e.target.value })}
+            />
+            <Input
+              label="Name"
+              value={period.name}
+              onChange={(e) => updatePeriod(index, { name: e.target.value })}
+            />
+            <Input
+              label="Starts (HH:MM)"
+              defaultValue={formatClockTime(period.startMinute)}
+              onChange={(e) => {
+                const minute = parseClockTime(e.target.value);
+                if (minute !== undefined) updatePeriod(index, { startMinute: minute });
+              }}
+            />
+            <button
+              onClick={() => setDraft({ ...draft, periods: draft.periods.filter((_, i) => i !== index) })}
+              className="btn btn-error btn-sm"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setDraft({ ...draft, periods: [...draft.periods, { id: '', name: '', startMinute: 0 }] })}
+          className="btn btn-ghost btn-sm"
+        >
+          Add Period
+        </button>
+      </div>
+
+      {errors.map(error => (
+        <div key={error} className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      ))}
+
+      <div className="flex gap-2 justify-end">
+        <button onClick={() => { setDraft(null); setErrors([]); }} className="btn btn-ghost btn-sm">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="btn btn-primary btn-sm">
+          Save Calendar
+        </button>
+      </div>
+    </div>
+  );
+};
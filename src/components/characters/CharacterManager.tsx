@@ -6,6 +6,7 @@ import { Select } from '../forms/Select';
 import { Modal } from '../common/Modal';
 import { useCharacterStore } from '../../stores/useCharacterStore';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { RevisionHistory } from '../revisions/RevisionHistory';
 import type { Character, CharacterFormData } from '../../types/character';
 
 interface CharacterManagerProps {
@@ -563,6 +564,22 @@ export const CharacterManager: React.FC<CharacterManagerProps> = ({
             placeholder="mysterious, detective, friendly"
           />
 
+          {editingCharacter && (
+            <details className="collapse collapse-arrow bg-base-200">
+              <summary className="collapse-title text-sm font-medium">Revision History</summary>
+              <div className="collapse-content">
+                <RevisionHistory
+                  entityType="character"
+                  entityId={editingCharacter}
+                  onRestore={async (fields) => {
+                    await updateCharacter(editingCharacter, fields as Partial<CharacterFormData>);
+                    setFormData(prev => ({ ...prev, ...fields }));
+                  }}
+                />
+              </div>
+            </details>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-2 pt-4 border-t">
             <button 
@@ -10,6 +10,7 @@ import { useMinigameStore } from '../../stores/useMinigameStore';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
 import type { Clue, ClueFormData, MinigameConfig } from '../../types/clue';
 import { MinigameContainer } from '../minigames/MinigameContainer';
+import { RevisionHistory } from '../revisions/RevisionHistory';
 import { createSampleMinigameClue } from '../../utils/createSampleMinigameClue';
 import { MEMORY_CARD_GAME, NARRATIVE_WEIGHT } from '../../constants/game';
 import { databaseHelpers } from '../../db/database';
@@ -1002,6 +1003,22 @@ export const ClueManager: React.FC<ClueManagerProps> = ({
             )}
           </div>
 
+          {editingClue && (
+            <details className="collapse collapse-arrow bg-base-200">
+              <summary className="collapse-title text-sm font-medium">Revision History</summary>
+              <div className="collapse-content">
+                <RevisionHistory
+                  entityType="clue"
+                  entityId={editingClue}
+                  onRestore={async (fields) => {
+                    await updateClue(editingClue, fields as Partial<ClueFormData>);
+                    setFormData(prev => ({ ...prev, ...fields }));
+                  }}
+                />
+              </div>
+            </details>
+          )}
+
           {/* Action Buttons */}
           <div className="flex justify-end gap-2 pt-4 border-t">
             <button 
@@ -5,6 +5,7 @@ import { useLoadingState } from '../../hooks/useLoadingState';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
 import { useCharacterStore } from '../../stores/useCharacterStore';
 import { useClueStore } from '../../stores/useClueStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
 import { DataExporter, DataImporter, type ImportResult, type ExportData } from '../../utils/dataExport';
 import { validateFileUpload, importRateLimiter, exportRateLimiter } from '../../utils/sanitization';
 import { useAsyncOperationManager } from '../../utils/asyncManager';
@@ -14,6 +15,7 @@ interface ExportOptions {
   includeStorylets: boolean;
   includeArcs: boolean;
   includeClues: boolean;
+  includeItems: boolean;
   includeCharacters: boolean;
   exportFormat: 'json' | 'backup';
   description: string;
@@ -23,6 +25,7 @@ export const DataManager: React.FC = () => {
   const { storylets, arcs, addStorylet, addStoryArc } = useNarrativeStore();
   const { characters } = useCharacterStore();
   const { clues, addClue } = useClueStore();
+  const { itemDefinitions, saveItemDefinitions } = useCoreGameStore();
   const asyncManager = useAsyncOperationManager();
   
   // Loading state management
@@ -40,6 +43,7 @@ export const DataManager: React.FC = () => {
     includeStorylets: true,
     includeArcs: true,
     includeClues: true,
+    includeItems: true,
     includeCharacters: false, // Not implemented yet
     exportFormat: 'json',
     description: ''
@@ -63,6 +67,7 @@ export const DataManager: React.FC = () => {
       const selectedStorylets = exportOptions.includeStorylets ? storylets : [];
       const selectedArcs = exportOptions.includeArcs ? arcs : [];
       const selectedClues = exportOptions.includeClues ? clues : [];
+      const selectedItems = exportOptions.includeItems ? itemDefinitions : [];
 
       // Ensure storylets have required fields
       const normalizedStorylets = selectedStorylets.map(s => ({
@@ -79,6 +84,7 @@ export const DataManager: React.FC = () => {
           normalizedStorylets, 
           selectedArcs, 
           selectedClues, 
+          selectedItems,
           { description: exportOptions.description || undefined }
         );
         filename = DataExporter.generateFilename('v13n_complete_export');
@@ -103,6 +109,13 @@ export const DataManager: React.FC = () => {
           { description: exportOptions.description || undefined }
         );
         filename = DataExporter.generateFilename('v13n_clues_export');
+      } else if (exportOptions.includeItems && selectedItems.length > 0) {
+        // Export only the item catalog
+        exportData = DataExporter.exportItems(
+          selectedItems, 
+          { description: exportOptions.description || undefined }
+        );
+        filename = DataExporter.generateFilename('v13n_items_export');
       } else {
         alert('Please select at least one data type to export');
         return;
@@ -110,7 +123,7 @@ export const DataManager: React.FC = () => {
 
       DataExporter.downloadAsFile(exportData, filename);
     }, 'export-data', 'data-export', 'Preparing export...');
-  }, [exportOptions, storylets, arcs, clues, withLoading]);
+  }, [exportOptions, storylets, arcs, clues, itemDefinitions, withLoading]);
 
   const handleFileSelect = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -167,7 +180,7 @@ export const DataManager: React.FC = () => {
       const result = await withProgressLoading(async (updateProgress) => {
         updateProgress(10, 'Processing import data...');
         
-        const { storylets: importedStorylets, arcs: importedArcs, clues: importedClues, errors } = 
+        const { storylets: importedStorylets, arcs: importedArcs, clues: importedClues, items: importedItems, errors } = 
           DataImporter.processImportData(importPreview);
 
         if (errors.length > 0) {
@@ -244,12 +257,22 @@ export const DataManager: React.FC = () => {
         // Wait for all imports to complete
         await Promise.all([...storyletPromises, ...arcPromises, ...cluePromises]);
 
+        // Merge items into the catalog, imported definitions replacing ones with the same id
+        if (importedItems.length > 0) {
+          const importedIds = new Set(importedItems.map(item => item.id));
+          await saveItemDefinitions([
+            ...itemDefinitions.filter(item => !importedIds.has(item.id)),
+            ...importedItems
+          ]);
+        }
+
         const result: ImportResult = {
           success: true,
           imported: {
             storylets: importedStorylets.length,
             arcs: importedArcs.length,
-            clues: importedClues.length
+            clues: importedClues.length,
+            items: importedItems.length
           },
           errors: [],
           warnings: []
@@ -272,7 +295,7 @@ export const DataManager: React.FC = () => {
     } catch (error) {
       setImportErrors([`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`]);
     }
-  }, [importPreview, addStorylet, addStoryArc, addClue, withProgressLoading]);
+  }, [importPreview, addStorylet, addStoryArc, addClue, itemDefinitions, saveItemDefinitions, withProgressLoading]);
 
   const handleCancelImport = useCallback(() => {
     setImportPreview(null);
@@ -290,7 +313,8 @@ export const DataManager: React.FC = () => {
         imported: {
           storylets: result.storyletIds.length,
           arcs: 1,
-          clues: 0
+          clues: 0,
+          items: 0
         },
         errors: [],
         warnings: []
@@ -306,7 +330,8 @@ export const DataManager: React.FC = () => {
         imported: {
           storylets: 1,
           arcs: 0,
-          clues: 0
+          clues: 0,
+          items: 0
         },
         errors: [],
         warnings: []
@@ -390,6 +415,18 @@ export const DataManager: React.FC = () => {
               </span>
             </label>
 
+            <label className="label cursor-pointer">
+              <input
+                type="checkbox"
+                className="checkbox"
+                checked={exportOptions.includeItems}
+                onChange={(e) => setExportOptions(prev => ({ ...prev, includeItems: e.target.checked }))}
+              />
+              <span className="label-text ml-2">
+                Items ({itemDefinitions.length})
+              </span>
+            </label>
+
             <label className="label cursor-pointer">
               <input
                 type="checkbox"
@@ -421,7 +458,7 @@ export const DataManager: React.FC = () => {
             isLoading={isLoadingOperation('export-data')}
             loadingText="Exporting..."
             onClick={handleExport}
-            disabled={!exportOptions.includeStorylets && !exportOptions.includeArcs && !exportOptions.includeClues}
+            disabled={!exportOptions.includeStorylets && !exportOptions.includeArcs && !exportOptions.includeClues && !exportOptions.includeItems}
             className="btn-primary"
           >
             📥 Export Selected Data
@@ -476,7 +513,7 @@ export const DataManager: React.FC = () => {
                   <div>
                     <h3 className="font-bold">Import Successful!</h3>
                     <p>
-                      Imported: {importResult.imported.storylets} storylets, {importResult.imported.arcs} arcs, {importResult.imported.clues} clues
+                      Imported: {importResult.imported.storylets} storylets, {importResult.imported.arcs} arcs, {importResult.imported.clues} clues, {importResult.imported.items} items
                     </p>
                   </div>
                 </div>
@@ -486,7 +523,7 @@ export const DataManager: React.FC = () => {
             <div className="space-y-4">
               <div className="bg-base-200 p-4 rounded-lg">
                 <h3 className="font-bold mb-2">Import Preview</h3>
-                <div className="grid grid-cols-3 gap-4 text-sm">
+                <div className="grid grid-cols-4 gap-4 text-sm">
                   <div>
                     <span className="font-medium">Storylets:</span>
                     <span className="ml-2">{importPreview.data.storylets?.length || 0}</span>
@@ -499,6 +536,10 @@ export const DataManager: React.FC = () => {
                     <span className="font-medium">Clues:</span>
                     <span className="ml-2">{importPreview.data.clues?.length || 0}</span>
                   </div>
+                  <div>
+                    <span className="font-medium">Items:</span>
+                    <span className="ml-2">{importPreview.data.items?.length || 0}</span>
+                  </div>
                 </div>
                 
                 {importPreview.metadata.description && (
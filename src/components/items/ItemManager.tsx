@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Input } from '../forms/Input';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import type { ItemDefinition } from '../../types/item';
+import { formatItemLabel, validateItemDefinitions } from '../../utils/items';
+
+/**
+ * Show what the player is carrying and edit the project's item catalog
+ */
+export const ItemManager: React.FC = () => {
+  const { inventory, itemDefinitions, saveItemDefinitions } = useCoreGameStore();
+  const [draft, setDraft] = useState<ItemDefinition[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateDefinition = (index: number, updates: Partial<ItemDefinition>) => {
+    setDraft(prev => prev && prev.map((definition, i) => i === index ? { ...definition, ...updates } : definition));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationErrors = validateItemDefinitions(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    try {
+      await saveItemDefinitions(draft);
+      setDraft(null);
+    } catch {
+      setErrors(['Failed to save items']);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="space-y-2">
+        {itemDefinitions.length === 0 && (
+          <p className="text-sm text-base-content/60">No items defined yet.</p>
+        )}
+        {itemDefinitions.map(definition => (
+          <div key={definition.id} className="flex justify-between">
+            <span title={definition.description}>{formatItemLabel(definition, definition.id)}</span>
+            <span className="font-semibold">{inventory[definition.id] ?? 0}</span>
+          </div>
+        ))}
+        <button onClick={() => setDraft(itemDefinitions)} className="btn btn-outline btn-sm">
+          Edit Items
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {draft.map((definition, index) => (
+        <div key={index} className="bg-base-200 p-3 rounded space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              label="Id"
+              value={definition.id}
+              onChange={(e) => updateDefinition(index, { id: e.target.value })}
+            />
+            <Input
+              label="Name"
+              value={definition.name}
+              onChange={(e) => updateDefinition(index, { name: e.target.value })}
+            />
+          </div>
+          <Input
+            label="Description"
+            value={definition.description}
+            onChange={(e) => updateDefinition(index, { description: e.target.value })}
+          />
+          <Input
+            label="Tags (comma-separated)"
+            value={definition.tags.join(', ')}
+            onChange={(e) => updateDefinition(index, { tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean) })}
+          />
+          <div className="flex justify-between items-center">
+            <label className="label cursor-pointer gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={definition.stackable}
+                onChange={(e) => updateDefinition(index, { stackable: e.target.checked })}
+              />
+              <span className="label-text">Stackable</span>
+            </label>
+            <button
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              className="btn btn-error btn-sm"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setDraft([...draft, { id: '', name: '', description: '', stackable: false, tags: [] }])}
+        className="btn btn-ghost btn-sm"
+      >
+        Add Item
+      </button>
+
+      {errors.map(error => (
+        <div key={error} className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      ))}
+
+      <div className="flex gap-2 justify-end">
+        <button onClick={() => { setDraft(null); setErrors([]); }} className="btn btn-ghost btn-sm">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="btn btn-primary btn-sm">
+          Save Items
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Select } from '../forms/Select';
+import type { ItemDefinition } from '../../types/item';
+import { formatItemLabel } from '../../utils/items';
+
+interface ItemSelectProps {
+  label: string;
+  value: string;
+  items: ItemDefinition[];
+  onChange: (id: string) => void;
+}
+
+/**
+ * Pick an item from the project's item catalog
+ */
+export const ItemSelect: React.FC<ItemSelectProps> = ({ label, value, items, onChange }) => (
+  <Select
+    label={label}
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    options={items.map(item => ({ value: item.id, label: formatItemLabel(item, item.id) }))}
+  />
+);
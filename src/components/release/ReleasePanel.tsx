@@ -0,0 +1,119 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Input } from '../forms/Input';
+import { releaseManager } from '../../systems/ReleaseManager';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { DataExporter } from '../../utils/dataExport';
+import type { Promotion, Release } from '../../types/release';
+import type { ValidationError } from '../../types/storylet';
+
+const CHANGELOG_LENGTH = 20;
+
+/**
+ * Publish the live content as a release, download published releases, and
+ * review recent status changes
+ */
+export const ReleasePanel: React.FC = () => {
+  const storylets = useNarrativeStore(state => state.storylets);
+  const [releases, setReleases] = useState<Release[]>([]);
+  const [changelog, setChangelog] = useState<Promotion[]>([]);
+  const [note, setNote] = useState('');
+  const [blockers, setBlockers] = useState<ValidationError[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const liveCount = useMemo(() => storylets.filter(storylet => storylet.status === 'live').length, [storylets]);
+
+  // Status changes made from the browser or editor update the storylets, so re-read with them
+  const refresh = useCallback(async () => {
+    try {
+      const [published, promotions] = await Promise.all([releaseManager.listReleases(), releaseManager.getChangelog()]);
+      setReleases(published);
+      setChangelog(promotions.slice(0, CHANGELOG_LENGTH));
+    } catch {
+      setError('Failed to read the release history');
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, storylets]);
+
+  const handlePublish = async () => {
+    try {
+      setError(null);
+      const { release, check } = await releaseManager.publish(note);
+      setBlockers(check.errors);
+      if (release) {
+        setNote('');
+        await refresh();
+      }
+    } catch {
+      setError('Failed to publish the release');
+    }
+  };
+
+  const handleDownload = (release: Release) => {
+    DataExporter.downloadAsFile(releaseManager.exportRelease(release), `release_${release.number}.json`);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <p className="text-sm text-base-content/70">{liveCount} live storylets will be published.</p>
+        <Input label="Release note" value={note} onChange={(e) => setNote(e.target.value)} placeholder="What changed" />
+        <button onClick={handlePublish} className="btn btn-primary btn-sm" disabled={liveCount === 0}>
+          Publish
+        </button>
+      </div>
+
+      {blockers.length > 0 && (
+        <div className="alert alert-error">
+          <div>
+            <p className="font-semibold">Fix these before publishing:</p>
+            <ul className="list-disc list-inside text-sm">
+              {blockers.map((blocker, index) => (
+                <li key={index}>{blocker.message}</li>
+              ))}
+            </ul>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="font-semibold text-sm">Releases</h4>
+        {releases.length === 0 && <p className="text-xs text-base-content/60">Nothing published yet.</p>}
+        {releases.map(release => (
+          <div key={release.id} className="flex justify-between items-center gap-2">
+            <div>
+              <span className="font-semibold">Release {release.number}</span>
+              <div className="text-xs text-base-content/60">
+                {new Date(release.publishedAt).toLocaleString()} · {release.author} · {release.snapshot.storylets.length} storylets
+                {release.note && ` · ${release.note}`}
+              </div>
+            </div>
+            <button onClick={() => handleDownload(release)} className="btn btn-outline btn-xs">
+              Download
+            </button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <h4 className="font-semibold text-sm">Changelog</h4>
+        {changelog.length === 0 && <p className="text-xs text-base-content/60">No status changes yet.</p>}
+        {changelog.map(promotion => (
+          <div key={promotion.id} className="text-xs">
+            <span className="font-semibold">{promotion.storyletTitle}</span>: {promotion.from} → {promotion.to}
+            <span className="text-base-content/60"> · {new Date(promotion.promotedAt).toLocaleString()} · {promotion.author}</span>
+            {promotion.note && <span className="text-base-content/60"> · {promotion.note}</span>}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
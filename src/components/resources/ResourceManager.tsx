@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Input } from '../forms/Input';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import type { ResourceDefinition } from '../../types/resource';
+import { formatResourceLabel, validateResourceDefinitions } from '../../utils/resources';
+
+const parseBound = (text: string): number | undefined => {
+  const value = parseFloat(text);
+  return Number.isNaN(value) ? undefined : value;
+};
+
+/**
+ * Show current resource values and edit the project's resource registry
+ */
+export const ResourceManager: React.FC = () => {
+  const { resources, resourceDefinitions, saveResourceDefinitions } = useCoreGameStore();
+  const [draft, setDraft] = useState<ResourceDefinition[] | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateDefinition = (index: number, updates: Partial<ResourceDefinition>) => {
+    setDraft(prev => prev && prev.map((definition, i) => i === index ? { ...definition, ...updates } : definition));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    const validationErrors = validateResourceDefinitions(draft);
+    setErrors(validationErrors);
+    if (validationErrors.length > 0) return;
+
+    try {
+      await saveResourceDefinitions(draft);
+      setDraft(null);
+    } catch {
+      setErrors(['Failed to save resources']);
+    }
+  };
+
+  if (!draft) {
+    return (
+      <div className="space-y-2">
+        {resourceDefinitions.map(definition => (
+          <div key={definition.id} className="flex justify-between">
+            <span>{formatResourceLabel(definition, definition.id)}</span>
+            <span className="font-semibold">{resources[definition.id] ?? 0}</span>
+          </div>
+        ))}
+        <button onClick={() => setDraft(resourceDefinitions)} className="btn btn-outline btn-sm">
+          Edit Resources
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {draft.map((definition, index) => (
+        <div key={index} className="bg-base-200 p-3 rounded space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              label="Id"
+              value={definition.id}
+              onChange={(e) => updateDefinition(index, { id: e.target.value })}
+            />
+            <Input
+              label="Label"
+              value={definition.label}
+              onChange={(e) => updateDefinition(index, { label: e.target.value })}
+            />
+            <Input
+              label="Icon"
+              value={definition.icon ?? ''}
+              onChange={(e) => updateDefinition(index, { icon: e.target.value || undefined })}
+            />
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <Input
+              type="number"
+              label="Initial"
+              value={definition.initial.toString()}
+              onChange={(e) => updateDefinition(index, { initial: parseFloat(e.target.value) || 0 })}
+            />
+            <Input
+              type="number"
+              label="Minimum"
+              value={definition.min?.toString() ?? ''}
+              onChange={(e) => updateDefinition(index, { min: parseBound(e.target.value) })}
+            />
+            <Input
+              type="number"
+              label="Maximum"
+              value={definition.max?.toString() ?? ''}
+              onChange={(e) => updateDefinition(index, { max: parseBound(e.target.value) })}
+            />
+          </div>
+          <div className="flex justify-between items-center">
+            <label className="label cursor-pointer gap-2">
+              <input
+                type="checkbox"
+                className="checkbox checkbox-sm"
+                checked={definition.allowNegative}
+                onChange={(e) => updateDefinition(index, { allowNegative: e.target.checked })}
+              />
+              <span className="label-text">Allow negative values</span>
+            </label>
+            <button
+              onClick={() => setDraft(draft.filter((_, i) => i !== index))}
+              className="btn btn-error btn-sm"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setDraft([...draft, { id: '', label: '', initial: 0, min: 0, allowNegative: false }])}
+        className="btn btn-ghost btn-sm"
+      >
+        Add Resource
+      </button>
+
+      {errors.map(error => (
+        <div key={error} className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      ))}
+
+      <div className="flex gap-2 justify-end">
+        <button onClick={() => { setDraft(null); setErrors([]); }} className="btn btn-ghost btn-sm">
+          Cancel
+        </button>
+        <button onClick={handleSave} className="btn btn-primary btn-sm">
+          Save Resources
+        </button>
+      </div>
+    </div>
+  );
+};
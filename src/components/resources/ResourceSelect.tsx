@@ -0,0 +1,23 @@
+import React from 'react';
+import { Select } from '../forms/Select';
+import type { ResourceDefinition } from '../../types/resource';
+import { formatResourceLabel } from '../../utils/resources';
+
+interface ResourceSelectProps {
+  label: string;
+  value: string;
+  resources: ResourceDefinition[];
+  onChange: (id: string) => void;
+}
+
+/**
+ * Pick a resource from the project's resource registry
+ */
+export const ResourceSelect: React.FC<ResourceSelectProps> = ({ label, value, resources, onChange }) => (
+  <Select
+    label={label}
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    options={resources.map(resource => ({ value: resource.id, label: formatResourceLabel(resource, resource.id) }))}
+  />
+);
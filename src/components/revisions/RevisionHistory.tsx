@@ -0,0 +1,107 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Select } from '../forms/Select';
+import { useRevisionStore } from '../../stores/useRevisionStore';
+import type { Revision, RevisionEntityType } from '../../types/revision';
+import { diffRecords, formatRevisionValue, getRestorableFields, summarizeRevision } from '../../utils/revisions';
+
+interface RevisionHistoryProps {
+  entityType: RevisionEntityType;
+  entityId: string;
+  // Write the restored fields back through the owning store, which records the restore as a new revision
+  onRestore: (fields: Record<string, unknown>) => Promise<void>;
+}
+
+const formatRevisionLabel = (revision: Revision) =>
+  `#${revision.id} · ${new Date(revision.createdAt).toLocaleString()} · ${revision.author}`;
+
+/**
+ * List the saved revisions of a storylet, clue or character, compare any two and restore one
+ */
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ entityType, entityId, onRestore }) => {
+  const getRevisions = useRevisionStore(state => state.getRevisions);
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [fromId, setFromId] = useState('');
+  const [toId, setToId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const history = await getRevisions(entityType, entityId);
+      setRevisions(history);
+      // Compare the latest revision with the one before it until the user picks others
+      setToId(history[0] ? String(history[0].id) : '');
+      setFromId(history[1] ? String(history[1].id) : '');
+    } catch {
+      setError('Failed to load revisions');
+    }
+  }, [getRevisions, entityType, entityId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const diff = useMemo(() => {
+    const from = revisions.find(revision => String(revision.id) === fromId);
+    const to = revisions.find(revision => String(revision.id) === toId);
+    return from && to ? diffRecords(from.snapshot, to.snapshot) : undefined;
+  }, [revisions, fromId, toId]);
+
+  const handleRestore = async (revision: Revision) => {
+    if (!confirm(`Restore revision #${revision.id}? The current version stays in the history.`)) return;
+    try {
+      setError(null);
+      await onRestore(getRestorableFields(revision));
+      await refresh();
+    } catch {
+      setError(`Failed to restore revision #${revision.id}`);
+    }
+  };
+
+  if (revisions.length === 0) {
+    return <p className="text-sm text-base-content/60">No revisions recorded yet.</p>;
+  }
+
+  const options = revisions.map(revision => ({ value: String(revision.id), label: formatRevisionLabel(revision) }));
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {revisions.map((revision, index) => (
+          <div key={revision.id} className="flex justify-between items-center gap-2 bg-base-200 p-2 rounded">
+            <div>
+              <div className="text-sm font-semibold">{formatRevisionLabel(revision)}</div>
+              <div className="text-xs text-base-content/60">{summarizeRevision(revision)}</div>
+            </div>
+            {index > 0 && (
+              <button onClick={() => handleRestore(revision)} className="btn btn-outline btn-xs">
+                Restore
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Select label="Compare" value={fromId} onChange={(e) => setFromId(e.target.value)} options={options} />
+        <Select label="With" value={toId} onChange={(e) => setToId(e.target.value)} options={options} />
+      </div>
+
+      {diff && diff.length === 0 && (
+        <p className="text-sm text-base-content/60">These revisions are identical.</p>
+      )}
+      {diff && diff.map(change => (
+        <div key={change.field} className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          <div className="col-span-full text-sm font-semibold">{change.field}</div>
+          <pre className="bg-error/10 p-2 rounded text-xs whitespace-pre-wrap">{formatRevisionValue(change.before)}</pre>
+          <pre className="bg-success/10 p-2 rounded text-xs whitespace-pre-wrap">{formatRevisionValue(change.after)}</pre>
+        </div>
+      ))}
+
+      {error && (
+        <div className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '../forms/Input';
+import { useRevisionStore } from '../../stores/useRevisionStore';
+
+/**
+ * Edit the author name recorded on revisions and how many revisions each record keeps
+ */
+export const RevisionSettings: React.FC = () => {
+  const { author, limit, saveRevisionSettings } = useRevisionStore();
+  const [draftAuthor, setDraftAuthor] = useState(author);
+  const [draftLimit, setDraftLimit] = useState(limit);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setDraftAuthor(author);
+    setDraftLimit(limit);
+  }, [author, limit]);
+
+  const handleSave = async () => {
+    if (!Number.isInteger(draftLimit) || draftLimit < 1) {
+      setError('Keep at least one revision per record');
+      return;
+    }
+    try {
+      setError(null);
+      await saveRevisionSettings({ author: draftAuthor.trim(), limit: draftLimit });
+    } catch {
+      setError('Failed to save revision settings');
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Input
+        label="Author"
+        value={draftAuthor}
+        onChange={(e) => setDraftAuthor(e.target.value)}
+        placeholder="Recorded on each revision"
+      />
+      <Input
+        label="Revisions kept per storylet, clue or character"
+        type="number"
+        min={1}
+        value={draftLimit}
+        onChange={(e) => setDraftLimit(parseInt(e.target.value, 10) || 0)}
+      />
+      {error && (
+        <div className="alert alert-error">
+          <span>{error}</span>
+        </div>
+      )}
+      <button onClick={handleSave} className="btn btn-primary btn-sm" disabled={draftAuthor === author && draftLimit === limit}>
+        Save Settings
+      </button>
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React from 'react';
+import type { ScenePosition, ScheduledEvent, StoryVariableValue, UnlockState } from '../../types/storylet';
+import type { Inventory } from '../../types/item';
 
 interface SandboxTestSession {
   id: string;
@@ -7,6 +9,7 @@ interface SandboxTestSession {
   currentState: SandboxGameState;
   history: SandboxAction[];
   isComplete: boolean;
+  seed: number;
 }
 
 interface SandboxGameState {
@@ -16,11 +19,17 @@ interface SandboxGameState {
   relationships: Record<string, number>;
   discoveredClues: string[];
   timeElapsed: number;
+  randomState: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  scene?: ScenePosition; // Page of the current storylet; unset until the first page is turned
 }
 
 interface SandboxAction {
   id: string;
-  type: 'choice_selected' | 'effect_applied' | 'storylet_changed';
+  type: 'choice_selected' | 'effect_applied' | 'storylet_changed' | 'page_turned';
   timestamp: Date;
   data: any;
   description: string;
@@ -67,6 +76,10 @@ export const SandboxControls: React.FC<SandboxControlsProps> = ({
           <div className="text-sm text-base-content/70">
             Completed: {session.currentState.completedStorylets.length} storylets
           </div>
+
+          <div className="text-sm text-base-content/70">
+            Seed: <span className="font-mono">{session.seed}</span>
+          </div>
         </div>
 
         <div className="flex items-center gap-2">
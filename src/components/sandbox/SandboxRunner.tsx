@@ -1,19 +1,40 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Card } from '../common/Card';
-import type { StoryletChoice, StoryletEffect } from '../../types/storylet';
+import type { ScenePosition, ScheduledEvent, StoryletBeat, StoryletBeatChoice, StoryletChoice, StoryletChoiceOutcome, StoryletEffect, StoryletPlayRecord, StoryVariableDefinition, StoryVariableValue, UnlockState } from '../../types/storylet';
+import type { Character } from '../../types/character';
+import type { CalendarConfig } from '../../types/calendar';
+import type { ResourceDefinition } from '../../types/resource';
+import type { Inventory, ItemDefinition } from '../../types/item';
+import { deriveRandomState, nextRandom, rollPercent } from '../../utils/random';
+import { renderStoryletText, type StoryletTextContext } from '../../utils/storyletText';
+import { getEffectTargets, getRelationshipMaxValues, reduceEffects } from '../../utils/effectReducer';
+import { describeOutcomeChances, getOutcomeWeights, pickOutcome } from '../../utils/choiceOutcomes';
+import { isChoiceUnlocked } from '../../utils/storyletUnlocks';
+import { describeSkillCheck, getOutcomesForSkillCheck, rollSkillCheck } from '../../utils/skillChecks';
+import { advanceScene, getBeatChoices, getPageContent, startScene } from '../../utils/storyletBeats';
+import { getDueEvents, MAX_EVENT_DELIVERIES, removeScheduledEvent } from '../../utils/scheduledEvents';
+import { recordPlay } from '../../utils/storyletRepeat';
+import { evaluateTrigger } from '../../utils/storyletConditions';
 
 interface SandboxGameState {
   currentStoryletId: string;
   completedStorylets: string[];
+  storyletPlays: Record<string, StoryletPlayRecord>; // Counts every finished play, unlike completedStorylets
   resources: Record<string, number>;
   relationships: Record<string, number>;
   discoveredClues: string[];
   timeElapsed: number;
+  randomState: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  scene?: ScenePosition; // Page of the current storylet; unset until the first page is turned
 }
 
 interface SandboxAction {
   id: string;
-  type: 'choice_selected' | 'effect_applied' | 'storylet_changed';
+  type: 'choice_selected' | 'effect_applied' | 'storylet_changed' | 'page_turned';
   timestamp: Date;
   data: any;
   description: string;
@@ -24,86 +45,166 @@ interface Storylet {
   title: string;
   description: string;
   content: string;
+  beats?: StoryletBeat[];
   choices: StoryletChoice[];
   effects: StoryletEffect[];
   tags?: string[];
 }
 
+// Random text variants draw from this stream, apart from the choice rolls
+const TEXT_RANDOM_STREAM = 1;
+
 interface SandboxRunnerProps {
   storylet: Storylet;
+  storylets: Storylet[];
+  storyVariables: StoryVariableDefinition[];
   gameState: SandboxGameState;
+  characters: Character[];
+  calendar: CalendarConfig;
+  resourceDefinitions: ResourceDefinition[];
+  itemDefinitions: ItemDefinition[];
   onActionExecuted: (action: SandboxAction, newState: SandboxGameState) => void;
 }
 
 export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
   storylet,
+  storylets,
+  storyVariables,
   gameState,
+  characters,
+  calendar,
+  resourceDefinitions,
+  itemDefinitions,
   onActionExecuted
 }) => {
   const [isProcessing, setIsProcessing] = useState(false);
+  const scene = useMemo(() => gameState.scene ?? startScene(storylet), [gameState.scene, storylet]);
+  const pageChoices = useMemo(() => getBeatChoices(storylet, scene), [storylet, scene]);
+
+  // Render templates once per state so random variants follow the session seed
+  const renderedText = useMemo(() => {
+    let randomState = deriveRandomState(gameState.randomState, TEXT_RANDOM_STREAM);
+    const context: StoryletTextContext = {
+      resources: gameState.resources,
+      variables: gameState.variables,
+      characters,
+      discoveredClues: gameState.discoveredClues,
+      completedStorylets: gameState.completedStorylets,
+      gameTime: gameState.timeElapsed,
+      visitCount: gameState.storyletPlays[storylet.id!]?.count ?? 0,
+      random: () => {
+        const roll = nextRandom(randomState);
+        randomState = roll.state;
+        return roll.value;
+      }
+    };
+
+    return {
+      content: renderStoryletText(getPageContent(storylet, scene), context),
+      choices: Object.fromEntries(storylet.choices.map(choice => [choice.id, renderStoryletText(choice.text, context)])),
+      pageChoices: Object.fromEntries(pageChoices.map(choice => [choice.id, renderStoryletText(choice.text, context)]))
+    };
+  }, [storylet, gameState, characters, scene, pageChoices]);
+
+  // Roll choice probabilities from the session's random state so a seed replays identically
+  const choiceRolls = useMemo(() => {
+    let randomState = gameState.randomState;
+    const failedChoiceIds = new Set<string>();
+
+    const random = () => {
+      const roll = nextRandom(randomState);
+      randomState = roll.state;
+      return roll.value;
+    };
+
+    storylet.choices.forEach(choice => {
+      if (choice.probability !== undefined && choice.probability < 100) {
+        if (random() * 100 >= choice.probability) {
+          failedChoiceIds.add(choice.id);
+        }
+      }
 
-  const applyEffects = useCallback((effects: StoryletEffect[], currentState: SandboxGameState): SandboxGameState => {
-    let newState = { ...currentState };
-
-    effects.forEach(effect => {
-      switch (effect.type) {
-        case 'resource':
-          newState.resources = { ...newState.resources };
-          const currentResource = newState.resources[effect.target] || 0;
-          switch (effect.operator) {
-            case '+':
-              newState.resources[effect.target] = currentResource + (effect.value || 0);
-              break;
-            case '-':
-              newState.resources[effect.target] = currentResource - (effect.value || 0);
-              break;
-            case '=':
-              newState.resources[effect.target] = effect.value || 0;
-              break;
-            case '*':
-              newState.resources[effect.target] = currentResource * (effect.value || 1);
-              break;
-          }
-          break;
-
-        case 'relationship':
-          newState.relationships = { ...newState.relationships };
-          const currentRelationship = newState.relationships[effect.target] || 0;
-          switch (effect.operator) {
-            case '+':
-              newState.relationships[effect.target] = Math.min(100, currentRelationship + (effect.value || 0));
-              break;
-            case '-':
-              newState.relationships[effect.target] = Math.max(-100, currentRelationship - (effect.value || 0));
-              break;
-            case '=':
-              newState.relationships[effect.target] = Math.max(-100, Math.min(100, effect.value || 0));
-              break;
+      // Random and skill check requirements roll here so availability holds steady until the state changes
+      (choice.requirements || []).forEach(req => {
+        if (req.type === 'random' && !rollPercent(random, req.value || 50)) {
+          failedChoiceIds.add(choice.id);
+        }
+        if (req.type === 'skill_check') {
+          const context = { resources: gameState.resources, variables: gameState.variables, characters };
+          if (!req.skillCheck || !rollSkillCheck(req.skillCheck, context, random).success) {
+            failedChoiceIds.add(choice.id);
           }
-          break;
+        }
+      });
+    });
 
-        case 'clue_discovery':
-          if (!newState.discoveredClues.includes(effect.target)) {
-            newState.discoveredClues = [...newState.discoveredClues, effect.target];
-          }
-          break;
+    return { failedChoiceIds, randomState };
+  }, [storylet, gameState.randomState, gameState.resources, gameState.variables, characters]);
 
-        case 'time_advance':
-          newState.timeElapsed += effect.value || 1;
-          break;
+  // Effects go through the same reducer as the real game so the sandbox predicts its results
+  const applyEffects = useCallback((effects: StoryletEffect[], currentState: SandboxGameState): SandboxGameState => {
+    const rules = {
+      resourceDefinitions,
+      itemDefinitions,
+      calendar,
+      relationshipMaxValues: getRelationshipMaxValues(characters),
+      variableDefinitions: storyVariables,
+      ...getEffectTargets(storylets)
+    };
+    let { state } = reduceEffects(
+      {
+        resources: currentState.resources,
+        relationships: currentState.relationships,
+        discoveredClues: currentState.discoveredClues,
+        gameTime: currentState.timeElapsed,
+        variables: currentState.variables,
+        unlocks: currentState.unlocks,
+        inventory: currentState.inventory,
+        scheduledEvents: currentState.scheduledEvents
+      },
+      effects,
+      rules
+    );
+
+    // Scheduled effects that came due apply straight away, as in the engine; scheduled storylets wait for the storylet to end
+    for (let i = 0; i < MAX_EVENT_DELIVERIES; i++) {
+      const event = getDueEvents(state.scheduledEvents, state.gameTime).find(due => !due.storyletId);
+      if (!event) break;
+      state = reduceEffects({ ...state, scheduledEvents: removeScheduledEvent(state.scheduledEvents, event.id) }, event.effects, rules).state;
+    }
 
-        case 'storylet_unlock':
-          // In a real game, this would unlock storylets for future play
-          break;
+    return {
+      ...currentState,
+      resources: state.resources,
+      relationships: state.relationships,
+      discoveredClues: state.discoveredClues,
+      timeElapsed: state.gameTime,
+      variables: state.variables,
+      unlocks: state.unlocks,
+      inventory: state.inventory,
+      scheduledEvents: state.scheduledEvents
+    };
+  }, [calendar, resourceDefinitions, itemDefinitions, characters, storyVariables, storylets]);
+
+  // Pages and their inline choices stay within the storylet
+  const turnPage = useCallback((pageChoice?: StoryletBeatChoice) => {
+    if (isProcessing) return;
 
-        case 'arc_progress':
-          // In a real game, this would advance arc progress
-          break;
-      }
-    });
+    try {
+      const { position, effects } = advanceScene(storylet, scene, pageChoice?.id);
+      const newState = { ...applyEffects(effects, gameState), scene: position };
 
-    return newState;
-  }, []);
+      onActionExecuted({
+        id: crypto.randomUUID(),
+        type: 'page_turned',
+        timestamp: new Date(),
+        data: { beatChoiceId: pageChoice?.id, beatId: position.beatId, effects },
+        description: pageChoice ? `Chose "${pageChoice.text}" on the page` : 'Continued to the next page'
+      }, newState);
+    } catch (error) {
+      console.error('Error turning page:', error);
+    }
+  }, [isProcessing, storylet, scene, gameState, applyEffects, onActionExecuted]);
 
   const executeChoice = useCallback(async (choice: StoryletChoice) => {
     if (isProcessing) return;
@@ -111,17 +212,38 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
     setIsProcessing(true);
 
     try {
+      // Roll the skill check and a weighted outcome the same way the engine does, from the session's random state
+      let randomState = choiceRolls.randomState;
+      const random = () => {
+        const roll = nextRandom(randomState);
+        randomState = roll.state;
+        return roll.value;
+      };
+      const context = { resources: gameState.resources, variables: gameState.variables, characters };
+      const skillCheck = choice.skillCheck ? rollSkillCheck(choice.skillCheck, context, random) : undefined;
+      const outcomes = choice.outcomes && skillCheck
+        ? getOutcomesForSkillCheck(choice.outcomes, skillCheck.success)
+        : choice.outcomes;
+      let outcome: StoryletChoiceOutcome | undefined;
+      if (outcomes && outcomes.length > 0) {
+        outcome = pickOutcome(outcomes, getOutcomeWeights(outcomes, context), random());
+      }
+      const choiceEffects = outcome ? [...choice.effects, ...outcome.effects] : choice.effects;
+      const authoredNextStoryletId = outcome?.nextStoryletId ?? choice.nextStoryletId;
+
       // Create action for choice selection
       const choiceAction: SandboxAction = {
         id: crypto.randomUUID(),
         type: 'choice_selected',
         timestamp: new Date(),
-        data: { choiceId: choice.id, choiceText: choice.text },
+        data: { choiceId: choice.id, choiceText: choice.text, outcomeId: outcome?.id, skillCheck },
         description: `Selected choice: "${choice.text}"`
+          + (skillCheck ? ` (check ${skillCheck.total} vs ${skillCheck.difficulty}: ${skillCheck.success ? 'passed' : 'failed'})` : '')
+          + (outcome ? ` → ${outcome.label}` : '')
       };
 
-      // Apply choice effects
-      let newState = applyEffects(choice.effects, gameState);
+      // Apply choice effects, carrying the advanced random state forward
+      let newState = applyEffects(choiceEffects, { ...gameState, randomState });
 
       // Apply storylet effects
       newState = applyEffects(storylet.effects, newState);
@@ -130,6 +252,19 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
       if (!newState.completedStorylets.includes(storylet.id!)) {
         newState.completedStorylets = [...newState.completedStorylets, storylet.id!];
       }
+      newState.storyletPlays = {
+        ...newState.storyletPlays,
+        [storylet.id!]: recordPlay(newState.storyletPlays[storylet.id!], newState.timeElapsed)
+      };
+
+      // A due scheduled storylet plays next when the choice leads nowhere
+      const dueStorylet = authoredNextStoryletId
+        ? undefined
+        : getDueEvents(newState.scheduledEvents, newState.timeElapsed).find(due => due.storyletId);
+      if (dueStorylet) {
+        newState.scheduledEvents = removeScheduledEvent(newState.scheduledEvents, dueStorylet.id);
+      }
+      const nextStoryletId = authoredNextStoryletId ?? dueStorylet?.storyletId;
 
       onActionExecuted(choiceAction, newState);
 
@@ -139,30 +274,31 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
         type: 'effect_applied',
         timestamp: new Date(),
         data: { 
-          choiceEffects: choice.effects,
+          choiceEffects,
           storyletEffects: storylet.effects
         },
-        description: `Applied ${choice.effects.length + storylet.effects.length} effects`
+        description: `Applied ${choiceEffects.length + storylet.effects.length} effects`
       };
 
       onActionExecuted(effectAction, newState);
 
       // Handle next storylet if specified
-      if (choice.nextStoryletId) {
+      if (nextStoryletId) {
         const nextStoryletAction: SandboxAction = {
           id: crypto.randomUUID(),
           type: 'storylet_changed',
           timestamp: new Date(),
           data: { 
             fromStoryletId: storylet.id,
-            toStoryletId: choice.nextStoryletId
+            toStoryletId: nextStoryletId
           },
-          description: `Moved to next storylet: ${choice.nextStoryletId}`
+          description: `Moved to next storylet: ${nextStoryletId}`
         };
 
         const finalState = {
           ...newState,
-          currentStoryletId: choice.nextStoryletId
+          currentStoryletId: nextStoryletId,
+          scene: undefined
         };
 
         onActionExecuted(nextStoryletAction, finalState);
@@ -173,44 +309,26 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
     } finally {
       setIsProcessing(false);
     }
-  }, [isProcessing, gameState, storylet, onActionExecuted, applyEffects]);
+  }, [isProcessing, gameState, storylet, characters, onActionExecuted, applyEffects, choiceRolls]);
 
   const isChoiceAvailable = useCallback((choice: StoryletChoice): boolean => {
+    if (!isChoiceUnlocked(choice, gameState.unlocks)) return false;
+    if (choiceRolls.failedChoiceIds.has(choice.id)) return false;
     if (!choice.requirements) return true;
 
-    return choice.requirements.every(trigger => {
-      switch (trigger.type) {
-        case 'resource':
-          const resourceValue = gameState.resources[trigger.condition] || 0;
-          switch (trigger.operator) {
-            case '>': return resourceValue > (trigger.value || 0);
-            case '<': return resourceValue < (trigger.value || 0);
-            case '=': return resourceValue === (trigger.value || 0);
-            case '>=': return resourceValue >= (trigger.value || 0);
-            case '<=': return resourceValue <= (trigger.value || 0);
-            case '!=': return resourceValue !== (trigger.value || 0);
-            default: return true;
-          }
-        case 'relationship':
-          const relationshipValue = gameState.relationships[trigger.condition] || 0;
-          switch (trigger.operator) {
-            case '>': return relationshipValue > (trigger.value || 0);
-            case '<': return relationshipValue < (trigger.value || 0);
-            case '=': return relationshipValue === (trigger.value || 0);
-            case '>=': return relationshipValue >= (trigger.value || 0);
-            case '<=': return relationshipValue <= (trigger.value || 0);
-            case '!=': return relationshipValue !== (trigger.value || 0);
-            default: return true;
-          }
-        case 'clue':
-          return gameState.discoveredClues.includes(trigger.condition);
-        case 'storylet_completion':
-          return gameState.completedStorylets.includes(trigger.condition);
-        default:
-          return true;
-      }
-    });
-  }, [gameState]);
+    // Same checks as the engine; random and skill check requirements were rolled above
+    const state = {
+      resources: gameState.resources,
+      relationships: gameState.relationships,
+      discoveredClues: gameState.discoveredClues,
+      completedStorylets: gameState.completedStorylets,
+      gameTime: gameState.timeElapsed,
+      variables: gameState.variables,
+      inventory: gameState.inventory,
+      calendar
+    };
+    return choice.requirements.every(trigger => evaluateTrigger(trigger, state, () => true));
+  }, [gameState, choiceRolls, calendar]);
 
   return (
     <Card title="Storylet Player" className="h-full">
@@ -218,8 +336,13 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
         <div className="bg-base-200 p-4 rounded-lg">
           <h3 className="font-bold text-lg mb-2">{storylet.title}</h3>
           <p className="text-base-content/80 mb-3">{storylet.description}</p>
+          {storylet.beats && storylet.beats.length > 0 && (
+            <p className="text-xs text-base-content/60 mb-2">
+              Page {storylet.beats.findIndex(beat => beat.id === scene.beatId) + 2} of {storylet.beats.length + 1}
+            </p>
+          )}
           <div className="prose prose-sm">
-            <p>{storylet.content}</p>
+            <p dangerouslySetInnerHTML={{ __html: renderedText.content }} />
           </div>
         </div>
 
@@ -237,69 +360,108 @@ export const SandboxRunner: React.FC<SandboxRunnerProps> = ({
           </div>
         )}
 
-        <div className="space-y-3 flex-1">
-          <h4 className="font-medium">Choices:</h4>
-          {storylet.choices.map(choice => {
-            const isAvailable = isChoiceAvailable(choice);
-            return (
-              <div 
-                key={choice.id} 
-                className={`border rounded-lg p-3 transition-colors ${
-                  isAvailable 
-                    ? 'border-base-300 hover:border-primary cursor-pointer' 
-                    : 'border-error/30 bg-error/5 cursor-not-allowed'
-                }`}
-                onClick={() => isAvailable && !isProcessing && executeChoice(choice)}
-              >
-                <div className="flex items-start justify-between">
-                  <div className="flex-1">
-                    <p className={`font-medium ${!isAvailable ? 'text-error/70' : ''}`}>
-                      {choice.text}
-                    </p>
-                    {choice.description && (
-                      <p className={`text-sm mt-1 ${!isAvailable ? 'text-error/50' : 'text-base-content/70'}`}>
-                        {choice.description}
-                      </p>
-                    )}
+        {!scene.complete ? (
+          <div className="space-y-3 flex-1">
+            {pageChoices.length > 0 ? (
+              pageChoices.map(choice => (
+                <div
+                  key={choice.id}
+                  className="border border-base-300 hover:border-primary rounded-lg p-3 cursor-pointer transition-colors"
+                  onClick={() => turnPage(choice)}
+                >
+                  <p className="font-medium" dangerouslySetInnerHTML={{ __html: renderedText.pageChoices[choice.id] }} />
+                  {choice.effects.length > 0 && (
+                    <p className="text-xs mt-1 text-base-content/60">{choice.effects.length} effect(s)</p>
+                  )}
+                </div>
+              ))
+            ) : (
+              <button className="btn btn-primary btn-sm" onClick={() => turnPage()} disabled={isProcessing}>
+                Continue
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-3 flex-1">
+            <h4 className="font-medium">Choices:</h4>
+            {storylet.choices.map(choice => {
+              const isAvailable = isChoiceAvailable(choice);
+              return (
+                <div 
+                  key={choice.id} 
+                  className={`border rounded-lg p-3 transition-colors ${
+                    isAvailable 
+                      ? 'border-base-300 hover:border-primary cursor-pointer' 
+                      : 'border-error/30 bg-error/5 cursor-not-allowed'
+                  }`}
+                  onClick={() => isAvailable && !isProcessing && executeChoice(choice)}
+                >
+                  <div className="flex items-start justify-between">
+                    <div className="flex-1">
+                      <p
+                        className={`font-medium ${!isAvailable ? 'text-error/70' : ''}`}
+                        dangerouslySetInnerHTML={{ __html: renderedText.choices[choice.id] }}
+                      />
+                      {choice.description && (
+                        <p className={`text-sm mt-1 ${!isAvailable ? 'text-error/50' : 'text-base-content/70'}`}>
+                          {choice.description}
+                        </p>
+                      )}
+                      
+                      {choice.effects.length > 0 && (
+                        <div className="mt-2">
+                          <p className="text-xs font-medium mb-1">Effects:</p>
+                          <ul className="text-xs space-y-1">
+                            {choice.effects.map((effect, index) => (
+                              <li key={index} className="text-base-content/60">
+                                • {effect.description}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+
+                      {choice.skillCheck && (
+                        <p className="text-xs mt-2 text-base-content/60">
+                          Skill check: {describeSkillCheck(choice.skillCheck, { resources: gameState.resources, variables: gameState.variables, characters })}
+                        </p>
+                      )}
+
+                      {choice.outcomes && choice.outcomes.length > 0 && (
+                        <p className="text-xs mt-2 text-base-content/60">
+                          Outcomes: {describeOutcomeChances(
+                            choice.outcomes,
+                            getOutcomeWeights(choice.outcomes, { resources: gameState.resources, variables: gameState.variables, characters })
+                          )}
+                        </p>
+                      )}
+
+                      {choice.requirements && choice.requirements.length > 0 && (
+                        <div className="mt-2">
+                          <p className="text-xs font-medium mb-1">Requirements:</p>
+                          <ul className="text-xs space-y-1">
+                            {choice.requirements.map((req, index) => (
+                              <li 
+                                key={index} 
+                                className={`${isAvailable ? 'text-success' : 'text-error'}`}
+                              >
+                                • {req.description}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
                     
-                    {choice.effects.length > 0 && (
-                      <div className="mt-2">
-                        <p className="text-xs font-medium mb-1">Effects:</p>
-                        <ul className="text-xs space-y-1">
-                          {choice.effects.map((effect, index) => (
-                            <li key={index} className="text-base-content/60">
-                              • {effect.description}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
-                    )}
-
-                    {choice.requirements && choice.requirements.length > 0 && (
-                      <div className="mt-2">
-                        <p className="text-xs font-medium mb-1">Requirements:</p>
-                        <ul className="text-xs space-y-1">
-                          {choice.requirements.map((req, index) => (
-                            <li 
-                              key={index} 
-                              className={`${isAvailable ? 'text-success' : 'text-error'}`}
-                            >
-                              • {req.description}
-                            </li>
-                          ))}
-                        </ul>
-                      </div>
+                    {!isAvailable && (
+                      <span className="badge badge-error badge-sm">Locked</span>
                     )}
                   </div>
-                  
-                  {!isAvailable && (
-                    <span className="badge badge-error badge-sm">Locked</span>
-                  )}
                 </div>
-              </div>
-            );
-          })}
-        </div>
+              );
+            })}
+          </div>
+        )}
 
         {isProcessing && (
           <div className="flex items-center justify-center p-4">
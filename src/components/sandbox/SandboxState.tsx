@@ -1,7 +1,14 @@
 import React, { useState } from 'react';
 import { Card } from '../common/Card';
 import type { Character } from '../../types/character';
+import type { ScenePosition, ScheduledEvent, StoryVariableValue, UnlockState } from '../../types/storylet';
 import type { Clue } from '../../types/clue';
+import type { CalendarConfig } from '../../types/calendar';
+import type { ResourceDefinition } from '../../types/resource';
+import type { Inventory, ItemDefinition } from '../../types/item';
+import { formatGameTime } from '../../utils/calendar';
+import { formatResourceLabel, getResourceDefinition } from '../../utils/resources';
+import { formatItemLabel, getItemDefinition } from '../../utils/items';
 
 interface SandboxTestSession {
   id: string;
@@ -10,6 +17,7 @@ interface SandboxTestSession {
   currentState: SandboxGameState;
   history: SandboxAction[];
   isComplete: boolean;
+  seed: number;
 }
 
 interface SandboxGameState {
@@ -19,11 +27,17 @@ interface SandboxGameState {
   relationships: Record<string, number>;
   discoveredClues: string[];
   timeElapsed: number;
+  randomState: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  scene?: ScenePosition; // Page of the current storylet; unset until the first page is turned
 }
 
 interface SandboxAction {
   id: string;
-  type: 'choice_selected' | 'effect_applied' | 'storylet_changed';
+  type: 'choice_selected' | 'effect_applied' | 'storylet_changed' | 'page_turned';
   timestamp: Date;
   data: any;
   description: string;
@@ -33,12 +47,18 @@ interface SandboxStateProps {
   session: SandboxTestSession;
   characters: Character[];
   clues: Clue[];
+  calendar: CalendarConfig;
+  resourceDefinitions: ResourceDefinition[];
+  itemDefinitions: ItemDefinition[];
 }
 
 export const SandboxState: React.FC<SandboxStateProps> = ({
   session,
   characters,
-  clues
+  clues,
+  calendar,
+  resourceDefinitions,
+  itemDefinitions
 }) => {
   const [activeTab, setActiveTab] = useState<'state' | 'history'>('state');
 
@@ -87,8 +107,9 @@ export const SandboxState: React.FC<SandboxStateProps> = ({
                     <p className="font-mono text-xs">{session.currentState.currentStoryletId}</p>
                   </div>
                   <div>
-                    <span className="text-base-content/70">Time Elapsed:</span>
-                    <p>{session.currentState.timeElapsed} units</p>
+                    <span className="text-base-content/70">Game Time:</span>
+                    <p>{formatGameTime(session.currentState.timeElapsed, calendar)}</p>
+                    <p className="text-xs text-base-content/50">{session.currentState.timeElapsed} minutes elapsed</p>
                   </div>
                 </div>
               </div>
@@ -100,9 +121,9 @@ export const SandboxState: React.FC<SandboxStateProps> = ({
                   <div className="space-y-2">
                     {Object.entries(session.currentState.resources).map(([resource, value]) => (
                       <div key={resource} className="flex items-center justify-between">
-                        <span className="text-sm">{resource}</span>
+                        <span className="text-sm">{formatResourceLabel(getResourceDefinition(resourceDefinitions, resource), resource)}</span>
                         <span className={`badge ${value >= 0 ? 'badge-success' : 'badge-error'}`}>
-                          {value >= 0 ? '+' : ''}{value}
+                          {value}
                         </span>
                       </div>
                     ))}
@@ -142,6 +163,37 @@ export const SandboxState: React.FC<SandboxStateProps> = ({
                 </div>
               )}
 
+              {/* Inventory */}
+              {Object.keys(session.currentState.inventory).length > 0 && (
+                <div className="bg-base-200 p-3 rounded-lg">
+                  <h4 className="font-medium mb-2">Inventory</h4>
+                  <div className="space-y-1">
+                    {Object.entries(session.currentState.inventory).map(([itemId, count]) => (
+                      <div key={itemId} className="flex items-center gap-2">
+                        <span className="badge badge-accent badge-xs"></span>
+                        <span className="text-sm">{formatItemLabel(getItemDefinition(itemDefinitions, itemId), itemId, count)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Scheduled events */}
+              {session.currentState.scheduledEvents.length > 0 && (
+                <div className="bg-base-200 p-3 rounded-lg">
+                  <h4 className="font-medium mb-2">Scheduled Events</h4>
+                  <div className="space-y-1">
+                    {session.currentState.scheduledEvents.map(event => (
+                      <div key={event.id} className="flex items-center gap-2">
+                        <span className={`badge badge-xs ${event.dueAt <= session.currentState.timeElapsed ? 'badge-warning' : 'badge-ghost'}`}></span>
+                        <span className="text-sm">{event.storyletId ?? `${event.effects.length} effect(s)`}</span>
+                        <span className="text-xs text-base-content/60">{formatGameTime(event.dueAt, calendar)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Discovered Clues */}
               {session.currentState.discoveredClues.length > 0 && (
                 <div className="bg-base-200 p-3 rounded-lg">
@@ -157,6 +209,25 @@ export const SandboxState: React.FC<SandboxStateProps> = ({
                 </div>
               )}
 
+              {/* Unlock and lock overrides */}
+              {Object.keys({ ...session.currentState.unlocks.storylets, ...session.currentState.unlocks.choices }).length > 0 && (
+                <div className="bg-base-200 p-3 rounded-lg">
+                  <h4 className="font-medium mb-2">Unlocks</h4>
+                  <div className="space-y-1">
+                    {[
+                      ...Object.entries(session.currentState.unlocks.storylets).map(([id, unlocked]) => ({ unlocked, label: id })),
+                      ...Object.entries(session.currentState.unlocks.choices).map(([id, unlocked]) => ({ unlocked, label: `choice ${id}` }))
+                    ].map(({ unlocked, label }) => (
+                      <div key={label} className="flex items-center gap-2">
+                        <span className={`badge badge-xs ${unlocked ? 'badge-success' : 'badge-error'}`}></span>
+                        <span className="text-sm font-mono text-xs">{label}</span>
+                        <span className="text-xs text-base-content/60">{unlocked ? 'unlocked' : 'locked'}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Completed Storylets */}
               {session.currentState.completedStorylets.length > 0 && (
                 <div className="bg-base-200 p-3 rounded-lg">
@@ -3,9 +3,17 @@ import { Card } from '../common/Card';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
 import { useCharacterStore } from '../../stores/useCharacterStore';
 import { useClueStore } from '../../stores/useClueStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
 import { SandboxRunner } from './SandboxRunner';
 import { SandboxControls } from './SandboxControls';
 import { SandboxState } from './SandboxState';
+import { generateSeed } from '../../utils/random';
+import { createUnlockState } from '../../utils/storyletUnlocks';
+import { getDefaultVariableValues } from '../../utils/storyVariables';
+import { describeRepeatPolicy } from '../../utils/storyletRepeat';
+import { getInitialResources } from '../../utils/resources';
+import type { ScenePosition, ScheduledEvent, StoryletPlayRecord, StoryVariableValue, UnlockState } from '../../types/storylet';
+import type { Inventory } from '../../types/item';
 
 interface SandboxTestSession {
   id: string;
@@ -14,59 +22,81 @@ interface SandboxTestSession {
   currentState: SandboxGameState;
   history: SandboxAction[];
   isComplete: boolean;
+  seed: number;
 }
 
 interface SandboxGameState {
   currentStoryletId: string;
   completedStorylets: string[];
+  storyletPlays: Record<string, StoryletPlayRecord>;
   resources: Record<string, number>;
   relationships: Record<string, number>;
   discoveredClues: string[];
   timeElapsed: number;
+  randomState: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  scene?: ScenePosition; // Page of the current storylet; unset until the first page is turned
 }
 
 interface SandboxAction {
   id: string;
-  type: 'choice_selected' | 'effect_applied' | 'storylet_changed';
+  type: 'choice_selected' | 'effect_applied' | 'storylet_changed' | 'page_turned';
   timestamp: Date;
   data: any;
   description: string;
 }
 
 export const StoryletSandbox: React.FC = () => {
-  const { storylets } = useNarrativeStore();
-  const { characters } = useCharacterStore();
+  const { storylets, storyVariables, calendar } = useNarrativeStore();
+  const { characters, getPlayerRelationships } = useCharacterStore();
   const { clues } = useClueStore();
+  const resourceDefinitions = useCoreGameStore(state => state.resourceDefinitions);
+  const itemDefinitions = useCoreGameStore(state => state.itemDefinitions);
   const [selectedStoryletId, setSelectedStoryletId] = useState<string>('');
   const [currentSession, setCurrentSession] = useState<SandboxTestSession | null>(null);
   const [isRunning, setIsRunning] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
 
-  const initializeGameState = useCallback((storyletId: string): SandboxGameState => {
+  const initializeGameState = useCallback((storyletId: string, seed: number): SandboxGameState => {
     return {
       currentStoryletId: storyletId,
       completedStorylets: [],
-      resources: {},
-      relationships: {},
+      storyletPlays: {},
+      resources: getInitialResources(resourceDefinitions),
+      relationships: getPlayerRelationships(),
       discoveredClues: [],
-      timeElapsed: 0
+      timeElapsed: 0,
+      randomState: seed,
+      variables: getDefaultVariableValues(storyVariables),
+      unlocks: createUnlockState(),
+      inventory: {},
+      scheduledEvents: []
     };
-  }, []);
+  }, [resourceDefinitions, getPlayerRelationships, storyVariables]);
 
   const startTest = useCallback(() => {
     if (!selectedStoryletId) return;
 
+    // Reuse a seed from a previous session to replay it exactly
+    const parsedSeed = parseInt(seedInput, 10);
+    const seed = Number.isNaN(parsedSeed) ? generateSeed() : parsedSeed >>> 0;
+
     const newSession: SandboxTestSession = {
       id: crypto.randomUUID(),
       storyletId: selectedStoryletId,
       startTime: new Date(),
-      currentState: initializeGameState(selectedStoryletId),
+      currentState: initializeGameState(selectedStoryletId, seed),
       history: [],
-      isComplete: false
+      isComplete: false,
+      seed
     };
 
     setCurrentSession(newSession);
     setIsRunning(true);
-  }, [selectedStoryletId, initializeGameState]);
+  }, [selectedStoryletId, seedInput, initializeGameState]);
 
   const stopTest = useCallback(() => {
     setIsRunning(false);
@@ -77,7 +107,7 @@ export const StoryletSandbox: React.FC = () => {
     if (currentSession) {
       setCurrentSession({
         ...currentSession,
-        currentState: initializeGameState(currentSession.storyletId),
+        currentState: initializeGameState(currentSession.storyletId, currentSession.seed),
         history: [],
         isComplete: false
       });
@@ -135,12 +165,26 @@ export const StoryletSandbox: React.FC = () => {
                         <p><strong>Choices:</strong> {storylet.choices?.length || 0}</p>
                         <p><strong>Effects:</strong> {storylet.effects?.length || 0}</p>
                         <p><strong>Prerequisites:</strong> {storylet.prerequisites?.length || 0}</p>
+                        <p><strong>Repeat:</strong> {describeRepeatPolicy(storylet.repeat)}</p>
                       </div>
                     ) : null;
                   })()}
                 </div>
               )}
 
+              <div className="form-control">
+                <label className="label">
+                  <span className="label-text font-medium">Random Seed (optional)</span>
+                </label>
+                <input
+                  type="number"
+                  className="input input-bordered w-full"
+                  value={seedInput}
+                  onChange={(e) => setSeedInput(e.target.value)}
+                  placeholder="Leave empty for a new seed"
+                />
+              </div>
+
               <button
                 className="btn btn-primary"
                 onClick={startTest}
@@ -164,7 +208,13 @@ export const StoryletSandbox: React.FC = () => {
         <div className="flex-1 grid grid-cols-1 lg:grid-cols-2 gap-4 min-h-0">
           <SandboxRunner
             storylet={currentStorylet}
+            storylets={storylets}
+            storyVariables={storyVariables}
             gameState={currentSession.currentState}
+            characters={characters}
+            calendar={calendar}
+            resourceDefinitions={resourceDefinitions}
+            itemDefinitions={itemDefinitions}
             onActionExecuted={handleActionExecuted}
           />
           
@@ -172,6 +222,9 @@ export const StoryletSandbox: React.FC = () => {
             session={currentSession}
             characters={characters}
             clues={clues}
+            calendar={calendar}
+            resourceDefinitions={resourceDefinitions}
+            itemDefinitions={itemDefinitions}
           />
         </div>
       )}
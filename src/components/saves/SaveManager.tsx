@@ -0,0 +1,105 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import type { DbGameSave } from '../../db/database';
+import { gameSaveManager } from '../../systems/GameSaveManager';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { formatGameTime } from '../../utils/calendar';
+import { AUTOSAVE_SLOT, getSaveSlotLabel, getSaveSlots } from '../../utils/gameSaves';
+import { SAVE_FORMAT_VERSION, getSaveVersion, type SaveDiagnostic } from '../../utils/saveFormat';
+
+/**
+ * Save the playthrough to a slot, load it back, and manage existing saves
+ */
+export const SaveManager: React.FC = () => {
+  const { currentSaveSlot, lastSavedAt } = useCoreGameStore();
+  const calendar = useNarrativeStore(state => state.calendar);
+  const [saves, setSaves] = useState<DbGameSave[]>([]);
+  const [messages, setMessages] = useState<{ type: SaveDiagnostic['severity'] | 'error'; text: string }[]>([]);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSaves(await gameSaveManager.listSaves());
+    } catch {
+      setMessages([{ type: 'error', text: 'Failed to read saved games' }]);
+    }
+  }, []);
+
+  // Autosaves land while other views are open, so re-read whenever a save is made
+  useEffect(() => {
+    refresh();
+  }, [refresh, lastSavedAt]);
+
+  const run = async (action: () => Promise<SaveDiagnostic[]>) => {
+    try {
+      const diagnostics = await action();
+      setMessages(diagnostics.map(diagnostic => ({ type: diagnostic.severity, text: diagnostic.message })));
+    } catch (error) {
+      setMessages([{ type: 'error', text: error instanceof Error ? error.message : 'Save operation failed' }]);
+    }
+    await refresh();
+  };
+
+  const handleSave = (slot: number) => run(async () => {
+    await gameSaveManager.saveGame(slot);
+    return [];
+  });
+
+  const handleLoad = (slot: number) => run(async () => (await gameSaveManager.loadGame(slot)).diagnostics);
+
+  const handleCheck = (slot: number) => run(async () => {
+    const diagnostics = await gameSaveManager.checkSave(slot);
+    return diagnostics.length > 0 ? diagnostics : [{ severity: 'info', message: `${getSaveSlotLabel(slot)} matches the current content` }];
+  });
+
+  const handleDelete = (slot: number) => {
+    if (!confirm(`Delete the save in ${getSaveSlotLabel(slot)}?`)) return;
+    run(async () => {
+      await gameSaveManager.deleteSave(slot);
+      return [];
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      {getSaveSlots().map(slot => {
+        const save = saves.find(existing => existing.slot === slot);
+        return (
+          <div key={slot} className="flex justify-between items-center gap-2">
+            <div>
+              <span className="font-semibold">{getSaveSlotLabel(slot)}</span>
+              {slot === currentSaveSlot && <span className="badge badge-primary badge-sm ml-2">Current</span>}
+              {save && getSaveVersion(save) < SAVE_FORMAT_VERSION && <span className="badge badge-ghost badge-sm ml-2">Older format</span>}
+              <div className="text-xs text-base-content/60">
+                {save
+                  ? `${save.name} · ${formatGameTime(save.gameTime, calendar)} · saved ${new Date(save.updatedAt).toLocaleString()}`
+                  : 'Empty'}
+              </div>
+            </div>
+            <div className="flex gap-1">
+              {slot !== AUTOSAVE_SLOT && (
+                <button onClick={() => handleSave(slot)} className="btn btn-outline btn-xs">
+                  Save
+                </button>
+              )}
+              <button onClick={() => handleCheck(slot)} className="btn btn-ghost btn-xs" disabled={!save}>
+                Check
+              </button>
+              <button onClick={() => handleLoad(slot)} className="btn btn-primary btn-xs" disabled={!save}>
+                Load
+              </button>
+              <button onClick={() => handleDelete(slot)} className="btn btn-error btn-xs" disabled={!save}>
+                Delete
+              </button>
+            </div>
+          </div>
+        );
+      })}
+
+      {messages.map(message => (
+        <div key={message.text} className={`alert alert-${message.type}`}>
+          <span>{message.text}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -16,7 +16,14 @@ vi.mock('../../stores/useNarrativeStore', () => ({
     storylets: [
       { id: 'storylet1', title: 'Test Storylet 1', storyArc: 'arc1' },
       { id: 'storylet2', title: 'Test Storylet 2', storyArc: 'arc2' }
-    ]
+    ],
+    storyVariables: [
+      { name: 'met_detective', type: 'boolean', defaultValue: false }
+    ],
+    completedStorylets: [],
+    getStoryVariable: vi.fn(),
+    saveStoryVariable: vi.fn(),
+    deleteStoryVariable: vi.fn()
   })
 }));
 
@@ -149,4 +156,14 @@ describe('AdvancedStoryletCreator', () => {
     expect(screen.getByText('Storylet Preview')).toBeInTheDocument();
     expect(screen.getByText('Preview Test')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('lists declared story variables in the variables tab', async () => {
+    const user = userEvent.setup();
+    render(<AdvancedStoryletCreator />);
+    
+    await user.click(screen.getByText(/Variables/));
+    
+    expect(screen.getByText('met_detective')).toBeInTheDocument();
+    expect(screen.getByText('Declare Variable')).toBeInTheDocument();
+  });
+});
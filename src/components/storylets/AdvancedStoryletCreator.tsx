@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import { Card } from '../common/Card';
 import { Input } from '../forms/Input';
 import { TextArea } from '../forms/TextArea';
@@ -6,9 +6,29 @@ import { Select } from '../forms/Select';
 import { Modal } from '../common/Modal';
 import { useNarrativeStore } from '../../stores/useNarrativeStore';
 import { useClueStore } from '../../stores/useClueStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { useCharacterStore } from '../../stores/useCharacterStore';
 import { ClueSelectionModal } from '../clues/ClueSelectionModal';
-import { type StoryletFormData, type StoryletTrigger, type StoryletChoice, type StoryletEffect, type ValidationError } from '../../types/storylet';
+import { type StoryletFormData, type StoryletTrigger, type StoryletChoice, type StoryletEffect, type StoryletRepeatPolicy, type ValidationError } from '../../types/storylet';
 import type { Clue } from '../../types/clue';
+import { ConditionGroupEditor } from './ConditionGroupEditor';
+import { ChoiceOutcomeEditor } from './ChoiceOutcomeEditor';
+import { SkillCheckEditor } from './SkillCheckEditor';
+import { UnlockTargetSelect } from './UnlockTargetSelect';
+import { StoryletBeatEditor } from './StoryletBeatEditor';
+import { ScheduledEventFields } from './EffectFields';
+import { StoryVariableManager } from './StoryVariableManager';
+import { RevisionHistory } from '../revisions/RevisionHistory';
+import { releaseManager } from '../../systems/ReleaseManager';
+import { StoryVariableSelect, VariableValueInput } from './StoryVariableInputs';
+import { ResourceSelect } from '../resources/ResourceSelect';
+import { ItemSelect } from '../items/ItemSelect';
+import { TRIGGER_TYPE_OPTIONS, TRIGGER_OPERATOR_OPTIONS, EFFECT_TYPE_OPTIONS, EFFECT_OPERATOR_OPTIONS, REPEAT_MODE_OPTIONS, CALENDAR_CONDITION_PLACEHOLDERS } from './triggerOptions';
+import { createConditionGroup, describeCondition, migrateTriggersToConditions } from '../../utils/storyletConditions';
+import { validateItemReferences, validateResourceReferences, validateScheduledEvents, validateStoryletBeats, validateVariableReferences } from '../../utils/storyletValidation';
+import { getDefaultVariableValues } from '../../utils/storyVariables';
+import { createSkillCheck } from '../../utils/skillChecks';
+import { renderStoryletText, validateStoryletText, type StoryletTextContext } from '../../utils/storyletText';
 
 interface AdvancedStoryletCreatorProps {
   storyletId?: string;
@@ -38,12 +58,24 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
   const [formData, setFormData] = useState<StoryletFormData>(initialFormData);
   const [errors, setErrors] = useState<ValidationError[]>([]);
   const [isPreviewOpen, setIsPreviewOpen] = useState(false);
-  const [activeTab, setActiveTab] = useState<'basic' | 'triggers' | 'choices' | 'effects'>('basic');
+  const [activeTab, setActiveTab] = useState<'basic' | 'triggers' | 'choices' | 'effects' | 'variables' | 'history'>('basic');
   const [isClueModalOpen, setIsClueModalOpen] = useState(false);
   const [selectedChoiceForClue, setSelectedChoiceForClue] = useState<string | null>(null);
 
-  const { addStorylet, updateStorylet, getStorylet, arcs, storylets } = useNarrativeStore();
-  const { getClue } = useClueStore();
+  const { addStorylet, updateStorylet, getStorylet, arcs, storylets, storyVariables, getStoryVariable, completedStorylets } = useNarrativeStore();
+  const { getClue, getDiscoveredClueIds } = useClueStore();
+  const { resources, resourceDefinitions, itemDefinitions, gameTime, variables } = useCoreGameStore();
+  const { characters } = useCharacterStore();
+
+  // Preview templates against the current game state
+  const previewTextContext = useMemo((): StoryletTextContext => ({
+    resources,
+    variables: { ...getDefaultVariableValues(storyVariables), ...variables },
+    characters,
+    discoveredClues: getDiscoveredClueIds(),
+    completedStorylets,
+    gameTime
+  }), [resources, variables, storyVariables, characters, getDiscoveredClueIds, completedStorylets, gameTime]);
 
   // Load existing storylet if editing
   React.useEffect(() => {
@@ -82,13 +114,37 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
     if (formData.choices.length === 0) {
       newErrors.push({ field: 'choices', message: 'At least one choice is required' });
     }
+    validateStoryletText(formData.content).forEach(message => {
+      newErrors.push({ field: 'content', message: `Content template: ${message}` });
+    });
+    newErrors.push(...validateStoryletBeats(formData));
+    newErrors.push(...validateScheduledEvents(formData));
+    newErrors.push(...validateVariableReferences(formData, storyVariables));
+    newErrors.push(...validateResourceReferences(formData, resourceDefinitions));
+    newErrors.push(...validateItemReferences(formData, itemDefinitions));
+
+    // Raising the status runs the release checks against the rest of the content
+    const savedStatus = storyletId ? getStorylet(storyletId)?.status ?? 'dev' : 'dev';
+    if (formData.status !== savedStatus) {
+      const { errors: promotionErrors } = releaseManager.checkStatusChange(
+        { ...formData, id: storyletId ?? '', status: savedStatus },
+        formData.status
+      );
+      newErrors.push(...promotionErrors.filter(error => !newErrors.some(existing => existing.message === error.message)));
+      formData.choices.forEach((choice, index) => {
+        if (choice.createNewStorylet && formData.status !== 'dev') {
+          newErrors.push({ field: 'choices', message: `Choice ${index + 1} would lead to a new storylet in dev`, path: `choices[${index}].createNewStorylet` });
+        }
+      });
+    }
 
     setErrors(newErrors);
     return newErrors.length === 0;
-  }, [formData]);
+  }, [formData, storyletId, getStorylet, storyVariables, resourceDefinitions, itemDefinitions]);
 
   const handleSave = useCallback(async () => {
     if (!validateForm()) return;
+    const savedStatus = storyletId ? getStorylet(storyletId)?.status ?? 'dev' : 'dev';
 
     try {
       // First, create any new storylets that are needed for choices
@@ -140,12 +196,18 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           id: storyletId,
         };
         await updateStorylet(storyletId, updateData);
+        if (updateData.status !== savedStatus) {
+          await releaseManager.recordStatusChange({ id: storyletId, title: updateData.title }, savedStatus, updateData.status);
+        }
         if (onSave) {
           onSave(updateData);
         }
       } else {
         // For new storylets, don't include id - let addStorylet generate it
         const newId = await addStorylet(storyletData);
+        if (storyletData.status !== savedStatus) {
+          await releaseManager.recordStatusChange({ id: newId, title: storyletData.title }, savedStatus, storyletData.status);
+        }
         if (onSave) {
           onSave({ ...storyletData, id: newId });
         }
@@ -154,7 +216,25 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
       console.error('Failed to save storylet:', error);
       // You might want to show an error message to the user here
     }
-  }, [formData, storyletId, validateForm, addStorylet, updateStorylet, onSave]);
+  }, [formData, storyletId, getStorylet, validateForm, addStorylet, updateStorylet, onSave]);
+
+  // A restored status goes through the same release checks as any other status change
+  const handleRestore = useCallback(async (fields: Record<string, unknown>) => {
+    if (!storyletId) return;
+    const { status, ...content } = fields as Partial<StoryletFormData>;
+    await updateStorylet(storyletId, content);
+
+    const restored: Partial<StoryletFormData> = content;
+    if (status && status !== getStorylet(storyletId)?.status) {
+      const { changed, check } = await releaseManager.changeStatus(storyletId, status, 'Restored from a revision');
+      if (changed) {
+        restored.status = status;
+      } else {
+        setErrors(check.errors.map(error => ({ ...error, message: `Status not restored to ${status}: ${error.message}` })));
+      }
+    }
+    setFormData(prev => ({ ...prev, ...restored }));
+  }, [storyletId, getStorylet, updateStorylet]);
 
   const addTrigger = useCallback(() => {
     const newTrigger: StoryletTrigger = {
@@ -187,6 +267,10 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
     }));
   }, []);
 
+  const convertTriggersToConditions = useCallback(() => {
+    setFormData(prev => migrateTriggersToConditions(prev));
+  }, []);
+
   const addChoice = useCallback(() => {
     const newChoice: StoryletChoice = {
       id: crypto.randomUUID(),
@@ -299,6 +383,19 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
         placeholder="The main narrative content that players will see"
         rows={6}
       />
+      <p className="text-xs text-base-content/60 -mt-2">
+        {'Templates: {{resource.money}}, {{var.name}}, {{character.id}}, {{#if clue.id}}...{{else}}...{{/if}}, {{random: a | b}}, {{cycle: a | b}}'}
+      </p>
+
+      <StoryletBeatEditor
+        beats={formData.beats || []}
+        onChange={(beats) => handleInputChange('beats', beats.length > 0 ? beats : undefined)}
+      />
+      {errors.filter(e => e.field === 'beats').map(error => (
+        <div key={error.path ?? error.message} className="alert alert-error">
+          <span>{error.message}</span>
+        </div>
+      ))}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <Select
@@ -338,6 +435,45 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           onChange={(e) => handleInputChange('estimatedPlayTime', parseInt(e.target.value) || 5)}
           min="1"
         />
+
+        <div className="form-control">
+          <label className="label cursor-pointer">
+            <span className="label-text">Starts locked (opened by a Storylet Unlock effect)</span>
+            <input
+              type="checkbox"
+              className="checkbox"
+              checked={formData.startsLocked || false}
+              onChange={(e) => handleInputChange('startsLocked', e.target.checked)}
+            />
+          </label>
+        </div>
+
+        <Select
+          label="Repeat Policy"
+          value={formData.repeat?.mode || 'repeatable'}
+          onChange={(e) => handleInputChange('repeat', { mode: e.target.value as StoryletRepeatPolicy['mode'] })}
+          options={REPEAT_MODE_OPTIONS}
+        />
+
+        {formData.repeat?.mode === 'limited' && (
+          <Input
+            type="number"
+            label="Maximum Plays"
+            value={(formData.repeat.maxPlays ?? 1).toString()}
+            onChange={(e) => handleInputChange('repeat', { mode: 'limited', maxPlays: Math.max(1, parseInt(e.target.value) || 1) })}
+            min="1"
+          />
+        )}
+
+        {formData.repeat?.mode === 'cooldown' && (
+          <Input
+            type="number"
+            label="Cooldown (game minutes)"
+            value={(formData.repeat.cooldownMinutes ?? 0).toString()}
+            onChange={(e) => handleInputChange('repeat', { mode: 'cooldown', cooldownMinutes: Math.max(0, parseInt(e.target.value) || 0) })}
+            min="0"
+          />
+        )}
       </div>
 
       <Input
@@ -357,6 +493,12 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           Add Trigger
         </button>
       </div>
+
+      {errors.filter(e => e.field === 'triggers').map(error => (
+        <div key={error.path ?? error.message} className="alert alert-error">
+          <span>{error.message}</span>
+        </div>
+      ))}
       
       {formData.triggers.length === 0 ? (
         <p className="text-base-content/70 text-center py-8">No triggers defined. Add a trigger to specify when this storylet becomes available.</p>
@@ -368,45 +510,80 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
                 <Select
                   label="Type"
                   value={trigger.type}
-                  onChange={(e) => updateTrigger(trigger.id, { type: e.target.value as StoryletTrigger['type'] })}
-                  options={[
-                    { value: 'resource', label: 'Resource' },
-                    { value: 'relationship', label: 'Relationship' },
-                    { value: 'time', label: 'Time' },
-                    { value: 'clue', label: 'Clue' },
-                    { value: 'storylet_completion', label: 'Storylet Completion' },
-                    { value: 'random', label: 'Random' }
-                  ]}
+                  onChange={(e) => {
+                    const type = e.target.value as StoryletTrigger['type'];
+                    updateTrigger(trigger.id, type === 'skill_check' && !trigger.skillCheck ? { type, skillCheck: createSkillCheck() } : { type });
+                  }}
+                  options={TRIGGER_TYPE_OPTIONS}
                 />
                 
-                <Input
-                  label="Condition"
-                  value={trigger.condition}
-                  onChange={(e) => updateTrigger(trigger.id, { condition: e.target.value })}
-                  placeholder="energy, time, relationship_id"
-                />
-                
-                <Select
-                  label="Operator"
-                  value={trigger.operator || '>'}
-                  onChange={(e) => updateTrigger(trigger.id, { operator: e.target.value as StoryletTrigger['operator'] })}
-                  options={[
-                    { value: '>', label: 'Greater than' },
-                    { value: '<', label: 'Less than' },
-                    { value: '=', label: 'Equal to' },
-                    { value: '>=', label: 'Greater or equal' },
-                    { value: '<=', label: 'Less or equal' },
-                    { value: '!=', label: 'Not equal' }
-                  ]}
-                />
-                
-                <Input
-                  type="number"
-                  label="Value"
-                  value={trigger.value?.toString() || '0'}
-                  onChange={(e) => updateTrigger(trigger.id, { value: parseInt(e.target.value) || 0 })}
-                />
+                {trigger.type !== 'skill_check' && (
+                  <>
+                    {trigger.type === 'variable' ? (
+                      <StoryVariableSelect
+                        label="Condition"
+                        value={trigger.condition}
+                        variables={storyVariables}
+                        onChange={(name) => updateTrigger(trigger.id, { condition: name })}
+                      />
+                    ) : trigger.type === 'resource' ? (
+                      <ResourceSelect
+                        label="Condition"
+                        value={trigger.condition}
+                        resources={resourceDefinitions}
+                        onChange={(id) => updateTrigger(trigger.id, { condition: id })}
+                      />
+                    ) : trigger.type === 'has_item' ? (
+                      <ItemSelect
+                        label="Condition"
+                        value={trigger.condition}
+                        items={itemDefinitions}
+                        onChange={(id) => updateTrigger(trigger.id, { condition: id })}
+                      />
+                    ) : (
+                      <Input
+                        label="Condition"
+                        value={trigger.condition}
+                        onChange={(e) => updateTrigger(trigger.id, { condition: e.target.value })}
+                        placeholder={CALENDAR_CONDITION_PLACEHOLDERS[trigger.type] ?? 'energy, time, relationship_id'}
+                      />
+                    )}
+
+                    <Select
+                      label="Operator"
+                      value={trigger.operator || '>'}
+                      onChange={(e) => updateTrigger(trigger.id, { operator: e.target.value as StoryletTrigger['operator'] })}
+                      options={TRIGGER_OPERATOR_OPTIONS}
+                    />
+
+                    {trigger.type === 'variable' ? (
+                      <VariableValueInput
+                        label="Value"
+                        variable={getStoryVariable(trigger.condition)}
+                        value={trigger.value}
+                        variableValue={trigger.variableValue}
+                        onChange={(updates) => updateTrigger(trigger.id, updates)}
+                      />
+                    ) : (
+                      <Input
+                        type="number"
+                        label="Value"
+                        value={trigger.value?.toString() || '0'}
+                        onChange={(e) => updateTrigger(trigger.id, { value: parseInt(e.target.value) || 0 })}
+                      />
+                    )}
+                  </>
+                )}
               </div>
+
+              {trigger.type === 'skill_check' && (
+                <div className="mt-3">
+                  <SkillCheckEditor
+                    check={trigger.skillCheck ?? createSkillCheck()}
+                    onChange={(skillCheck) => updateTrigger(trigger.id, { skillCheck, condition: skillCheck.stat })}
+                  />
+                </div>
+              )}
               
               <div className="mt-3 flex justify-between items-end">
                 <Input
@@ -427,6 +604,43 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           ))}
         </div>
       )}
+
+      <div className="divider">Condition Groups</div>
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-base-content/70">
+          Combine conditions with AND / OR / NOT. Groups must hold in addition to the list above.
+        </p>
+        <div className="flex gap-2">
+          {formData.triggers.length > 0 && (
+            <button onClick={convertTriggersToConditions} className="btn btn-outline btn-sm">
+              Move Into Group
+            </button>
+          )}
+          {!formData.conditions && (
+            <button
+              onClick={() => handleInputChange('conditions', createConditionGroup('all'))}
+              className="btn btn-primary btn-sm"
+            >
+              Add Condition Group
+            </button>
+          )}
+        </div>
+      </div>
+
+      {formData.conditions && (
+        <Card className="p-4 space-y-3">
+          <ConditionGroupEditor
+            group={formData.conditions}
+            onChange={(group) => handleInputChange('conditions', group)}
+            onRemove={() => handleInputChange('conditions', undefined)}
+          />
+          {formData.conditions.conditions.length > 0 && (
+            <p className="text-sm text-base-content/70">
+              <span className="font-semibold">Reads as:</span> {describeCondition(formData.conditions)}
+            </p>
+          )}
+        </Card>
+      )}
     </div>
   );
 
@@ -483,7 +697,7 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
                       <input
                         type="checkbox"
                         className="checkbox"
-                        checked={choice.unlocked || false}
+                        checked={choice.unlocked !== false}
                         onChange={(e) => updateChoice(choice.id, { unlocked: e.target.checked })}
                       />
                     </label>
@@ -545,6 +759,119 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
                     </div>
                   )}
                 </div>
+
+                <div className="space-y-3">
+                  <div className="flex justify-between items-center">
+                    <div>
+                      <h4 className="font-medium text-sm text-base-content/80">Requirements & Skill Checks</h4>
+                      <p className="text-xs text-base-content/60">Requirements hide the choice unless they pass; a choice check picks success or failure outcomes</p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => updateChoice(choice.id, {
+                          requirements: [
+                            ...(choice.requirements || []),
+                            { id: crypto.randomUUID(), type: 'skill_check', condition: '', skillCheck: createSkillCheck(), description: '' }
+                          ]
+                        })}
+                        className="btn btn-outline btn-sm"
+                      >
+                        Add Requirement
+                      </button>
+                      <button
+                        onClick={() => updateChoice(choice.id, {
+                          requirements: [
+                            ...(choice.requirements || []),
+                            { id: crypto.randomUUID(), type: 'has_item', condition: '', operator: '>=', value: 1, description: '' }
+                          ]
+                        })}
+                        className="btn btn-outline btn-sm"
+                      >
+                        Require Item
+                      </button>
+                      {!choice.skillCheck && (
+                        <button onClick={() => updateChoice(choice.id, { skillCheck: createSkillCheck() })} className="btn btn-outline btn-sm">
+                          Add Choice Check
+                        </button>
+                      )}
+                    </div>
+                  </div>
+
+                  {(choice.requirements || []).filter(req => req.type === 'skill_check').map(req => (
+                    <div key={req.id} className="bg-base-200 p-3 rounded space-y-2">
+                      <SkillCheckEditor
+                        check={req.skillCheck ?? createSkillCheck()}
+                        onChange={(skillCheck) => updateChoice(choice.id, {
+                          requirements: (choice.requirements || []).map(existing => existing.id === req.id ? { ...existing, skillCheck, condition: skillCheck.stat } : existing)
+                        })}
+                      />
+                      <div className="flex justify-end">
+                        <button
+                          onClick={() => updateChoice(choice.id, { requirements: (choice.requirements || []).filter(existing => existing.id !== req.id) })}
+                          className="btn btn-error btn-sm"
+                        >
+                          Remove Requirement
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+
+                  {(choice.requirements || []).filter(req => req.type === 'has_item').map(req => (
+                    <div key={req.id} className="bg-base-200 p-3 rounded grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+                      <ItemSelect
+                        label="Item"
+                        value={req.condition}
+                        items={itemDefinitions}
+                        onChange={(id) => updateChoice(choice.id, {
+                          requirements: (choice.requirements || []).map(existing => existing.id === req.id ? { ...existing, condition: id } : existing)
+                        })}
+                      />
+                      <Input
+                        type="number"
+                        label="At least"
+                        value={req.value?.toString() || '1'}
+                        onChange={(e) => updateChoice(choice.id, {
+                          requirements: (choice.requirements || []).map(existing => existing.id === req.id ? { ...existing, value: parseInt(e.target.value) || 1 } : existing)
+                        })}
+                      />
+                      <button
+                        onClick={() => updateChoice(choice.id, { requirements: (choice.requirements || []).filter(existing => existing.id !== req.id) })}
+                        className="btn btn-error btn-sm"
+                      >
+                        Remove Requirement
+                      </button>
+                    </div>
+                  ))}
+
+                  {choice.skillCheck && (
+                    <div className="bg-base-200 p-3 rounded space-y-2">
+                      <SkillCheckEditor
+                        check={choice.skillCheck}
+                        onChange={(skillCheck) => updateChoice(choice.id, { skillCheck })}
+                      />
+                      <div className="flex justify-end">
+                        <button
+                          onClick={() => updateChoice(choice.id, {
+                            skillCheck: undefined,
+                            outcomes: choice.outcomes?.map(outcome => ({ ...outcome, skillCheckResult: undefined }))
+                          })}
+                          className="btn btn-error btn-sm"
+                        >
+                          Remove Choice Check
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <ChoiceOutcomeEditor
+                  hasSkillCheck={!!choice.skillCheck}
+                  outcomes={choice.outcomes || []}
+                  onChange={(outcomes) => updateChoice(choice.id, { outcomes: outcomes.length > 0 ? outcomes : undefined })}
+                  nextStoryletOptions={storylets
+                    .filter(s => s.storyArc === formData.storyArc && s.id !== storyletId)
+                    .map(s => ({ value: s.id!, label: s.title }))}
+                />
                 
                 <div className="flex justify-end">
                   <button 
@@ -570,6 +897,12 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           Add Effect
         </button>
       </div>
+
+      {errors.filter(e => e.field === 'effects').map(error => (
+        <div key={error.path ?? error.message} className="alert alert-error">
+          <span>{error.message}</span>
+        </div>
+      ))}
       
       {formData.effects.length === 0 ? (
         <p className="text-base-content/70 text-center py-8">No effects defined. Add effects to specify what happens when this storylet is completed.</p>
@@ -581,43 +914,86 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
                 <Select
                   label="Type"
                   value={effect.type}
-                  onChange={(e) => updateEffect(effect.id, { type: e.target.value as StoryletEffect['type'] })}
-                  options={[
-                    { value: 'resource', label: 'Resource' },
-                    { value: 'relationship', label: 'Relationship' },
-                    { value: 'clue_discovery', label: 'Clue Discovery' },
-                    { value: 'storylet_unlock', label: 'Storylet Unlock' },
-                    { value: 'arc_progress', label: 'Arc Progress' },
-                    { value: 'time_advance', label: 'Time Advance' }
-                  ]}
+                  onChange={(e) => {
+                    const type = e.target.value as StoryletEffect['type'];
+                    updateEffect(effect.id, type === 'set_variable' ? { type, operator: '=' } : { type });
+                  }}
+                  options={EFFECT_TYPE_OPTIONS}
                 />
                 
-                <Input
-                  label="Target"
-                  value={effect.target}
-                  onChange={(e) => updateEffect(effect.id, { target: e.target.value })}
-                  placeholder="energy, character_id, clue_id"
-                />
+                {effect.type === 'set_variable' ? (
+                  <StoryVariableSelect
+                    label="Target"
+                    value={effect.target}
+                    variables={storyVariables}
+                    onChange={(name) => updateEffect(effect.id, { target: name })}
+                  />
+                ) : effect.type === 'resource' ? (
+                  <ResourceSelect
+                    label="Target"
+                    value={effect.target}
+                    resources={resourceDefinitions}
+                    onChange={(id) => updateEffect(effect.id, { target: id })}
+                  />
+                ) : effect.type === 'item_grant' || effect.type === 'item_remove' ? (
+                  <ItemSelect
+                    label="Target"
+                    value={effect.target}
+                    items={itemDefinitions}
+                    onChange={(id) => updateEffect(effect.id, { target: id })}
+                  />
+                ) : effect.type === 'schedule_event' ? (
+                  <Select
+                    label="Storylet"
+                    value={effect.target}
+                    onChange={(e) => updateEffect(effect.id, { target: e.target.value })}
+                    options={[{ value: '', label: 'Effects only' }, ...storylets.map(storylet => ({ value: storylet.id, label: storylet.title }))]}
+                  />
+                ) : effect.type === 'storylet_unlock' || effect.type === 'storylet_lock' ? (
+                  <UnlockTargetSelect
+                    label="Target"
+                    value={effect.target}
+                    onChange={(target) => updateEffect(effect.id, { target })}
+                  />
+                ) : (
+                  <Input
+                    label="Target"
+                    value={effect.target}
+                    onChange={(e) => updateEffect(effect.id, { target: e.target.value })}
+                    placeholder={effect.type === 'time_advance' ? 'minutes, or period:morning for the next morning' : 'energy, character_id, clue_id'}
+                  />
+                )}
                 
                 <Select
                   label="Operator"
                   value={effect.operator || '+'}
                   onChange={(e) => updateEffect(effect.id, { operator: e.target.value as StoryletEffect['operator'] })}
-                  options={[
-                    { value: '+', label: 'Add' },
-                    { value: '-', label: 'Subtract' },
-                    { value: '=', label: 'Set to' },
-                    { value: '*', label: 'Multiply by' }
-                  ]}
+                  options={EFFECT_OPERATOR_OPTIONS}
                 />
                 
-                <Input
-                  type="number"
-                  label="Value"
-                  value={effect.value?.toString() || '1'}
-                  onChange={(e) => updateEffect(effect.id, { value: parseInt(e.target.value) || 1 })}
-                />
+                {effect.type === 'set_variable' ? (
+                  <VariableValueInput
+                    label="Value"
+                    variable={getStoryVariable(effect.target)}
+                    value={effect.value}
+                    variableValue={effect.variableValue}
+                    onChange={(updates) => updateEffect(effect.id, updates)}
+                  />
+                ) : (
+                  <Input
+                    type="number"
+                    label={effect.type === 'schedule_event' ? 'Delay (minutes)' : 'Value'}
+                    value={effect.value?.toString() || '1'}
+                    onChange={(e) => updateEffect(effect.id, { value: parseInt(e.target.value) || 1 })}
+                  />
+                )}
               </div>
+
+              {effect.type === 'schedule_event' && (
+                <div className="mt-3">
+                  <ScheduledEventFields effect={effect} onChange={(updates) => updateEffect(effect.id, updates)} />
+                </div>
+              )}
               
               <div className="mt-3 flex justify-between items-end">
                 <Input
@@ -670,6 +1046,20 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           >
             Effects ({formData.effects.length})
           </button>
+          <button
+            className={`tab tab-bordered ${activeTab === 'variables' ? 'tab-active' : ''}`}
+            onClick={() => setActiveTab('variables')}
+          >
+            Variables ({storyVariables.length})
+          </button>
+          {storyletId && (
+            <button
+              className={`tab tab-bordered ${activeTab === 'history' ? 'tab-active' : ''}`}
+              onClick={() => setActiveTab('history')}
+            >
+              History
+            </button>
+          )}
         </div>
 
         {/* Tab Content */}
@@ -678,6 +1068,14 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           {activeTab === 'triggers' && renderTriggersTab()}
           {activeTab === 'choices' && renderChoicesTab()}
           {activeTab === 'effects' && renderEffectsTab()}
+          {activeTab === 'variables' && <StoryVariableManager />}
+          {activeTab === 'history' && storyletId && (
+            <RevisionHistory
+              entityType="storylet"
+              entityId={storyletId}
+              onRestore={handleRestore}
+            />
+          )}
         </div>
 
         {/* Actions */}
@@ -712,8 +1110,24 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
           </div>
           
           <div className="bg-base-200 p-4 rounded">
-            <p>{formData.content || 'No content provided'}</p>
+            {formData.content ? (
+              <p dangerouslySetInnerHTML={{ __html: renderStoryletText(formData.content, previewTextContext) }} />
+            ) : (
+              <p>No content provided</p>
+            )}
           </div>
+
+          {(formData.beats || []).map((beat, index) => (
+            <div key={beat.id} className="bg-base-200 p-4 rounded">
+              <p className="text-xs opacity-60 mb-1">Page {index + 2}</p>
+              <p dangerouslySetInnerHTML={{ __html: renderStoryletText(beat.content, previewTextContext) }} />
+              {(beat.choices || []).map(choice => (
+                <div key={choice.id} className="btn btn-ghost btn-xs justify-start mt-1">
+                  → {choice.text || 'Unnamed choice'}
+                </div>
+              ))}
+            </div>
+          ))}
           
           {formData.choices.length > 0 && (
             <div>
@@ -721,7 +1135,10 @@ export const AdvancedStoryletCreator: React.FC<AdvancedStoryletCreatorProps> = (
               <div className="space-y-2">
                 {formData.choices.map((choice, index) => (
                   <div key={choice.id} className="btn btn-outline btn-sm justify-start">
-                    {index + 1}. {choice.text || 'Unnamed choice'}
+                    {index + 1}.{' '}
+                    {choice.text ? (
+                      <span dangerouslySetInnerHTML={{ __html: renderStoryletText(choice.text, previewTextContext) }} />
+                    ) : 'Unnamed choice'}
                   </div>
                 ))}
               </div>
@@ -0,0 +1,220 @@
+import React, { useCallback } from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { type ChoiceOutcomeModifier, type StoryletChoiceOutcome, type StoryletEffect } from '../../types/storylet';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { useCharacterStore } from '../../stores/useCharacterStore';
+import { StoryVariableSelect } from './StoryVariableInputs';
+import { ResourceSelect } from '../resources/ResourceSelect';
+import { EffectFields } from './EffectFields';
+import { describeOutcomeChances, OUTCOME_MODIFIER_SOURCE_LABELS } from '../../utils/choiceOutcomes';
+
+interface ChoiceOutcomeEditorProps {
+  outcomes: StoryletChoiceOutcome[];
+  onChange: (outcomes: StoryletChoiceOutcome[]) => void;
+  nextStoryletOptions: { value: string; label: string }[];
+  hasSkillCheck?: boolean;
+}
+
+const SKILL_CHECK_RESULT_OPTIONS = [
+  { value: '', label: 'Either result' },
+  { value: 'success', label: 'Check passed' },
+  { value: 'failure', label: 'Check failed' }
+];
+
+const MODIFIER_SOURCE_OPTIONS = Object.entries(OUTCOME_MODIFIER_SOURCE_LABELS).map(([value, label]) => ({ value, label }));
+
+const createOutcome = (label: string, weight: number): StoryletChoiceOutcome => ({
+  id: crypto.randomUUID(),
+  label,
+  weight,
+  effects: []
+});
+
+const createOutcomeEffect = (): StoryletEffect => ({
+  id: crypto.randomUUID(),
+  type: 'resource',
+  target: '',
+  operator: '+',
+  value: 1,
+  description: ''
+});
+
+const createModifier = (): ChoiceOutcomeModifier => ({
+  id: crypto.randomUUID(),
+  source: 'resource',
+  target: '',
+  perPoint: 1
+});
+
+export const ChoiceOutcomeEditor: React.FC<ChoiceOutcomeEditorProps> = ({
+  outcomes,
+  onChange,
+  nextStoryletOptions,
+  hasSkillCheck = false
+}) => {
+  const { storyVariables } = useNarrativeStore();
+  const resourceDefinitions = useCoreGameStore(state => state.resourceDefinitions);
+  const { characters } = useCharacterStore();
+
+  const updateOutcome = useCallback((id: string, updates: Partial<StoryletChoiceOutcome>) => {
+    onChange(outcomes.map(outcome => outcome.id === id ? { ...outcome, ...updates } : outcome));
+  }, [outcomes, onChange]);
+
+  const addOutcome = useCallback(() => {
+    // Start a new table as the common success/failure pair
+    onChange(outcomes.length === 0
+      ? [createOutcome('Success', 70), createOutcome('Failure', 30)]
+      : [...outcomes, createOutcome('', 10)]);
+  }, [outcomes, onChange]);
+
+  const updateEffect = (outcome: StoryletChoiceOutcome, id: string, updates: Partial<StoryletEffect>) => {
+    updateOutcome(outcome.id, { effects: outcome.effects.map(effect => effect.id === id ? { ...effect, ...updates } : effect) });
+  };
+
+  const updateModifier = (outcome: StoryletChoiceOutcome, id: string, updates: Partial<ChoiceOutcomeModifier>) => {
+    updateOutcome(outcome.id, { modifiers: (outcome.modifiers || []).map(modifier => modifier.id === id ? { ...modifier, ...updates } : modifier) });
+  };
+
+  const renderModifier = (outcome: StoryletChoiceOutcome, modifier: ChoiceOutcomeModifier) => {
+    const character = characters.find(c => c.id === modifier.characterId);
+
+    return (
+      <div key={modifier.id} className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+        <Select
+          label="Modified by"
+          value={modifier.source}
+          onChange={(e) => updateModifier(outcome, modifier.id, { source: e.target.value as ChoiceOutcomeModifier['source'], target: '', characterId: undefined })}
+          options={MODIFIER_SOURCE_OPTIONS}
+        />
+        {modifier.source === 'attribute' ? (
+          <>
+            <Select
+              label="Character"
+              value={modifier.characterId || ''}
+              onChange={(e) => updateModifier(outcome, modifier.id, { characterId: e.target.value || undefined, target: '' })}
+              options={[{ value: '', label: 'Select character' }, ...characters.map(c => ({ value: c.id, label: c.name }))]}
+            />
+            <Select
+              label="Attribute"
+              value={modifier.target}
+              onChange={(e) => updateModifier(outcome, modifier.id, { target: e.target.value })}
+              options={[{ value: '', label: 'Select attribute' }, ...(character?.attributes || []).map(a => ({ value: a.id, label: a.name }))]}
+            />
+          </>
+        ) : modifier.source === 'variable' ? (
+          <StoryVariableSelect
+            label="Variable"
+            value={modifier.target}
+            variables={storyVariables}
+            onChange={(name) => updateModifier(outcome, modifier.id, { target: name })}
+          />
+        ) : (
+          <ResourceSelect
+            label="Resource"
+            value={modifier.target}
+            resources={resourceDefinitions}
+            onChange={(id) => updateModifier(outcome, modifier.id, { target: id })}
+          />
+        )}
+        <Input
+          type="number"
+          label="Weight per point"
+          value={modifier.perPoint.toString()}
+          onChange={(e) => updateModifier(outcome, modifier.id, { perPoint: parseFloat(e.target.value) || 0 })}
+          step="0.1"
+        />
+        <button
+          onClick={() => updateOutcome(outcome.id, { modifiers: (outcome.modifiers || []).filter(existing => existing.id !== modifier.id) })}
+          className="btn btn-error btn-sm"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-medium text-sm text-base-content/80">Outcomes</h4>
+          <p className="text-xs text-base-content/60">
+            {outcomes.length > 0
+              ? `Base chances: ${describeOutcomeChances(outcomes, Object.fromEntries(outcomes.map(o => [o.id, Math.max(0, o.weight)])))}`
+              : 'Roll one of several weighted outcomes, each with its own effects and next storylet'}
+          </p>
+        </div>
+        <button onClick={addOutcome} className="btn btn-outline btn-sm">
+          Add Outcome
+        </button>
+      </div>
+
+      {outcomes.map(outcome => (
+        <div key={outcome.id} className="bg-base-200 p-3 rounded space-y-3">
+          <div className={`grid grid-cols-1 gap-3 ${hasSkillCheck ? 'md:grid-cols-4' : 'md:grid-cols-3'}`}>
+            <Input
+              label="Label"
+              value={outcome.label}
+              onChange={(e) => updateOutcome(outcome.id, { label: e.target.value })}
+              placeholder="Success, Failure"
+            />
+            <Input
+              type="number"
+              label="Weight"
+              value={outcome.weight.toString()}
+              onChange={(e) => updateOutcome(outcome.id, { weight: parseFloat(e.target.value) || 0 })}
+              min="0"
+            />
+            <Select
+              label="Next Storylet"
+              value={outcome.nextStoryletId || ''}
+              onChange={(e) => updateOutcome(outcome.id, { nextStoryletId: e.target.value || undefined })}
+              options={[{ value: '', label: 'Same as choice' }, ...nextStoryletOptions]}
+            />
+            {hasSkillCheck && (
+              <Select
+                label="Happens when"
+                value={outcome.skillCheckResult || ''}
+                onChange={(e) => updateOutcome(outcome.id, { skillCheckResult: (e.target.value || undefined) as StoryletChoiceOutcome['skillCheckResult'] })}
+                options={SKILL_CHECK_RESULT_OPTIONS}
+              />
+            )}
+          </div>
+
+          {outcome.effects.map(effect => (
+            <EffectFields
+              key={effect.id}
+              effect={effect}
+              onChange={(updates) => updateEffect(outcome, effect.id, updates)}
+              onRemove={() => updateOutcome(outcome.id, { effects: outcome.effects.filter(existing => existing.id !== effect.id) })}
+            />
+          ))}
+          {(outcome.modifiers || []).map(modifier => renderModifier(outcome, modifier))}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => updateOutcome(outcome.id, { effects: [...outcome.effects, createOutcomeEffect()] })}
+              className="btn btn-outline btn-sm"
+            >
+              Add Effect
+            </button>
+            <button
+              onClick={() => updateOutcome(outcome.id, { modifiers: [...(outcome.modifiers || []), createModifier()] })}
+              className="btn btn-outline btn-sm"
+            >
+              Add Modifier
+            </button>
+            <button
+              onClick={() => onChange(outcomes.filter(existing => existing.id !== outcome.id))}
+              className="btn btn-error btn-sm"
+            >
+              Remove Outcome
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
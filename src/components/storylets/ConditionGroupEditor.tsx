@@ -0,0 +1,197 @@
+import React, { useCallback } from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { type StoryletCondition, type StoryletConditionGroup, type StoryletTrigger } from '../../types/storylet';
+import { createConditionGroup, isConditionGroup } from '../../utils/storyletConditions';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { StoryVariableSelect, VariableValueInput } from './StoryVariableInputs';
+import { ResourceSelect } from '../resources/ResourceSelect';
+import { ItemSelect } from '../items/ItemSelect';
+import { SkillCheckEditor } from './SkillCheckEditor';
+import { createSkillCheck } from '../../utils/skillChecks';
+import { TRIGGER_TYPE_OPTIONS, TRIGGER_OPERATOR_OPTIONS, CONDITION_LOGIC_OPTIONS, CALENDAR_CONDITION_PLACEHOLDERS } from './triggerOptions';
+
+interface ConditionGroupEditorProps {
+  group: StoryletConditionGroup;
+  onChange: (group: StoryletConditionGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+const createConditionTrigger = (): StoryletTrigger => ({
+  id: crypto.randomUUID(),
+  type: 'resource',
+  condition: '',
+  operator: '>',
+  value: 0,
+  description: ''
+});
+
+export const ConditionGroupEditor: React.FC<ConditionGroupEditorProps> = ({
+  group,
+  onChange,
+  onRemove,
+  depth = 0
+}) => {
+  const { storyVariables, getStoryVariable } = useNarrativeStore();
+  const resourceDefinitions = useCoreGameStore(state => state.resourceDefinitions);
+  const itemDefinitions = useCoreGameStore(state => state.itemDefinitions);
+
+  const replaceChild = useCallback((id: string, child: StoryletCondition) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.map(existing => existing.id === id ? child : existing)
+    });
+  }, [group, onChange]);
+
+  const removeChild = useCallback((id: string) => {
+    onChange({
+      ...group,
+      conditions: group.conditions.filter(existing => existing.id !== id)
+    });
+  }, [group, onChange]);
+
+  const addTrigger = useCallback(() => {
+    onChange({ ...group, conditions: [...group.conditions, createConditionTrigger()] });
+  }, [group, onChange]);
+
+  const addGroup = useCallback(() => {
+    onChange({ ...group, conditions: [...group.conditions, createConditionGroup('any')] });
+  }, [group, onChange]);
+
+  const renderTrigger = (trigger: StoryletTrigger) => (
+    <div key={trigger.id} className="bg-base-200 p-3 rounded">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+        <Select
+          label="Type"
+          value={trigger.type}
+          onChange={(e) => {
+            const type = e.target.value as StoryletTrigger['type'];
+            replaceChild(trigger.id, { ...trigger, type, skillCheck: type === 'skill_check' ? trigger.skillCheck ?? createSkillCheck() : trigger.skillCheck });
+          }}
+          options={TRIGGER_TYPE_OPTIONS}
+        />
+        {trigger.type !== 'skill_check' && (
+          <>
+            {trigger.type === 'variable' ? (
+              <StoryVariableSelect
+                label="Condition"
+                value={trigger.condition}
+                variables={storyVariables}
+                onChange={(name) => replaceChild(trigger.id, { ...trigger, condition: name })}
+              />
+            ) : trigger.type === 'resource' ? (
+              <ResourceSelect
+                label="Condition"
+                value={trigger.condition}
+                resources={resourceDefinitions}
+                onChange={(id) => replaceChild(trigger.id, { ...trigger, condition: id })}
+              />
+            ) : trigger.type === 'has_item' ? (
+              <ItemSelect
+                label="Condition"
+                value={trigger.condition}
+                items={itemDefinitions}
+                onChange={(id) => replaceChild(trigger.id, { ...trigger, condition: id })}
+              />
+            ) : (
+              <Input
+                label="Condition"
+                value={trigger.condition}
+                onChange={(e) => replaceChild(trigger.id, { ...trigger, condition: e.target.value })}
+                placeholder={CALENDAR_CONDITION_PLACEHOLDERS[trigger.type] ?? 'energy, clue_id, storylet_id'}
+              />
+            )}
+            <Select
+              label="Operator"
+              value={trigger.operator || '>'}
+              onChange={(e) => replaceChild(trigger.id, { ...trigger, operator: e.target.value as StoryletTrigger['operator'] })}
+              options={TRIGGER_OPERATOR_OPTIONS}
+            />
+            {trigger.type === 'variable' ? (
+              <VariableValueInput
+                label="Value"
+                variable={getStoryVariable(trigger.condition)}
+                value={trigger.value}
+                variableValue={trigger.variableValue}
+                onChange={(updates) => replaceChild(trigger.id, { ...trigger, ...updates })}
+              />
+            ) : (
+              <Input
+                type="number"
+                label="Value"
+                value={trigger.value?.toString() || '0'}
+                onChange={(e) => replaceChild(trigger.id, { ...trigger, value: parseInt(e.target.value) || 0 })}
+              />
+            )}
+          </>
+        )}
+      </div>
+      {trigger.type === 'skill_check' && (
+        <div className="mt-2">
+          <SkillCheckEditor
+            check={trigger.skillCheck ?? createSkillCheck()}
+            onChange={(skillCheck) => replaceChild(trigger.id, { ...trigger, skillCheck, condition: skillCheck.stat })}
+          />
+        </div>
+      )}
+      <div className="mt-2 flex justify-between items-end">
+        <Input
+          label="Description"
+          value={trigger.description}
+          onChange={(e) => replaceChild(trigger.id, { ...trigger, description: e.target.value })}
+          placeholder="Describe this condition"
+          className="flex-1 mr-2"
+        />
+        <button onClick={() => removeChild(trigger.id)} className="btn btn-error btn-sm">
+          Remove
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`border-l-4 pl-3 space-y-3 ${depth === 0 ? 'border-primary' : 'border-secondary'}`}>
+      <div className="flex flex-wrap items-end gap-2">
+        <div className="w-48">
+          <Select
+            label={depth === 0 ? 'Match' : 'Group'}
+            value={group.logic}
+            onChange={(e) => onChange({ ...group, logic: e.target.value as StoryletConditionGroup['logic'] })}
+            options={CONDITION_LOGIC_OPTIONS}
+          />
+        </div>
+        <button onClick={addTrigger} className="btn btn-outline btn-sm">
+          Add Condition
+        </button>
+        <button onClick={addGroup} className="btn btn-outline btn-sm">
+          Add Group
+        </button>
+        {onRemove && (
+          <button onClick={onRemove} className="btn btn-error btn-sm">
+            Remove Group
+          </button>
+        )}
+      </div>
+
+      {group.conditions.length === 0 ? (
+        <p className="text-sm text-base-content/60">This group has no conditions yet.</p>
+      ) : (
+        group.conditions.map(child =>
+          isConditionGroup(child) ? (
+            <ConditionGroupEditor
+              key={child.id}
+              group={child}
+              onChange={(updated) => replaceChild(child.id, updated)}
+              onRemove={() => removeChild(child.id)}
+              depth={depth + 1}
+            />
+          ) : (
+            renderTrigger(child)
+          )
+        )
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,149 @@
+import React from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { type StoryletEffect } from '../../types/storylet';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { StoryVariableSelect, VariableValueInput } from './StoryVariableInputs';
+import { ResourceSelect } from '../resources/ResourceSelect';
+import { ItemSelect } from '../items/ItemSelect';
+import { UnlockTargetSelect } from './UnlockTargetSelect';
+import { EFFECT_TYPE_OPTIONS, EFFECT_OPERATOR_OPTIONS } from './triggerOptions';
+
+interface EffectFieldsProps {
+  effect: StoryletEffect;
+  onChange: (updates: Partial<StoryletEffect>) => void;
+  onRemove: () => void;
+}
+
+/**
+ * One-line effect editor for effects nested in choice outcomes and storylet pages
+ */
+export const EffectFields: React.FC<EffectFieldsProps> = ({ effect, onChange, onRemove }) => {
+  const { storylets, storyVariables, getStoryVariable } = useNarrativeStore();
+  const resourceDefinitions = useCoreGameStore(state => state.resourceDefinitions);
+  const itemDefinitions = useCoreGameStore(state => state.itemDefinitions);
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-5 gap-2 items-end">
+        <Select
+          label="Effect"
+          value={effect.type}
+          onChange={(e) => {
+            const type = e.target.value as StoryletEffect['type'];
+            onChange(type === 'set_variable' ? { type, operator: '=' } : { type });
+          }}
+          options={EFFECT_TYPE_OPTIONS}
+        />
+        {effect.type === 'set_variable' ? (
+          <StoryVariableSelect
+            label="Target"
+            value={effect.target}
+            variables={storyVariables}
+            onChange={(name) => onChange({ target: name })}
+          />
+        ) : effect.type === 'resource' ? (
+          <ResourceSelect
+            label="Target"
+            value={effect.target}
+            resources={resourceDefinitions}
+            onChange={(id) => onChange({ target: id })}
+          />
+        ) : effect.type === 'item_grant' || effect.type === 'item_remove' ? (
+          <ItemSelect
+            label="Target"
+            value={effect.target}
+            items={itemDefinitions}
+            onChange={(id) => onChange({ target: id })}
+          />
+        ) : effect.type === 'schedule_event' ? (
+          <Select
+            label="Storylet"
+            value={effect.target}
+            onChange={(e) => onChange({ target: e.target.value })}
+            options={[{ value: '', label: 'Effects only' }, ...storylets.map(storylet => ({ value: storylet.id, label: storylet.title }))]}
+          />
+        ) : effect.type === 'storylet_unlock' || effect.type === 'storylet_lock' ? (
+          <UnlockTargetSelect
+            label="Target"
+            value={effect.target}
+            onChange={(target) => onChange({ target })}
+          />
+        ) : (
+          <Input
+            label="Target"
+            value={effect.target}
+            onChange={(e) => onChange({ target: e.target.value })}
+            placeholder="character_id, clue_id, minutes"
+          />
+        )}
+        <Select
+          label="Operator"
+          value={effect.operator || '+'}
+          onChange={(e) => onChange({ operator: e.target.value as StoryletEffect['operator'] })}
+          options={EFFECT_OPERATOR_OPTIONS}
+        />
+        {effect.type === 'set_variable' ? (
+          <VariableValueInput
+            label="Value"
+            variable={getStoryVariable(effect.target)}
+            value={effect.value}
+            variableValue={effect.variableValue}
+            onChange={onChange}
+          />
+        ) : (
+          <Input
+            type="number"
+            label={effect.type === 'schedule_event' ? 'Delay (minutes)' : 'Value'}
+            value={effect.value?.toString() || '1'}
+            onChange={(e) => onChange({ value: parseInt(e.target.value) || 1 })}
+          />
+        )}
+        <button onClick={onRemove} className="btn btn-error btn-sm">
+          Remove
+        </button>
+      </div>
+      {effect.type === 'schedule_event' && <ScheduledEventFields effect={effect} onChange={onChange} />}
+    </div>
+  );
+};
+
+interface ScheduledEventFieldsProps {
+  effect: StoryletEffect;
+  onChange: (updates: Partial<StoryletEffect>) => void;
+}
+
+/**
+ * Calendar time and delayed effects of a schedule_event effect
+ */
+export const ScheduledEventFields: React.FC<ScheduledEventFieldsProps> = ({ effect, onChange }) => {
+  const scheduledEffects = effect.scheduledEffects || [];
+
+  return (
+    <div className="pl-4 border-l-2 border-base-300 space-y-2">
+      <Input
+        label="At (instead of the delay)"
+        value={effect.scheduleAt || ''}
+        onChange={(e) => onChange({ scheduleAt: e.target.value || undefined })}
+        placeholder="period:evening, 09:00 or day:3 08:00"
+      />
+      {scheduledEffects.map(scheduled => (
+        <EffectFields
+          key={scheduled.id}
+          effect={scheduled}
+          onChange={(updates) => onChange({ scheduledEffects: scheduledEffects.map(existing => existing.id === scheduled.id ? { ...existing, ...updates } : existing) })}
+          onRemove={() => onChange({ scheduledEffects: scheduledEffects.filter(existing => existing.id !== scheduled.id) })}
+        />
+      ))}
+      <button
+        onClick={() => onChange({
+          scheduledEffects: [...scheduledEffects, { id: crypto.randomUUID(), type: 'resource', target: '', operator: '+', value: 1, description: '' }]
+        })}
+        className="btn btn-outline btn-xs"
+      >
+        Add Delayed Effect
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { type SkillCheck } from '../../types/storylet';
+import { useCoreGameStore } from '../../stores/useCoreGameStore';
+import { useCharacterStore } from '../../stores/useCharacterStore';
+import { describeSkillCheck } from '../../utils/skillChecks';
+
+interface SkillCheckEditorProps {
+  check: SkillCheck;
+  onChange: (check: SkillCheck) => void;
+}
+
+const STAT_TYPE_OPTIONS = [
+  { value: 'attribute', label: 'Attribute' },
+  { value: 'trait', label: 'Trait' }
+];
+
+export const SkillCheckEditor: React.FC<SkillCheckEditorProps> = ({ check, onChange }) => {
+  const { resources, variables } = useCoreGameStore();
+  const { characters } = useCharacterStore();
+
+  const character = characters.find(c => c.id === check.characterId);
+  const stats = check.statType === 'trait' ? character?.traits || [] : character?.attributes || [];
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Select
+          label="Character"
+          value={check.characterId}
+          onChange={(e) => onChange({ ...check, characterId: e.target.value, stat: '' })}
+          options={[{ value: '', label: 'Select character' }, ...characters.map(c => ({ value: c.id, label: c.name }))]}
+        />
+        <Select
+          label="Stat type"
+          value={check.statType}
+          onChange={(e) => onChange({ ...check, statType: e.target.value as SkillCheck['statType'], stat: '' })}
+          options={STAT_TYPE_OPTIONS}
+        />
+        <Select
+          label={check.statType === 'trait' ? 'Trait' : 'Attribute'}
+          value={check.stat}
+          onChange={(e) => onChange({ ...check, stat: e.target.value })}
+          options={[{ value: '', label: 'Select stat' }, ...stats.map(s => ({ value: s.id, label: s.name }))]}
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+        <Input
+          type="number"
+          label="Dice (count, 0 for none)"
+          value={(check.dice?.count ?? 0).toString()}
+          onChange={(e) => {
+            const count = parseInt(e.target.value) || 0;
+            onChange({ ...check, dice: count > 0 ? { count, sides: check.dice?.sides ?? 20 } : undefined });
+          }}
+          min="0"
+        />
+        <Input
+          type="number"
+          label="Sides per die"
+          value={(check.dice?.sides ?? 20).toString()}
+          onChange={(e) => check.dice && onChange({ ...check, dice: { ...check.dice, sides: parseInt(e.target.value) || 2 } })}
+          disabled={!check.dice}
+          min="2"
+        />
+        <Input
+          type="number"
+          label="Difficulty"
+          value={check.difficulty.toString()}
+          onChange={(e) => onChange({ ...check, difficulty: parseInt(e.target.value) || 0 })}
+        />
+      </div>
+      <p className="text-xs text-base-content/60">
+        Odds with current state: {describeSkillCheck(check, { resources, variables, characters })}
+      </p>
+    </div>
+  );
+};
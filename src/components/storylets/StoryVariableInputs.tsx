@@ -0,0 +1,86 @@
+import React from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import type { StoryVariableDefinition, StoryVariableValue } from '../../types/storylet';
+import { parseVariableValue } from '../../utils/storyVariables';
+
+interface StoryVariableSelectProps {
+  label: string;
+  value: string;
+  variables: StoryVariableDefinition[];
+  onChange: (name: string) => void;
+}
+
+/**
+ * Pick a declared story variable; falls back to free text when none are declared
+ */
+export const StoryVariableSelect: React.FC<StoryVariableSelectProps> = ({ label, value, variables, onChange }) => {
+  if (variables.length === 0) {
+    return (
+      <Input
+        label={label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder="Declare variables in the Variables tab"
+      />
+    );
+  }
+
+  return (
+    <Select
+      label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      options={variables.map(variable => ({ value: variable.name, label: `${variable.name} (${variable.type})` }))}
+    />
+  );
+};
+
+interface VariableValueInputProps {
+  label: string;
+  variable?: StoryVariableDefinition;
+  value?: number;
+  variableValue?: StoryVariableValue;
+  onChange: (updates: { value?: number; variableValue?: StoryVariableValue }) => void;
+}
+
+/**
+ * Value editor that matches the declared variable type.
+ * Numbers are stored in `value`, flags and text in `variableValue`.
+ */
+export const VariableValueInput: React.FC<VariableValueInputProps> = ({ label, variable, value, variableValue, onChange }) => {
+  const type = variable?.type ?? 'number';
+
+  if (type === 'boolean') {
+    return (
+      <Select
+        label={label}
+        value={String(variableValue ?? false)}
+        onChange={(e) => onChange({ value: undefined, variableValue: parseVariableValue(e.target.value, 'boolean') })}
+        options={[
+          { value: 'true', label: 'True' },
+          { value: 'false', label: 'False' }
+        ]}
+      />
+    );
+  }
+
+  if (type === 'string') {
+    return (
+      <Input
+        label={label}
+        value={typeof variableValue === 'string' ? variableValue : ''}
+        onChange={(e) => onChange({ value: undefined, variableValue: e.target.value })}
+      />
+    );
+  }
+
+  return (
+    <Input
+      type="number"
+      label={label}
+      value={value?.toString() || '0'}
+      onChange={(e) => onChange({ value: parseVariableValue(e.target.value, 'number') as number, variableValue: undefined })}
+    />
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Card } from '../common/Card';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import type { StoryVariableDefinition, StoryVariableType } from '../../types/storylet';
+import { getDefaultValueForType, VARIABLE_NAME_PATTERN } from '../../utils/storyVariables';
+import { VariableValueInput } from './StoryVariableInputs';
+import { VARIABLE_TYPE_OPTIONS } from './triggerOptions';
+
+const createEmptyVariable = (): StoryVariableDefinition => ({
+  name: '',
+  type: 'boolean',
+  defaultValue: false,
+  description: ''
+});
+
+/**
+ * Declare the story variables shared by every storylet
+ */
+export const StoryVariableManager: React.FC = () => {
+  const { storyVariables, saveStoryVariable, deleteStoryVariable } = useNarrativeStore();
+  const [draft, setDraft] = useState<StoryVariableDefinition>(createEmptyVariable);
+  const [error, setError] = useState<string | undefined>();
+
+  const handleTypeChange = (type: StoryVariableType) => {
+    setDraft(prev => ({ ...prev, type, defaultValue: getDefaultValueForType(type) }));
+  };
+
+  const handleAdd = async () => {
+    const name = draft.name.trim();
+    if (!VARIABLE_NAME_PATTERN.test(name)) {
+      setError('Use letters, numbers and underscores, starting with a letter');
+      return;
+    }
+    if (storyVariables.some(variable => variable.name === name)) {
+      setError(`Variable "${name}" is already declared`);
+      return;
+    }
+
+    try {
+      await saveStoryVariable({ ...draft, name });
+      setDraft(createEmptyVariable());
+      setError(undefined);
+    } catch {
+      setError('Failed to save variable');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-base-content/70">
+        Variables are shared by all storylets. Use them in "Story Variable" triggers and "Set Variable" effects.
+      </p>
+
+      <Card className="p-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <Input
+            label="Variable Name"
+            value={draft.name}
+            onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+            placeholder="met_detective"
+            error={error}
+          />
+          <Select
+            label="Variable Type"
+            value={draft.type}
+            onChange={(e) => handleTypeChange(e.target.value as StoryVariableType)}
+            options={VARIABLE_TYPE_OPTIONS}
+          />
+          <VariableValueInput
+            label="Default Value"
+            variable={draft}
+            value={typeof draft.defaultValue === 'number' ? draft.defaultValue : undefined}
+            variableValue={draft.defaultValue}
+            onChange={({ value, variableValue }) => setDraft(prev => ({ ...prev, defaultValue: variableValue ?? value ?? 0 }))}
+          />
+          <button onClick={handleAdd} className="btn btn-primary btn-sm">
+            Declare Variable
+          </button>
+        </div>
+        <Input
+          label="Variable Description"
+          value={draft.description}
+          onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+          placeholder="What this variable tracks"
+          className="mt-2"
+        />
+      </Card>
+
+      {storyVariables.length === 0 ? (
+        <p className="text-base-content/70 text-center py-8">No story variables declared yet.</p>
+      ) : (
+        <div className="space-y-2">
+          {storyVariables.map(variable => (
+            <div key={variable.name} className="flex justify-between items-center bg-base-200 p-3 rounded">
+              <div>
+                <span className="font-mono font-semibold">{variable.name}</span>
+                <span className="badge badge-outline ml-2">{variable.type}</span>
+                <span className="text-sm text-base-content/70 ml-2">default: {String(variable.defaultValue)}</span>
+                {variable.description && (
+                  <p className="text-sm text-base-content/70">{variable.description}</p>
+                )}
+              </div>
+              <button onClick={() => deleteStoryVariable(variable.name)} className="btn btn-error btn-xs">
+                Delete
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
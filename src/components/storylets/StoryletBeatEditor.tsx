@@ -0,0 +1,146 @@
+import React, { useCallback } from 'react';
+import { Input } from '../forms/Input';
+import { Select } from '../forms/Select';
+import { TextArea } from '../forms/TextArea';
+import { type StoryletBeat, type StoryletBeatChoice, type StoryletEffect } from '../../types/storylet';
+import { EffectFields } from './EffectFields';
+
+interface StoryletBeatEditorProps {
+  beats: StoryletBeat[];
+  onChange: (beats: StoryletBeat[]) => void;
+}
+
+const createBeat = (): StoryletBeat => ({
+  id: crypto.randomUUID(),
+  content: '',
+  effects: []
+});
+
+const createBeatChoice = (): StoryletBeatChoice => ({
+  id: crypto.randomUUID(),
+  text: '',
+  effects: []
+});
+
+const createBeatEffect = (): StoryletEffect => ({
+  id: crypto.randomUUID(),
+  type: 'resource',
+  target: '',
+  operator: '+',
+  value: 1,
+  description: ''
+});
+
+/**
+ * Edit the pages that follow a storylet's opening content
+ */
+export const StoryletBeatEditor: React.FC<StoryletBeatEditorProps> = ({ beats, onChange }) => {
+  const updateBeat = useCallback((id: string, updates: Partial<StoryletBeat>) => {
+    onChange(beats.map(beat => beat.id === id ? { ...beat, ...updates } : beat));
+  }, [beats, onChange]);
+
+  const updateChoice = (beat: StoryletBeat, id: string, updates: Partial<StoryletBeatChoice>) => {
+    updateBeat(beat.id, { choices: (beat.choices || []).map(choice => choice.id === id ? { ...choice, ...updates } : choice) });
+  };
+
+  const renderEffects = (effects: StoryletEffect[], onEffectsChange: (effects: StoryletEffect[]) => void) =>
+    effects.map(effect => (
+      <EffectFields
+        key={effect.id}
+        effect={effect}
+        onChange={(updates) => onEffectsChange(effects.map(existing => existing.id === effect.id ? { ...existing, ...updates } : existing))}
+        onRemove={() => onEffectsChange(effects.filter(existing => existing.id !== effect.id))}
+      />
+    ));
+
+  const renderChoice = (beat: StoryletBeat, choice: StoryletBeatChoice) => (
+    <div key={choice.id} className="border border-base-300 p-3 rounded space-y-2">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Input
+          label="Choice Text"
+          value={choice.text}
+          onChange={(e) => updateChoice(beat, choice.id, { text: e.target.value })}
+          placeholder="Ask about the letter"
+        />
+        <Select
+          label="Leads to"
+          value={choice.nextBeatId || ''}
+          onChange={(e) => updateChoice(beat, choice.id, { nextBeatId: e.target.value || undefined })}
+          options={[
+            { value: '', label: 'Next page' },
+            ...beats.map((other, index) => ({ value: other.id, label: `Page ${index + 2}` }))
+          ]}
+        />
+      </div>
+
+      {renderEffects(choice.effects, effects => updateChoice(beat, choice.id, { effects }))}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => updateChoice(beat, choice.id, { effects: [...choice.effects, createBeatEffect()] })}
+          className="btn btn-outline btn-xs"
+        >
+          Add Effect
+        </button>
+        <button
+          onClick={() => updateBeat(beat.id, { choices: (beat.choices || []).filter(existing => existing.id !== choice.id) })}
+          className="btn btn-error btn-xs"
+        >
+          Remove Choice
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-between items-center">
+        <div>
+          <h4 className="font-medium text-sm text-base-content/80">Pages</h4>
+          <p className="text-xs text-base-content/60">
+            The content above is page 1. Further pages follow in order; the storylet's choices appear on the last one.
+          </p>
+        </div>
+        <button onClick={() => onChange([...beats, createBeat()])} className="btn btn-outline btn-sm">
+          Add Page
+        </button>
+      </div>
+
+      {beats.map((beat, index) => (
+        <div key={beat.id} className="bg-base-200 p-3 rounded space-y-3">
+          <TextArea
+            label={`Page ${index + 2}`}
+            value={beat.content}
+            onChange={(e) => updateBeat(beat.id, { content: e.target.value })}
+            placeholder="What happens next"
+            rows={4}
+          />
+
+          {renderEffects(beat.effects, effects => updateBeat(beat.id, { effects }))}
+          {(beat.choices || []).map(choice => renderChoice(beat, choice))}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => updateBeat(beat.id, { effects: [...beat.effects, createBeatEffect()] })}
+              className="btn btn-outline btn-sm"
+            >
+              Add Effect
+            </button>
+            <button
+              onClick={() => updateBeat(beat.id, { choices: [...(beat.choices || []), createBeatChoice()] })}
+              className="btn btn-outline btn-sm"
+            >
+              Add Inline Choice
+            </button>
+            <button
+              onClick={() => onChange(beats.filter(existing => existing.id !== beat.id))}
+              className="btn btn-error btn-sm"
+            >
+              Remove Page
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,35 @@
+import React from 'react';
+import { Select } from '../forms/Select';
+import { useNarrativeStore } from '../../stores/useNarrativeStore';
+import { CHOICE_UNLOCK_PREFIX } from '../../utils/storyletUnlocks';
+
+interface UnlockTargetSelectProps {
+  label: string;
+  value: string;
+  onChange: (target: string) => void;
+}
+
+/**
+ * Pick the storylet or choice an unlock/lock effect applies to
+ */
+export const UnlockTargetSelect: React.FC<UnlockTargetSelectProps> = ({ label, value, onChange }) => {
+  const { storylets } = useNarrativeStore();
+
+  return (
+    <Select
+      label={label}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      options={[
+        { value: '', label: 'Select storylet or choice' },
+        ...storylets.flatMap(storylet => [
+          { value: storylet.id, label: storylet.title },
+          ...storylet.choices.map(choice => ({
+            value: `${CHOICE_UNLOCK_PREFIX}${choice.id}`,
+            label: `${storylet.title} → ${choice.text || 'Unnamed choice'}`
+          }))
+        ])
+      ]}
+    />
+  );
+};
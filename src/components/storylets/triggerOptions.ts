@@ -0,0 +1,73 @@
+// Shared select options for trigger, effect and variable editors
+
+export const TRIGGER_TYPE_OPTIONS = [
+  { value: 'resource', label: 'Resource' },
+  { value: 'relationship', label: 'Relationship' },
+  { value: 'time', label: 'Time' },
+  { value: 'day', label: 'Day Number' },
+  { value: 'time_of_day', label: 'Time of Day' },
+  { value: 'weekday', label: 'Weekday' },
+  { value: 'clue', label: 'Clue' },
+  { value: 'storylet_completion', label: 'Storylet Completion' },
+  { value: 'random', label: 'Random' },
+  { value: 'variable', label: 'Story Variable' },
+  { value: 'skill_check', label: 'Skill Check' },
+  { value: 'has_item', label: 'Has Item' }
+];
+
+export const TRIGGER_OPERATOR_OPTIONS = [
+  { value: '>', label: 'Greater than' },
+  { value: '<', label: 'Less than' },
+  { value: '=', label: 'Equal to' },
+  { value: '>=', label: 'Greater or equal' },
+  { value: '<=', label: 'Less or equal' },
+  { value: '!=', label: 'Not equal' }
+];
+
+export const CONDITION_LOGIC_OPTIONS = [
+  { value: 'all', label: 'All of (AND)' },
+  { value: 'any', label: 'Any of (OR)' },
+  { value: 'none', label: 'None of (NOT)' }
+];
+
+export const EFFECT_TYPE_OPTIONS = [
+  { value: 'resource', label: 'Resource' },
+  { value: 'relationship', label: 'Relationship' },
+  { value: 'clue_discovery', label: 'Clue Discovery' },
+  { value: 'storylet_unlock', label: 'Storylet Unlock' },
+  { value: 'storylet_lock', label: 'Storylet Lock' },
+  { value: 'arc_progress', label: 'Arc Progress' },
+  { value: 'arc_complete', label: 'Arc Complete' },
+  { value: 'time_advance', label: 'Time Advance' },
+  { value: 'set_variable', label: 'Set Variable' },
+  { value: 'item_grant', label: 'Item Grant' },
+  { value: 'item_remove', label: 'Item Remove' },
+  { value: 'schedule_event', label: 'Schedule Event' }
+];
+
+export const EFFECT_OPERATOR_OPTIONS = [
+  { value: '+', label: 'Add' },
+  { value: '-', label: 'Subtract' },
+  { value: '=', label: 'Set to' },
+  { value: '*', label: 'Multiply by' }
+];
+
+export const VARIABLE_TYPE_OPTIONS = [
+  { value: 'boolean', label: 'Flag (true/false)' },
+  { value: 'number', label: 'Number' },
+  { value: 'string', label: 'Text' }
+];
+
+export const REPEAT_MODE_OPTIONS = [
+  { value: 'repeatable', label: 'Repeatable' },
+  { value: 'once', label: 'Once only' },
+  { value: 'limited', label: 'Limited plays' },
+  { value: 'cooldown', label: 'Cooldown (game minutes)' }
+];
+
+// Condition hints for calendar triggers; other types use the editor's default placeholder
+export const CALENDAR_CONDITION_PLACEHOLDERS: Record<string, string> = {
+  day: 'day (compare the day number in Value)',
+  time_of_day: 'morning, evening or 18:00-22:00',
+  weekday: 'Saturday, Sunday'
+};
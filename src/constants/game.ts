@@ -1,13 +1,14 @@
 // Game constants and configuration values
 
-export const INITIAL_RESOURCES = {
-  ENERGY: 100,
-  SOCIAL: 50,
-  KNOWLEDGE: 0,
-  MONEY: 100,
-  HEALTH: 100,
-  REPUTATION: 50,
-} as const;
+import type { ResourceDefinition } from '../types/resource';
+
+// Resource registry used until a project defines its own
+export const DEFAULT_RESOURCE_DEFINITIONS: ResourceDefinition[] = [
+  { id: 'energy', label: 'Energy', icon: '⚡', min: 0, initial: 100, allowNegative: false },
+  { id: 'social', label: 'Social', icon: '💬', min: 0, initial: 50, allowNegative: false },
+  { id: 'knowledge', label: 'Knowledge', icon: '📚', min: 0, initial: 0, allowNegative: false },
+  { id: 'money', label: 'Money', icon: '💰', min: 0, initial: 100, allowNegative: false },
+];
 
 export const VALIDATION_LIMITS = {
   TITLE_MAX_LENGTH: 100,
@@ -1,7 +1,13 @@
 import Dexie, { type Table } from 'dexie';
 import type { ClueEvidence, ClueConnection, CaseTheory, MinigameConfig } from '../types/clue';
-import type { StoryletTrigger, StoryletChoice, StoryletEffect } from '../types/storylet';
+import type { ScenePosition, ScheduledEvent, StoryletPlayRecord, StoryVariableType, StoryVariableValue, UnlockState } from '../types/storylet';
 import type { CharacterRelationship, CharacterAttribute, CharacterTrait } from '../types/character';
+import type { ArcProgress } from '../types/narrative';
+import type { Inventory } from '../types/item';
+import type { RevisionEntityType } from '../types/revision';
+import type { ReleaseStatus } from '../types/release';
+import type { RandomState } from '../utils/random';
+import { LEGACY_DATABASE_NAME, migrateLegacyDatabase } from './legacyMigration';
 
 // Define the database schema interfaces
 interface DbConnectionMapping {
@@ -19,35 +25,96 @@ interface DbMinigameResultDetails {
 }
 
 interface DbImportData {
-  data: {
-    storylets?: DbStorylet[];
-    storyArcs?: DbStoryArc[];
-    characters?: DbCharacter[];
-    clues?: DbClue[];
-    gameSaves?: DbGameSave[];
-  };
+  data: Partial<Record<string, unknown[]>>; // Rows keyed by table name
 }
+
+// Storylets keep their structured fields as JSON strings; see ./serialization
 export interface DbStorylet {
-  id?: string;
+  id: string;
   title: string;
   description: string;
   content: string;
-  triggers: StoryletTrigger[];
-  choices: StoryletChoice[];
-  effects: StoryletEffect[];
+  beats?: string; // JSON string
+  triggers: string; // JSON string
+  conditions?: string; // JSON string
+  choices: string;  // JSON string
+  effects: string;  // JSON string
   storyArc?: string;
   status: 'dev' | 'stage' | 'live';
-  createdAt: Date;
-  updatedAt: Date;
+  tags: string;     // JSON string
+  priority: number;
+  estimatedPlayTime: number;
+  prerequisites: string; // JSON string
+  repeat?: string; // JSON string
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface DbStoryArc {
-  id?: string;
+  id: string;
   name: string;
   description: string;
-  storyletIds: string[];
-  startStoryletId?: string;
-  endStoryletId?: string;
+  category?: string;
+  difficulty?: 'beginner' | 'intermediate' | 'advanced';
+  estimatedLength?: number;
+  prerequisites: string; // JSON string
+  endStoryletIds?: string; // JSON string
+  tags: string;          // JSON string
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DbStoryletCompletion {
+  storyletId: string;
+  completedAt: string;
+}
+
+export interface DbStoryVariable {
+  name: string;
+  type: StoryVariableType;
+  defaultValue: StoryVariableValue;
+  description?: string;
+  updatedAt: string;
+}
+
+// Revision history of storylets, clues and characters
+export interface DbRevision {
+  id?: number;
+  entityType: RevisionEntityType;
+  entityId: string;
+  createdAt: string;
+  author: string;
+  changedFields: string[];
+  snapshot: string; // JSON string
+}
+
+// Changelog of storylet status changes through the release pipeline
+export interface DbPromotion {
+  id?: number;
+  storyletId: string;
+  storyletTitle: string;
+  from: ReleaseStatus;
+  to: ReleaseStatus;
+  promotedAt: string;
+  author: string;
+  note?: string;
+}
+
+// Published releases; written once and never updated
+export interface DbRelease {
+  id?: number;
+  number: number;
+  publishedAt: string;
+  author: string;
+  note?: string;
+  snapshot: string; // JSON string
+}
+
+// Project-wide settings such as the calendar and resource registry, stored as JSON by key
+export interface DbGameSetting {
+  key: string;
+  value: string; // JSON string
+  updatedAt: string;
 }
 
 export interface DbCharacter {
@@ -175,26 +242,36 @@ export interface DbGameSave {
   id?: number;
   slot: number;
   name: string;
+  version?: number; // Save format version; absent in saves made before versioning (format 1)
+  contentFingerprint?: string; // Hash of the story content the save was played against
   gameTime: number;
-  resources: {
-    energy: number;
-    social: number;
-    knowledge: number;
-    money: number;
-  };
+  resources: Record<string, number>;
   playerRelationships: Record<string, number>;
   discoveredClues: string[];
   completedStorylets: string[];
+  variables?: Record<string, StoryVariableValue>; // Absent in saves made before story variables existed
+  randomState?: RandomState; // Engine RNG seed and position, for reproducible playthroughs
+  storyletPlays?: Record<string, StoryletPlayRecord>; // Play counts for repeat and cooldown policies
+  unlocks?: UnlockState; // Storylet and choice unlock/lock overrides
+  arcProgress?: Record<string, ArcProgress>; // Per-arc progress, keyed by arc id
+  inventory?: Inventory; // Item counts, keyed by item id
+  scheduledEvents?: ScheduledEvent[]; // Pending storylets and effects queued by schedule_event effects
   currentStoryletId?: string;
+  currentScene?: ScenePosition; // Page shown when the save was made mid-storylet; absent between storylets
   currentArcId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
 
+export const DATABASE_NAME = 'V13nStudio';
+
 // Create the database class
 export class V13nDatabase extends Dexie {
-  storylets!: Table<DbStorylet>;
-  storyArcs!: Table<DbStoryArc>;
+  storylets!: Table<DbStorylet, string>;
+  storyArcs!: Table<DbStoryArc, string>;
+  storyletCompletions!: Table<DbStoryletCompletion, string>;
+  storyVariables!: Table<DbStoryVariable, string>;
+  gameSettings!: Table<DbGameSetting, string>;
   characters!: Table<DbCharacter>;
   clues!: Table<DbClue>;
   clueBoards!: Table<DbClueBoard>;
@@ -202,68 +279,45 @@ export class V13nDatabase extends Dexie {
   clueDiscoveries!: Table<DbClueDiscovery>;
   clueInvestigations!: Table<DbClueInvestigation>;
   minigameAttempts!: Table<DbMinigameAttempt>;
-  gameSaves!: Table<DbGameSave>;
+  gameSaves!: Table<DbGameSave, number>;
+  revisions!: Table<DbRevision, number>;
+  promotions!: Table<DbPromotion, number>;
+  releases!: Table<DbRelease, number>;
 
   constructor() {
-    super('V13nDatabase');
-    
-    // Version 1: Original schema
-    this.version(1).stores({
-      storylets: '++id, title, storyArc, status',
-      storyArcs: '++id, name',
-      characters: '++id, name, role',
-      clues: '++id, name, discovered',
-      gameSaves: '++id, slot, name, createdAt'
-    });
+    super(DATABASE_NAME);
 
-    // Version 2: Phase 4 - Enhanced characters and clues
-    this.version(2).stores({
-      storylets: '++id, title, storyArc, status',
-      storyArcs: '++id, name',
+    // Version 1: Story content, project settings, characters, clues and saves in one schema.
+    // Data from the older V13nDatabase is copied in once it opens; see ./legacyMigration
+    this.version(1).stores({
+      storylets: 'id, title, status, storyArc, createdAt, updatedAt',
+      storyArcs: 'id, name, category, difficulty, createdAt, updatedAt',
+      storyletCompletions: 'storyletId, completedAt',
+      storyVariables: 'name, type',
+      gameSettings: 'key',
       characters: '++id, name, category, importance, status',
-      clues: '++id, name, title, category, type, importance, isDiscovered, status',
+      clues: '++id, name, title, category, type, importance, isDiscovered, status, isMinigame',
       clueBoards: '++id, name, createdAt',
       caseTheories: '++id, title, status, confidence',
       clueDiscoveries: '++id, clueId, discoveredBy, timestamp',
       clueInvestigations: '++id, clueId, timestamp, method',
+      minigameAttempts: '++id, clueId, playerId, timestamp',
       gameSaves: '++id, slot, name, createdAt'
     });
 
-    // Version 3: Phase 4.5 - Minigame integration
+    // Version 2: Revision history
+    this.version(2).stores({
+      revisions: '++id, [entityType+entityId], createdAt'
+    });
+
+    // Version 3: Release pipeline changelog and published releases
     this.version(3).stores({
-      storylets: '++id, title, storyArc, status',
-      storyArcs: '++id, name',
-      characters: '++id, name, category, importance, status',
-      clues: '++id, name, title, category, type, importance, isDiscovered, status, isMinigame',
-      clueBoards: '++id, name, createdAt',
-      caseTheories: '++id, title, status, confidence',
-      clueDiscoveries: '++id, clueId, discoveredBy, timestamp',
-      clueInvestigations: '++id, clueId, timestamp, method',
-      minigameAttempts: '++id, clueId, playerId, timestamp',
-      gameSaves: '++id, slot, name, createdAt'
-    }).upgrade(trans => {
-      // Upgrade existing clues to add missing fields
-      return trans.table('clues').toCollection().modify((clue: DbClue) => {
-        if (!clue.createdAt) {
-          clue.createdAt = new Date();
-        }
-        if (!clue.updatedAt) {
-          clue.updatedAt = new Date();
-        }
-        if (typeof clue.isMinigame === 'undefined') {
-          clue.isMinigame = false;
-        }
-        if (!clue.evidence) {
-          clue.evidence = [];
-        }
-        if (!clue.connections) {
-          clue.connections = [];
-        }
-        if (!clue.mentionedInStorylets) {
-          clue.mentionedInStorylets = [];
-        }
-      });
+      promotions: '++id, storyletId, promotedAt',
+      releases: '++id, &number, publishedAt'
     });
+
+    // Queries wait until legacy data has been brought over
+    this.on('ready', () => migrateLegacyDatabase(this));
   }
 }
 
@@ -276,6 +330,8 @@ db.open().catch((error) => {
   console.warn('This might be due to schema changes. Consider clearing application data.');
 });
 
+export { serializeStorylet, deserializeStorylet, serializeStoryArc, deserializeStoryArc } from './serialization';
+
 // Database helper functions with IndexedDB fallback
 export const databaseHelpers = {
   // Check if database is available
@@ -292,24 +348,12 @@ export const databaseHelpers = {
   // Export all data
   exportData: async () => {
     try {
-      const [storylets, storyArcs, characters, clues, gameSaves] = await Promise.all([
-        db.storylets.toArray(),
-        db.storyArcs.toArray(),
-        db.characters.toArray(),
-        db.clues.toArray(),
-        db.gameSaves.toArray()
-      ]);
+      const tables = await Promise.all(db.tables.map(async table => [table.name, await table.toArray()] as const));
 
       return {
-        version: 1,
+        version: 2,
         exportedAt: new Date().toISOString(),
-        data: {
-          storylets,
-          storyArcs,
-          characters,
-          clues,
-          gameSaves
-        }
+        data: Object.fromEntries(tables)
       };
     } catch (error) {
       console.error('Export failed:', error);
@@ -317,29 +361,17 @@ export const databaseHelpers = {
     }
   },
 
-  // Import data
+  // Import data, replacing every table the export contains
   importData: async (importedData: DbImportData) => {
     try {
       const { data } = importedData;
-      
-      // Clear existing data
-      await db.transaction('rw', [db.storylets, db.storyArcs, db.characters, db.clues, db.gameSaves], async () => {
-        await Promise.all([
-          db.storylets.clear(),
-          db.storyArcs.clear(),
-          db.characters.clear(),
-          db.clues.clear(),
-          db.gameSaves.clear()
-        ]);
-      });
+      const tables = db.tables.filter(table => data[table.name]);
 
-      // Import new data
-      await db.transaction('rw', [db.storylets, db.storyArcs, db.characters, db.clues, db.gameSaves], async () => {
-        if (data.storylets) await db.storylets.bulkAdd(data.storylets);
-        if (data.storyArcs) await db.storyArcs.bulkAdd(data.storyArcs);
-        if (data.characters) await db.characters.bulkAdd(data.characters);
-        if (data.clues) await db.clues.bulkAdd(data.clues);
-        if (data.gameSaves) await db.gameSaves.bulkAdd(data.gameSaves);
+      await db.transaction('rw', tables, async () => {
+        for (const table of tables) {
+          await table.clear();
+          await table.bulkAdd(data[table.name]!);
+        }
       });
 
       return true;
@@ -352,14 +384,8 @@ export const databaseHelpers = {
   // Clear all data
   clearAllData: async () => {
     try {
-      await db.transaction('rw', [db.storylets, db.storyArcs, db.characters, db.clues, db.gameSaves], async () => {
-        await Promise.all([
-          db.storylets.clear(),
-          db.storyArcs.clear(),
-          db.characters.clear(),
-          db.clues.clear(),
-          db.gameSaves.clear()
-        ]);
+      await db.transaction('rw', db.tables, async () => {
+        await Promise.all(db.tables.map(table => table.clear()));
       });
     } catch (error) {
       console.error('Clear data failed:', error);
@@ -367,9 +393,11 @@ export const databaseHelpers = {
     }
   },
 
-  // Reset database completely (for debugging schema issues)
+  // Reset database completely (for debugging schema issues). The legacy
+  // database goes too, or reopening would import it again.
   resetDatabase: async () => {
     try {
+      await Dexie.delete(LEGACY_DATABASE_NAME);
       await db.delete();
       await db.open();
       return { success: true };
@@ -378,4 +406,4 @@ export const databaseHelpers = {
       return { success: false, error };
     }
   }
-};
\ No newline at end of file
+};
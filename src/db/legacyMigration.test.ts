@@ -0,0 +1,68 @@
+/**
+ * Tests for the legacy database import
+ * Covers converting storylets and arcs from both legacy layouts
+ */
+
+import { describe, it, expect } from 'vitest';
+import { convertLegacyTables } from './legacyMigration';
+import { deserializeStoryArc, deserializeStorylet } from './serialization';
+import type { DbStoryArc, DbStorylet } from './database';
+
+const jsonStorylet = {
+  id: 'intro',
+  title: 'Intro',
+  description: '',
+  content: 'It begins.',
+  triggers: '[]',
+  choices: '[{"id":"go","text":"Go","effects":[]}]',
+  effects: '[]',
+  status: 'live',
+  tags: '["start"]',
+  priority: 3,
+  estimatedPlayTime: 2,
+  prerequisites: '[]',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z'
+};
+
+describe('legacyMigration', () => {
+  it('keeps JSON-string records as they are', () => {
+    const converted = convertLegacyTables({
+      storylets: [jsonStorylet],
+      storyArcs: [{ id: 'case', name: 'Case', description: '', prerequisites: '[]', tags: '[]', createdAt: 'c', updatedAt: 'u' }],
+      storyletCompletions: [{ storyletId: 'intro', completedAt: 'then' }]
+    });
+
+    expect(converted.storylets).toEqual([jsonStorylet]);
+    expect(converted.storyArcs).toEqual([expect.objectContaining({ id: 'case', createdAt: 'c' })]);
+    expect(converted.storyletCompletions).toEqual([{ storyletId: 'intro', completedAt: 'then' }]);
+  });
+
+  it('serializes structured records, linking storylets to the arcs that list them', () => {
+    const created = new Date('2023-05-01T00:00:00.000Z');
+    const converted = convertLegacyTables({
+      storylets: [{
+        id: 7,
+        title: 'Old',
+        description: '',
+        content: 'From the other layout',
+        triggers: [{ id: 't', type: 'resource', key: 'energy', operator: '>', value: 1 }],
+        choices: [],
+        effects: [],
+        status: 'dev',
+        createdAt: created,
+        updatedAt: created
+      }],
+      storyArcs: [{ id: 2, name: 'Old arc', description: '', storyletIds: [7], endStoryletId: 7 }],
+      characters: [{ id: 'detective', name: 'Detective' }]
+    });
+
+    const storylet = converted.storylets[0] as DbStorylet;
+    expect(storylet).toMatchObject({ id: '7', storyArc: '2', priority: 1, estimatedPlayTime: 5, createdAt: created.toISOString() });
+    expect(deserializeStorylet(storylet).triggers).toEqual([{ id: 't', type: 'resource', key: 'energy', operator: '>', value: 1 }]);
+
+    const arc = deserializeStoryArc(converted.storyArcs[0] as DbStoryArc);
+    expect(arc).toMatchObject({ id: '2', endStoryletIds: ['7'], prerequisites: [], storyletIds: [7] });
+    expect(converted.characters).toEqual([{ id: 'detective', name: 'Detective' }]);
+  });
+});
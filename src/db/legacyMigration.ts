@@ -0,0 +1,137 @@
+/**
+ * Legacy database import
+ *
+ * Before the schema was unified, two database classes shared the IndexedDB name
+ * V13nDatabase. One kept storylets and arcs as JSON-string records with string
+ * ids; the other kept them as structured objects with auto-increment ids, next
+ * to characters, clues and saves. Whichever opened at the higher version dropped
+ * the other's tables, so an existing V13nDatabase holds either layout, or parts
+ * of both. The unified database copies it over once, converting storylets and
+ * arcs to the JSON-string layout, and leaves the legacy database untouched.
+ */
+
+import Dexie from 'dexie';
+import type { DbStoryArc, DbStorylet, V13nDatabase } from './database';
+import { serializeStoryArc, serializeStorylet, type StoryArcRecord, type StoryletRecord } from './serialization';
+
+export const LEGACY_DATABASE_NAME = 'V13nDatabase';
+
+// gameSettings key recording that the import has run
+const MIGRATION_SETTING_KEY = 'legacyMigration';
+
+type LegacyRecord = Record<string, unknown>;
+
+// Legacy dates are dates, ISO strings or timestamps
+const toRecordDate = (value: unknown): Date | string => {
+  if (value instanceof Date || typeof value === 'string') return value;
+  return typeof value === 'number' ? new Date(value) : new Date();
+};
+
+/**
+ * A storylet from either legacy layout as a unified record. Fields the unified
+ * layout does not know are kept as they are.
+ */
+export function convertLegacyStorylet(record: LegacyRecord): DbStorylet {
+  if (typeof record.triggers === 'string') {
+    return { ...record, id: String(record.id) } as unknown as DbStorylet;
+  }
+  return serializeStorylet({
+    priority: 1,
+    estimatedPlayTime: 5,
+    ...record,
+    id: String(record.id),
+    createdAt: toRecordDate(record.createdAt),
+    updatedAt: toRecordDate(record.updatedAt)
+  } as StoryletRecord);
+}
+
+/**
+ * A story arc from either legacy layout as a unified record; a structured
+ * arc's single end storylet becomes its end storylet list
+ */
+export function convertLegacyStoryArc(record: LegacyRecord): DbStoryArc {
+  if (typeof record.prerequisites === 'string') {
+    return { ...record, id: String(record.id) } as unknown as DbStoryArc;
+  }
+  return serializeStoryArc({
+    ...record,
+    id: String(record.id),
+    createdAt: toRecordDate(record.createdAt),
+    updatedAt: toRecordDate(record.updatedAt),
+    endStoryletIds: Array.isArray(record.endStoryletIds)
+      ? record.endStoryletIds.map(String)
+      : record.endStoryletId ? [String(record.endStoryletId)] : []
+  } as StoryArcRecord);
+}
+
+/**
+ * Convert every legacy table's rows to the unified layout. Structured arcs list
+ * their storylets, while unified storylets name their arc, so storylets without
+ * an arc take the one that lists them.
+ */
+export function convertLegacyTables(tables: Record<string, LegacyRecord[]>): Record<string, unknown[]> {
+  const arcByStorylet = new Map<string, string>();
+  (tables.storyArcs || []).forEach(arc => {
+    if (Array.isArray(arc.storyletIds)) {
+      arc.storyletIds.forEach(storyletId => arcByStorylet.set(String(storyletId), String(arc.id)));
+    }
+  });
+
+  const converted: Record<string, unknown[]> = { ...tables };
+  if (tables.storylets) {
+    converted.storylets = tables.storylets.map(record => {
+      const storylet = convertLegacyStorylet(record);
+      return storylet.storyArc || !arcByStorylet.has(storylet.id)
+        ? storylet
+        : { ...storylet, storyArc: arcByStorylet.get(storylet.id) };
+    });
+  }
+  if (tables.storyArcs) {
+    converted.storyArcs = tables.storyArcs.map(convertLegacyStoryArc);
+  }
+  return converted;
+}
+
+async function readLegacyTables(): Promise<Record<string, LegacyRecord[]>> {
+  // Opened without a declared schema, Dexie works with whichever tables exist
+  const legacy = new Dexie(LEGACY_DATABASE_NAME);
+  try {
+    await legacy.open();
+    const tables = await Promise.all(legacy.tables.map(async table => [table.name, await table.toArray()] as const));
+    return Object.fromEntries(tables);
+  } finally {
+    legacy.close();
+  }
+}
+
+/**
+ * Copy the legacy database into the unified one, the first time it opens.
+ * Only tables the unified schema has are copied. A failed import is logged and
+ * retried on the next start.
+ */
+export async function migrateLegacyDatabase(target: V13nDatabase): Promise<void> {
+  try {
+    if (await target.gameSettings.get(MIGRATION_SETTING_KEY)) {
+      return;
+    }
+
+    const converted = (await Dexie.exists(LEGACY_DATABASE_NAME)) ? convertLegacyTables(await readLegacyTables()) : {};
+    const tables = target.tables.filter(table => converted[table.name]?.length);
+    await target.transaction('rw', [...new Set([...tables, target.gameSettings])], async () => {
+      for (const table of tables) {
+        await table.bulkPut(converted[table.name]);
+      }
+      await target.gameSettings.put({
+        key: MIGRATION_SETTING_KEY,
+        value: JSON.stringify(Object.fromEntries(tables.map(table => [table.name, converted[table.name].length]))),
+        updatedAt: new Date().toISOString()
+      });
+    });
+
+    if (tables.length > 0) {
+      console.info(`Imported ${tables.map(table => table.name).join(', ')} from ${LEGACY_DATABASE_NAME}`);
+    }
+  } catch (error) {
+    console.error('Failed to import the legacy database:', error);
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Storylet and story arc records keep their nested fields as JSON strings;
+ * these convert between the records and the objects the stores work with
+ */
+
+import type { DbStoryArc, DbStorylet } from './database';
+import type { Storylet } from '../types/storylet';
+import type { StoryArc } from '../types/narrative';
+
+// Records may carry their dates either as dates or as ISO strings
+type RecordDate = Date | string | undefined;
+
+export type StoryletRecord = Omit<Storylet, 'id' | 'createdAt' | 'updatedAt'> & {
+  id: string;
+  createdAt?: RecordDate;
+  updatedAt?: RecordDate;
+};
+
+export type StoredStorylet = Storylet & { id: string; createdAt: Date; updatedAt: Date };
+
+export type StoryArcRecord = Omit<StoryArc, 'createdAt' | 'updatedAt'> & {
+  createdAt?: RecordDate;
+  updatedAt?: RecordDate;
+};
+
+const toIsoString = (date: RecordDate): string =>
+  date instanceof Date ? date.toISOString() : date || new Date().toISOString();
+
+export const serializeStorylet = (storylet: StoryletRecord): DbStorylet => ({
+  ...storylet,
+  beats: storylet.beats ? JSON.stringify(storylet.beats) : undefined,
+  triggers: JSON.stringify(storylet.triggers || []),
+  conditions: storylet.conditions ? JSON.stringify(storylet.conditions) : undefined,
+  choices: JSON.stringify(storylet.choices || []),
+  effects: JSON.stringify(storylet.effects || []),
+  tags: JSON.stringify(storylet.tags || []),
+  prerequisites: JSON.stringify(storylet.prerequisites || []),
+  repeat: storylet.repeat ? JSON.stringify(storylet.repeat) : undefined,
+  createdAt: toIsoString(storylet.createdAt),
+  updatedAt: toIsoString(storylet.updatedAt),
+});
+
+export const deserializeStorylet = (storylet: DbStorylet): StoredStorylet => ({
+  ...storylet,
+  beats: storylet.beats ? JSON.parse(storylet.beats) : undefined,
+  triggers: JSON.parse(storylet.triggers || '[]'),
+  conditions: storylet.conditions ? JSON.parse(storylet.conditions) : undefined,
+  choices: JSON.parse(storylet.choices || '[]'),
+  effects: JSON.parse(storylet.effects || '[]'),
+  tags: JSON.parse(storylet.tags || '[]'),
+  prerequisites: JSON.parse(storylet.prerequisites || '[]'),
+  repeat: storylet.repeat ? JSON.parse(storylet.repeat) : undefined,
+  createdAt: new Date(storylet.createdAt),
+  updatedAt: new Date(storylet.updatedAt),
+});
+
+export const serializeStoryArc = (arc: StoryArcRecord): DbStoryArc => ({
+  ...arc,
+  prerequisites: JSON.stringify(arc.prerequisites || []),
+  endStoryletIds: JSON.stringify(arc.endStoryletIds || []),
+  tags: JSON.stringify(arc.tags || []),
+  createdAt: toIsoString(arc.createdAt),
+  updatedAt: toIsoString(arc.updatedAt),
+});
+
+export const deserializeStoryArc = (arc: DbStoryArc): StoryArc => ({
+  ...arc,
+  prerequisites: JSON.parse(arc.prerequisites || '[]'),
+  endStoryletIds: JSON.parse(arc.endStoryletIds || '[]'),
+  tags: JSON.parse(arc.tags || '[]'),
+  createdAt: arc.createdAt,
+  updatedAt: arc.updatedAt,
+});
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { db } from '../db/database';
+import { useRevisionStore } from './useRevisionStore';
 import type { Character, CharacterFormData, CharacterAttribute, CharacterTrait, CharacterRelationship } from '../types/character';
 
 interface CharacterState {
@@ -31,12 +32,15 @@ interface CharacterActions {
   addRelationship: (characterId: string, relationship: Omit<CharacterRelationship, 'id'>) => Promise<void>;
   updateRelationship: (characterId: string, relationshipId: string, updates: Partial<CharacterRelationship>) => Promise<void>;
   removeRelationship: (characterId: string, relationshipId: string) => Promise<void>;
+  setRelationships: (characterId: string, relationships: CharacterRelationship[]) => Promise<void>;
+  restoreRelationships: (characters: Character[]) => Promise<void>;
   
   // Utility functions
   getCharactersByCategory: (category: Character['category']) => Character[];
   getCharactersByImportance: (importance: Character['importance']) => Character[];
   searchCharacters: (query: string) => Character[];
   getCharacterRelationships: (characterId: string) => CharacterRelationship[];
+  getPlayerRelationships: () => Record<string, number>;
   
   // State management
   setLoading: (loading: boolean) => void;
@@ -82,6 +86,7 @@ export const useCharacterStore = create<CharacterStore>()(
         };
 
         await db.characters.add(character);
+        await useRevisionStore.getState().recordRevision('character', character.id, undefined, character);
         set(state => ({
           characters: [...state.characters, character],
           loading: false
@@ -104,6 +109,10 @@ export const useCharacterStore = create<CharacterStore>()(
         };
 
         await db.characters.update(id, updateData);
+        const previous = get().characters.find(char => char.id === id);
+        if (previous) {
+          await useRevisionStore.getState().recordRevision('character', id, previous, { ...previous, ...updateData });
+        }
         
         set(state => ({
           characters: state.characters.map(char =>
@@ -122,6 +131,7 @@ export const useCharacterStore = create<CharacterStore>()(
       set({ loading: true, error: null });
       try {
         await db.characters.delete(id);
+        await useRevisionStore.getState().deleteRevisions('character', id);
         set(state => ({
           characters: state.characters.filter(char => char.id !== id),
           loading: false
@@ -227,9 +237,7 @@ export const useCharacterStore = create<CharacterStore>()(
       };
 
       const updatedRelationships = [...character.relationships, newRelationship];
-      await get().updateCharacter(characterId, { 
-        relationships: updatedRelationships 
-      } as Partial<CharacterFormData>);
+      await get().setRelationships(characterId, updatedRelationships);
     },
 
     updateRelationship: async (characterId, relationshipId, updates) => {
@@ -240,9 +248,7 @@ export const useCharacterStore = create<CharacterStore>()(
         rel.id === relationshipId ? { ...rel, ...updates, lastUpdated: new Date() } : rel
       );
 
-      await get().updateCharacter(characterId, { 
-        relationships: updatedRelationships 
-      } as Partial<CharacterFormData>);
+      await get().setRelationships(characterId, updatedRelationships);
     },
 
     removeRelationship: async (characterId, relationshipId) => {
@@ -250,9 +256,37 @@ export const useCharacterStore = create<CharacterStore>()(
       if (!character) throw new Error('Character not found');
 
       const updatedRelationships = character.relationships.filter(rel => rel.id !== relationshipId);
-      await get().updateCharacter(characterId, { 
-        relationships: updatedRelationships 
-      } as Partial<CharacterFormData>);
+      await get().setRelationships(characterId, updatedRelationships);
+    },
+
+    // Relationships change during play, so they are saved without an authoring revision
+    setRelationships: async (characterId, relationships) => {
+      await db.characters.update(characterId, { relationships });
+      set(state => ({
+        characters: state.characters.map(char =>
+          char.id === characterId ? { ...char, relationships } : char
+        )
+      }));
+    },
+
+    // Replace the relationships of the given characters, e.g. when a save is loaded
+    restoreRelationships: async (characters) => {
+      const relationships = new Map(characters.map(char => [char.id, char.relationships]));
+      const changed = get().characters.filter(char =>
+        relationships.has(char.id) && relationships.get(char.id) !== char.relationships
+      );
+
+      await db.transaction('rw', db.characters, async () => {
+        for (const char of changed) {
+          await db.characters.update(char.id, { relationships: relationships.get(char.id) });
+        }
+      });
+
+      set(state => ({
+        characters: state.characters.map(char =>
+          changed.includes(char) ? { ...char, relationships: relationships.get(char.id)! } : char
+        )
+      }));
     },
 
     // Utility functions
@@ -279,6 +313,17 @@ export const useCharacterStore = create<CharacterStore>()(
       return character?.relationships || [];
     },
 
+    getPlayerRelationships: () => {
+      const relationships: Record<string, number> = {};
+      get().characters.forEach(char => {
+        const playerRelationship = char.relationships.find(rel => rel.characterId === 'player');
+        if (playerRelationship) {
+          relationships[char.id] = playerRelationship.value;
+        }
+      });
+      return relationships;
+    },
+
     // State management
     setLoading: (loading) => set({ loading }),
     setError: (error) => set({ error }),
@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { db } from '../db/database';
+import { useRevisionStore } from './useRevisionStore';
 import type { Clue, ClueFormData, ClueEvidence, ClueConnection, ClueDiscovery, ClueInvestigation, ClueBoard, CaseTheory } from '../types/clue';
 
 interface ClueState {
@@ -23,6 +24,7 @@ interface ClueActions {
   
   // Clue discovery and status
   discoverClue: (clueId: string, discoveryData: Omit<ClueDiscovery, 'clueId' | 'timestamp'>) => Promise<void>;
+  restoreDiscoveries: (clues: Clue[], discoveries: ClueDiscovery[]) => Promise<void>;
   markClueAsResolved: (clueId: string) => Promise<void>;
   updateClueReliability: (clueId: string, reliability: Clue['reliability']) => Promise<void>;
   
@@ -58,6 +60,7 @@ interface ClueActions {
   getCluesByArc: (arcId: string) => Clue[];
   getDiscoveredClues: () => Clue[];
   getUndiscoveredClues: () => Clue[];
+  getDiscoveredClueIds: () => string[];
   searchClues: (query: string) => Clue[];
   getRelatedClues: (clueId: string) => Clue[];
   getClueConnections: (clueId: string) => ClueConnection[];
@@ -128,6 +131,7 @@ export const useClueStore = create<ClueStore>()(
         };
 
         await db.clues.add(clue);
+        await useRevisionStore.getState().recordRevision('clue', clue.id, undefined, clue);
         set(state => ({
           clues: [...state.clues, clue],
           loading: false
@@ -150,6 +154,10 @@ export const useClueStore = create<ClueStore>()(
         };
 
         await db.clues.update(id, updateData);
+        const previous = get().getClue(id);
+        if (previous) {
+          await useRevisionStore.getState().recordRevision('clue', id, previous, { ...previous, ...updateData });
+        }
         
         set(state => ({
           clues: state.clues.map(clue =>
@@ -168,6 +176,7 @@ export const useClueStore = create<ClueStore>()(
       set({ loading: true, error: null });
       try {
         await db.clues.delete(id);
+        await useRevisionStore.getState().deleteRevisions('clue', id);
         set(state => ({
           clues: state.clues.filter(clue => clue.id !== id),
           loading: false
@@ -191,16 +200,39 @@ export const useClueStore = create<ClueStore>()(
         timestamp: new Date(),
       };
 
+      // Discoveries happen during play, so they are saved without an authoring revision
       await db.clueDiscoveries.add(discovery);
-      await get().updateClue(clueId, { 
-        isDiscovered: true
-      });
+      await db.clues.update(clueId, { isDiscovered: true });
 
       set(state => ({
+        clues: state.clues.map(clue =>
+          clue.id === clueId ? { ...clue, isDiscovered: true } : clue
+        ),
         discoveries: [...state.discoveries, discovery]
       }));
     },
 
+    // Replace which clues are discovered and the discovery records, e.g. when a save is loaded
+    restoreDiscoveries: async (clues, discoveries) => {
+      const discovered = new Map(clues.map(clue => [clue.id, clue.isDiscovered]));
+      const changed = get().clues.filter(clue => discovered.has(clue.id) && discovered.get(clue.id) !== clue.isDiscovered);
+
+      await db.transaction('rw', db.clues, db.clueDiscoveries, async () => {
+        for (const clue of changed) {
+          await db.clues.update(clue.id, { isDiscovered: !clue.isDiscovered });
+        }
+        await db.clueDiscoveries.clear();
+        await db.clueDiscoveries.bulkPut(discoveries);
+      });
+
+      set(state => ({
+        clues: state.clues.map(clue =>
+          changed.includes(clue) ? { ...clue, isDiscovered: !clue.isDiscovered } : clue
+        ),
+        discoveries: [...discoveries]
+      }));
+    },
+
     markClueAsResolved: async (clueId) => {
       await get().updateClue(clueId, { status: 'resolved' });
     },
@@ -409,6 +441,12 @@ export const useClueStore = create<ClueStore>()(
       return get().clues.filter(clue => !clue.isDiscovered);
     },
 
+    getDiscoveredClueIds: () => {
+      const ids = new Set(get().getDiscoveredClues().map(clue => clue.id));
+      get().discoveries.forEach(discovery => ids.add(discovery.clueId));
+      return Array.from(ids);
+    },
+
     searchClues: (query) => {
       const searchTerm = query.toLowerCase();
       return get().clues.filter(clue => 
@@ -6,15 +6,16 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useCoreGameStore } from './useCoreGameStore';
+import { DEFAULT_RESOURCE_DEFINITIONS } from '../constants/game';
 
 // Mock constants
 vi.mock('../constants/game', () => ({
-  INITIAL_RESOURCES: {
-    ENERGY: 100,
-    SOCIAL: 50,
-    KNOWLEDGE: 0,
-    MONEY: 200
-  }
+  DEFAULT_RESOURCE_DEFINITIONS: [
+    { id: 'energy', label: 'Energy', initial: 100, allowNegative: false },
+    { id: 'social', label: 'Social', initial: 50, allowNegative: false },
+    { id: 'knowledge', label: 'Knowledge', initial: 0, allowNegative: false },
+    { id: 'money', label: 'Money', initial: 200, allowNegative: false }
+  ]
 }));
 
 describe('useCoreGameStore', () => {
@@ -28,6 +29,9 @@ describe('useCoreGameStore', () => {
         knowledge: 0,
         money: 200
       },
+      resourceDefinitions: DEFAULT_RESOURCE_DEFINITIONS,
+      variables: {},
+      storyletPlays: {},
       featureFlags: {},
       environment: 'development',
       currentSaveSlot: null,
@@ -279,6 +283,80 @@ describe('useCoreGameStore', () => {
     });
   });
 
+  describe('Story Variables', () => {
+    it('should set and read variables', () => {
+      const { result } = renderHook(() => useCoreGameStore());
+      
+      act(() => {
+        result.current.setVariable('met_detective', true);
+        result.current.setVariable('suspicion', 3);
+      });
+      
+      expect(result.current.getVariable('met_detective')).toBe(true);
+      expect(result.current.variables).toEqual({ met_detective: true, suspicion: 3 });
+      expect(result.current.getVariable('unknown')).toBeUndefined();
+    });
+
+    it('should clear variables on reset', () => {
+      const { result } = renderHook(() => useCoreGameStore());
+      
+      act(() => {
+        result.current.setVariable('chapter', 'two');
+        result.current.resetGameState();
+      });
+      
+      expect(result.current.variables).toEqual({});
+    });
+  });
+
+  describe('Resource Registry', () => {
+    it('should clamp resources to their registered bounds', () => {
+      const { result } = renderHook(() => useCoreGameStore());
+      
+      act(() => {
+        result.current.setResourceDefinitions([
+          { id: 'health', label: 'Health', min: 0, max: 10, initial: 10, allowNegative: false },
+          { id: 'debt', label: 'Debt', min: -50, initial: 0, allowNegative: true }
+        ]);
+      });
+      
+      expect(result.current.resources).toEqual({ health: 10, debt: 0 });
+      
+      act(() => {
+        result.current.updateResource('health', 5);
+        result.current.updateResource('debt', -80);
+      });
+      
+      expect(result.current.resources).toEqual({ health: 10, debt: -50 });
+      
+      act(() => {
+        result.current.resetGameState();
+      });
+      
+      expect(result.current.resources).toEqual({ health: 10, debt: 0 });
+    });
+  });
+
+  describe('Storylet Plays', () => {
+    it('should count plays and remember the game time of the last one', () => {
+      const { result } = renderHook(() => useCoreGameStore());
+      
+      act(() => {
+        result.current.recordStoryletPlay('market');
+        result.current.advanceTime(45);
+        result.current.recordStoryletPlay('market');
+      });
+      
+      expect(result.current.storyletPlays.market).toEqual({ count: 2, lastPlayedAt: 45 });
+      
+      act(() => {
+        result.current.resetGameState();
+      });
+      
+      expect(result.current.storyletPlays).toEqual({});
+    });
+  });
+
   describe('Save System', () => {
     it('should manage save slot correctly', () => {
       const { result } = renderHook(() => useCoreGameStore());
@@ -1,15 +1,42 @@
 import { create } from 'zustand';
-import { INITIAL_RESOURCES } from '../constants/game';
+import { DEFAULT_RESOURCE_DEFINITIONS } from '../constants/game';
+import { db } from '../db/database';
+import type { ScheduledEvent, StoryletPlayRecord, StoryVariableValue, UnlockState } from '../types/storylet';
+import type { ResourceDefinition } from '../types/resource';
+import type { Inventory, ItemDefinition } from '../types/item';
+import type { ArcProgress } from '../types/narrative';
+import { recordPlay } from '../utils/storyletRepeat';
+import { createUnlockState } from '../utils/storyletUnlocks';
+import { clampResourceValue, getInitialResources, getResourceDefinition } from '../utils/resources';
 
 interface GameState {
   // Core game state
   gameTime: number; // in minutes
-  resources: {
-    energy: number;
-    social: number;
-    knowledge: number;
-    money: number;
-  };
+  resources: Record<string, number>;
+  
+  // Resource registry: which resources exist and their bounds
+  resourceDefinitions: ResourceDefinition[];
+  
+  // Item catalog: which items exist
+  itemDefinitions: ItemDefinition[];
+  
+  // Items the player holds this playthrough
+  inventory: Inventory;
+  
+  // Story variables set by storylet effects (unset names fall back to declared defaults)
+  variables: Record<string, StoryVariableValue>;
+  
+  // Play counts per storylet, used by repeat and cooldown policies
+  storyletPlays: Record<string, StoryletPlayRecord>;
+  
+  // Storylet and choice unlock/lock overrides for this playthrough
+  unlocks: UnlockState;
+  
+  // Progress through each story arc this playthrough, keyed by arc id
+  arcProgress: Record<string, ArcProgress>;
+  
+  // Storylets and effects queued by schedule_event effects, delivered by the execution engine
+  scheduledEvents: ScheduledEvent[];
   
   // Feature flags and settings
   featureFlags: Record<string, boolean>;
@@ -21,8 +48,38 @@ interface GameState {
   
   // Actions
   advanceTime: (minutes: number) => void;
-  updateResource: (resource: keyof GameState['resources'], value: number) => void;
-  setResource: (resource: keyof GameState['resources'], value: number) => void;
+  updateResource: (resource: string, value: number) => void;
+  setResource: (resource: string, value: number) => void;
+  
+  // Resource registry
+  setResourceDefinitions: (definitions: ResourceDefinition[]) => void;
+  loadResourceDefinitions: () => Promise<void>;
+  saveResourceDefinitions: (definitions: ResourceDefinition[]) => Promise<void>;
+  
+  // Item catalog and inventory
+  setItemDefinitions: (definitions: ItemDefinition[]) => void;
+  loadItemDefinitions: () => Promise<void>;
+  saveItemDefinitions: (definitions: ItemDefinition[]) => Promise<void>;
+  setInventory: (inventory: Inventory) => void;
+  
+  // Story variables
+  setVariable: (name: string, value: StoryVariableValue) => void;
+  getVariable: (name: string) => StoryVariableValue | undefined;
+  setVariables: (variables: Record<string, StoryVariableValue>) => void;
+  
+  // Storylet plays
+  recordStoryletPlay: (storyletId: string) => void;
+  setStoryletPlays: (plays: Record<string, StoryletPlayRecord>) => void;
+  
+  // Unlock state
+  setUnlocks: (unlocks: UnlockState) => void;
+  
+  // Arc progress
+  updateArcProgress: (progress: ArcProgress) => void;
+  setArcProgress: (progress: Record<string, ArcProgress>) => void;
+  
+  // Scheduled events
+  setScheduledEvents: (events: ScheduledEvent[]) => void;
   
   // Feature flags
   setFeatureFlag: (flag: string, enabled: boolean) => void;
@@ -39,16 +96,17 @@ interface GameState {
   resetGameState: () => void;
 }
 
-const initialResources = {
-  energy: INITIAL_RESOURCES.ENERGY,
-  social: INITIAL_RESOURCES.SOCIAL,
-  knowledge: INITIAL_RESOURCES.KNOWLEDGE,
-  money: INITIAL_RESOURCES.MONEY
-};
-
 export const useCoreGameStore = create<GameState>((set, get) => ({
   gameTime: 0,
-  resources: { ...initialResources },
+  resources: getInitialResources(DEFAULT_RESOURCE_DEFINITIONS),
+  resourceDefinitions: DEFAULT_RESOURCE_DEFINITIONS,
+  itemDefinitions: [],
+  inventory: {},
+  variables: {},
+  storyletPlays: {},
+  unlocks: createUnlockState(),
+  arcProgress: {},
+  scheduledEvents: [],
   featureFlags: {},
   environment: 'development',
   currentSaveSlot: null,
@@ -61,17 +119,102 @@ export const useCoreGameStore = create<GameState>((set, get) => ({
   updateResource: (resource, value) => set((state) => ({
     resources: {
       ...state.resources,
-      [resource]: Math.max(0, state.resources[resource] + value)
+      [resource]: clampResourceValue(
+        (state.resources[resource] ?? 0) + value,
+        getResourceDefinition(state.resourceDefinitions, resource)
+      )
     }
   })),
   
   setResource: (resource, value) => set((state) => ({
     resources: {
       ...state.resources,
-      [resource]: Math.max(0, value)
+      [resource]: clampResourceValue(value, getResourceDefinition(state.resourceDefinitions, resource))
     }
   })),
   
+  // New resources start at their initial value; existing values are kept within the new bounds
+  setResourceDefinitions: (definitions) => set((state) => ({
+    resourceDefinitions: definitions,
+    resources: Object.fromEntries(definitions.map(definition => [
+      definition.id,
+      clampResourceValue(state.resources[definition.id] ?? definition.initial, definition)
+    ]))
+  })),
+  
+  loadResourceDefinitions: async () => {
+    try {
+      const setting = await db.gameSettings.get('resources');
+      if (setting) {
+        get().setResourceDefinitions(JSON.parse(setting.value));
+      }
+    } catch (error) {
+      console.error('Failed to load resource definitions:', error);
+    }
+  },
+  
+  saveResourceDefinitions: async (definitions) => {
+    try {
+      await db.gameSettings.put({ key: 'resources', value: JSON.stringify(definitions), updatedAt: new Date().toISOString() });
+      get().setResourceDefinitions(definitions);
+    } catch (error) {
+      console.error('Failed to save resource definitions:', error);
+      throw error;
+    }
+  },
+  
+  setItemDefinitions: (definitions) => set({ itemDefinitions: definitions }),
+  
+  loadItemDefinitions: async () => {
+    try {
+      const setting = await db.gameSettings.get('items');
+      if (setting) {
+        get().setItemDefinitions(JSON.parse(setting.value));
+      }
+    } catch (error) {
+      console.error('Failed to load item definitions:', error);
+    }
+  },
+  
+  saveItemDefinitions: async (definitions) => {
+    try {
+      await db.gameSettings.put({ key: 'items', value: JSON.stringify(definitions), updatedAt: new Date().toISOString() });
+      get().setItemDefinitions(definitions);
+    } catch (error) {
+      console.error('Failed to save item definitions:', error);
+      throw error;
+    }
+  },
+  
+  setInventory: (inventory) => set({ inventory: { ...inventory } }),
+  
+  setVariable: (name, value) => set((state) => ({
+    variables: { ...state.variables, [name]: value }
+  })),
+  
+  getVariable: (name) => get().variables[name],
+  
+  setVariables: (variables) => set({ variables: { ...variables } }),
+  
+  recordStoryletPlay: (storyletId) => set((state) => ({
+    storyletPlays: {
+      ...state.storyletPlays,
+      [storyletId]: recordPlay(state.storyletPlays[storyletId], state.gameTime)
+    }
+  })),
+  
+  setStoryletPlays: (plays) => set({ storyletPlays: { ...plays } }),
+  
+  setUnlocks: (unlocks) => set({ unlocks: { storylets: { ...unlocks.storylets }, choices: { ...unlocks.choices } } }),
+  
+  updateArcProgress: (progress) => set((state) => ({
+    arcProgress: { ...state.arcProgress, [progress.arcId]: progress }
+  })),
+  
+  setArcProgress: (progress) => set({ arcProgress: { ...progress } }),
+  
+  setScheduledEvents: (events) => set({ scheduledEvents: [...events] }),
+  
   setFeatureFlag: (flag, enabled) => set((state) => ({
     featureFlags: { ...state.featureFlags, [flag]: enabled }
   })),
@@ -86,7 +229,13 @@ export const useCoreGameStore = create<GameState>((set, get) => ({
   
   resetGameState: () => set({
     gameTime: 0,
-    resources: { ...initialResources },
+    resources: getInitialResources(get().resourceDefinitions),
+    inventory: {},
+    variables: {},
+    storyletPlays: {},
+    unlocks: createUnlockState(),
+    arcProgress: {},
+    scheduledEvents: [],
     currentSaveSlot: null,
     lastSavedAt: null
   })
@@ -9,7 +9,7 @@ import { useNarrativeStore } from './useNarrativeStore';
 import * as DatabaseValidator from '../utils/dataValidation';
 
 // Mock the database
-vi.mock('../lib/db', () => ({
+vi.mock('../db/database', () => ({
   db: {
     storylets: {
       add: vi.fn().mockResolvedValue('mock-id'),
@@ -38,6 +38,11 @@ vi.mock('../lib/db', () => ({
         updatedAt: new Date()
       }),
       toArray: vi.fn().mockResolvedValue([])
+    },
+    storyletCompletions: {
+      put: vi.fn().mockResolvedValue(undefined),
+      clear: vi.fn().mockResolvedValue(undefined),
+      toArray: vi.fn().mockResolvedValue([])
     }
   },
   serializeStorylet: vi.fn().mockImplementation((storylet) => storylet),
@@ -60,6 +65,7 @@ describe('useNarrativeStore', () => {
       result.current.arcs.length = 0;
       result.current.currentStoryletId = null;
       result.current.currentArcId = null;
+      result.current.completedStorylets = [];
       result.current.loading = {
         storylets: false,
         arcs: false,
@@ -494,6 +500,39 @@ describe('useNarrativeStore', () => {
     });
   });
 
+  describe('Storylet Completion Tracking', () => {
+    it('should record and persist completed storylets once', async () => {
+      const { db } = await import('../db/database');
+      const { result } = renderHook(() => useNarrativeStore());
+
+      await act(async () => {
+        await result.current.markStoryletCompleted('intro');
+        await result.current.markStoryletCompleted('intro');
+      });
+
+      expect(result.current.completedStorylets).toEqual(['intro']);
+      expect(result.current.isStoryletCompleted('intro')).toBe(true);
+      expect(db.storyletCompletions.put).toHaveBeenCalledTimes(1);
+      expect(db.storyletCompletions.put).toHaveBeenCalledWith(
+        expect.objectContaining({ storyletId: 'intro' })
+      );
+    });
+
+    it('should load completed storylets from the database', async () => {
+      const { db } = await import('../db/database');
+      vi.mocked(db.storyletCompletions.toArray).mockResolvedValueOnce([
+        { storyletId: 'intro', completedAt: new Date().toISOString() }
+      ]);
+      const { result } = renderHook(() => useNarrativeStore());
+
+      await act(async () => {
+        await result.current.loadCompletedStorylets();
+      });
+
+      expect(result.current.completedStorylets).toEqual(['intro']);
+    });
+  });
+
   describe('Storylet Execution', () => {
     it('should trigger storylet execution', async () => {
       const { result } = renderHook(() => useNarrativeStore());
@@ -1,16 +1,22 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { type StoryArc } from '../types/narrative';
-import { db, serializeStorylet, deserializeStorylet, serializeStoryArc, deserializeStoryArc } from '../lib/db';
+import { db, serializeStorylet, deserializeStorylet, serializeStoryArc, deserializeStoryArc } from '../db/database';
 import { DatabaseValidator } from '../utils/dataValidation';
+import { useRevisionStore } from './useRevisionStore';
 import type { ExecutionResult } from '../systems/StoryletExecutionEngine';
+import type { StoryletBeat, StoryletConditionGroup, StoryletRepeatPolicy, StoryVariableDefinition } from '../types/storylet';
+import type { CalendarConfig } from '../types/calendar';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
 
 interface Storylet {
   id: string;
   title: string;
   description: string;
   content: string;
+  beats?: StoryletBeat[];
   triggers: any[];
+  conditions?: StoryletConditionGroup;
   choices: any[];
   effects: any[];
   storyArc?: string;
@@ -19,6 +25,8 @@ interface Storylet {
   priority?: number;
   estimatedPlayTime?: number;
   prerequisites?: string[];
+  repeat?: StoryletRepeatPolicy;
+  startsLocked?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -31,6 +39,9 @@ interface NarrativeState {
   currentStoryletId: string | null;
   currentArcId: string | null;
   currentExecution?: ExecutionResult;
+  completedStorylets: string[];
+  storyVariables: StoryVariableDefinition[];
+  calendar: CalendarConfig;
   
   // Loading states
   loading: {
@@ -45,15 +56,27 @@ interface NarrativeState {
   deleteStorylet: (id: string) => Promise<void>;
   getStorylet: (id: string) => Storylet | undefined;
   markStoryletCompleted: (id: string) => Promise<void>;
+  isStoryletCompleted: (id: string) => boolean;
   
   addStoryArc: (arc: Omit<StoryArc, 'id' | 'createdAt' | 'updatedAt'>) => Promise<string>;
   updateStoryArc: (id: string, updates: Partial<StoryArc>) => Promise<void>;
   deleteStoryArc: (id: string) => Promise<void>;
   getArc: (id: string) => StoryArc | undefined;
   
+  saveStoryVariable: (variable: StoryVariableDefinition) => Promise<void>;
+  deleteStoryVariable: (name: string) => Promise<void>;
+  getStoryVariable: (name: string) => StoryVariableDefinition | undefined;
+  
+  saveCalendar: (calendar: CalendarConfig) => Promise<void>;
+  
   // Data loading
   loadStorylets: () => Promise<void>;
   loadStoryArcs: () => Promise<void>;
+  loadCompletedStorylets: () => Promise<void>;
+  loadStoryVariables: () => Promise<void>;
+  loadCalendar: () => Promise<void>;
+  clearCompletedStorylets: () => Promise<void>;
+  setCompletedStorylets: (ids: string[]) => Promise<void>;
   
   setCurrentStorylet: (id: string | null) => void;
   setCurrentArc: (id: string | null) => void;
@@ -69,6 +92,9 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
   currentStoryletId: null,
   currentArcId: null,
   currentExecution: undefined,
+  completedStorylets: [],
+  storyVariables: [],
+  calendar: DEFAULT_CALENDAR,
   
   // Loading states
   loading: {
@@ -105,6 +131,7 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
       
       // Save to Dexie
       await db.storylets.add(serializeStorylet(newStorylet));
+      await useRevisionStore.getState().recordRevision('storylet', id, undefined, newStorylet);
       
       // Update state
       set((state) => ({
@@ -165,6 +192,10 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
       
       // Update in Dexie
       await db.storylets.update(id, serializeStorylet({ id, ...updatedStorylet }));
+      const previous = get().getStorylet(id);
+      if (previous) {
+        await useRevisionStore.getState().recordRevision('storylet', id, previous, { ...previous, ...updatedStorylet });
+      }
       
       // Update state
       set((state) => ({
@@ -203,6 +234,7 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
     try {
       // Delete from Dexie
       await db.storylets.delete(id);
+      await useRevisionStore.getState().deleteRevisions('storylet', id);
       
       // Update state
       set((state) => ({
@@ -228,20 +260,28 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
   getStorylet: (id) => get().storylets.find(s => s.id === id),
   
   markStoryletCompleted: async (id: string) => {
+    if (get().completedStorylets.includes(id)) {
+      return;
+    }
+    
     try {
-      // TODO: Implement storylet completion tracking
-      // This could involve updating a completedStorylets array or status field
-      console.log(`Marking storylet ${id} as completed`);
+      // Persist the completion record so triggers survive reloads
+      await db.storyletCompletions.put({
+        storyletId: id,
+        completedAt: new Date().toISOString()
+      });
       
-      // For now, just log the completion
-      // In a full implementation, this would update the storylet's completion status
-      // and possibly trigger arc progression or unlock new storylets
+      set((state) => ({
+        completedStorylets: [...state.completedStorylets, id]
+      }));
     } catch (error) {
       console.error('Failed to mark storylet as completed:', error);
       throw error;
     }
   },
   
+  isStoryletCompleted: (id) => get().completedStorylets.includes(id),
+  
   // StoryArc actions with Dexie persistence
   addStoryArc: async (arc) => {
     const operationId = `add-arc-${Date.now()}`;
@@ -301,13 +341,18 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
     }));
     
     try {
+      const existingArc = get().arcs.find(arc => arc.id === id);
+      if (!existingArc) {
+        throw new Error(`Story arc with id ${id} not found`);
+      }
+
       const updatedArc = {
         ...updates,
         updatedAt: new Date().toISOString()
       };
       
-      // Update in Dexie
-      await db.storyArcs.update(id, serializeStoryArc({ id, ...updatedArc }));
+      // Update in Dexie; the whole arc is written so unchanged list fields keep their values
+      await db.storyArcs.update(id, serializeStoryArc({ ...existingArc, ...updatedArc, id }));
       
       // Update state
       set((state) => ({
@@ -370,6 +415,46 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
   
   getArc: (id) => get().arcs.find(a => a.id === id),
   
+  // Story variable declarations, keyed by name
+  saveStoryVariable: async (variable) => {
+    try {
+      await db.storyVariables.put({ ...variable, updatedAt: new Date().toISOString() });
+      
+      set((state) => ({
+        storyVariables: state.storyVariables.some(v => v.name === variable.name)
+          ? state.storyVariables.map(v => v.name === variable.name ? variable : v)
+          : [...state.storyVariables, variable]
+      }));
+    } catch (error) {
+      console.error('Failed to save story variable:', error);
+      throw error;
+    }
+  },
+  
+  deleteStoryVariable: async (name) => {
+    try {
+      await db.storyVariables.delete(name);
+      set((state) => ({
+        storyVariables: state.storyVariables.filter(v => v.name !== name)
+      }));
+    } catch (error) {
+      console.error('Failed to delete story variable:', error);
+      throw error;
+    }
+  },
+  
+  getStoryVariable: (name) => get().storyVariables.find(v => v.name === name),
+  
+  saveCalendar: async (calendar) => {
+    try {
+      await db.gameSettings.put({ key: 'calendar', value: JSON.stringify(calendar), updatedAt: new Date().toISOString() });
+      set({ calendar });
+    } catch (error) {
+      console.error('Failed to save calendar:', error);
+      throw error;
+    }
+  },
+  
   // Data loading
   loadStorylets: async () => {
     // Set loading state
@@ -431,6 +516,62 @@ export const useNarrativeStore = create<NarrativeState>()(subscribeWithSelector(
     }
   },
   
+  loadCompletedStorylets: async () => {
+    try {
+      const completions = await db.storyletCompletions.toArray();
+      set({ completedStorylets: completions.map(c => c.storyletId) });
+    } catch (error) {
+      console.error('Failed to load storylet completions:', error);
+    }
+  },
+  
+  loadStoryVariables: async () => {
+    try {
+      const variables = await db.storyVariables.toArray();
+      set({
+        storyVariables: variables.map(({ name, type, defaultValue, description }) => ({ name, type, defaultValue, description }))
+      });
+    } catch (error) {
+      console.error('Failed to load story variables:', error);
+    }
+  },
+  
+  loadCalendar: async () => {
+    try {
+      const setting = await db.gameSettings.get('calendar');
+      if (setting) {
+        set({ calendar: { ...DEFAULT_CALENDAR, ...JSON.parse(setting.value) } });
+      }
+    } catch (error) {
+      console.error('Failed to load calendar:', error);
+    }
+  },
+  
+  clearCompletedStorylets: async () => {
+    try {
+      await db.storyletCompletions.clear();
+      set({ completedStorylets: [] });
+    } catch (error) {
+      console.error('Failed to clear storylet completions:', error);
+      throw error;
+    }
+  },
+  
+  // Replace the completion records, e.g. with those of a loaded save
+  setCompletedStorylets: async (ids) => {
+    try {
+      const completedAt = new Date().toISOString();
+      await db.transaction('rw', db.storyletCompletions, async () => {
+        await db.storyletCompletions.clear();
+        await db.storyletCompletions.bulkPut(ids.map(storyletId => ({ storyletId, completedAt })));
+      });
+      set({ completedStorylets: [...ids] });
+    } catch (error) {
+      console.error('Failed to set storylet completions:', error);
+      throw error;
+    }
+  },
+  
   setCurrentStorylet: (id) => set({ currentStoryletId: id }),
   setCurrentArc: (id) => set({ currentArcId: id }),
   
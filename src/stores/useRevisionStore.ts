@@ -0,0 +1,99 @@
+import { create } from 'zustand';
+import { db, type DbRevision } from '../db/database';
+import type { Revision, RevisionEntityType, RevisionSettings } from '../types/revision';
+import { DEFAULT_REVISION_LIMIT, diffRecords, getRevisionsToPrune } from '../utils/revisions';
+
+interface RevisionState {
+  // Recorded as the author of new revisions
+  author: string;
+
+  // Revisions kept per storylet, clue or character
+  limit: number;
+
+  loadRevisionSettings: () => Promise<void>;
+  saveRevisionSettings: (settings: RevisionSettings) => Promise<void>;
+
+  // Record a save of a record; `before` is absent when the record was just created
+  recordRevision: (entityType: RevisionEntityType, entityId: string, before: object | undefined, after: object) => Promise<void>;
+  getRevisions: (entityType: RevisionEntityType, entityId: string) => Promise<Revision[]>;
+  deleteRevisions: (entityType: RevisionEntityType, entityId: string) => Promise<void>;
+}
+
+const toRevision = (record: DbRevision): Revision => ({
+  ...record,
+  id: record.id!,
+  snapshot: JSON.parse(record.snapshot)
+});
+
+// Snapshots go through JSON so they diff the same way once read back
+const toSnapshot = (record: object): Record<string, unknown> => JSON.parse(JSON.stringify(record));
+
+export const useRevisionStore = create<RevisionState>((set, get) => ({
+  author: '',
+  limit: DEFAULT_REVISION_LIMIT,
+
+  loadRevisionSettings: async () => {
+    try {
+      const setting = await db.gameSettings.get('revisions');
+      if (setting) {
+        set(JSON.parse(setting.value));
+      }
+    } catch (error) {
+      console.error('Failed to load revision settings:', error);
+    }
+  },
+
+  saveRevisionSettings: async (settings) => {
+    try {
+      await db.gameSettings.put({ key: 'revisions', value: JSON.stringify(settings), updatedAt: new Date().toISOString() });
+      set(settings);
+    } catch (error) {
+      console.error('Failed to save revision settings:', error);
+      throw error;
+    }
+  },
+
+  // A failed history write is logged rather than thrown, so it never fails the save itself
+  recordRevision: async (entityType, entityId, before, after) => {
+    try {
+      const snapshot = toSnapshot(after);
+      const changedFields = before ? diffRecords(toSnapshot(before), snapshot).map(diff => diff.field) : [];
+      if (before && changedFields.length === 0) {
+        return;
+      }
+
+      await db.revisions.add({
+        entityType,
+        entityId,
+        createdAt: new Date().toISOString(),
+        author: get().author.trim() || 'Unknown',
+        changedFields,
+        snapshot: JSON.stringify(snapshot)
+      });
+
+      const history = await db.revisions.where('[entityType+entityId]').equals([entityType, entityId]).toArray();
+      const pruned = getRevisionsToPrune(history.map(toRevision), get().limit);
+      if (pruned.length > 0) {
+        await db.revisions.bulkDelete(pruned);
+      }
+    } catch (error) {
+      console.error(`Failed to record ${entityType} revision:`, error);
+    }
+  },
+
+  // Newest first
+  getRevisions: async (entityType, entityId) => {
+    const history = await db.revisions.where('[entityType+entityId]').equals([entityType, entityId]).toArray();
+    return history
+      .map(toRevision)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id);
+  },
+
+  deleteRevisions: async (entityType, entityId) => {
+    try {
+      await db.revisions.where('[entityType+entityId]').equals([entityType, entityId]).delete();
+    } catch (error) {
+      console.error(`Failed to delete ${entityType} revisions:`, error);
+    }
+  }
+}));
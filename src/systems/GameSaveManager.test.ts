@@ -0,0 +1,269 @@
+/**
+ * Tests for the Game Save Manager
+ * Covers capturing a playthrough, slot replacement and restoring every store
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameSaveManager } from './GameSaveManager';
+import { AUTOSAVE_SLOT, QUICKSAVE_SLOT } from '../utils/gameSaves';
+import { SAVE_FORMAT_VERSION } from '../utils/saveFormat';
+import { DEFAULT_RESOURCE_DEFINITIONS } from '../constants/game';
+import type { DbGameSave } from '../db/database';
+import type { ScheduledEvent } from '../types/storylet';
+
+const mockSaves: DbGameSave[] = [];
+
+// What the stores' persisting actions wrote, as a reload would read it back
+const mockPersisted = {
+  characters: [] as unknown[],
+  clues: [] as unknown[],
+  discoveries: [] as unknown[],
+  completedStorylets: [] as string[]
+};
+
+vi.mock('../db/database', () => ({
+  db: {
+    gameSaves: {
+      where: () => ({
+        equals: (slot: number) => ({
+          first: async () => mockSaves.find(save => save.slot === slot),
+          delete: async () => {
+            mockSaves.splice(mockSaves.findIndex(save => save.slot === slot), 1);
+          }
+        })
+      }),
+      put: async (save: DbGameSave) => {
+        const id = save.id ?? mockSaves.length + 1;
+        const index = mockSaves.findIndex(existing => existing.id === id);
+        if (index >= 0) {
+          mockSaves[index] = { ...save, id };
+        } else {
+          mockSaves.push({ ...save, id });
+        }
+        return id;
+      },
+      orderBy: () => ({ toArray: async () => [...mockSaves].sort((a, b) => a.slot - b.slot) })
+    }
+  }
+}));
+
+const mockGameStore = {
+  gameTime: 120,
+  resources: { energy: 80 } as Record<string, number>,
+  resourceDefinitions: DEFAULT_RESOURCE_DEFINITIONS,
+  variables: { mood: 'tense' } as Record<string, string>,
+  storyletPlays: {},
+  unlocks: { storylets: { study: true }, choices: {} },
+  arcProgress: {},
+  inventory: { key: 1 } as Record<string, number>,
+  itemDefinitions: [{ id: 'key' }],
+  scheduledEvents: [] as ScheduledEvent[],
+  currentSaveSlot: null as number | null,
+  lastSavedAt: null as Date | null,
+  setSaveSlot: vi.fn((slot: number | null) => { mockGameStore.currentSaveSlot = slot; }),
+  updateLastSaved: vi.fn()
+};
+
+const mockNarrativeStore = {
+  currentStoryletId: 'study' as string | null,
+  currentArcId: 'case' as string | null,
+  completedStorylets: ['hall'],
+  storylets: [{ id: 'hall' }, { id: 'study' }],
+  arcs: [{ id: 'case' }],
+  getStorylet: vi.fn((id: string) => id === 'study' ? { id, title: 'The Study' } : undefined),
+  setCompletedStorylets: vi.fn(async (ids: string[]) => {
+    mockNarrativeStore.completedStorylets = ids;
+    mockPersisted.completedStorylets = ids;
+  }),
+  setCurrentStorylet: vi.fn(),
+  setCurrentArc: vi.fn()
+};
+
+const mockCharacterStore = {
+  characters: [{ id: 'detective', relationships: [] }] as unknown[],
+  getPlayerRelationships: vi.fn(() => ({ detective: 30 })),
+  restoreRelationships: vi.fn(async (characters: unknown[]) => {
+    mockCharacterStore.characters = characters;
+    mockPersisted.characters = characters;
+  })
+};
+
+const mockClueStore = {
+  clues: [{ id: 'letter', isDiscovered: true }],
+  discoveries: [] as unknown[],
+  getDiscoveredClueIds: vi.fn(() => ['letter']),
+  restoreDiscoveries: vi.fn(async (clues: typeof mockClueStore.clues, discoveries: unknown[]) => {
+    Object.assign(mockClueStore, { clues, discoveries });
+    Object.assign(mockPersisted, { clues, discoveries });
+  })
+};
+
+const mockEngine = {
+  getExecutionState: vi.fn(() => ({ storyletId: 'study', scene: { beatId: 'page-2', complete: false } })),
+  getRandomState: vi.fn(() => ({ seed: 7, state: 3 })),
+  restoreRandomState: vi.fn(),
+  clearHistory: vi.fn(),
+  cancelCurrentExecution: vi.fn(),
+  resumeExecution: vi.fn((): unknown => ({})),
+  subscribe: vi.fn(() => () => {})
+};
+
+vi.mock('./StoryletExecutionEngine', () => ({
+  get storyletEngine() {
+    return mockEngine;
+  }
+}));
+
+vi.mock('../stores/useCoreGameStore', () => ({
+  useCoreGameStore: {
+    getState: () => mockGameStore,
+    setState: (partial: Partial<typeof mockGameStore>) => Object.assign(mockGameStore, partial)
+  }
+}));
+
+vi.mock('../stores/useNarrativeStore', () => ({
+  useNarrativeStore: { getState: () => mockNarrativeStore }
+}));
+
+vi.mock('../stores/useCharacterStore', () => ({
+  useCharacterStore: {
+    getState: () => mockCharacterStore,
+    setState: (partial: Partial<typeof mockCharacterStore>) => Object.assign(mockCharacterStore, partial)
+  }
+}));
+
+vi.mock('../stores/useClueStore', () => ({
+  useClueStore: {
+    getState: () => mockClueStore,
+    setState: (partial: Partial<typeof mockClueStore>) => Object.assign(mockClueStore, partial)
+  }
+}));
+
+describe('GameSaveManager', () => {
+  const manager = GameSaveManager.getInstance();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSaves.length = 0;
+    mockGameStore.gameTime = 120;
+    mockGameStore.resources = { energy: 80 };
+    mockGameStore.inventory = { key: 1 };
+    mockGameStore.currentSaveSlot = null;
+    mockNarrativeStore.completedStorylets = ['hall'];
+    mockCharacterStore.characters = [{ id: 'detective', relationships: [] }];
+    mockClueStore.clues = [{ id: 'letter', isDiscovered: true }];
+    mockClueStore.discoveries = [];
+    Object.assign(mockPersisted, { characters: [], clues: [], discoveries: [], completedStorylets: [] });
+  });
+
+  it('captures every store and the engine execution state', () => {
+    const save = manager.captureSave(1);
+
+    expect(save).toMatchObject({
+      slot: 1,
+      name: 'The Study',
+      gameTime: 120,
+      resources: { energy: 80 },
+      playerRelationships: { detective: 30 },
+      discoveredClues: ['letter'],
+      completedStorylets: ['hall'],
+      variables: { mood: 'tense' },
+      randomState: { seed: 7, state: 3 },
+      inventory: { key: 1 },
+      currentStoryletId: 'study',
+      currentScene: { beatId: 'page-2', complete: false },
+      currentArcId: 'case',
+      version: SAVE_FORMAT_VERSION
+    });
+    expect(save.contentFingerprint).toMatch(/^[0-9a-f]{8}$/);
+  });
+
+  it('replaces an existing save in the same slot, keeping its creation time', async () => {
+    const first = await manager.saveGame(QUICKSAVE_SLOT);
+    mockGameStore.gameTime = 300;
+    const second = await manager.saveGame(QUICKSAVE_SLOT, 'Before the reveal');
+
+    expect(await manager.listSaves()).toHaveLength(1);
+    expect(second).toMatchObject({ id: first.id, createdAt: first.createdAt, gameTime: 300, name: 'Before the reveal' });
+    expect(mockGameStore.currentSaveSlot).toBe(QUICKSAVE_SLOT);
+    await expect(manager.saveGame(42)).rejects.toThrow('Unknown save slot 42');
+  });
+
+  it('does not make the autosave slot current', async () => {
+    await manager.saveGame(AUTOSAVE_SLOT);
+
+    expect(mockGameStore.currentSaveSlot).toBeNull();
+    expect(mockGameStore.updateLastSaved).toHaveBeenCalled();
+  });
+
+  it('restores the stores and resumes the saved storylet page', async () => {
+    await manager.saveGame(2);
+    mockGameStore.gameTime = 999;
+    mockGameStore.resources = { energy: 5 };
+    mockGameStore.inventory = {};
+    mockNarrativeStore.completedStorylets = ['hall', 'cellar'];
+
+    const { diagnostics } = await manager.loadGame(2);
+
+    expect(diagnostics).toEqual([]);
+    expect(mockGameStore.gameTime).toBe(120);
+    expect(mockGameStore.resources.energy).toBe(80);
+    expect(mockGameStore.inventory).toEqual({ key: 1 });
+    expect(mockNarrativeStore.setCompletedStorylets).toHaveBeenCalledWith(['hall']);
+    expect(mockNarrativeStore.setCurrentArc).toHaveBeenCalledWith('case');
+    expect(mockEngine.restoreRandomState).toHaveBeenCalledWith({ seed: 7, state: 3 });
+    expect(mockEngine.cancelCurrentExecution).toHaveBeenCalled();
+    expect(mockEngine.resumeExecution).toHaveBeenCalledWith('study', { beatId: 'page-2', complete: false });
+  });
+
+  it('persists every restored part, so a reload keeps the loaded save', async () => {
+    await manager.saveGame(2);
+    Object.assign(mockPersisted, {
+      characters: [{ id: 'detective', relationships: [{ id: 'rel', characterId: 'player', type: 'trust', value: 90 }] }],
+      clues: [{ id: 'letter', isDiscovered: true }, { id: 'knife', isDiscovered: true }],
+      discoveries: [{ clueId: 'knife', discoveryMethod: 'storylet', discoveredBy: 'player' }],
+      completedStorylets: ['hall', 'cellar']
+    });
+    mockCharacterStore.characters = mockPersisted.characters;
+    mockClueStore.clues = mockPersisted.clues as typeof mockClueStore.clues;
+    mockClueStore.discoveries = mockPersisted.discoveries;
+
+    await manager.loadGame(2);
+
+    expect(mockPersisted).toEqual({
+      characters: [{ id: 'detective', relationships: [{ id: 'rel', characterId: 'player', type: 'trust', value: 30 }] }],
+      clues: [{ id: 'letter', isDiscovered: true }, { id: 'knife', isDiscovered: false }],
+      discoveries: [],
+      completedStorylets: ['hall']
+    });
+  });
+
+  it('upgrades old saves and reports content that no longer exists', async () => {
+    await manager.saveGame(3);
+    const legacy: DbGameSave = { ...mockSaves[0], currentStoryletId: 'cellar', discoveredClues: ['letter', 'knife'] };
+    delete legacy.version;
+    delete legacy.contentFingerprint;
+    delete legacy.variables;
+    delete legacy.unlocks;
+    mockSaves[0] = legacy;
+
+    const { save, diagnostics } = await manager.loadGame(3);
+
+    expect(save).toMatchObject({ version: SAVE_FORMAT_VERSION, variables: {}, unlocks: { storylets: {}, choices: {} } });
+    expect(diagnostics.map(diagnostic => diagnostic.message)).toEqual([
+      `Save upgraded from format 1 to ${SAVE_FORMAT_VERSION}`,
+      'Missing storylet "cellar" (current storylet)',
+      'Missing clue "knife" (discovered)'
+    ]);
+    expect(await manager.checkSave(3)).toEqual(diagnostics);
+  });
+
+  it('refuses empty slots and saves from a newer format', async () => {
+    await expect(manager.loadGame(4)).rejects.toThrow('No saved game in Slot 4');
+
+    await manager.saveGame(4);
+    mockSaves[0].version = SAVE_FORMAT_VERSION + 1;
+    await expect(manager.loadGame(4)).rejects.toThrow('newer than this version of the game supports');
+    expect(mockEngine.cancelCurrentExecution).not.toHaveBeenCalled();
+  });
+});
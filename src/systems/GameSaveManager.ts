@@ -0,0 +1,232 @@
+/**
+ * Game Save Manager
+ * Writes the playthrough held across the stores and the execution engine to the
+ * gameSaves table, and restores it from there
+ */
+
+import { db, type DbGameSave } from '../db/database';
+import { useCoreGameStore } from '../stores/useCoreGameStore';
+import { useNarrativeStore } from '../stores/useNarrativeStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { useClueStore } from '../stores/useClueStore';
+import { storyletEngine } from './StoryletExecutionEngine';
+import { getInitialResources } from '../utils/resources';
+import { createUnlockState } from '../utils/storyletUnlocks';
+import {
+  applyDiscoveredClues,
+  applyPlayerRelationships,
+  AUTOSAVE_SLOT,
+  getSaveSlotLabel,
+  isSaveSlot,
+  QUICKSAVE_SLOT
+} from '../utils/gameSaves';
+import { diagnoseSave, getContentFingerprint, getSaveVersion, migrateSave, SAVE_FORMAT_VERSION, type SaveContentIndex, type SaveDiagnostic } from '../utils/saveFormat';
+
+export interface LoadGameResult {
+  save: DbGameSave; // Upgraded to the current format
+  diagnostics: SaveDiagnostic[];
+}
+
+export class GameSaveManager {
+  private static instance: GameSaveManager;
+
+  private constructor() {}
+
+  static getInstance(): GameSaveManager {
+    if (!GameSaveManager.instance) {
+      GameSaveManager.instance = new GameSaveManager();
+    }
+    return GameSaveManager.instance;
+  }
+
+  /**
+   * Copy the current playthrough into a save record for a slot
+   */
+  captureSave(slot: number, name?: string): DbGameSave {
+    const gameStore = useCoreGameStore.getState();
+    const narrativeStore = useNarrativeStore.getState();
+    const execution = storyletEngine.getExecutionState();
+    const currentStoryletId = execution?.storyletId ?? narrativeStore.currentStoryletId ?? undefined;
+    const now = new Date();
+
+    return {
+      slot,
+      name: name?.trim() || narrativeStore.getStorylet(currentStoryletId ?? '')?.title || getSaveSlotLabel(slot),
+      version: SAVE_FORMAT_VERSION,
+      contentFingerprint: getContentFingerprint(this.getContentIndex()),
+      gameTime: gameStore.gameTime,
+      resources: { ...gameStore.resources },
+      playerRelationships: useCharacterStore.getState().getPlayerRelationships(),
+      discoveredClues: useClueStore.getState().getDiscoveredClueIds(),
+      completedStorylets: [...narrativeStore.completedStorylets],
+      variables: { ...gameStore.variables },
+      randomState: storyletEngine.getRandomState(),
+      storyletPlays: { ...gameStore.storyletPlays },
+      unlocks: gameStore.unlocks,
+      arcProgress: { ...gameStore.arcProgress },
+      inventory: { ...gameStore.inventory },
+      scheduledEvents: [...gameStore.scheduledEvents],
+      currentStoryletId,
+      currentScene: execution?.scene,
+      currentArcId: narrativeStore.currentArcId ?? undefined,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  /**
+   * Save the playthrough to a slot, replacing whatever the slot held
+   */
+  async saveGame(slot: number, name?: string): Promise<DbGameSave> {
+    if (!isSaveSlot(slot)) {
+      throw new Error(`Unknown save slot ${slot}`);
+    }
+
+    const save = this.captureSave(slot, name);
+    const existing = await db.gameSaves.where('slot').equals(slot).first();
+    if (existing) {
+      save.id = existing.id;
+      save.createdAt = existing.createdAt;
+    }
+    save.id = await db.gameSaves.put(save);
+
+    const gameStore = useCoreGameStore.getState();
+    if (slot !== AUTOSAVE_SLOT) {
+      gameStore.setSaveSlot(slot);
+    }
+    gameStore.updateLastSaved();
+
+    return save;
+  }
+
+  /**
+   * Load the save in a slot into every store and the engine, upgrading it from
+   * an older format first. Saves from a newer format are refused.
+   */
+  async loadGame(slot: number): Promise<LoadGameResult> {
+    const stored = await this.readSave(slot);
+    const save = migrateSave(stored);
+    const diagnostics = diagnoseSave(save, this.getContentIndex(), getSaveVersion(stored));
+    await this.restoreSave(save);
+    return { save, diagnostics };
+  }
+
+  /**
+   * Diagnose the save in a slot against the current content without loading it
+   */
+  async checkSave(slot: number): Promise<SaveDiagnostic[]> {
+    const stored = await this.readSave(slot);
+    return diagnoseSave(migrateSave(stored), this.getContentIndex(), getSaveVersion(stored));
+  }
+
+  /**
+   * Replace the playthrough with a save in the current format. References to
+   * content that no longer exists are restored as they are; diagnoseSave reports them.
+   */
+  async restoreSave(save: DbGameSave): Promise<void> {
+    const gameStore = useCoreGameStore.getState();
+
+    useCoreGameStore.setState({
+      gameTime: save.gameTime,
+      // Resources defined since the save start at their initial value
+      resources: { ...getInitialResources(gameStore.resourceDefinitions), ...save.resources },
+      variables: { ...save.variables },
+      storyletPlays: { ...save.storyletPlays },
+      unlocks: save.unlocks || createUnlockState(),
+      arcProgress: { ...save.arcProgress },
+      inventory: { ...save.inventory },
+      scheduledEvents: [...(save.scheduledEvents || [])],
+      currentSaveSlot: save.slot === AUTOSAVE_SLOT ? gameStore.currentSaveSlot : save.slot,
+      lastSavedAt: save.updatedAt
+    });
+
+    // Persisted like the completed storylets, so a reload keeps what the save holds
+    const characterStore = useCharacterStore.getState();
+    await characterStore.restoreRelationships(applyPlayerRelationships(characterStore.characters, save.playerRelationships));
+
+    const clueStore = useClueStore.getState();
+    const { clues, discoveries } = applyDiscoveredClues(clueStore.clues, clueStore.discoveries, save.discoveredClues);
+    await clueStore.restoreDiscoveries(clues, discoveries);
+
+    const narrativeStore = useNarrativeStore.getState();
+    await narrativeStore.setCompletedStorylets(save.completedStorylets);
+    narrativeStore.setCurrentStorylet(save.currentStoryletId ?? null);
+    narrativeStore.setCurrentArc(save.currentArcId ?? null);
+
+    if (save.randomState) {
+      storyletEngine.restoreRandomState(save.randomState);
+    }
+    storyletEngine.clearHistory();
+    storyletEngine.cancelCurrentExecution();
+    if (save.currentStoryletId && save.currentScene) {
+      storyletEngine.resumeExecution(save.currentStoryletId, save.currentScene);
+    }
+  }
+
+  async deleteSave(slot: number): Promise<void> {
+    await db.gameSaves.where('slot').equals(slot).delete();
+    if (useCoreGameStore.getState().currentSaveSlot === slot) {
+      useCoreGameStore.getState().setSaveSlot(null);
+    }
+  }
+
+  /**
+   * Every save, in slot order
+   */
+  async listSaves(): Promise<DbGameSave[]> {
+    return db.gameSaves.orderBy('slot').toArray();
+  }
+
+  private async readSave(slot: number): Promise<DbGameSave> {
+    const save = await db.gameSaves.where('slot').equals(slot).first();
+    if (!save) {
+      throw new Error(`No saved game in ${getSaveSlotLabel(slot)}`);
+    }
+    return save;
+  }
+
+  /**
+   * The content a save's references and fingerprint are checked against
+   */
+  private getContentIndex(): SaveContentIndex {
+    const narrativeStore = useNarrativeStore.getState();
+    return {
+      storylets: narrativeStore.storylets,
+      arcIds: narrativeStore.arcs.map(arc => arc.id),
+      clueIds: useClueStore.getState().clues.map(clue => clue.id),
+      characterIds: useCharacterStore.getState().characters.map(character => character.id),
+      itemIds: useCoreGameStore.getState().itemDefinitions.map(item => item.id)
+    };
+  }
+
+  quickSave(): Promise<DbGameSave> {
+    return this.saveGame(QUICKSAVE_SLOT);
+  }
+
+  quickLoad(): Promise<LoadGameResult> {
+    return this.loadGame(QUICKSAVE_SLOT);
+  }
+
+  /**
+   * Autosave whenever a storylet is entered and after a choice that leads
+   * nowhere; returns a function that turns autosaving off
+   */
+  enableAutosave(): () => void {
+    const autosave = () => {
+      this.saveGame(AUTOSAVE_SLOT).catch(error => console.error('Autosave failed:', error));
+    };
+
+    const unsubscribes = [
+      storyletEngine.subscribe('storyletEntered', autosave),
+      storyletEngine.subscribe('choiceExecuted', result => {
+        if (!result.nextStoryletId) {
+          autosave();
+        }
+      })
+    ];
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }
+}
+
+// Export singleton instance
+export const gameSaveManager = GameSaveManager.getInstance();
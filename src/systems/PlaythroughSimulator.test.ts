@@ -0,0 +1,191 @@
+/**
+ * Tests for the playthrough simulator
+ * Runs the sample detective arc through the real stores and execution engine
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { useCoreGameStore } from '../stores/useCoreGameStore';
+import { useNarrativeStore } from '../stores/useNarrativeStore';
+import { useClueStore } from '../stores/useClueStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { createSampleStorylets } from '../utils/createSampleStorylets';
+import { createResourceChoicePicker, formatSimulationReport, simulatePlaythroughs } from './PlaythroughSimulator';
+import { gameSaveManager } from './GameSaveManager';
+import type { Storylet, StoryletChoice, StoryletEffect } from '../types/storylet';
+import type { Clue } from '../types/clue';
+import type { Character } from '../types/character';
+
+vi.mock('../db/database', () => ({ db: {} }));
+
+type NarrativeStorylet = ReturnType<typeof useNarrativeStore.getState>['storylets'][number];
+
+const effect = (type: StoryletEffect['type'], target: string, value?: number): StoryletEffect => ({
+  id: `${type}-${target}-${value}`,
+  type,
+  target,
+  value,
+  operator: '+',
+  description: ''
+});
+
+const storylet = (id: string, choices: StoryletChoice[], overrides: Partial<Storylet> = {}): NarrativeStorylet => ({
+  title: id,
+  description: '',
+  content: '',
+  triggers: [],
+  choices,
+  effects: [],
+  status: 'dev',
+  tags: [],
+  priority: 1,
+  estimatedPlayTime: 5,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+  id
+});
+
+// Readable ids for the sample storylets, by title, and their choices, by text
+const STORYLET_IDS: Record<string, string> = {
+  'The Crime Scene': 'crime_scene',
+  'Examine the Evidence': 'evidence',
+  'Interview Witnesses': 'witnesses',
+  'Solve the Case': 'solve'
+};
+const CHOICE_IDS: Record<string, string> = {
+  'Examine the physical evidence': 'examine',
+  'Interview witnesses': 'interview',
+  'Continue investigation': 'evidence_continue',
+  'Piece together the truth': 'witnesses_continue'
+};
+
+// The sample choices only lead on, so give them something to do
+const CHOICE_EFFECTS: Record<string, StoryletEffect[]> = {
+  examine: [effect('resource', 'knowledge', 10), effect('resource', 'energy', -20)],
+  interview: [effect('resource', 'energy', -10)],
+  evidence_continue: [effect('clue_discovery', 'torn_fabric')],
+  witnesses_continue: [effect('relationship', 'witness', 5)]
+};
+
+/**
+ * Build the sample detective arc in the narrative store, in memory instead of the database
+ */
+async function loadSampleStorylets(): Promise<NarrativeStorylet[]> {
+  const { addStoryArc, addStorylet, updateStorylet } = useNarrativeStore.getState();
+  useNarrativeStore.setState({
+    storylets: [],
+    addStoryArc: async () => 'detective',
+    addStorylet: async (data) => {
+      const id = STORYLET_IDS[data.title];
+      useNarrativeStore.setState(state => ({ storylets: [...state.storylets, { ...data, id, createdAt: new Date(), updatedAt: new Date() }] }));
+      return id;
+    },
+    updateStorylet: async (id, updates) => {
+      const choices = updates.choices?.map(choice => ({ ...choice, id: CHOICE_IDS[choice.text], effects: CHOICE_EFFECTS[CHOICE_IDS[choice.text]] }));
+      useNarrativeStore.setState(state => ({
+        storylets: state.storylets.map(existing => existing.id === id ? { ...existing, ...updates, ...(choices && { choices }) } : existing)
+      }));
+    }
+  });
+
+  try {
+    await createSampleStorylets();
+    return useNarrativeStore.getState().storylets;
+  } finally {
+    useNarrativeStore.setState({ addStoryArc, addStorylet, updateStorylet });
+  }
+}
+
+// The sample detective arc, plus a storylet nothing can reach
+let SAMPLE_STORYLETS: NarrativeStorylet[] = [];
+
+describe('PlaythroughSimulator', () => {
+  beforeAll(async () => {
+    // Quiet the sample's progress logging
+    const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    SAMPLE_STORYLETS = [
+      ...await loadSampleStorylets(),
+      storylet('locked_room', [{ id: 'locked_continue', text: 'Continue', effects: [], nextStoryletId: 'solve' }], {
+        triggers: [{ id: 'needs-knowledge', type: 'resource', condition: 'knowledge', operator: '>=', value: 1000, description: 'Knows everything' }]
+      })
+    ];
+    consoleSpy.mockRestore();
+  });
+
+  beforeEach(() => {
+    useCoreGameStore.getState().resetGameState();
+    useNarrativeStore.setState({ storylets: SAMPLE_STORYLETS, completedStorylets: ['already_done'] });
+    useClueStore.setState({ clues: [{ id: 'torn_fabric', isDiscovered: false } as Clue], discoveries: [] });
+    useCharacterStore.setState({ characters: [{ id: 'witness', name: 'Witness', relationships: [] } as unknown as Character] });
+  });
+
+  it('reports visits, endings and unreachable content', async () => {
+    const report = await simulatePlaythroughs({ runs: 40, seed: 7, startStoryletId: 'crime_scene' });
+
+    expect(report.endReasons.ending).toBe(40);
+    expect(report.endings).toEqual({ solve: 40 });
+    expect(report.storyletVisits.crime_scene).toBe(40);
+    expect(report.storyletVisits.evidence + report.storyletVisits.witnesses).toBe(40);
+    expect(report.averageSteps).toBe(3);
+    expect(report.unvisitedStorylets).toEqual(['locked_room']);
+    expect(report.unchosenChoices).toEqual(['locked_continue']);
+
+    // Energy starts at 100 and drops by 10 or 20 after the first choice
+    expect(report.resourcesOverTime[0].energy).toEqual({ min: 100, max: 100, average: 100 });
+    expect(report.resourcesOverTime[2].energy.min).toBe(80);
+    expect(report.resourcesOverTime[2].energy.max).toBe(90);
+
+    expect(formatSimulationReport(report)).toContain('Never reached:\n  locked_room');
+  });
+
+  it('replays a seed exactly and supports strategy pickers', async () => {
+    const first = await simulatePlaythroughs({ runs: 10, seed: 42, startStoryletId: 'crime_scene' });
+    const second = await simulatePlaythroughs({ runs: 10, seed: 42, startStoryletId: 'crime_scene' });
+    expect(second).toEqual(first);
+
+    const greedy = await simulatePlaythroughs({
+      runs: 10,
+      seed: 42,
+      startStoryletId: 'crime_scene',
+      picker: createResourceChoicePicker('knowledge')
+    });
+    expect(greedy.choiceVisits).toEqual({ examine: 10, evidence_continue: 10 });
+  });
+
+  it('restores the game state it ran over', async () => {
+    useCoreGameStore.getState().setResource('money', 42);
+
+    await simulatePlaythroughs({ runs: 5, seed: 1, startStoryletId: 'crime_scene' });
+
+    expect(useCoreGameStore.getState().resources.money).toBe(42);
+    expect(useNarrativeStore.getState().completedStorylets).toEqual(['already_done']);
+  });
+
+  it('keeps clue discoveries and relationships in memory and restores them', async () => {
+    const { discoverClue, restoreDiscoveries } = useClueStore.getState();
+    const { setRelationships, restoreRelationships } = useCharacterStore.getState();
+
+    const report = await simulatePlaythroughs({ runs: 10, seed: 3, startStoryletId: 'crime_scene' });
+
+    // The stores' own writers would fail on the missing database
+    expect(report.errors).toEqual({});
+    expect(report.choiceVisits.evidence_continue).toBeGreaterThan(0);
+    expect(report.choiceVisits.witnesses_continue).toBeGreaterThan(0);
+
+    expect(useClueStore.getState()).toMatchObject({ clues: [{ id: 'torn_fabric', isDiscovered: false }], discoveries: [], discoverClue, restoreDiscoveries });
+    expect(useCharacterStore.getState()).toMatchObject({ characters: [{ id: 'witness', relationships: [] }], setRelationships, restoreRelationships });
+  });
+
+  it('plays on its own engine, so autosave never sees the runs', async () => {
+    const saveGame = vi.spyOn(gameSaveManager, 'saveGame');
+    const disableAutosave = gameSaveManager.enableAutosave();
+
+    try {
+      await simulatePlaythroughs({ runs: 3, seed: 5, startStoryletId: 'crime_scene' });
+      expect(saveGame).not.toHaveBeenCalled();
+    } finally {
+      disableAutosave();
+      saveGame.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Playthrough Simulator
+ *
+ * Runs batches of automated playthroughs through the storylet execution
+ * engine without any UI, then reports:
+ * - How often each storylet, choice and choice outcome was reached
+ * - Which endings runs finished on, and why runs stopped
+ * - Average play length in storylets and game minutes
+ * - Resource distributions at each step of play
+ *
+ * Game state is reset before every run and restored when the batch ends.
+ * Storylet completions, clue discoveries and relationship changes are kept in
+ * memory instead of the database, and runs play on their own engine, so
+ * autosave never writes simulated state.
+ */
+
+import type { Storylet, StoryletChoice, StoryletChoiceOutcome } from '../types/storylet';
+import { useCoreGameStore } from '../stores/useCoreGameStore';
+import { useNarrativeStore } from '../stores/useNarrativeStore';
+import { useClueStore } from '../stores/useClueStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { StoryletExecutionEngine } from './StoryletExecutionEngine';
+import { SeededRandom, generateSeed } from '../utils/random';
+import { reduceEffect, type EffectRules, type EffectState } from '../utils/effectReducer';
+import { createUnlockState } from '../utils/storyletUnlocks';
+import { getBeatChoices } from '../utils/storyletBeats';
+
+export interface ChoicePickerContext {
+  storylet: Storylet;
+  resources: Record<string, number>;
+  rules: EffectRules;
+  random: SeededRandom;
+}
+
+export type ChoicePicker = (choices: StoryletChoice[], context: ChoicePickerContext) => StoryletChoice;
+
+export type PlaythroughEndReason = 'ending' | 'dead_end' | 'no_storylets' | 'max_steps' | 'error';
+
+export interface SimulationOptions {
+  runs: number;
+  seed?: number; // Defaults to a fresh seed; the report records it so a batch can be replayed
+  maxSteps?: number; // Storylets entered per run before it is cut off
+  startStoryletId?: string; // Otherwise every run opens with a drawn storylet
+  statuses?: Storylet['status'][]; // Content to play, defaults to every status
+  picker?: ChoicePicker;
+}
+
+export interface ResourceStats {
+  min: number;
+  max: number;
+  average: number;
+}
+
+export interface SimulationReport {
+  runs: number;
+  seed: number;
+  storyletVisits: Record<string, number>;
+  choiceVisits: Record<string, number>;
+  outcomeVisits: Record<string, number>; // Rolled outcome ids for choices with weighted outcomes
+  endings: Record<string, number>; // Final storylet id for runs that ended or dead-ended
+  endReasons: Record<PlaythroughEndReason, number>;
+  averageSteps: number;
+  averageGameTime: number;
+  resourcesOverTime: Record<string, ResourceStats>[]; // Index is the number of storylets entered, over runs still going
+  unvisitedStorylets: string[];
+  unchosenChoices: string[];
+  errors: Record<string, number>;
+}
+
+const DEFAULT_MAX_STEPS = 50;
+
+/**
+ * Pick any available choice with equal chance
+ */
+export const randomChoicePicker: ChoicePicker = (choices, { random }) =>
+  choices[Math.floor(random.next() * choices.length)];
+
+/**
+ * Always take the first available choice
+ */
+export const firstChoicePicker: ChoicePicker = choices => choices[0];
+
+/**
+ * Greedy strategy: take the choice that raises a resource the most, breaking ties at random
+ */
+export function createResourceChoicePicker(resourceId: string): ChoicePicker {
+  return (choices, context) => {
+    const current = context.resources[resourceId] ?? 0;
+    const gains = choices.map(choice => {
+      const state: EffectState = { resources: { ...context.resources }, relationships: {}, discoveredClues: [], gameTime: 0, variables: {}, unlocks: createUnlockState(), inventory: {}, scheduledEvents: [] };
+      const final = choice.effects
+        .filter(effect => effect.type === 'resource' && effect.target === resourceId)
+        .reduce((acc, effect) => reduceEffect(acc, effect, context.rules).state, state);
+      return (final.resources[resourceId] ?? 0) - current;
+    });
+
+    const best = Math.max(...gains);
+    const candidates = choices.filter((_, index) => gains[index] === best);
+    return candidates[Math.floor(context.random.next() * candidates.length)];
+  };
+}
+
+const increment = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+/**
+ * Run a batch of playthroughs and summarise them
+ */
+export async function simulatePlaythroughs(options: SimulationOptions): Promise<SimulationReport> {
+  // A detached engine, so the game's listeners such as autosave never see simulated play
+  const engine = StoryletExecutionEngine.createDetached();
+  const seed = (options.seed ?? generateSeed()) >>> 0;
+  const maxSteps = options.maxSteps ?? DEFAULT_MAX_STEPS;
+  const statuses = options.statuses ?? ['dev', 'stage', 'live'];
+  const picker = options.picker ?? randomChoicePicker;
+  const seeds = new SeededRandom(seed);
+
+  const storylets = useNarrativeStore.getState().storylets.filter(storylet => statuses.includes(storylet.status));
+  const report: SimulationReport = {
+    runs: options.runs,
+    seed,
+    storyletVisits: {},
+    choiceVisits: {},
+    outcomeVisits: {},
+    endings: {},
+    endReasons: { ending: 0, dead_end: 0, no_storylets: 0, max_steps: 0, error: 0 },
+    averageSteps: 0,
+    averageGameTime: 0,
+    resourcesOverTime: [],
+    unvisitedStorylets: [],
+    unchosenChoices: [],
+    errors: {}
+  };
+  const resourceTotals: Record<string, { min: number; max: number; sum: number; count: number }>[] = [];
+
+  const sampleResources = (step: number) => {
+    const totals = resourceTotals[step] ?? (resourceTotals[step] = {});
+    Object.entries(useCoreGameStore.getState().resources).forEach(([id, value]) => {
+      const stats = totals[id] ?? (totals[id] = { min: value, max: value, sum: 0, count: 0 });
+      stats.min = Math.min(stats.min, value);
+      stats.max = Math.max(stats.max, value);
+      stats.sum += value;
+      stats.count++;
+    });
+  };
+
+  // Keep the player's game intact: snapshot what the runs overwrite
+  const coreSnapshot = useCoreGameStore.getState();
+  const narrativeSnapshot = useNarrativeStore.getState();
+  const clueSnapshot = useClueStore.getState();
+  const characterSnapshot = useCharacterStore.getState();
+
+  // The store actions the engine saves play state through, kept in memory instead
+  useNarrativeStore.setState({
+    markStoryletCompleted: async (id: string) => {
+      useNarrativeStore.setState(state => ({
+        completedStorylets: state.completedStorylets.includes(id) ? state.completedStorylets : [...state.completedStorylets, id]
+      }));
+    },
+    setCompletedStorylets: async (ids: string[]) => {
+      useNarrativeStore.setState({ completedStorylets: [...ids] });
+    }
+  });
+  useClueStore.setState({
+    discoverClue: async (clueId, discoveryData) => {
+      useClueStore.setState(state => ({
+        clues: state.clues.map(clue => clue.id === clueId ? { ...clue, isDiscovered: true } : clue),
+        discoveries: [...state.discoveries, { ...discoveryData, clueId, timestamp: new Date() }]
+      }));
+    },
+    restoreDiscoveries: async (clues, discoveries) => {
+      useClueStore.setState({ clues, discoveries });
+    }
+  });
+  useCharacterStore.setState({
+    setRelationships: async (characterId, relationships) => {
+      useCharacterStore.setState(state => ({
+        characters: state.characters.map(character => character.id === characterId ? { ...character, relationships } : character)
+      }));
+    },
+    restoreRelationships: async (characters) => {
+      useCharacterStore.setState({ characters });
+    }
+  });
+
+  let steps = 0;
+  let totalSteps = 0;
+  let totalGameTime = 0;
+  const recordError = (result: { errors: string[] }) => {
+    result.errors.forEach(error => increment(report.errors, error));
+  };
+  const unsubscribers = [
+    engine.subscribe('storyletEntered', result => {
+      steps++;
+      increment(report.storyletVisits, result.storylet.id!);
+      sampleResources(steps);
+    }),
+    engine.subscribe('choiceExecuted', result => {
+      if (result.outcome) increment(report.outcomeVisits, result.outcome.outcome.id);
+    }),
+    engine.subscribe('triggerFailed', recordError),
+    engine.subscribe('executionError', recordError)
+  ];
+
+  try {
+    for (let run = 0; run < options.runs; run++) {
+      const runSeed = Math.floor(seeds.next() * 0x100000000);
+      const random = new SeededRandom(runSeed);
+
+      useCoreGameStore.getState().resetGameState();
+      useNarrativeStore.setState({ completedStorylets: [], currentStoryletId: null, currentArcId: null });
+      useClueStore.setState({ clues: clueSnapshot.clues, discoveries: clueSnapshot.discoveries });
+      useCharacterStore.setState({ characters: characterSnapshot.characters });
+      engine.cancelCurrentExecution();
+      engine.clearHistory();
+      engine.setSeed(runSeed);
+
+      steps = 0;
+      let pageTurns = 0;
+      sampleResources(0);
+      let reason: PlaythroughEndReason = 'max_steps';
+
+      while (steps < maxSteps) {
+        let execution = engine.getCurrentExecution();
+
+        if (!execution) {
+          const storyletId = steps === 0 && options.startStoryletId
+            ? options.startStoryletId
+            : engine.drawStorylets(1, undefined, { statuses })[0]?.id;
+          if (!storyletId) {
+            reason = 'no_storylets';
+            break;
+          }
+          const result = await engine.executeStorylet(storyletId);
+          if (!result.success) {
+            reason = 'error';
+            break;
+          }
+          execution = result;
+        }
+
+        // Read through multi-page storylets, taking inline choices at random
+        if (execution.scene && !execution.scene.complete) {
+          if (++pageTurns > maxSteps) break;
+          const pageChoices = getBeatChoices(execution.storylet, execution.scene);
+          const pageChoice = pageChoices.length > 0 ? pageChoices[Math.floor(random.next() * pageChoices.length)] : undefined;
+          if (!(await engine.continueScene(pageChoice?.id)).success) {
+            reason = 'error';
+            break;
+          }
+          continue;
+        }
+
+        const { storylet, availableChoices } = execution;
+        if (storylet.choices.length === 0 || availableChoices.length === 0) {
+          reason = storylet.choices.length === 0 ? 'ending' : 'dead_end';
+          increment(report.endings, storylet.id!);
+          break;
+        }
+
+        const choice = picker(availableChoices, {
+          storylet,
+          resources: { ...useCoreGameStore.getState().resources },
+          rules: {
+            resourceDefinitions: useCoreGameStore.getState().resourceDefinitions,
+            itemDefinitions: useCoreGameStore.getState().itemDefinitions,
+            calendar: useNarrativeStore.getState().calendar
+          },
+          random
+        });
+        increment(report.choiceVisits, choice.id);
+
+        const result = await engine.executeChoice(choice.id);
+        if (!result.success) {
+          reason = 'error';
+          break;
+        }
+      }
+
+      report.endReasons[reason]++;
+      totalSteps += steps;
+      totalGameTime += useCoreGameStore.getState().gameTime;
+    }
+  } finally {
+    unsubscribers.forEach(unsubscribe => unsubscribe());
+    useCoreGameStore.setState({
+      gameTime: coreSnapshot.gameTime,
+      resources: coreSnapshot.resources,
+      variables: coreSnapshot.variables,
+      storyletPlays: coreSnapshot.storyletPlays,
+      unlocks: coreSnapshot.unlocks,
+      arcProgress: coreSnapshot.arcProgress,
+      inventory: coreSnapshot.inventory,
+      scheduledEvents: coreSnapshot.scheduledEvents,
+      currentSaveSlot: coreSnapshot.currentSaveSlot,
+      lastSavedAt: coreSnapshot.lastSavedAt
+    });
+    useNarrativeStore.setState({
+      completedStorylets: narrativeSnapshot.completedStorylets,
+      currentStoryletId: narrativeSnapshot.currentStoryletId,
+      currentArcId: narrativeSnapshot.currentArcId,
+      markStoryletCompleted: narrativeSnapshot.markStoryletCompleted,
+      setCompletedStorylets: narrativeSnapshot.setCompletedStorylets
+    });
+    useClueStore.setState({
+      clues: clueSnapshot.clues,
+      discoveries: clueSnapshot.discoveries,
+      discoverClue: clueSnapshot.discoverClue,
+      restoreDiscoveries: clueSnapshot.restoreDiscoveries
+    });
+    useCharacterStore.setState({
+      characters: characterSnapshot.characters,
+      setRelationships: characterSnapshot.setRelationships,
+      restoreRelationships: characterSnapshot.restoreRelationships
+    });
+  }
+
+  report.averageSteps = totalSteps / Math.max(1, options.runs);
+  report.averageGameTime = totalGameTime / Math.max(1, options.runs);
+  report.resourcesOverTime = resourceTotals.map(totals => Object.fromEntries(
+    Object.entries(totals).map(([id, stats]) => [id, { min: stats.min, max: stats.max, average: stats.sum / stats.count }])
+  ));
+  report.unvisitedStorylets = storylets.filter(storylet => !report.storyletVisits[storylet.id]).map(storylet => storylet.id);
+  report.unchosenChoices = storylets
+    .flatMap(storylet => storylet.choices)
+    .filter(choice => !report.choiceVisits[choice.id])
+    .map(choice => choice.id);
+
+  return report;
+}
+
+/**
+ * Plain-text summary of a simulation report, using storylet titles and choice text
+ */
+export function formatSimulationReport(report: SimulationReport): string {
+  const { storylets } = useNarrativeStore.getState();
+  const storyletTitle = (id: string) => storylets.find(storylet => storylet.id === id)?.title ?? id;
+  const choiceLabel = (id: string) => {
+    const storylet = storylets.find(s => s.choices.some(choice => choice.id === id));
+    const choice = storylet?.choices.find(c => c.id === id);
+    return storylet && choice ? `${storylet.title}: ${choice.text}` : id;
+  };
+  const percent = (count: number) => `${Math.round((count / Math.max(1, report.runs)) * 100)}%`;
+
+  const lines = [
+    `Playthrough simulation: ${report.runs} run(s), seed ${report.seed}`,
+    `Average length: ${report.averageSteps.toFixed(1)} storylet(s), ${Math.round(report.averageGameTime)} game minute(s)`,
+    '',
+    'Run outcomes:',
+    ...Object.entries(report.endReasons).filter(([, count]) => count > 0).map(([reason, count]) => `  ${reason}: ${count} (${percent(count)})`),
+    '',
+    'Endings reached:',
+    ...Object.entries(report.endings).map(([id, count]) => `  ${storyletTitle(id)}: ${count} (${percent(count)})`),
+    '',
+    'Storylet visits:',
+    ...Object.entries(report.storyletVisits).sort(([, a], [, b]) => b - a).map(([id, count]) => `  ${storyletTitle(id)}: ${count}`)
+  ];
+
+  if (Object.keys(report.outcomeVisits).length > 0) {
+    const outcomeLabel = (id: string) => {
+      for (const storylet of storylets) {
+        for (const choice of storylet.choices) {
+          const outcome = choice.outcomes?.find((o: StoryletChoiceOutcome) => o.id === id);
+          if (outcome) return `${choice.text} → ${outcome.label}`;
+        }
+      }
+      return id;
+    };
+    lines.push('', 'Choice outcomes:', ...Object.entries(report.outcomeVisits).map(([id, count]) => `  ${outcomeLabel(id)}: ${count}`));
+  }
+  if (report.unvisitedStorylets.length > 0) {
+    lines.push('', 'Never reached:', ...report.unvisitedStorylets.map(id => `  ${storyletTitle(id)}`));
+  }
+  if (report.unchosenChoices.length > 0) {
+    lines.push('', 'Never chosen:', ...report.unchosenChoices.map(id => `  ${choiceLabel(id)}`));
+  }
+
+  const finalStep = report.resourcesOverTime[report.resourcesOverTime.length - 1];
+  if (finalStep) {
+    lines.push('', `Resources after ${report.resourcesOverTime.length - 1} storylet(s):`,
+      ...Object.entries(finalStep).map(([id, stats]) => `  ${id}: avg ${stats.average.toFixed(1)} (min ${stats.min}, max ${stats.max})`));
+  }
+  if (Object.keys(report.errors).length > 0) {
+    lines.push('', 'Problems:', ...Object.entries(report.errors).map(([error, count]) => `  ${error} (x${count})`));
+  }
+
+  return lines.join('\n');
+}
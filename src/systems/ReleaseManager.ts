@@ -0,0 +1,172 @@
+/**
+ * Release Manager
+ * Moves storylets through the dev → stage → live pipeline, keeps the changelog
+ * of status changes, and publishes the live content as immutable releases
+ */
+
+import { db, type DbPromotion, type DbRelease } from '../db/database';
+import { useCoreGameStore } from '../stores/useCoreGameStore';
+import { useNarrativeStore } from '../stores/useNarrativeStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { useClueStore } from '../stores/useClueStore';
+import { useRevisionStore } from '../stores/useRevisionStore';
+import type { Promotion, PromotionCheck, Release, ReleaseStatus } from '../types/release';
+import { checkPromotion, checkRelease, createReleaseSnapshot, type ReleaseContent, type ReleaseStorylet } from '../utils/release';
+
+export interface StatusChangeResult {
+  changed: boolean; // False when errors blocked the change
+  check: PromotionCheck;
+}
+
+export interface PublishResult {
+  release?: Release; // Absent when errors blocked publishing
+  check: PromotionCheck;
+}
+
+const toPromotion = (record: DbPromotion): Promotion => ({ ...record, id: record.id! });
+
+const toRelease = (record: DbRelease): Release => ({ ...record, id: record.id!, snapshot: JSON.parse(record.snapshot) });
+
+export class ReleaseManager {
+  private static instance: ReleaseManager;
+
+  private constructor() {}
+
+  static getInstance(): ReleaseManager {
+    if (!ReleaseManager.instance) {
+      ReleaseManager.instance = new ReleaseManager();
+    }
+    return ReleaseManager.instance;
+  }
+
+  /**
+   * What blocks moving a storylet to a status, without moving it. The storylet
+   * may be an unsaved draft, with the status it is being moved from.
+   */
+  checkStatusChange(storylet: ReleaseStorylet, to: ReleaseStatus): PromotionCheck {
+    return checkPromotion(storylet, to, this.getContent());
+  }
+
+  /**
+   * Move a storylet to a status and record it in the changelog. Promotions are
+   * refused while the checks report errors; moving back always goes through.
+   */
+  async changeStatus(storyletId: string, to: ReleaseStatus, note?: string): Promise<StatusChangeResult> {
+    const storylet = this.getStorylet(storyletId);
+    const check = this.checkStatusChange(storylet, to);
+    if (check.errors.length > 0 || storylet.status === to) {
+      return { changed: false, check };
+    }
+
+    await useNarrativeStore.getState().updateStorylet(storyletId, { status: to });
+    await this.recordStatusChange(storylet, storylet.status, to, note);
+    return { changed: true, check };
+  }
+
+  /**
+   * Add a status change made elsewhere, such as in the storylet editor, to the changelog
+   */
+  async recordStatusChange(storylet: { id: string; title: string }, from: ReleaseStatus, to: ReleaseStatus, note?: string): Promise<Promotion> {
+    const record: DbPromotion = {
+      storyletId: storylet.id,
+      storyletTitle: storylet.title,
+      from,
+      to,
+      promotedAt: new Date().toISOString(),
+      author: useRevisionStore.getState().author.trim() || 'Unknown',
+      note: note?.trim() || undefined
+    };
+    record.id = await db.promotions.add(record);
+    return toPromotion(record);
+  }
+
+  /**
+   * Status changes, newest first; of one storylet when an id is given
+   */
+  async getChangelog(storyletId?: string): Promise<Promotion[]> {
+    const records = storyletId
+      ? await db.promotions.where('storyletId').equals(storyletId).toArray()
+      : await db.promotions.toArray();
+    return records
+      .map(toPromotion)
+      .sort((a, b) => b.promotedAt.localeCompare(a.promotedAt) || b.id - a.id);
+  }
+
+  /**
+   * What blocks publishing the current live content
+   */
+  checkRelease(): PromotionCheck {
+    return checkRelease(this.getContent());
+  }
+
+  /**
+   * Snapshot the live content as the next numbered release. Releases are only
+   * ever added, so a published build can always be exported again as it was.
+   */
+  async publish(note?: string): Promise<PublishResult> {
+    const content = this.getContent();
+    const check = checkRelease(content);
+    if (check.errors.length > 0) {
+      return { check };
+    }
+    if (!content.storylets.some(storylet => storylet.status === 'live')) {
+      return { check: { ...check, errors: [{ field: 'status', message: 'No storylet is live yet' }] } };
+    }
+
+    const snapshot = createReleaseSnapshot(content);
+    const record = await db.transaction('rw', db.releases, async () => {
+      const latest = await db.releases.orderBy('number').last();
+      const release: DbRelease = {
+        number: (latest?.number ?? 0) + 1,
+        publishedAt: snapshot.publishedAt,
+        author: useRevisionStore.getState().author.trim() || 'Unknown',
+        note: note?.trim() || undefined,
+        snapshot: JSON.stringify(snapshot)
+      };
+      release.id = await db.releases.add(release);
+      return release;
+    });
+
+    return { release: { ...record, id: record.id!, snapshot }, check };
+  }
+
+  /**
+   * Published releases, newest first
+   */
+  async listReleases(): Promise<Release[]> {
+    const records = await db.releases.orderBy('number').reverse().toArray();
+    return records.map(toRelease);
+  }
+
+  /**
+   * A release as the JSON export the game build reads
+   */
+  exportRelease(release: Release): string {
+    return JSON.stringify({ release: release.number, note: release.note, ...release.snapshot }, null, 2);
+  }
+
+  private getStorylet(storyletId: string) {
+    const storylet = useNarrativeStore.getState().getStorylet(storyletId);
+    if (!storylet) {
+      throw new Error(`Unknown storylet "${storyletId}"`);
+    }
+    return storylet;
+  }
+
+  private getContent(): ReleaseContent {
+    const narrativeStore = useNarrativeStore.getState();
+    const gameStore = useCoreGameStore.getState();
+    return {
+      storylets: narrativeStore.storylets,
+      arcs: narrativeStore.arcs,
+      clues: useClueStore.getState().clues,
+      characters: useCharacterStore.getState().characters,
+      items: gameStore.itemDefinitions,
+      resources: gameStore.resourceDefinitions,
+      storyVariables: narrativeStore.storyVariables
+    };
+  }
+}
+
+// Export singleton instance
+export const releaseManager = ReleaseManager.getInstance();
@@ -5,29 +5,74 @@
 
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { StoryletExecutionEngine, type ExecutionContext, type ExecutionResult } from './StoryletExecutionEngine';
-import type { Storylet, StoryletTrigger, StoryletChoice, StoryletEffect } from '../types/storylet';
+import { SeededRandom } from '../utils/random';
+import { DEFAULT_CALENDAR } from '../utils/calendar';
+import { createArcProgress } from '../utils/arcProgress';
+import { evaluateTrigger } from '../utils/storyletConditions';
+import { processStoryletEffect, validateEffect } from '../utils/effectProcessor';
+import { DEFAULT_RESOURCE_DEFINITIONS } from '../constants/game';
+import type { ArcProgress, StoryArc } from '../types/narrative';
+import type { Inventory, ItemDefinition } from '../types/item';
+import type { Character, CharacterRelationship } from '../types/character';
+import type { Clue, ClueDiscovery } from '../types/clue';
+import type { ScheduledEvent, Storylet, StoryletTrigger, StoryletChoice, StoryletEffect, StoryletPlayRecord, StoryVariableDefinition, StoryVariableValue, UnlockState } from '../types/storylet';
+
+// What the stores' persisting actions wrote to the database
+const mockPersisted = {
+  characters: [] as Character[],
+  discoveries: [] as ClueDiscovery[],
+  completedStorylets: [] as string[]
+};
 
 // Mock the stores
 const mockGameStore = {
-  resources: { energy: 100, social: 50, knowledge: 0, money: 200 },
+  resources: { energy: 100, social: 50, knowledge: 0, money: 200 } as Record<string, number>,
+  resourceDefinitions: DEFAULT_RESOURCE_DEFINITIONS,
   gameTime: 0,
   featureFlags: {},
+  variables: {} as Record<string, StoryVariableValue>,
+  storyletPlays: {} as Record<string, StoryletPlayRecord>,
+  unlocks: { storylets: {}, choices: {} } as UnlockState,
+  arcProgress: {} as Record<string, ArcProgress>,
+  itemDefinitions: [{ id: 'key', name: 'Brass Key', description: '', stackable: false, tags: [] }] as ItemDefinition[],
+  inventory: {} as Inventory,
+  scheduledEvents: [] as ScheduledEvent[],
   advanceTime: vi.fn(),
   updateResource: vi.fn(),
-  setResource: vi.fn()
+  setResource: vi.fn(),
+  setVariable: vi.fn(),
+  recordStoryletPlay: vi.fn(),
+  setUnlocks: vi.fn((unlocks: UnlockState) => { mockGameStore.unlocks = unlocks; }),
+  updateArcProgress: vi.fn((progress: ArcProgress) => {
+    mockGameStore.arcProgress = { ...mockGameStore.arcProgress, [progress.arcId]: progress };
+  }),
+  setInventory: vi.fn((inventory: Inventory) => { mockGameStore.inventory = inventory; }),
+  setScheduledEvents: vi.fn((events: ScheduledEvent[]) => { mockGameStore.scheduledEvents = events; })
 };
 
 const mockNarrativeStore = {
   currentStoryletId: null,
+  currentArcId: null as string | null,
+  completedStorylets: [] as string[],
+  storylets: [] as Storylet[],
+  arcs: [] as StoryArc[],
+  storyVariables: [] as StoryVariableDefinition[],
+  calendar: DEFAULT_CALENDAR,
   getStorylet: vi.fn(),
   setCurrentStorylet: vi.fn(),
-  markStoryletCompleted: vi.fn()
+  setCurrentArc: vi.fn(),
+  markStoryletCompleted: vi.fn(),
+  setCompletedStorylets: vi.fn(async (ids: string[]) => {
+    mockNarrativeStore.completedStorylets = ids;
+    mockPersisted.completedStorylets = ids;
+  })
 };
 
 // Mock the stores
 vi.mock('../stores/useCoreGameStore', () => ({
   useCoreGameStore: {
-    getState: () => mockGameStore
+    getState: () => mockGameStore,
+    setState: (partial: Partial<typeof mockGameStore>) => Object.assign(mockGameStore, partial)
   }
 }));
 
@@ -37,6 +82,73 @@ vi.mock('../stores/useNarrativeStore', () => ({
   }
 }));
 
+const mockClueStore = {
+  clues: [] as Clue[],
+  discoveries: [] as ClueDiscovery[],
+  getDiscoveredClueIds: vi.fn(() => [] as string[]),
+  getClue: vi.fn((id: string) => mockClueStore.clues.find(clue => clue.id === id)),
+  discoverClue: vi.fn(async (clueId: string, discovery: Omit<ClueDiscovery, 'clueId' | 'timestamp'>) => {
+    mockClueStore.discoveries = [...mockClueStore.discoveries, { ...discovery, clueId, timestamp: new Date() }];
+    mockPersisted.discoveries = mockClueStore.discoveries;
+  }),
+  restoreDiscoveries: vi.fn(async (clues: Clue[], discoveries: ClueDiscovery[]) => {
+    Object.assign(mockClueStore, { clues, discoveries });
+    mockPersisted.discoveries = discoveries;
+  })
+};
+
+const mockCharacterStore = {
+  characters: [] as Character[],
+  getPlayerRelationships: vi.fn(() => ({} as Record<string, number>)),
+  getCharacter: vi.fn((id: string) => mockCharacterStore.characters.find(character => character.id === id)),
+  addRelationship: vi.fn(async (characterId: string, relationship: Omit<CharacterRelationship, 'id'>) => {
+    mockCharacterStore.characters = mockCharacterStore.characters.map(character => character.id === characterId
+      ? { ...character, relationships: [...character.relationships, { ...relationship, id: `${characterId}-${relationship.characterId}` }] }
+      : character);
+    mockPersisted.characters = mockCharacterStore.characters;
+  }),
+  updateRelationship: vi.fn(async (characterId: string, relationshipId: string, updates: Partial<CharacterRelationship>) => {
+    mockCharacterStore.characters = mockCharacterStore.characters.map(character => character.id === characterId
+      ? { ...character, relationships: character.relationships.map(rel => rel.id === relationshipId ? { ...rel, ...updates } : rel) }
+      : character);
+    mockPersisted.characters = mockCharacterStore.characters;
+  }),
+  restoreRelationships: vi.fn(async (characters: Character[]) => {
+    mockCharacterStore.characters = characters;
+    mockPersisted.characters = characters;
+  })
+};
+
+vi.mock('../stores/useClueStore', () => ({
+  useClueStore: {
+    getState: () => mockClueStore,
+    setState: (partial: Partial<typeof mockClueStore>) => Object.assign(mockClueStore, partial)
+  }
+}));
+
+vi.mock('../stores/useCharacterStore', () => ({
+  useCharacterStore: {
+    getState: () => mockCharacterStore,
+    setState: (partial: Partial<typeof mockCharacterStore>) => Object.assign(mockCharacterStore, partial)
+  }
+}));
+
+// A live storylet with nothing in it; tests override the parts they exercise
+const buildStorylet = (id: string, overrides: Partial<Storylet> = {}): Storylet => ({
+  id,
+  title: `Storylet ${id}`,
+  description: 'Test storylet',
+  content: 'Test content',
+  triggers: [],
+  choices: [],
+  effects: [],
+  status: 'live',
+  tags: [],
+  priority: 1,
+  estimatedPlayTime: 1,
+  ...overrides
+});
+
 describe('StoryletExecutionEngine', () => {
   let engine: StoryletExecutionEngine;
 
@@ -48,7 +160,24 @@ describe('StoryletExecutionEngine', () => {
     mockGameStore.resources = { energy: 100, social: 50, knowledge: 0, money: 200 };
     mockGameStore.gameTime = 0;
     mockGameStore.featureFlags = {};
+    mockGameStore.variables = {};
+    mockGameStore.storyletPlays = {};
+    mockGameStore.unlocks = { storylets: {}, choices: {} };
+    mockGameStore.arcProgress = {};
+    mockGameStore.inventory = {};
+    mockGameStore.scheduledEvents = [];
+    mockNarrativeStore.storyVariables = [];
     mockNarrativeStore.currentStoryletId = null;
+    mockNarrativeStore.currentArcId = null;
+    mockNarrativeStore.completedStorylets = [];
+    mockNarrativeStore.storylets = [];
+    mockNarrativeStore.arcs = [];
+    mockClueStore.getDiscoveredClueIds.mockReturnValue([]);
+    mockCharacterStore.characters = [];
+    mockClueStore.clues = [];
+    mockClueStore.discoveries = [];
+    mockCharacterStore.getPlayerRelationships.mockReturnValue({});
+    Object.assign(mockPersisted, { characters: [], discoveries: [], completedStorylets: [] });
   });
 
   afterEach(() => {
@@ -262,6 +391,724 @@ describe('StoryletExecutionEngine', () => {
     });
   });
 
+  describe('Condition Groups', () => {
+    const energyAbove = (value: number): StoryletTrigger => ({
+      id: `energy-${value}`,
+      type: 'resource',
+      condition: 'energy',
+      value,
+      operator: '>',
+      description: `Energy above ${value}`
+    });
+
+    it('should pass an OR group when any branch holds', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('condition-storylet', {
+        conditions: {
+          id: 'root',
+          logic: 'any',
+          conditions: [energyAbove(500), energyAbove(50)]
+        }
+      }));
+
+      const result = await engine.executeStorylet('condition-storylet');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should fail a NOT group when a child holds', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('condition-storylet', {
+        conditions: {
+          id: 'root',
+          logic: 'all',
+          conditions: [
+            energyAbove(50),
+            { id: 'not', logic: 'none', conditions: [energyAbove(90)] }
+          ]
+        }
+      }));
+
+      const result = await engine.executeStorylet('condition-storylet');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('NOT Energy above 90');
+    });
+  });
+
+  describe('Execution Context', () => {
+    it('should evaluate clue triggers against discovered clues', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('clue-trigger', { triggers: [
+        { id: 't1', type: 'clue', condition: 'clue-1', description: 'Requires clue 1' }
+      ] }));
+
+      const lockedResult = await engine.executeStorylet('clue-trigger');
+      expect(lockedResult.success).toBe(false);
+
+      mockClueStore.getDiscoveredClueIds.mockReturnValue(['clue-1']);
+      const unlockedResult = await engine.executeStorylet('clue-trigger');
+      expect(unlockedResult.success).toBe(true);
+    });
+
+    it('should evaluate storylet completion triggers against completed storylets', async () => {
+      mockNarrativeStore.completedStorylets = ['intro'];
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('completion-trigger', { triggers: [
+        { id: 't1', type: 'storylet_completion', condition: 'intro', description: 'Requires intro' }
+      ] }));
+
+      const result = await engine.executeStorylet('completion-trigger');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should evaluate relationship triggers against player relationships', async () => {
+      mockCharacterStore.getPlayerRelationships.mockReturnValue({ marcus: 70 });
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('relationship-trigger', { triggers: [
+        { id: 't1', type: 'relationship', condition: 'marcus', value: 60, operator: '>', description: 'Trust Marcus' }
+      ] }));
+
+      const result = await engine.executeStorylet('relationship-trigger');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should treat a relationship the player has not formed yet as the default value', async () => {
+      mockCharacterStore.getPlayerRelationships.mockReturnValue({});
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('relationship-default', { triggers: [
+        { id: 't1', type: 'relationship', condition: 'marcus', value: 50, operator: '=', description: 'Just met Marcus' }
+      ] }));
+
+      const result = await engine.executeStorylet('relationship-default');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should filter choice requirements using the real context', async () => {
+      mockClueStore.getDiscoveredClueIds.mockReturnValue(['clue-1']);
+      const storylet = buildStorylet('choice-context');
+      storylet.choices = [
+        {
+          id: 'needs-clue',
+          text: 'Present the evidence',
+          effects: [],
+          requirements: [{ id: 'r1', type: 'clue', condition: 'clue-1', description: 'Has clue 1' }]
+        },
+        {
+          id: 'needs-other-clue',
+          text: 'Present other evidence',
+          effects: [],
+          requirements: [{ id: 'r2', type: 'clue', condition: 'clue-2', description: 'Has clue 2' }]
+        }
+      ];
+      mockNarrativeStore.getStorylet.mockReturnValue(storylet);
+
+      const result = await engine.executeStorylet('choice-context');
+
+      expect(result.availableChoices.map(c => c.id)).toEqual(['needs-clue']);
+    });
+  });
+
+  describe('Storylet Scheduling', () => {
+    it('should return eligible live storylets ranked by priority', () => {
+      mockNarrativeStore.storylets = [
+        buildStorylet('low', { priority: 2 }),
+        buildStorylet('high', { priority: 9 }),
+        buildStorylet('draft', { status: 'dev', priority: 10 }),
+        buildStorylet('blocked', {
+          priority: 8,
+          triggers: [{ id: 't1', type: 'resource', condition: 'energy', value: 500, operator: '>=', description: 'Needs 500 energy' }]
+        })
+      ];
+
+      const available = engine.getAvailableStorylets();
+
+      expect(available.map(s => s.id)).toEqual(['high', 'low']);
+    });
+
+    it('should require prerequisites to be completed', () => {
+      mockNarrativeStore.storylets = [
+        buildStorylet('intro'),
+        buildStorylet('sequel', { prerequisites: ['intro'] })
+      ];
+
+      expect(engine.getAvailableStorylets().map(s => s.id)).toEqual(['intro']);
+
+      mockNarrativeStore.completedStorylets = ['intro'];
+      expect(engine.getAvailableStorylets().map(s => s.id)).toEqual(['intro', 'sequel']);
+    });
+
+    it('should honor status, arc and limit options', () => {
+      mockNarrativeStore.storylets = [
+        buildStorylet('a', { storyArc: 'arc-1', status: 'stage', priority: 3 }),
+        buildStorylet('b', { storyArc: 'arc-1', priority: 5 }),
+        buildStorylet('c', { storyArc: 'arc-2', priority: 7 })
+      ];
+
+      const available = engine.getAvailableStorylets(undefined, {
+        statuses: ['stage', 'live'],
+        storyArc: 'arc-1',
+        limit: 1
+      });
+
+      expect(available.map(s => s.id)).toEqual(['b']);
+    });
+
+    it('should draw storylets weighted by priority without replacement', () => {
+      const randomSpy = vi.spyOn(SeededRandom.prototype, 'next').mockReturnValue(0.95);
+      mockNarrativeStore.storylets = [
+        buildStorylet('common', { priority: 9 }),
+        buildStorylet('rare', { priority: 1 })
+      ];
+
+      const drawn = engine.drawStorylets(2);
+
+      expect(drawn.map(s => s.id)).toEqual(['rare', 'common']);
+      randomSpy.mockRestore();
+    });
+  });
+
+  describe('Seeded Randomness', () => {
+    const randomStorylet = (id: string, chance: number): Storylet => buildStorylet(id, {
+      triggers: [{ id: `${id}-roll`, type: 'random', condition: 'random', value: chance, description: 'Random chance' }]
+    });
+
+    it('should replay the same draws for the same seed', () => {
+      mockNarrativeStore.storylets = ['a', 'b', 'c', 'd', 'e'].map(id => randomStorylet(id, 60));
+
+      const play = () => {
+        engine.setSeed(2024);
+        return [engine.drawStorylets(2), engine.drawStorylets(2)].map(draw => draw.map(s => s.id));
+      };
+
+      expect(play()).toEqual(play());
+      expect(engine.getSeed()).toBe(2024);
+    });
+
+    it('should continue the sequence from a restored random state', () => {
+      mockNarrativeStore.storylets = ['a', 'b', 'c', 'd', 'e'].map(id => randomStorylet(id, 50));
+      engine.setSeed(7);
+      engine.drawStorylets(1);
+
+      // Restoring starts a new step, so eligibility is rolled again from the restored position
+      const saved = engine.getRandomState();
+      engine.restoreRandomState(saved);
+      const expected = engine.drawStorylets(3).map(s => s.id);
+
+      engine.setSeed(1);
+      engine.drawStorylets(2);
+      engine.restoreRandomState(saved);
+
+      expect(engine.drawStorylets(3).map(s => s.id)).toEqual(expected);
+    });
+
+    it('should roll random triggers once per step however often eligibility is checked', async () => {
+      mockNarrativeStore.storylets = ['a', 'b', 'c', 'd', 'e'].map(id => randomStorylet(id, 80));
+      mockNarrativeStore.getStorylet.mockImplementation((id: string) => mockNarrativeStore.storylets.find(s => s.id === id));
+      engine.setSeed(11);
+
+      const eligible = engine.getAvailableStorylets().map(s => s.id);
+      const state = engine.getRandomState();
+
+      expect(engine.getAvailableStorylets().map(s => s.id)).toEqual(eligible);
+      expect(engine.getRandomState()).toEqual(state);
+      expect(eligible).not.toHaveLength(0);
+      expect((await engine.executeStorylet(eligible[0]!)).success).toBe(true);
+    });
+  });
+
+  describe('Story Variables', () => {
+    it('should evaluate variable triggers against declared defaults and set values', async () => {
+      mockNarrativeStore.storyVariables = [
+        { name: 'met_detective', type: 'boolean', defaultValue: false },
+        { name: 'suspicion', type: 'number', defaultValue: 0 }
+      ];
+      mockGameStore.variables = { suspicion: 4 };
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('variable-storylet', { triggers: [
+        { id: 'flag', type: 'variable', condition: 'met_detective', operator: '=', variableValue: false, description: 'Not met yet' },
+        { id: 'count', type: 'variable', condition: 'suspicion', operator: '>=', value: 3, description: 'Suspicious' }
+      ] }));
+
+      const result = await engine.executeStorylet('variable-storylet');
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should apply set_variable effects in order', async () => {
+      mockNarrativeStore.storyVariables = [
+        { name: 'suspicion', type: 'number', defaultValue: 1 },
+        { name: 'met_detective', type: 'boolean', defaultValue: false }
+      ];
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('variable-storylet', { effects: [
+        { id: 'add', type: 'set_variable', target: 'suspicion', operator: '+', value: 2, description: 'Raise suspicion' },
+        { id: 'double', type: 'set_variable', target: 'suspicion', operator: '*', value: 2, description: 'Double suspicion' },
+        { id: 'flag', type: 'set_variable', target: 'met_detective', operator: '=', variableValue: true, description: 'Met detective' }
+      ] }));
+
+      const result = await engine.executeStorylet('variable-storylet');
+
+      expect(result.success).toBe(true);
+      expect(mockGameStore.setVariable).toHaveBeenCalledWith('suspicion', 3);
+      expect(mockGameStore.setVariable).toHaveBeenCalledWith('suspicion', 6);
+      expect(result.stateChanges.variables).toEqual({ suspicion: 6, met_detective: true });
+    });
+  });
+
+  describe('Calendar', () => {
+    const calendarStorylet = (triggers: StoryletTrigger[], effects: StoryletEffect[] = []): Storylet =>
+      buildStorylet('calendar-storylet', { triggers, effects });
+
+    it('should evaluate day, weekday and time-of-day triggers', async () => {
+      // Day 6 (Saturday) at 19:00 with the default calendar starting Monday 08:00
+      mockGameStore.gameTime = 5 * 1440 + 11 * 60;
+      mockNarrativeStore.getStorylet.mockReturnValue(calendarStorylet([
+        { id: 'day', type: 'day', condition: 'day', operator: '>=', value: 3, description: 'Day 3 or later' },
+        { id: 'weekend', type: 'weekday', condition: 'Saturday, Sunday', description: 'Weekends only' },
+        { id: 'evening', type: 'time_of_day', condition: 'evening', description: 'Evenings' },
+        { id: 'window', type: 'time_of_day', condition: '18:30-20:00', description: 'Before eight' }
+      ]));
+
+      expect((await engine.executeStorylet('calendar-storylet')).success).toBe(true);
+
+      mockGameStore.gameTime = 4 * 1440 + 11 * 60; // Friday
+      expect((await engine.executeStorylet('calendar-storylet')).success).toBe(false);
+    });
+
+    it('should advance time to the next start of a period', async () => {
+      mockGameStore.gameTime = 14 * 60; // Day 1, 22:00
+      mockNarrativeStore.getStorylet.mockReturnValue(calendarStorylet([], [
+        { id: 'sleep', type: 'time_advance', target: 'period:morning', value: 0, description: 'Sleep until morning' }
+      ]));
+
+      const result = await engine.executeStorylet('calendar-storylet');
+
+      expect(mockGameStore.advanceTime).toHaveBeenCalledWith(8 * 60);
+      expect(result.stateChanges.gameTime).toBe(8 * 60);
+    });
+  });
+
+  describe('Repeat Policies', () => {
+    const repeatStorylet = (id: string, repeat?: Storylet['repeat']): Storylet => buildStorylet(id, { repeat });
+
+    it('should record a play when a storylet is entered', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(repeatStorylet('market'));
+
+      await engine.executeStorylet('market');
+
+      expect(mockGameStore.recordStoryletPlay).toHaveBeenCalledWith('market');
+    });
+
+    it('should refuse storylets that have used up their plays or are cooling down', async () => {
+      mockGameStore.gameTime = 100;
+      mockGameStore.storyletPlays = {
+        once: { count: 1, lastPlayedAt: 0 },
+        limited: { count: 2, lastPlayedAt: 0 },
+        cooling: { count: 1, lastPlayedAt: 60 },
+        ready: { count: 1, lastPlayedAt: 30 },
+        free: { count: 5, lastPlayedAt: 90 }
+      };
+      mockNarrativeStore.storylets = [
+        repeatStorylet('once', { mode: 'once' }),
+        repeatStorylet('limited', { mode: 'limited', maxPlays: 2 }),
+        repeatStorylet('cooling', { mode: 'cooldown', cooldownMinutes: 60 }),
+        repeatStorylet('ready', { mode: 'cooldown', cooldownMinutes: 60 }),
+        repeatStorylet('free')
+      ];
+
+      expect(engine.getAvailableStorylets().map(s => s.id).sort()).toEqual(['free', 'ready']);
+
+      mockNarrativeStore.getStorylet.mockReturnValue(mockNarrativeStore.storylets[2]);
+      const result = await engine.executeStorylet('cooling');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('Storylet is on cooldown for 20 more minute(s)');
+      expect(mockGameStore.recordStoryletPlay).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Unlocks', () => {
+    it('should keep locked storylets out until an unlock effect opens them', async () => {
+      const vault = buildStorylet('vault', { startsLocked: true });
+      const key = buildStorylet('key', { effects: [{ id: 'open-vault', type: 'storylet_unlock', target: 'vault', description: '' }] });
+      mockNarrativeStore.storylets = [vault, key];
+      mockNarrativeStore.getStorylet.mockImplementation((id: string) => mockNarrativeStore.storylets.find(s => s.id === id));
+
+      expect(engine.getAvailableStorylets().map(s => s.id)).toEqual(['key']);
+      expect((await engine.executeStorylet('vault')).errors).toContain('Storylet is locked');
+
+      const result = await engine.executeStorylet('key');
+      expect(result.stateChanges.unlocks).toEqual({ storylets: { vault: true }, choices: {} });
+      expect(mockGameStore.unlocks.storylets).toEqual({ vault: true });
+      expect(engine.getAvailableStorylets().map(s => s.id).sort()).toEqual(['key', 'vault']);
+    });
+
+    it('should hide choices closed by a storylet_lock effect', async () => {
+      mockGameStore.unlocks = { storylets: {}, choices: { bribe: false, secret: true } };
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('guard', {
+        choices: [
+          { id: 'bribe', text: 'Bribe the guard', effects: [] },
+          { id: 'secret', text: 'Use the password', effects: [], unlocked: false },
+          { id: 'leave', text: 'Leave', effects: [] }
+        ]
+      }));
+
+      const result = await engine.executeStorylet('guard');
+
+      expect(result.availableChoices.map(choice => choice.id)).toEqual(['secret', 'leave']);
+    });
+  });
+
+  describe('Pages', () => {
+    const sceneStorylet: Storylet = {
+      id: 'interview',
+      title: 'Interview',
+      description: 'A multi-page scene',
+      content: 'The witness sits down.',
+      beats: [
+        {
+          id: 'question',
+          content: 'What do you ask?',
+          effects: [{ id: 'tired', type: 'resource', target: 'energy', value: -5, operator: '+', description: '' }],
+          choices: [
+            { id: 'press', text: 'Press harder', effects: [{ id: 'pressed', type: 'set_variable', target: 'pressed', variableValue: true, operator: '=', description: '' }], nextBeatId: 'answer' },
+            { id: 'wait', text: 'Wait', effects: [] }
+          ]
+        },
+        { id: 'answer', content: 'She finally talks.', effects: [] }
+      ],
+      triggers: [],
+      choices: [{ id: 'leave', text: 'Leave', effects: [] }],
+      effects: [],
+      status: 'dev',
+      tags: [],
+      priority: 1,
+      estimatedPlayTime: 1
+    };
+
+    beforeEach(() => {
+      mockNarrativeStore.storyVariables = [{ name: 'pressed', type: 'boolean', defaultValue: false }];
+    });
+
+    it('should hold back the storylet choices until the last page', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(sceneStorylet);
+
+      const entered = await engine.executeStorylet('interview');
+      expect(entered.scene).toEqual({ complete: false });
+      expect(entered.availableChoices).toEqual([]);
+
+      const question = await engine.continueScene();
+      expect(question.scene).toEqual({ beatId: 'question', complete: false });
+      expect(mockGameStore.setResource).toHaveBeenCalledWith('energy', 95);
+
+      const answer = await engine.continueScene('press');
+      expect(answer.scene).toEqual({ beatId: 'answer', complete: true });
+      expect(answer.stateChanges.variables).toEqual({ pressed: true });
+      expect(answer.availableChoices.map(choice => choice.id)).toEqual(['leave']);
+      expect((await engine.executeChoice('leave')).success).toBe(true);
+    });
+
+    it('should require one of the page choices and stop at the end of the scene', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(sceneStorylet);
+      await engine.executeStorylet('interview');
+      await engine.continueScene();
+
+      const missing = await engine.continueScene();
+      expect(missing.success).toBe(false);
+      expect(missing.errors).toContain('Could not continue the scene: This page needs a choice to continue');
+
+      await engine.continueScene('wait');
+      const ended = await engine.continueScene();
+      expect(ended.errors).toContain('Could not continue the scene: The scene has no more pages');
+      expect(engine.getCurrentExecution()?.scene).toEqual({ beatId: 'answer', complete: true });
+    });
+
+    it('should resume a saved page without reapplying its effects', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(sceneStorylet);
+      await engine.executeStorylet('interview');
+      await engine.continueScene();
+      const saved = engine.getExecutionState();
+      expect(saved).toEqual({ storyletId: 'interview', scene: { beatId: 'question', complete: false } });
+
+      engine.cancelCurrentExecution();
+      vi.clearAllMocks();
+      const resumed = engine.resumeExecution(saved!.storyletId, saved!.scene);
+
+      expect(resumed?.scene).toEqual({ beatId: 'question', complete: false });
+      expect(mockGameStore.setResource).not.toHaveBeenCalled();
+      expect(mockGameStore.recordStoryletPlay).not.toHaveBeenCalled();
+      expect((await engine.continueScene('press')).scene).toEqual({ beatId: 'answer', complete: true });
+
+      expect(engine.resumeExecution('interview', { beatId: 'removed', complete: false })?.scene).toEqual({ complete: false });
+      mockNarrativeStore.getStorylet.mockReturnValue(undefined);
+      expect(engine.resumeExecution('missing')).toBeUndefined();
+    });
+  });
+
+  describe('Arc progress', () => {
+    const arc = (id: string, overrides: Partial<StoryArc> = {}): StoryArc => ({
+      id,
+      name: id,
+      description: '',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: '2024-01-01T00:00:00.000Z',
+      ...overrides
+    });
+
+    const arcStorylet = (id: string, storyArc: string, choices: StoryletChoice[] = []): Storylet =>
+      buildStorylet(id, { storyArc, choices });
+
+    beforeEach(() => {
+      mockNarrativeStore.getStorylet.mockImplementation((id: string) => mockNarrativeStore.storylets.find(s => s.id === id));
+    });
+
+    it('should not start an arc until its prerequisite arcs are complete', async () => {
+      mockNarrativeStore.arcs = [arc('prologue'), arc('finale', { name: 'Finale', prerequisites: ['prologue'] })];
+      mockNarrativeStore.storylets = [arcStorylet('finale-start', 'finale')];
+
+      const result = await engine.executeStorylet('finale-start');
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toContain('Arc "Finale" requires completing: prologue');
+      expect(engine.getAvailableStorylets()).toEqual([]);
+
+      mockGameStore.arcProgress = {
+        prologue: { arcId: 'prologue', completedStorylets: [], discoveredClues: [], characterRelationships: {}, isCompleted: true, startedAt: '' }
+      };
+      expect((await engine.executeStorylet('finale-start')).success).toBe(true);
+    });
+
+    it('should track the arc through its storylets and complete it at an end storylet', async () => {
+      mockNarrativeStore.arcs = [arc('case')];
+      mockNarrativeStore.storylets = [
+        arcStorylet('case-start', 'case', [{
+          id: 'search',
+          text: 'Search the room',
+          effects: [{ id: 'find-note', type: 'clue_discovery', target: 'note', description: '' }],
+          nextStoryletId: 'case-end'
+        }]),
+        arcStorylet('case-end', 'case')
+      ];
+
+      mockClueStore.clues = [{ id: 'note' } as Clue];
+
+      await engine.executeStorylet('case-start');
+      expect(mockGameStore.arcProgress.case).toMatchObject({ currentStoryletId: 'case-start', isCompleted: false });
+      expect(mockNarrativeStore.setCurrentArc).toHaveBeenCalledWith('case');
+
+      await engine.executeChoice('search');
+
+      expect(mockGameStore.arcProgress.case).toMatchObject({
+        currentStoryletId: 'case-end',
+        completedStorylets: ['case-start', 'case-end'],
+        discoveredClues: ['note'],
+        isCompleted: true
+      });
+      expect(mockGameStore.arcProgress.case.completedAt).toBeDefined();
+    });
+
+    it('should advance an arc by the arc_progress value and complete it only on arc_complete', async () => {
+      mockNarrativeStore.arcs = [arc('case')];
+      mockNarrativeStore.storylets = [
+        buildStorylet('lead', {
+          effects: [{ id: 'advance', type: 'arc_progress', target: 'case', value: 2, description: '' }],
+          choices: [{ id: 'close', text: 'Close the case', effects: [{ id: 'solve', type: 'arc_complete', target: 'case', description: '' }] }]
+        })
+      ];
+
+      await engine.executeStorylet('lead');
+      expect(mockGameStore.arcProgress.case).toMatchObject({ steps: 2, isCompleted: false });
+
+      await engine.executeChoice('close');
+      expect(mockGameStore.arcProgress.case).toMatchObject({ steps: 2, isCompleted: true });
+    });
+  });
+
+  describe('Items', () => {
+    it('should grant items and open has_item choices', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue({
+        id: 'locked-door',
+        title: 'Locked Door',
+        description: 'Item test',
+        content: 'A brass lock',
+        triggers: [],
+        choices: [
+          { id: 'unlock', text: 'Use the key', effects: [{ id: 'use-key', type: 'item_remove', target: 'key', description: '' }], requirements: [{ id: 'needs-key', type: 'has_item', condition: 'key', description: 'Has the key' }] },
+          { id: 'search', text: 'Search the mat', effects: [{ id: 'find-key', type: 'item_grant', target: 'key', value: 2, description: '' }] }
+        ],
+        effects: [],
+        status: 'live',
+        tags: [],
+        priority: 1,
+        estimatedPlayTime: 1
+      } as Storylet);
+
+      expect((await engine.executeStorylet('locked-door')).availableChoices.map(choice => choice.id)).toEqual(['search']);
+
+      const searched = await engine.executeChoice('search');
+      expect(searched.stateChanges.inventory).toEqual({ key: 1 });
+      expect(mockGameStore.inventory).toEqual({ key: 1 });
+
+      expect((await engine.executeStorylet('locked-door')).availableChoices.map(choice => choice.id)).toEqual(['unlock', 'search']);
+      await engine.executeChoice('unlock');
+      expect(mockGameStore.inventory).toEqual({});
+    });
+  });
+
+  describe('Scheduled events', () => {
+    beforeEach(() => {
+      mockGameStore.advanceTime.mockImplementation((minutes: number) => {
+        mockGameStore.gameTime += minutes;
+      });
+      mockGameStore.setResource.mockImplementation((resource: string, value: number) => {
+        mockGameStore.resources = { ...mockGameStore.resources, [resource]: value };
+      });
+      mockNarrativeStore.getStorylet.mockImplementation((id: string) => mockNarrativeStore.storylets.find(s => s.id === id));
+    });
+
+    afterEach(() => {
+      mockGameStore.advanceTime.mockReset();
+      mockGameStore.setResource.mockReset();
+    });
+
+    it('should deliver every event a time jump passes, earliest first', async () => {
+      mockNarrativeStore.storylets = [
+        buildStorylet('landlord', {
+          effects: [
+            { id: 'letter', type: 'schedule_event', target: 'letter', value: 180, description: '' },
+            { id: 'rent', type: 'schedule_event', target: '', value: 60, scheduledEffects: [{ id: 'pay', type: 'resource', target: 'money', value: -50, description: '' }], description: '' }
+          ]
+        }),
+        buildStorylet('letter')
+      ];
+      const delivered = vi.fn();
+      const unsubscribe = engine.subscribe('scheduledEventDelivered', delivered);
+
+      const entered = await engine.executeStorylet('landlord');
+      expect(entered.stateChanges.scheduledEvents).toHaveLength(2);
+      expect(mockGameStore.scheduledEvents.map(event => event.dueAt)).toEqual([180, 60]);
+
+      engine.cancelCurrentExecution();
+      const events = await engine.advanceTime(240);
+      unsubscribe();
+
+      expect(events.map(event => event.sourceEffectId)).toEqual(['rent', 'letter']);
+      expect(delivered).toHaveBeenCalledTimes(2);
+      expect(mockGameStore.resources.money).toBe(150);
+      expect(mockGameStore.scheduledEvents).toEqual([]);
+      expect(engine.getCurrentExecution()?.storylet.id).toBe('letter');
+    });
+
+    it('should play a due storylet after a choice that leads nowhere', async () => {
+      mockNarrativeStore.storylets = [
+        buildStorylet('wait', {
+          choices: [{
+            id: 'sleep',
+            text: 'Sleep on it',
+            effects: [
+              { id: 'dream', type: 'schedule_event', target: 'dream', value: 30, description: '' },
+              { id: 'night', type: 'time_advance', target: 'time', value: 60, description: '' }
+            ]
+          }]
+        }),
+        buildStorylet('dream')
+      ];
+
+      await engine.executeStorylet('wait');
+      const result = await engine.executeChoice('sleep');
+
+      expect(result.nextStoryletId).toBe('dream');
+      expect(result.deliveredEvents?.map(event => event.storyletId)).toEqual(['dream']);
+      expect(engine.getCurrentExecution()?.storylet.id).toBe('dream');
+    });
+  });
+
+  describe('Events', () => {
+    const eventStorylet: Storylet = {
+      id: 'event-storylet',
+      title: 'Event Test',
+      description: 'Test engine events',
+      content: 'Something happens',
+      triggers: [],
+      choices: [
+        {
+          id: 'event-choice',
+          text: 'Look closer',
+          effects: [
+            { id: 'find-clue', type: 'clue_discovery', target: 'muddy-boots', value: 1, operator: '=', description: 'Find boots' }
+          ],
+          unlocked: true
+        }
+      ],
+      effects: [
+        { id: 'tire', type: 'resource', target: 'energy', value: -5, operator: '+', description: 'Lose energy' }
+      ],
+      status: 'dev',
+      tags: [],
+      priority: 1,
+      estimatedPlayTime: 1
+    };
+
+    it('should notify subscribers of storylet, effect, clue and choice events', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(eventStorylet);
+      mockClueStore.clues = [{ id: 'muddy-boots' } as Clue];
+      const entered = vi.fn();
+      const effectApplied = vi.fn();
+      const clueDiscovered = vi.fn();
+      const choiceExecuted = vi.fn();
+      const unsubscribers = [
+        engine.subscribe('storyletEntered', entered),
+        engine.subscribe('effectApplied', effectApplied),
+        engine.subscribe('clueDiscovered', clueDiscovered),
+        engine.subscribe('choiceExecuted', choiceExecuted)
+      ];
+
+      const result = await engine.executeStorylet('event-storylet');
+      const choiceResult = await engine.executeChoice('event-choice');
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+
+      expect(entered).toHaveBeenCalledWith(result);
+      expect(effectApplied).toHaveBeenCalledTimes(2);
+      expect(effectApplied).toHaveBeenCalledWith({ effect: eventStorylet.effects[0], result });
+      expect(clueDiscovered).toHaveBeenCalledWith({ clueId: 'muddy-boots', result: choiceResult });
+      expect(choiceExecuted).toHaveBeenCalledWith(choiceResult);
+    });
+
+    it('should emit trigger failures and errors, and stop after unsubscribe', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue({
+        ...eventStorylet,
+        triggers: [{ id: 'rich', type: 'resource', condition: 'money', operator: '>', value: 1000, description: 'Rich' }]
+      });
+      const triggerFailed = vi.fn();
+      const executionError = vi.fn();
+      engine.subscribe('triggerFailed', triggerFailed);
+      const unsubscribeErrors = engine.subscribe('executionError', executionError);
+
+      const failed = await engine.executeStorylet('event-storylet');
+      const noExecution = await engine.executeChoice('event-choice');
+      unsubscribeErrors();
+      await engine.executeChoice('event-choice');
+      engine.unsubscribe('triggerFailed', triggerFailed);
+      await engine.executeStorylet('event-storylet');
+
+      expect(triggerFailed).toHaveBeenCalledTimes(1);
+      expect(triggerFailed).toHaveBeenCalledWith(failed);
+      expect(executionError).toHaveBeenCalledTimes(1);
+      expect(executionError).toHaveBeenCalledWith(noExecution);
+    });
+
+    it('should keep executing when a listener throws', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(eventStorylet);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      const unsubscribe = engine.subscribe('storyletEntered', () => {
+        throw new Error('listener broke');
+      });
+
+      const result = await engine.executeStorylet('event-storylet');
+      unsubscribe();
+
+      expect(result.success).toBe(true);
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
   describe('Effect Application', () => {
     it('should apply resource effects correctly', async () => {
       const mockStorylet: Storylet = {
@@ -301,8 +1148,8 @@ describe('StoryletExecutionEngine', () => {
 
       expect(result.success).toBe(true);
       expect(result.appliedEffects).toHaveLength(2);
-      expect(mockGameStore.updateResource).toHaveBeenCalledWith('energy', -20);
-      expect(mockGameStore.updateResource).toHaveBeenCalledWith('money', 50);
+      expect(mockGameStore.setResource).toHaveBeenCalledWith('energy', 80);
+      expect(mockGameStore.setResource).toHaveBeenCalledWith('money', 250);
     });
 
     it('should apply time advance effects', async () => {
@@ -379,6 +1226,7 @@ describe('StoryletExecutionEngine', () => {
       };
 
       mockNarrativeStore.getStorylet.mockReturnValue(mockStorylet);
+      mockCharacterStore.characters = [{ id: 'character-1', name: 'Marcus', relationships: [] } as unknown as Character];
 
       const result = await engine.executeStorylet('multiple-effects');
 
@@ -387,6 +1235,31 @@ describe('StoryletExecutionEngine', () => {
       expect(result.stateChanges.resources?.energy).toBe(-10);
       expect(result.stateChanges.gameTime).toBe(15);
       expect(result.stateChanges.relationships?.['character-1']).toBe(5);
+      expect(mockCharacterStore.characters[0].relationships).toEqual([
+        expect.objectContaining({ characterId: 'player', value: 55 })
+      ]);
+    });
+
+    it('should accept and reject the same effects as the effect processor', async () => {
+      mockNarrativeStore.storyVariables = [{ name: 'suspicion', type: 'number', defaultValue: 0 }];
+      mockNarrativeStore.storylets = [buildStorylet('letter')];
+      const cases: [StoryletEffect, boolean][] = [
+        [{ id: 'raise', type: 'set_variable', target: 'suspicion', operator: '+', value: 1, description: '' }, true],
+        [{ id: 'undeclared', type: 'set_variable', target: 'met_detective', operator: '=', variableValue: true, description: '' }, false],
+        [{ id: 'mistyped', type: 'set_variable', target: 'suspicion', operator: '=', variableValue: 'high', description: '' }, false],
+        [{ id: 'letter', type: 'schedule_event', target: 'letter', value: 60, description: '' }, true],
+        [{ id: 'ghost-letter', type: 'schedule_event', target: 'ghost', value: 60, description: '' }, false],
+        [{ id: 'rent', type: 'schedule_event', target: '', value: 60, scheduledEffects: [{ id: 'pay', type: 'resource', target: 'money', value: -5, description: '' }], description: '' }, true],
+        [{ id: 'ghost-unlock', type: 'storylet_unlock', target: 'ghost', description: '' }, false]
+      ];
+
+      for (const [effect, applies] of cases) {
+        mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet(`host-${effect.id}`, { effects: [effect] }));
+
+        expect(validateEffect(effect).valid, effect.id).toBe(applies);
+        expect((await processStoryletEffect(effect)).success, effect.id).toBe(applies);
+        expect((await engine.executeStorylet(`host-${effect.id}`)).success, effect.id).toBe(applies);
+      }
     });
   });
 
@@ -434,7 +1307,7 @@ describe('StoryletExecutionEngine', () => {
       expect(choiceResult.success).toBe(true);
       expect(choiceResult.choice.text).toBe('Test Choice');
       expect(choiceResult.appliedEffects).toHaveLength(1);
-      expect(mockGameStore.updateResource).toHaveBeenCalledWith('energy', -5);
+      expect(mockGameStore.setResource).toHaveBeenCalledWith('energy', 95);
       expect(mockNarrativeStore.markStoryletCompleted).toHaveBeenCalledWith('choice-test');
     });
 
@@ -478,6 +1351,137 @@ describe('StoryletExecutionEngine', () => {
       expect(choiceResult.success).toBe(false);
       expect(choiceResult.errors).toContain('Choice with ID "non-existent-choice" not found or not available');
     });
+    it('should roll a weighted outcome and apply its effects and next storylet', async () => {
+      const mockStorylet: Storylet = {
+        id: 'outcome-test',
+        title: 'Outcome Test',
+        description: 'Test weighted outcomes',
+        content: 'Pick the lock',
+        triggers: [],
+        choices: [
+          {
+            id: 'pick-lock',
+            text: 'Pick the lock',
+            effects: [{ id: 'tired', type: 'resource', target: 'energy', value: -5, operator: '+', description: '' }],
+            nextStoryletId: 'choice-default',
+            outcomes: [
+              // Money 200 at 1 weight per point outweighs the failure's base weight
+              {
+                id: 'success',
+                label: 'Success',
+                weight: 0,
+                modifiers: [{ id: 'money-bonus', source: 'resource', target: 'money', perPoint: 1 }],
+                effects: [{ id: 'learned', type: 'resource', target: 'knowledge', value: 10, operator: '+', description: '' }],
+                nextStoryletId: 'inside'
+              },
+              { id: 'failure', label: 'Failure', weight: 0, effects: [] }
+            ]
+          }
+        ],
+        effects: [],
+        status: 'dev',
+        tags: [],
+        priority: 1,
+        estimatedPlayTime: 2
+      };
+
+      mockNarrativeStore.getStorylet.mockImplementation((id: string) => id === 'outcome-test' ? mockStorylet : undefined);
+
+      await engine.executeStorylet('outcome-test');
+      const choiceResult = await engine.executeChoice('pick-lock');
+
+      expect(choiceResult.success).toBe(true);
+      expect(choiceResult.outcome?.outcome.id).toBe('success');
+      expect(choiceResult.outcome?.chance).toBe(1);
+      expect(choiceResult.appliedEffects.map(effect => effect.id)).toEqual(['tired', 'learned']);
+      expect(mockGameStore.setResource).toHaveBeenCalledWith('knowledge', 10);
+      expect(choiceResult.nextStoryletId).toBe('inside');
+    });
+
+    it('should narrow outcomes by the choice skill check and gate choices on skill requirements', async () => {
+      mockCharacterStore.characters = [
+        { id: 'detective', name: 'Detective', attributes: [{ id: 'lockpicking', name: 'Lockpicking', value: 3 }], traits: [], relationships: [] } as unknown as Character
+      ];
+      const lockpicking = { characterId: 'detective', stat: 'lockpicking', statType: 'attribute' as const };
+
+      const mockStorylet: Storylet = {
+        id: 'skill-test',
+        title: 'Skill Test',
+        description: 'Test skill checks',
+        content: 'A locked door',
+        triggers: [],
+        choices: [
+          {
+            id: 'pick-lock',
+            text: 'Pick the lock',
+            effects: [],
+            skillCheck: { ...lockpicking, difficulty: 3 },
+            outcomes: [
+              { id: 'opened', label: 'Opened', weight: 1, effects: [], skillCheckResult: 'success' },
+              { id: 'jammed', label: 'Jammed', weight: 100, effects: [], skillCheckResult: 'failure' }
+            ]
+          },
+          {
+            id: 'master-lock',
+            text: 'Open the master lock',
+            effects: [],
+            requirements: [{ id: 'needs-skill', type: 'skill_check', condition: 'lockpicking', skillCheck: { ...lockpicking, difficulty: 5 }, description: '' }]
+          }
+        ],
+        effects: [],
+        status: 'dev',
+        tags: [],
+        priority: 1,
+        estimatedPlayTime: 2
+      };
+
+      mockNarrativeStore.getStorylet.mockReturnValue(mockStorylet);
+
+      const executeResult = await engine.executeStorylet('skill-test');
+      expect(executeResult.availableChoices.map(choice => choice.id)).toEqual(['pick-lock']);
+
+      const choiceResult = await engine.executeChoice('pick-lock');
+      expect(choiceResult.skillCheck).toMatchObject({ total: 3, success: true, chance: 1 });
+      expect(choiceResult.outcome?.outcome.id).toBe('opened');
+      expect(choiceResult.outcome?.chance).toBe(1);
+    });
+
+    it('should execute a choice offered on a skill check roll without rolling again', async () => {
+      mockCharacterStore.characters = [
+        { id: 'detective', name: 'Detective', attributes: [{ id: 'strength', name: 'Strength', value: 3 }], traits: [], relationships: [] } as unknown as Character
+      ];
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('dice-test', {
+        choices: [{
+          id: 'force-door',
+          text: 'Force the door',
+          effects: [],
+          requirements: [{
+            id: 'strong-enough',
+            type: 'skill_check',
+            condition: 'strength',
+            skillCheck: { characterId: 'detective', stat: 'strength', statType: 'attribute', dice: { count: 1, sides: 6 }, difficulty: 7 },
+            description: 'Strength 3 + 1d6 vs 7'
+          }]
+        }]
+      }));
+
+      const offered: boolean[] = [];
+      for (let seed = 1; seed <= 20; seed++) {
+        engine.setSeed(seed);
+        const result = await engine.executeStorylet('dice-test');
+        offered.push(result.availableChoices.length > 0);
+
+        if (result.availableChoices.length > 0) {
+          const choiceResult = await engine.executeChoice('force-door');
+          expect(choiceResult.errors).toEqual([]);
+          expect(choiceResult.success).toBe(true);
+        }
+      }
+
+      // Both results come up, so the check really is rolled
+      expect(offered).toContain(true);
+      expect(offered).toContain(false);
+    });
   });
 
   describe('Choice Filtering', () => {
@@ -535,9 +1539,8 @@ describe('StoryletExecutionEngine', () => {
     });
 
     it('should handle probability-based choices', async () => {
-      // Mock Math.random to return a predictable value
-      const originalRandom = Math.random;
-      Math.random = vi.fn(() => 0.3); // 30%
+      // Mock the engine's random source to return a predictable value
+      const randomSpy = vi.spyOn(SeededRandom.prototype, 'next').mockReturnValue(0.3); // 30%
 
       const mockStorylet: Storylet = {
         id: 'probability-test',
@@ -577,8 +1580,40 @@ describe('StoryletExecutionEngine', () => {
       expect(result.availableChoices).toHaveLength(1);
       expect(result.availableChoices[0].text).toBe('High Probability (50%)');
 
-      // Restore original Math.random
-      Math.random = originalRandom;
+      // Restore the random source
+      randomSpy.mockRestore();
+    });
+
+    it('should offer the same choices as the shared condition evaluator', async () => {
+      mockNarrativeStore.storyVariables = [{ name: 'met_detective', type: 'boolean', defaultValue: false }];
+      mockGameStore.gameTime = 90;
+      const requirement = (id: string, overrides: Partial<StoryletTrigger>): StoryletTrigger => ({ id, type: 'variable', condition: 'met_detective', description: '', ...overrides });
+      const storylet = buildStorylet('requirements', {
+        choices: [
+          { id: 'stranger', text: 'Introduce yourself', effects: [], requirements: [requirement('new', { operator: '=', variableValue: false })] },
+          { id: 'old-friend', text: 'Greet the detective', effects: [], requirements: [requirement('met', { operator: '=', variableValue: true })] },
+          { id: 'early', text: 'Arrive early', effects: [], requirements: [requirement('early', { type: 'time', condition: 'gameTime', operator: '<', value: 60 })] },
+          { id: 'late', text: 'Arrive late', effects: [], requirements: [requirement('late', { type: 'time', condition: 'gameTime', operator: '>=', value: 60 })] }
+        ]
+      });
+      mockNarrativeStore.getStorylet.mockReturnValue(storylet);
+
+      const result = await engine.executeStorylet('requirements');
+      // The sandbox checks its own copy of the same state
+      const sandboxState = {
+        resources: {},
+        relationships: {},
+        discoveredClues: [],
+        completedStorylets: [],
+        gameTime: 90,
+        variables: { met_detective: false },
+        inventory: {},
+        calendar: DEFAULT_CALENDAR
+      };
+      const offered = storylet.choices.filter(choice => (choice.requirements ?? []).every(trigger => evaluateTrigger(trigger, sandboxState, () => true)));
+
+      expect(result.availableChoices.map(choice => choice.id)).toEqual(['stranger', 'late']);
+      expect(offered.map(choice => choice.id)).toEqual(['stranger', 'late']);
     });
   });
 
@@ -658,7 +1693,7 @@ describe('StoryletExecutionEngine', () => {
           {
             id: 'bad-effect',
             type: 'resource',
-            target: 'nonexistent',
+            target: 'energy',
             value: 10,
             operator: '+',
             description: 'Bad effect'
@@ -671,14 +1706,148 @@ describe('StoryletExecutionEngine', () => {
       };
 
       mockNarrativeStore.getStorylet.mockReturnValue(mockStorylet);
-      mockGameStore.updateResource.mockImplementation(() => {
+      mockGameStore.setResource.mockImplementation(() => {
         throw new Error('Invalid resource');
       });
 
       const result = await engine.executeStorylet('effect-error-test');
 
-      expect(result.success).toBe(true); // Execution still succeeds
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
       expect(result.errors).toContain('Failed to apply effect bad-effect: Invalid resource');
+      mockGameStore.setResource.mockReset();
+    });
+
+    it('should reject effects on resources missing from the registry', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue({
+        id: 'unknown-resource-test',
+        title: 'Unknown Resource Test',
+        description: 'Test registry checks',
+        content: 'Spend some mana',
+        triggers: [],
+        choices: [],
+        effects: [
+          { id: 'mana', type: 'resource', target: 'mana', value: 5, operator: '-', description: 'Spend mana' }
+        ],
+        status: 'dev',
+        tags: [],
+        priority: 1,
+        estimatedPlayTime: 1
+      });
+
+      const result = await engine.executeStorylet('unknown-resource-test');
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('Failed to apply effect mana: Unknown resource: mana');
+      expect(mockGameStore.setResource).not.toHaveBeenCalled();
+    });
+
+    it('should roll back earlier effects when a later effect fails', async () => {
+      const mockStorylet: Storylet = {
+        id: 'rollback-test',
+        title: 'Rollback Test',
+        description: 'Test atomic effects',
+        content: 'The last effect will fail',
+        triggers: [],
+        choices: [],
+        effects: [
+          { id: 'spend', type: 'resource', target: 'energy', value: 30, operator: '=', description: 'Set energy' },
+          { id: 'wait', type: 'time_advance', target: 'time', value: 60, description: 'Wait an hour' },
+          { id: 'flag', type: 'set_variable', target: 'met_detective', operator: '=', variableValue: true, description: 'Set flag' },
+          { id: 'broken', type: 'set_variable', target: 'met_detective', operator: '+', value: 1, description: 'Invalid math' }
+        ],
+        status: 'dev',
+        tags: [],
+        priority: 1,
+        estimatedPlayTime: 1
+      };
+
+      mockNarrativeStore.getStorylet.mockReturnValue(mockStorylet);
+      mockNarrativeStore.storyVariables = [{ name: 'met_detective', type: 'boolean', defaultValue: false }];
+      mockGameStore.setResource.mockImplementation((resource: keyof typeof mockGameStore.resources, value: number) => {
+        mockGameStore.resources = { ...mockGameStore.resources, [resource]: value };
+      });
+      mockGameStore.advanceTime.mockImplementation((minutes: number) => {
+        mockGameStore.gameTime += minutes;
+      });
+      mockGameStore.setVariable.mockImplementation((name: string, value: StoryVariableValue) => {
+        mockGameStore.variables = { ...mockGameStore.variables, [name]: value };
+      });
+
+      const result = await engine.executeStorylet('rollback-test');
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.appliedEffects).toHaveLength(0);
+      expect(result.errors[0]).toContain('Failed to apply effect broken');
+      expect(mockGameStore.resources.energy).toBe(100);
+      expect(mockGameStore.gameTime).toBe(0);
+      expect(mockGameStore.variables).toEqual({});
+      expect(engine.getCurrentExecution()).toBeUndefined();
+
+      mockGameStore.setResource.mockReset();
+      mockGameStore.advanceTime.mockReset();
+      mockGameStore.setVariable.mockReset();
+    });
+
+    it('should undo choice effects when completing the storylet fails', async () => {
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('fragile', {
+        choices: [{
+          id: 'rest',
+          text: 'Rest',
+          effects: [{ id: 'tired', type: 'resource', target: 'energy', value: 30, operator: '=', description: 'Set energy' }]
+        }]
+      }));
+      mockGameStore.setResource.mockImplementation((resource: keyof typeof mockGameStore.resources, value: number) => {
+        mockGameStore.resources = { ...mockGameStore.resources, [resource]: value };
+      });
+      mockNarrativeStore.markStoryletCompleted.mockRejectedValueOnce(new Error('Database closed'));
+
+      await engine.executeStorylet('fragile');
+      const result = await engine.executeChoice('rest');
+
+      expect(result.success).toBe(false);
+      expect(result.rolledBack).toBe(true);
+      expect(result.errors[0]).toContain('Database closed');
+      expect(mockGameStore.resources.energy).toBe(100);
+
+      mockGameStore.setResource.mockReset();
+    });
+
+    it('should save back relationships, discoveries and completions when a choice rolls back', async () => {
+      const detective = { id: 'character-1', name: 'Detective', relationships: [] } as unknown as Character;
+      mockCharacterStore.characters = [detective];
+      mockClueStore.clues = [{ id: 'note' } as Clue];
+      mockPersisted.characters = [detective];
+      mockGameStore.arcProgress = { case: createArcProgress('case', '2024-01-01T00:00:00.000Z') };
+      mockNarrativeStore.getStorylet.mockReturnValue(buildStorylet('interview', {
+        storyArc: 'case',
+        choices: [{
+          id: 'press',
+          text: 'Press him',
+          effects: [
+            { id: 'trust', type: 'relationship', target: 'character-1', value: 10, operator: '+', description: 'Trust' },
+            { id: 'found', type: 'clue_discovery', target: 'note', description: 'Found the note' }
+          ]
+        }]
+      }));
+      mockNarrativeStore.markStoryletCompleted.mockImplementationOnce(async (id: string) => {
+        mockNarrativeStore.completedStorylets = [...mockNarrativeStore.completedStorylets, id];
+        mockPersisted.completedStorylets = mockNarrativeStore.completedStorylets;
+      });
+      // Fails after the effects were saved and the storylet was marked completed
+      mockGameStore.updateArcProgress.mockImplementationOnce(() => {
+        throw new Error('Database closed');
+      });
+
+      await engine.executeStorylet('interview');
+      const result = await engine.executeChoice('press');
+
+      expect(result.rolledBack).toBe(true);
+      expect(mockClueStore.discoverClue).toHaveBeenCalled();
+      expect(mockCharacterStore.addRelationship).toHaveBeenCalled();
+      expect(mockPersisted).toEqual({ characters: [detective], discoveries: [], completedStorylets: [] });
+      expect(mockNarrativeStore.completedStorylets).toEqual([]);
     });
   });
-});
\ No newline at end of file
+});
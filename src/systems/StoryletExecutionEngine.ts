@@ -9,25 +9,44 @@
  * - Integration with game systems
  */
 
-import type { Storylet, StoryletChoice, StoryletEffect, StoryletTrigger } from '../types/storylet';
-import type { Clue } from '../types/clue';
+import type { ScenePosition, ScheduledEvent, SkillCheck, Storylet, StoryletChoice, StoryletChoiceOutcome, StoryletEffect, StoryletPlayRecord, StoryletTrigger, StoryVariableValue, UnlockState } from '../types/storylet';
+import type { Clue, ClueDiscovery } from '../types/clue';
+import type { Character } from '../types/character';
+import type { ArcProgress, StoryArc } from '../types/narrative';
+import type { CalendarConfig } from '../types/calendar';
+import type { Inventory } from '../types/item';
 import { useCoreGameStore } from '../stores/useCoreGameStore';
 import { useNarrativeStore } from '../stores/useNarrativeStore';
+import { useClueStore } from '../stores/useClueStore';
+import { useCharacterStore } from '../stores/useCharacterStore';
+import { evaluateCondition, evaluateTrigger, describeCondition } from '../utils/storyletConditions';
+import { SeededRandom, rollPercent, type RandomState } from '../utils/random';
+import { getDefaultVariableValues } from '../utils/storyVariables';
+import { checkRepeatPolicy } from '../utils/storyletRepeat';
+import { isChoiceUnlocked, isStoryletUnlocked } from '../utils/storyletUnlocks';
+import { advanceScene, getBeat, startScene } from '../utils/storyletBeats';
+import { advanceArc, completeArc, createArcProgress, enterArcStorylet, finishArcStorylet, getMissingArcPrerequisites } from '../utils/arcProgress';
+import { getDueEvents, MAX_EVENT_DELIVERIES, removeScheduledEvent } from '../utils/scheduledEvents';
+import { EFFECT_TYPES, getEffectTargets, getRelationshipMaxValues, mergeEffectDiffs, reduceEffect, type EffectReduction, type EffectRules, type EffectState } from '../utils/effectReducer';
+import { getOutcomeChances, getOutcomeWeights, pickOutcome, type OutcomeWeightContext } from '../utils/choiceOutcomes';
+import { getOutcomesForSkillCheck, rollSkillCheck, type SkillCheckResult } from '../utils/skillChecks';
+import { commitClueDiscovery, commitPlayerRelationship } from '../utils/effectProcessor';
 
 export interface ExecutionContext {
-  resources: {
-    energy: number;
-    social: number;
-    knowledge: number;
-    money: number;
-  };
+  resources: Record<string, number>;
   gameTime: number;
   discoveredClues: string[];
   completedStorylets: string[];
   relationships: Record<string, number>;
   currentStoryArc?: string;
   featureFlags: Record<string, boolean>;
-  variables: Record<string, any>;
+  variables: Record<string, StoryVariableValue>;
+  storyletPlays: Record<string, StoryletPlayRecord>;
+  unlocks: UnlockState;
+  arcProgress: Record<string, ArcProgress>;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  calendar: CalendarConfig;
 }
 
 export interface ExecutionResult {
@@ -36,33 +55,92 @@ export interface ExecutionResult {
   availableChoices: StoryletChoice[];
   appliedEffects: StoryletEffect[];
   nextStoryletId?: string;
+  scene?: ScenePosition; // Page being shown; the storylet's choices stay unavailable until the scene is complete
+  deliveredEvents?: ScheduledEvent[]; // Scheduled events that came due while this ran
   errors: string[];
   warnings: string[];
   executionTime: number;
+  rolledBack?: boolean; // Set when an effect failed and game state was restored
   stateChanges: {
-    resources?: Partial<ExecutionContext['resources']>;
+    resources?: Record<string, number>;
     gameTime?: number;
     discoveredClues?: string[];
     completedStorylets?: string[];
     relationships?: Record<string, number>;
-    variables?: Record<string, any>;
+    variables?: Record<string, StoryVariableValue>;
+    unlocks?: UnlockState;
+    inventory?: Inventory;
+    scheduledEvents?: ScheduledEvent[];
   };
 }
 
+// The outcome rolled for a choice with weighted outcomes
+export interface ChoiceOutcomeRoll {
+  outcome: StoryletChoiceOutcome;
+  chance: number; // 0-1 chance the outcome had once modifiers and any skill check were applied
+  weights: Record<string, number>; // Effective weight of every outcome
+}
+
 export interface ChoiceExecutionResult {
   success: boolean;
   choice: StoryletChoice;
+  skillCheck?: SkillCheckResult;
+  outcome?: ChoiceOutcomeRoll;
   appliedEffects: StoryletEffect[];
   nextStoryletId?: string;
+  deliveredEvents?: ScheduledEvent[];
   stateChanges: ExecutionResult['stateChanges'];
   errors: string[];
   warnings: string[];
+  rolledBack?: boolean;
+}
+
+// Pre-execution copy of mutable game state, restored when an effect fails
+interface GameStateSnapshot {
+  resources: ExecutionContext['resources'];
+  gameTime: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  arcProgress: Record<string, ArcProgress>;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+  characters: Character[];
+  clues: Clue[];
+  discoveries: ClueDiscovery[];
+  completedStorylets: string[];
+}
+
+export interface StoryletEngineEvents {
+  storyletEntered: ExecutionResult;
+  pageTurned: ExecutionResult;
+  choiceExecuted: ChoiceExecutionResult;
+  effectApplied: { effect: StoryletEffect; result: ExecutionResult | ChoiceExecutionResult };
+  clueDiscovered: { clueId: string; result: ExecutionResult | ChoiceExecutionResult };
+  scheduledEventDelivered: ScheduledEvent;
+  triggerFailed: ExecutionResult;
+  executionError: ExecutionResult | ChoiceExecutionResult;
+}
+
+export type StoryletEngineEventName = keyof StoryletEngineEvents;
+
+export type StoryletEngineListener<E extends StoryletEngineEventName> = (payload: StoryletEngineEvents[E]) => void;
+
+export interface StoryletSelectionOptions {
+  statuses?: Storylet['status'][]; // Defaults to live content only
+  storyArc?: string;
+  excludeStoryletIds?: string[];
+  limit?: number;
 }
 
 export class StoryletExecutionEngine {
   private static instance: StoryletExecutionEngine;
   private executionHistory: ExecutionResult[] = [];
   private currentExecution?: ExecutionResult;
+  private random = new SeededRandom();
+  // Random and skill check trigger results until the state next moves on, keyed by where the trigger sits,
+  // so re-checking eligibility (the UI does on every render) neither rerolls nor advances the seeded sequence
+  private stepRolls = new Map<string, boolean>();
+  private listeners: { [E in StoryletEngineEventName]?: Set<StoryletEngineListener<E>> } = {};
 
   private constructor() {}
 
@@ -73,6 +151,14 @@ export class StoryletExecutionEngine {
     return StoryletExecutionEngine.instance;
   }
 
+  /**
+   * A separate engine with its own history, listeners and random sequence, for
+   * tools such as the playthrough simulator that play without the game seeing it
+   */
+  static createDetached(): StoryletExecutionEngine {
+    return new StoryletExecutionEngine();
+  }
+
   /**
    * Execute a storylet by ID with current game context
    */
@@ -82,10 +168,10 @@ export class StoryletExecutionEngine {
     try {
       // Get storylet from narrative store
       const narrativeStore = useNarrativeStore.getState();
-      const storylet = narrativeStore.getStorylet(storyletId);
+      const storedStorylet = narrativeStore.getStorylet(storyletId);
       
-      if (!storylet) {
-        return {
+      if (!storedStorylet) {
+        return this.emitAndReturn('executionError', {
           success: false,
           storylet: {} as Storylet,
           availableChoices: [],
@@ -94,16 +180,18 @@ export class StoryletExecutionEngine {
           warnings: [],
           executionTime: performance.now() - startTime,
           stateChanges: {}
-        };
+        });
       }
 
+      const storylet = this.normalizeStorylet(storedStorylet);
+
       // Build execution context
       const context = this.buildExecutionContext(additionalContext);
       
-      // Evaluate triggers
-      const triggerResults = this.evaluateTriggers(storylet.triggers, context);
+      // Evaluate triggers and condition tree
+      const triggerResults = this.evaluateStoryletConditions(storylet, context);
       if (!triggerResults.allMet) {
-        return {
+        return this.emitAndReturn('triggerFailed', {
           success: false,
           storylet,
           availableChoices: [],
@@ -112,23 +200,88 @@ export class StoryletExecutionEngine {
           warnings: [],
           executionTime: performance.now() - startTime,
           stateChanges: {}
-        };
+        });
+      }
+
+      // Locked storylets stay closed until an unlock effect opens them
+      if (!isStoryletUnlocked(storylet, context.unlocks)) {
+        return this.emitAndReturn('triggerFailed', {
+          success: false,
+          storylet,
+          availableChoices: [],
+          appliedEffects: [],
+          errors: ['Storylet is locked'],
+          warnings: [],
+          executionTime: performance.now() - startTime,
+          stateChanges: {}
+        });
+      }
+
+      // Enforce the storylet's repeat policy
+      const repeatCheck = this.checkRepeatPolicy(storylet, context);
+      if (!repeatCheck.available) {
+        return this.emitAndReturn('triggerFailed', {
+          success: false,
+          storylet,
+          availableChoices: [],
+          appliedEffects: [],
+          errors: [repeatCheck.reason!],
+          warnings: [],
+          executionTime: performance.now() - startTime,
+          stateChanges: {}
+        });
+      }
+
+      // An arc can only be started once its prerequisite arcs are complete
+      const arcCheck = this.checkArcPrerequisites(storylet, context);
+      if (!arcCheck.available) {
+        return this.emitAndReturn('triggerFailed', {
+          success: false,
+          storylet,
+          availableChoices: [],
+          appliedEffects: [],
+          errors: [arcCheck.reason!],
+          warnings: [],
+          executionTime: performance.now() - startTime,
+          stateChanges: {}
+        });
       }
 
       // Apply storylet effects (entry effects)
-      const effectResults = await this.applyEffects(storylet.effects, context);
+      const effectResults = await this.applyEffects(storylet.effects, context, storylet.id);
+      if (effectResults.rolledBack) {
+        return this.emitAndReturn('executionError', {
+          success: false,
+          storylet,
+          availableChoices: [],
+          appliedEffects: [],
+          errors: effectResults.errors,
+          warnings: effectResults.warnings,
+          executionTime: performance.now() - startTime,
+          rolledBack: true,
+          stateChanges: {}
+        });
+      }
+      this.stepRolls.clear();
       
-      // Filter available choices based on requirements
-      const availableChoices = this.filterAvailableChoices(storylet.choices, context);
+      // Deliver effects that came due; scheduled storylets wait until this one is finished
+      const delivery = await this.deliverDueEvents(false);
+      const choiceContext = delivery.delivered.length > 0 ? this.buildExecutionContext() : context;
+
+      // Filter available choices based on requirements; multi-page storylets offer them on the last page
+      const scene = startScene(storylet);
+      const availableChoices = scene.complete ? this.filterAvailableChoices(storylet, choiceContext) : [];
       
       // Build result
       const result: ExecutionResult = {
         success: true,
         storylet,
         availableChoices,
+        scene,
+        deliveredEvents: delivery.delivered,
         appliedEffects: effectResults.appliedEffects,
         errors: effectResults.errors,
-        warnings: effectResults.warnings,
+        warnings: [...effectResults.warnings, ...delivery.warnings],
         executionTime: performance.now() - startTime,
         stateChanges: effectResults.stateChanges
       };
@@ -139,10 +292,15 @@ export class StoryletExecutionEngine {
 
       // Update narrative store with completion
       narrativeStore.setCurrentStorylet(storyletId);
+      useCoreGameStore.getState().recordStoryletPlay(storyletId);
+      this.enterArc(storylet);
+
+      this.emit('storyletEntered', result);
+      this.emitEffectEvents(result);
       
       return result;
     } catch (error) {
-      return {
+      return this.emitAndReturn('executionError', {
         success: false,
         storylet: {} as Storylet,
         availableChoices: [],
@@ -151,7 +309,84 @@ export class StoryletExecutionEngine {
         warnings: [],
         executionTime: performance.now() - startTime,
         stateChanges: {}
+      });
+    }
+  }
+
+  /**
+   * Move to the next page of the current storylet, through one of the page's inline choices if it has any
+   */
+  async continueScene(beatChoiceId?: string): Promise<ExecutionResult> {
+    const startTime = performance.now();
+    const current = this.currentExecution;
+    if (!current || !current.success) {
+      return this.emitAndReturn('executionError', {
+        success: false,
+        storylet: {} as Storylet,
+        availableChoices: [],
+        appliedEffects: [],
+        errors: ['No active storylet execution'],
+        warnings: [],
+        executionTime: performance.now() - startTime,
+        stateChanges: {}
+      });
+    }
+
+    const { storylet } = current;
+
+    try {
+      const { position, effects } = advanceScene(storylet, current.scene || startScene(storylet), beatChoiceId);
+      const context = this.buildExecutionContext();
+
+      const effectResults = await this.applyEffects(effects, context, storylet.id);
+      if (effectResults.rolledBack) {
+        return this.emitAndReturn('executionError', {
+          success: false,
+          storylet,
+          availableChoices: [],
+          appliedEffects: [],
+          errors: effectResults.errors,
+          warnings: effectResults.warnings,
+          executionTime: performance.now() - startTime,
+          rolledBack: true,
+          stateChanges: {}
+        });
+      }
+
+      const delivery = await this.deliverDueEvents(false);
+      const choiceContext = delivery.delivered.length > 0 ? this.buildExecutionContext() : context;
+
+      const result: ExecutionResult = {
+        success: true,
+        storylet,
+        availableChoices: position.complete ? this.filterAvailableChoices(storylet, choiceContext) : [],
+        scene: position,
+        deliveredEvents: delivery.delivered,
+        appliedEffects: effectResults.appliedEffects,
+        errors: effectResults.errors,
+        warnings: [...effectResults.warnings, ...delivery.warnings],
+        executionTime: performance.now() - startTime,
+        stateChanges: effectResults.stateChanges
       };
+
+      this.currentExecution = result;
+      this.executionHistory.push(result);
+
+      this.emit('pageTurned', result);
+      this.emitEffectEvents(result);
+
+      return result;
+    } catch (error) {
+      return this.emitAndReturn('executionError', {
+        success: false,
+        storylet,
+        availableChoices: [],
+        appliedEffects: [],
+        errors: [`Could not continue the scene: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        warnings: [],
+        executionTime: performance.now() - startTime,
+        stateChanges: {}
+      });
     }
   }
 
@@ -160,79 +395,236 @@ export class StoryletExecutionEngine {
    */
   async executeChoice(choiceId: string): Promise<ChoiceExecutionResult> {
     if (!this.currentExecution || !this.currentExecution.success) {
-      return {
+      return this.emitAndReturn('executionError', {
         success: false,
         choice: {} as StoryletChoice,
         appliedEffects: [],
         errors: ['No active storylet execution'],
         warnings: [],
         stateChanges: {}
-      };
+      });
     }
 
     const choice = this.currentExecution.availableChoices.find(c => c.id === choiceId);
     if (!choice) {
-      return {
+      return this.emitAndReturn('executionError', {
         success: false,
         choice: {} as StoryletChoice,
         appliedEffects: [],
         errors: [`Choice with ID "${choiceId}" not found or not available`],
         warnings: [],
         stateChanges: {}
-      };
+      });
     }
 
+    // Effects are committed before the storylet is marked completed and due events are delivered,
+    // so a failure in either puts the state back as it was before the choice
+    const snapshot = this.captureSnapshot();
+
     try {
       // Build current context
       const context = this.buildExecutionContext();
       
       // Check choice requirements again (in case state changed)
-      if (choice.requirements && !this.evaluateRequirements(choice.requirements, context)) {
-        return {
+      if (choice.requirements && !this.evaluateRequirements(choice.requirements, context, this.getChoiceRollScope(this.currentExecution.storylet, choice))) {
+        return this.emitAndReturn('executionError', {
           success: false,
           choice,
           appliedEffects: [],
           errors: ['Choice requirements no longer met'],
           warnings: [],
           stateChanges: {}
-        };
+        });
       }
 
+      // Roll the choice's skill check, then a weighted outcome among those matching its result;
+      // the outcome's effects apply together with the choice's own
+      const skillCheck = choice.skillCheck ? this.rollSkillCheck(choice.skillCheck, context) : undefined;
+      const outcome = this.rollOutcome(choice, context, skillCheck);
+      const effects = outcome ? [...choice.effects, ...outcome.outcome.effects] : choice.effects;
+
       // Apply choice effects
-      const effectResults = await this.applyEffects(choice.effects, context);
+      const effectResults = await this.applyEffects(effects, context, this.currentExecution.storylet.id);
+      if (effectResults.rolledBack) {
+        return this.emitAndReturn('executionError', {
+          success: false,
+          choice,
+          skillCheck,
+          outcome,
+          appliedEffects: [],
+          errors: effectResults.errors,
+          warnings: effectResults.warnings,
+          rolledBack: true,
+          stateChanges: {}
+        });
+      }
       
       // Mark storylet as completed
       const narrativeStore = useNarrativeStore.getState();
       await narrativeStore.markStoryletCompleted(this.currentExecution.storylet.id!);
+      this.finishArcStorylet(this.currentExecution.storylet, effectResults.stateChanges.discoveredClues);
 
+      // A due scheduled storylet plays next when the choice leads nowhere; otherwise it keeps waiting
+      const authoredNextStoryletId = outcome?.outcome.nextStoryletId ?? choice.nextStoryletId;
+      const delivery = await this.deliverDueEvents(!authoredNextStoryletId);
+      const nextStoryletId = authoredNextStoryletId ?? delivery.storyletId;
       const result: ChoiceExecutionResult = {
         success: true,
         choice,
+        skillCheck,
+        outcome,
         appliedEffects: effectResults.appliedEffects,
-        nextStoryletId: choice.nextStoryletId,
+        nextStoryletId,
+        deliveredEvents: delivery.delivered,
         stateChanges: effectResults.stateChanges,
         errors: effectResults.errors,
-        warnings: effectResults.warnings
+        warnings: [...effectResults.warnings, ...delivery.warnings]
       };
 
       // Clear current execution
       this.currentExecution = undefined;
+      this.stepRolls.clear();
+
+      this.emitEffectEvents(result);
+      this.emit('choiceExecuted', result);
 
       // Auto-execute next storylet if specified
-      if (choice.nextStoryletId) {
-        await this.executeStorylet(choice.nextStoryletId);
+      if (nextStoryletId) {
+        await this.executeStorylet(nextStoryletId);
       }
 
       return result;
     } catch (error) {
-      return {
+      await this.restoreSnapshot(snapshot);
+      return this.emitAndReturn('executionError', {
         success: false,
         choice,
         appliedEffects: [],
         errors: [`Choice execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`],
         warnings: [],
+        rolledBack: true,
         stateChanges: {}
-      };
+      });
+    }
+  }
+
+  /**
+   * Get every storylet whose triggers and prerequisites are met, highest priority first
+   */
+  getAvailableStorylets(additionalContext?: Partial<ExecutionContext>, options: StoryletSelectionOptions = {}): Storylet[] {
+    const context = this.buildExecutionContext(additionalContext);
+    const statuses = options.statuses || ['live'];
+    const excluded = new Set(options.excludeStoryletIds || []);
+
+    const eligible = useNarrativeStore.getState().storylets
+      .filter(storylet => statuses.includes(storylet.status))
+      .filter(storylet => !options.storyArc || storylet.storyArc === options.storyArc)
+      .filter(storylet => !excluded.has(storylet.id))
+      .map(storylet => this.normalizeStorylet(storylet))
+      .filter(storylet => this.arePrerequisitesMet(storylet, context))
+      .filter(storylet => isStoryletUnlocked(storylet, context.unlocks))
+      .filter(storylet => this.checkArcPrerequisites(storylet, context).available)
+      .filter(storylet => this.checkRepeatPolicy(storylet, context).available)
+      .filter(storylet => this.evaluateStoryletConditions(storylet, context).allMet)
+      .sort((a, b) => b.priority - a.priority);
+
+    return options.limit !== undefined ? eligible.slice(0, options.limit) : eligible;
+  }
+
+  /**
+   * Draw eligible storylets at random, weighted by priority, without replacement
+   */
+  drawStorylets(count: number = 1, additionalContext?: Partial<ExecutionContext>, options: Omit<StoryletSelectionOptions, 'limit'> = {}): Storylet[] {
+    const pool = this.getAvailableStorylets(additionalContext, options);
+    const drawn: Storylet[] = [];
+
+    while (drawn.length < count && pool.length > 0) {
+      const weights = pool.map(storylet => Math.max(1, storylet.priority));
+      const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+      let roll = this.random.next() * totalWeight;
+
+      let index = 0;
+      while (index < pool.length - 1 && roll >= weights[index]) {
+        roll -= weights[index];
+        index++;
+      }
+
+      drawn.push(pool.splice(index, 1)[0]);
+    }
+
+    return drawn;
+  }
+
+  /**
+   * Fill in optional storylet fields so persisted records match the Storylet type
+   */
+  private normalizeStorylet(storylet: ReturnType<typeof useNarrativeStore.getState>['storylets'][number]): Storylet {
+    return {
+      ...storylet,
+      tags: storylet.tags || [],
+      priority: storylet.priority || 1,
+      estimatedPlayTime: storylet.estimatedPlayTime || 5
+    };
+  }
+
+  /**
+   * Check that every prerequisite storylet has been completed
+   */
+  private arePrerequisitesMet(storylet: Storylet, context: ExecutionContext): boolean {
+    return (storylet.prerequisites || []).every(prereqId => context.completedStorylets.includes(prereqId));
+  }
+
+  /**
+   * Check how often and how recently the storylet has been played
+   */
+  private checkRepeatPolicy(storylet: Storylet, context: ExecutionContext): { available: boolean; reason?: string } {
+    return checkRepeatPolicy(storylet.repeat, storylet.id ? context.storyletPlays[storylet.id] : undefined, context.gameTime);
+  }
+
+  /**
+   * Check that an arc not yet started has all its prerequisite arcs completed
+   */
+  private checkArcPrerequisites(storylet: Storylet, context: ExecutionContext): { available: boolean; reason?: string } {
+    const arc = this.getStoryletArc(storylet);
+    if (!arc || context.arcProgress[arc.id]) {
+      return { available: true };
+    }
+
+    const missing = getMissingArcPrerequisites(arc, context.arcProgress);
+    if (missing.length === 0) {
+      return { available: true };
+    }
+
+    const arcs = useNarrativeStore.getState().arcs || [];
+    const names = missing.map(arcId => arcs.find(a => a.id === arcId)?.name || arcId);
+    return { available: false, reason: `Arc "${arc.name}" requires completing: ${names.join(', ')}` };
+  }
+
+  private getStoryletArc(storylet: Storylet): StoryArc | undefined {
+    return storylet.storyArc ? (useNarrativeStore.getState().arcs || []).find(arc => arc.id === storylet.storyArc) : undefined;
+  }
+
+  /**
+   * Start the storylet's arc if needed and move its progress to this storylet
+   */
+  private enterArc(storylet: Storylet): void {
+    const arc = this.getStoryletArc(storylet);
+    if (!arc) return;
+
+    const gameStore = useCoreGameStore.getState();
+    const now = new Date().toISOString();
+    const progress = gameStore.arcProgress[arc.id] || createArcProgress(arc.id, now);
+    gameStore.updateArcProgress(
+      enterArcStorylet(progress, arc, storylet, useCharacterStore.getState().getPlayerRelationships(), now)
+    );
+    useNarrativeStore.getState().setCurrentArc(arc.id);
+  }
+
+  private finishArcStorylet(storylet: Storylet, discoveredClues?: string[]): void {
+    const gameStore = useCoreGameStore.getState();
+    const progress = storylet.storyArc ? gameStore.arcProgress[storylet.storyArc] : undefined;
+    if (progress) {
+      gameStore.updateArcProgress(finishArcStorylet(progress, storylet.id, discoveredClues));
     }
   }
 
@@ -242,16 +634,27 @@ export class StoryletExecutionEngine {
   private buildExecutionContext(additionalContext?: Partial<ExecutionContext>): ExecutionContext {
     const gameStore = useCoreGameStore.getState();
     const narrativeStore = useNarrativeStore.getState();
+    const clueStore = useClueStore.getState();
+    const characterStore = useCharacterStore.getState();
 
     return {
       resources: { ...gameStore.resources },
       gameTime: gameStore.gameTime,
-      discoveredClues: [], // TODO: Get from clue system
-      completedStorylets: [], // TODO: Get from narrative progress
-      relationships: {}, // TODO: Get from character system
-      currentStoryArc: narrativeStore.currentStoryletId, // TODO: Get current arc
+      discoveredClues: clueStore.getDiscoveredClueIds(),
+      completedStorylets: [...narrativeStore.completedStorylets],
+      relationships: characterStore.getPlayerRelationships(),
+      currentStoryArc: narrativeStore.currentArcId ?? undefined,
       featureFlags: { ...gameStore.featureFlags },
-      variables: {}, // TODO: Get from variable system
+      variables: {
+        ...getDefaultVariableValues(narrativeStore.storyVariables),
+        ...gameStore.variables
+      },
+      storyletPlays: { ...gameStore.storyletPlays },
+      unlocks: gameStore.unlocks,
+      arcProgress: gameStore.arcProgress,
+      inventory: gameStore.inventory,
+      scheduledEvents: gameStore.scheduledEvents,
+      calendar: narrativeStore.calendar,
       ...additionalContext
     };
   }
@@ -259,11 +662,11 @@ export class StoryletExecutionEngine {
   /**
    * Evaluate storylet triggers against current context
    */
-  private evaluateTriggers(triggers: StoryletTrigger[], context: ExecutionContext): { allMet: boolean; failedTriggers: string[] } {
+  private evaluateTriggers(triggers: StoryletTrigger[], context: ExecutionContext, rollScope?: string): { allMet: boolean; failedTriggers: string[] } {
     const failedTriggers: string[] = [];
 
     for (const trigger of triggers) {
-      if (!this.evaluateTrigger(trigger, context)) {
+      if (!this.evaluateTrigger(trigger, context, rollScope)) {
         failedTriggers.push(trigger.description);
       }
     }
@@ -275,273 +678,392 @@ export class StoryletExecutionEngine {
   }
 
   /**
-   * Evaluate a single trigger
+   * Evaluate a storylet's flat triggers together with its condition tree
+   */
+  private evaluateStoryletConditions(storylet: Storylet, context: ExecutionContext): { allMet: boolean; failedTriggers: string[] } {
+    const triggerResults = this.evaluateTriggers(storylet.triggers, context, storylet.id);
+
+    if (storylet.conditions && !evaluateCondition(storylet.conditions, trigger => this.evaluateTrigger(trigger, context, storylet.id))) {
+      triggerResults.failedTriggers.push(describeCondition(storylet.conditions));
+    }
+
+    return {
+      allMet: triggerResults.failedTriggers.length === 0,
+      failedTriggers: triggerResults.failedTriggers
+    };
+  }
+
+  /**
+   * Evaluate a single trigger; random and skill check triggers with a roll scope are rolled once per step
    */
-  private evaluateTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
+  private evaluateTrigger(trigger: StoryletTrigger, context: ExecutionContext, rollScope?: string): boolean {
     try {
-      switch (trigger.type) {
-        case 'resource':
-          return this.evaluateResourceTrigger(trigger, context);
-        case 'relationship':
-          return this.evaluateRelationshipTrigger(trigger, context);
-        case 'time':
-          return this.evaluateTimeTrigger(trigger, context);
-        case 'clue':
-          return this.evaluateClueTrigger(trigger, context);
-        case 'storylet_completion':
-          return this.evaluateStoryletCompletionTrigger(trigger, context);
-        case 'random':
-          return this.evaluateRandomTrigger(trigger, context);
-        default:
-          console.warn(`Unknown trigger type: ${trigger.type}`);
-          return false;
-      }
+      return evaluateTrigger(trigger, context, rolled => this.rollOncePerStep(rollScope && `${rollScope}/${rolled.id}`, () =>
+        rolled.type === 'random'
+          ? this.evaluateRandomTrigger(rolled, context)
+          : rolled.skillCheck ? this.rollSkillCheck(rolled.skillCheck, context).success : false
+      ));
     } catch (error) {
       console.error(`Error evaluating trigger ${trigger.id}:`, error);
       return false;
     }
   }
 
-  private evaluateResourceTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const resourceName = trigger.condition as keyof ExecutionContext['resources'];
-    const resourceValue = context.resources[resourceName];
-    const targetValue = trigger.value || 0;
-    const operator = trigger.operator || '>=';
-
-    switch (operator) {
-      case '>': return resourceValue > targetValue;
-      case '<': return resourceValue < targetValue;
-      case '=': return resourceValue === targetValue;
-      case '>=': return resourceValue >= targetValue;
-      case '<=': return resourceValue <= targetValue;
-      case '!=': return resourceValue !== targetValue;
-      default: return false;
-    }
+  private evaluateRandomTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
+    const probability = trigger.value || 50; // Default 50% chance
+    return rollPercent(() => this.random.next(), probability);
   }
 
-  private evaluateRelationshipTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const characterId = trigger.condition;
-    const relationshipValue = context.relationships[characterId] || 0;
-    const targetValue = trigger.value || 0;
-    const operator = trigger.operator || '>=';
-
-    switch (operator) {
-      case '>': return relationshipValue > targetValue;
-      case '<': return relationshipValue < targetValue;
-      case '=': return relationshipValue === targetValue;
-      case '>=': return relationshipValue >= targetValue;
-      case '<=': return relationshipValue <= targetValue;
-      case '!=': return relationshipValue !== targetValue;
-      default: return false;
+  private rollOncePerStep(key: string | undefined, roll: () => boolean): boolean {
+    if (!key) {
+      return roll();
     }
-  }
-
-  private evaluateTimeTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const targetTime = trigger.value || 0;
-    const operator = trigger.operator || '>=';
-
-    switch (operator) {
-      case '>': return context.gameTime > targetTime;
-      case '<': return context.gameTime < targetTime;
-      case '=': return context.gameTime === targetTime;
-      case '>=': return context.gameTime >= targetTime;
-      case '<=': return context.gameTime <= targetTime;
-      case '!=': return context.gameTime !== targetTime;
-      default: return false;
+    if (!this.stepRolls.has(key)) {
+      this.stepRolls.set(key, roll());
     }
-  }
-
-  private evaluateClueTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const clueId = trigger.condition;
-    return context.discoveredClues.includes(clueId);
-  }
-
-  private evaluateStoryletCompletionTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const storyletId = trigger.condition;
-    return context.completedStorylets.includes(storyletId);
-  }
-
-  private evaluateRandomTrigger(trigger: StoryletTrigger, context: ExecutionContext): boolean {
-    const probability = trigger.value || 50; // Default 50% chance
-    return Math.random() * 100 < probability;
+    return this.stepRolls.get(key)!;
   }
 
   /**
-   * Filter choices based on their requirements
+   * Filter choices based on their requirements. Their rolls are kept for the step, so executing
+   * an offered choice checks the same results instead of rolling again.
    */
-  private filterAvailableChoices(choices: StoryletChoice[], context: ExecutionContext): StoryletChoice[] {
-    return choices.filter(choice => {
-      // Check if choice is unlocked
-      if (choice.unlocked === false) {
+  private filterAvailableChoices(storylet: Storylet, context: ExecutionContext): StoryletChoice[] {
+    return storylet.choices.filter(choice => {
+      const rollScope = this.getChoiceRollScope(storylet, choice);
+
+      // Check the choice's authored flag and any unlock/lock effects
+      if (!isChoiceUnlocked(choice, context.unlocks)) {
         return false;
       }
 
       // Check requirements
       if (choice.requirements && choice.requirements.length > 0) {
-        return this.evaluateRequirements(choice.requirements, context);
+        return this.evaluateRequirements(choice.requirements, context, rollScope);
       }
 
       // Check probability (for random choices)
       if (choice.probability !== undefined && choice.probability < 100) {
-        return Math.random() * 100 < choice.probability;
+        const probability = choice.probability;
+        return this.rollOncePerStep(`${rollScope}/probability`, () => rollPercent(() => this.random.next(), probability));
       }
 
       return true;
     });
   }
 
+  /**
+   * Roll one of a choice's weighted outcomes, if it has any, from those matching its skill check
+   */
+  private rollOutcome(choice: StoryletChoice, context: ExecutionContext, skillCheck?: SkillCheckResult): ChoiceOutcomeRoll | undefined {
+    const outcomes = choice.outcomes && skillCheck
+      ? getOutcomesForSkillCheck(choice.outcomes, skillCheck.success)
+      : choice.outcomes;
+    if (!outcomes || outcomes.length === 0) {
+      return undefined;
+    }
+
+    const weights = getOutcomeWeights(outcomes, this.getOutcomeWeightContext(context));
+    const outcome = pickOutcome(outcomes, weights, this.random.next());
+    const checkChance = skillCheck ? (skillCheck.success ? skillCheck.chance : 1 - skillCheck.chance) : 1;
+    return { outcome, chance: checkChance * getOutcomeChances(outcomes, weights)[outcome.id], weights };
+  }
+
+  private rollSkillCheck(check: SkillCheck, context: ExecutionContext): SkillCheckResult {
+    return rollSkillCheck(check, this.getOutcomeWeightContext(context), () => this.random.next());
+  }
+
+  private getOutcomeWeightContext(context: ExecutionContext): OutcomeWeightContext {
+    return {
+      resources: context.resources,
+      variables: context.variables,
+      characters: useCharacterStore.getState().characters
+    };
+  }
+
   /**
    * Evaluate choice requirements
    */
-  private evaluateRequirements(requirements: StoryletTrigger[], context: ExecutionContext): boolean {
-    return requirements.every(req => this.evaluateTrigger(req, context));
+  private evaluateRequirements(requirements: StoryletTrigger[], context: ExecutionContext, rollScope?: string): boolean {
+    return requirements.every(req => this.evaluateTrigger(req, context, rollScope));
+  }
+
+  private getChoiceRollScope(storylet: Storylet, choice: StoryletChoice): string {
+    return `${storylet.id}/choices/${choice.id}`;
+  }
+
+  /**
+   * Copy the game state that effects can change
+   */
+  private captureSnapshot(): GameStateSnapshot {
+    const gameStore = useCoreGameStore.getState();
+    const clueStore = useClueStore.getState();
+
+    return {
+      resources: { ...gameStore.resources },
+      gameTime: gameStore.gameTime,
+      variables: { ...gameStore.variables },
+      unlocks: gameStore.unlocks,
+      arcProgress: gameStore.arcProgress,
+      inventory: gameStore.inventory,
+      scheduledEvents: gameStore.scheduledEvents,
+      characters: useCharacterStore.getState().characters,
+      clues: clueStore.clues,
+      discoveries: clueStore.discoveries,
+      completedStorylets: useNarrativeStore.getState().completedStorylets
+    };
+  }
+
+  private async restoreSnapshot(snapshot: GameStateSnapshot): Promise<void> {
+    useCoreGameStore.setState({
+      resources: snapshot.resources,
+      gameTime: snapshot.gameTime,
+      variables: snapshot.variables,
+      unlocks: snapshot.unlocks,
+      arcProgress: snapshot.arcProgress,
+      inventory: snapshot.inventory,
+      scheduledEvents: snapshot.scheduledEvents
+    });
+
+    // Relationships, clue discoveries and completions were saved as they changed, so they are saved back
+    const characterStore = useCharacterStore.getState();
+    if (characterStore.characters !== snapshot.characters) {
+      await characterStore.restoreRelationships(snapshot.characters);
+    }
+    const clueStore = useClueStore.getState();
+    if (clueStore.clues !== snapshot.clues || clueStore.discoveries !== snapshot.discoveries) {
+      await clueStore.restoreDiscoveries(snapshot.clues, snapshot.discoveries);
+    }
+    const narrativeStore = useNarrativeStore.getState();
+    if (narrativeStore.completedStorylets !== snapshot.completedStorylets) {
+      await narrativeStore.setCompletedStorylets(snapshot.completedStorylets);
+    }
   }
 
   /**
-   * Apply effects to game state
+   * Apply effects to game state as a unit: if any effect fails, the
+   * pre-execution snapshot is restored and nothing is reported as applied
    */
-  private async applyEffects(effects: StoryletEffect[], context: ExecutionContext): Promise<{
+  private async applyEffects(effects: StoryletEffect[], context: ExecutionContext, sourceStoryletId?: string): Promise<{
     appliedEffects: StoryletEffect[];
     stateChanges: ExecutionResult['stateChanges'];
     errors: string[];
     warnings: string[];
+    rolledBack: boolean;
   }> {
     const appliedEffects: StoryletEffect[] = [];
-    const stateChanges: ExecutionResult['stateChanges'] = {};
+    let stateChanges: ExecutionResult['stateChanges'] = {};
     const errors: string[] = [];
     const warnings: string[] = [];
+    const snapshot = this.captureSnapshot();
 
     const gameStore = useCoreGameStore.getState();
-    const narrativeStore = useNarrativeStore.getState();
+    const rules: EffectRules = {
+      resourceDefinitions: gameStore.resourceDefinitions,
+      itemDefinitions: gameStore.itemDefinitions,
+      calendar: context.calendar,
+      relationshipMaxValues: getRelationshipMaxValues(useCharacterStore.getState().characters),
+      variableDefinitions: useNarrativeStore.getState().storyVariables,
+      ...getEffectTargets(useNarrativeStore.getState().storylets)
+    };
+    let state: EffectState = {
+      resources: context.resources,
+      relationships: context.relationships,
+      discoveredClues: context.discoveredClues,
+      gameTime: context.gameTime,
+      variables: context.variables,
+      unlocks: context.unlocks,
+      inventory: context.inventory,
+      scheduledEvents: context.scheduledEvents
+    };
 
     for (const effect of effects) {
+      if (!EFFECT_TYPES.includes(effect.type)) {
+        warnings.push(`Unknown effect type: ${effect.type}`);
+        continue;
+      }
+
       try {
-        switch (effect.type) {
-          case 'resource':
-            this.applyResourceEffect(effect, gameStore, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          case 'relationship':
-            this.applyRelationshipEffect(effect, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          case 'clue_discovery':
-            await this.applyClueDiscoveryEffect(effect, narrativeStore, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          case 'storylet_unlock':
-            await this.applyStoryletUnlockEffect(effect, narrativeStore, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          case 'arc_progress':
-            await this.applyArcProgressEffect(effect, narrativeStore, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          case 'time_advance':
-            this.applyTimeAdvanceEffect(effect, gameStore, stateChanges);
-            appliedEffects.push(effect);
-            break;
-
-          default:
-            warnings.push(`Unknown effect type: ${effect.type}`);
-        }
+        const reduction = reduceEffect(state, effect, rules);
+        await this.commitEffect(effect, reduction, gameStore, sourceStoryletId);
+        state = reduction.state;
+        context.variables = state.variables;
+        context.unlocks = state.unlocks;
+        context.inventory = state.inventory;
+        context.scheduledEvents = state.scheduledEvents;
+        stateChanges = mergeEffectDiffs(stateChanges, reduction.diff);
+        appliedEffects.push(effect);
       } catch (error) {
         errors.push(`Failed to apply effect ${effect.id}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        await this.restoreSnapshot(snapshot);
+        errors.push(`Rolled back ${appliedEffects.length} applied effect(s); game state restored`);
+        return { appliedEffects: [], stateChanges: {}, errors, warnings, rolledBack: true };
       }
     }
 
-    return { appliedEffects, stateChanges, errors, warnings };
+    return { appliedEffects, stateChanges, errors, warnings, rolledBack: false };
   }
 
-  private applyResourceEffect(effect: StoryletEffect, gameStore: ReturnType<typeof useCoreGameStore.getState>, stateChanges: ExecutionResult['stateChanges']): void {
-    const resourceName = effect.target as keyof ExecutionContext['resources'];
-    const value = effect.value || 0;
-    const operator = effect.operator || '+';
-
-    if (!stateChanges.resources) {
-      stateChanges.resources = {};
-    }
-
-    switch (operator) {
-      case '+':
-        gameStore.updateResource(resourceName, value);
-        stateChanges.resources[resourceName] = (stateChanges.resources[resourceName] || 0) + value;
+  /**
+   * Write a reduced effect back to the stores
+   */
+  private async commitEffect(
+    effect: StoryletEffect,
+    { state, diff }: EffectReduction,
+    gameStore: ReturnType<typeof useCoreGameStore.getState>,
+    sourceStoryletId?: string
+  ): Promise<void> {
+    switch (effect.type) {
+      case 'resource':
+        gameStore.setResource(effect.target, state.resources[effect.target]);
         break;
-      case '-':
-        gameStore.updateResource(resourceName, -value);
-        stateChanges.resources[resourceName] = (stateChanges.resources[resourceName] || 0) - value;
+      case 'time_advance':
+        gameStore.advanceTime(diff.gameTime ?? 0);
         break;
-      case '=':
-        gameStore.setResource(resourceName, value);
-        stateChanges.resources[resourceName] = value;
+      case 'set_variable':
+        gameStore.setVariable(effect.target, state.variables[effect.target]);
         break;
-      case '*':
-        const currentValue = gameStore.resources[resourceName];
-        const newValue = currentValue * value;
-        gameStore.setResource(resourceName, newValue);
-        stateChanges.resources[resourceName] = newValue;
+      case 'storylet_unlock':
+      case 'storylet_lock':
+        gameStore.setUnlocks(state.unlocks);
         break;
-    }
-  }
-
-  private applyRelationshipEffect(effect: StoryletEffect, stateChanges: ExecutionResult['stateChanges']): void {
-    const characterId = effect.target;
-    const value = effect.value || 0;
-    const operator = effect.operator || '+';
-
-    if (!stateChanges.relationships) {
-      stateChanges.relationships = {};
-    }
-
-    // TODO: Integrate with character relationship system when available
-    switch (operator) {
-      case '+':
-        stateChanges.relationships[characterId] = (stateChanges.relationships[characterId] || 0) + value;
+      case 'item_grant':
+      case 'item_remove':
+        gameStore.setInventory(state.inventory);
+        break;
+      case 'schedule_event':
+        gameStore.setScheduledEvents(state.scheduledEvents);
         break;
-      case '-':
-        stateChanges.relationships[characterId] = (stateChanges.relationships[characterId] || 0) - value;
+      case 'relationship':
+        await commitPlayerRelationship(effect.target, state.relationships[effect.target]);
         break;
-      case '=':
-        stateChanges.relationships[characterId] = value;
+      // Already discovered clues reduce to no change and are not recorded twice
+      case 'clue_discovery':
+        if (diff.discoveredClues) {
+          await commitClueDiscovery(effect.target, { storyletId: sourceStoryletId, discoveryContext: effect.description });
+        }
         break;
-      case '*':
-        stateChanges.relationships[characterId] = (stateChanges.relationships[characterId] || 0) * value;
+      // Arc progress lives outside the reduced state
+      case 'arc_progress':
+      case 'arc_complete': {
+        const now = new Date().toISOString();
+        const progress = useCoreGameStore.getState().arcProgress[effect.target] || createArcProgress(effect.target, now);
+        gameStore.updateArcProgress(effect.type === 'arc_complete' ? completeArc(progress, now) : advanceArc(progress, effect.value ?? 1));
         break;
+      }
     }
   }
 
-  private async applyClueDiscoveryEffect(effect: StoryletEffect, narrativeStore: ReturnType<typeof useNarrativeStore.getState>, stateChanges: ExecutionResult['stateChanges']): Promise<void> {
-    const clueId = effect.target;
-    
-    if (!stateChanges.discoveredClues) {
-      stateChanges.discoveredClues = [];
+  /**
+   * Pass game time outside a storylet, delivering any scheduled events it reaches.
+   * When no storylet is in progress, the first due scheduled storylet is played.
+   */
+  async advanceTime(minutes: number): Promise<ScheduledEvent[]> {
+    useCoreGameStore.getState().advanceTime(minutes);
+    const delivery = await this.deliverDueEvents(!this.currentExecution);
+    delivery.warnings.forEach(warning => console.warn(warning));
+    if (delivery.storyletId) {
+      await this.executeStorylet(delivery.storyletId);
+    }
+    return delivery.delivered;
+  }
+
+  /**
+   * Deliver scheduled events whose time has come, earliest first. Effects apply
+   * right away and may advance time further; a storylet event is only taken when
+   * `takeStorylet` is set, and then only the first, which the caller plays.
+   */
+  private async deliverDueEvents(takeStorylet: boolean): Promise<{ delivered: ScheduledEvent[]; storyletId?: string; warnings: string[] }> {
+    const delivered: ScheduledEvent[] = [];
+    const warnings: string[] = [];
+    let storyletId: string | undefined;
+
+    for (let i = 0; i < MAX_EVENT_DELIVERIES; i++) {
+      const { scheduledEvents, gameTime } = useCoreGameStore.getState();
+      const event = getDueEvents(scheduledEvents, gameTime)
+        .find(due => !due.storyletId || (takeStorylet && !storyletId));
+      if (!event) {
+        return { delivered, storyletId, warnings };
+      }
+
+      useCoreGameStore.getState().setScheduledEvents(removeScheduledEvent(scheduledEvents, event.id));
+      if (event.effects.length > 0) {
+        const effectResults = await this.applyEffects(event.effects, this.buildExecutionContext());
+        warnings.push(...effectResults.warnings, ...effectResults.errors.map(error => `Scheduled event ${event.id}: ${error}`));
+      }
+      storyletId = storyletId ?? event.storyletId;
+      delivered.push(event);
+      this.emit('scheduledEventDelivered', event);
     }
 
-    // TODO: Integrate with clue system when available
-    stateChanges.discoveredClues.push(clueId);
+    warnings.push(`Stopped after delivering ${MAX_EVENT_DELIVERIES} scheduled events at once`);
+    return { delivered, storyletId, warnings };
+  }
+
+  /**
+   * Restart the random sequence so the same seed and choices replay identically
+   */
+  setSeed(seed: number): void {
+    this.random.reseed(seed);
+    this.stepRolls.clear();
+  }
+
+  getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Snapshot of the random sequence position, for game saves
+   */
+  getRandomState(): RandomState {
+    return this.random.getState();
+  }
+
+  restoreRandomState(state: RandomState): void {
+    this.random.setState(state);
+    this.stepRolls.clear();
+  }
+
+  /**
+   * Listen for an engine event; returns a function that removes the listener
+   */
+  subscribe<E extends StoryletEngineEventName>(event: E, listener: StoryletEngineListener<E>): () => void {
+    const listeners = (this.listeners[event] ?? new Set()) as Set<StoryletEngineListener<E>>;
+    listeners.add(listener);
+    this.listeners[event] = listeners as typeof this.listeners[E];
+    return () => this.unsubscribe(event, listener);
   }
 
-  private async applyStoryletUnlockEffect(effect: StoryletEffect, narrativeStore: ReturnType<typeof useNarrativeStore.getState>, stateChanges: ExecutionResult['stateChanges']): Promise<void> {
-    const storyletId = effect.target;
-    // TODO: Implement storylet unlocking mechanism
-    console.log(`Unlocking storylet: ${storyletId}`);
+  unsubscribe<E extends StoryletEngineEventName>(event: E, listener: StoryletEngineListener<E>): void {
+    this.listeners[event]?.delete(listener);
+  }
+
+  /**
+   * Notify listeners; a throwing listener is logged and never breaks execution
+   */
+  private emit<E extends StoryletEngineEventName>(event: E, payload: StoryletEngineEvents[E]): void {
+    const listeners = this.listeners[event] as Set<StoryletEngineListener<E>> | undefined;
+    listeners?.forEach(listener => {
+      try {
+        listener(payload);
+      } catch (error) {
+        console.error(`Storylet engine listener for "${event}" failed:`, error);
+      }
+    });
   }
 
-  private async applyArcProgressEffect(effect: StoryletEffect, narrativeStore: ReturnType<typeof useNarrativeStore.getState>, stateChanges: ExecutionResult['stateChanges']): Promise<void> {
-    const arcId = effect.target;
-    // TODO: Integrate with story arc progression system
-    console.log(`Advancing arc progress: ${arcId}`);
+  private emitAndReturn<E extends StoryletEngineEventName, T extends StoryletEngineEvents[E]>(event: E, result: T): T {
+    this.emit(event, result);
+    return result;
   }
 
-  private applyTimeAdvanceEffect(effect: StoryletEffect, gameStore: ReturnType<typeof useCoreGameStore.getState>, stateChanges: ExecutionResult['stateChanges']): void {
-    const minutes = effect.value || 0;
-    gameStore.advanceTime(minutes);
-    stateChanges.gameTime = (stateChanges.gameTime || 0) + minutes;
+  private emitEffectEvents(result: ExecutionResult | ChoiceExecutionResult): void {
+    result.appliedEffects.forEach(effect => {
+      this.emit('effectApplied', { effect, result });
+      if (effect.type === 'clue_discovery') {
+        this.emit('clueDiscovered', { clueId: effect.target, result });
+      }
+    });
   }
 
   /**
@@ -551,6 +1073,46 @@ export class StoryletExecutionEngine {
     return this.currentExecution;
   }
 
+  /**
+   * The storylet in progress and the page being shown, for saving a game
+   */
+  getExecutionState(): { storyletId: string; scene?: ScenePosition } | undefined {
+    const current = this.currentExecution;
+    return current?.success && current.storylet.id
+      ? { storyletId: current.storylet.id, scene: current.scene }
+      : undefined;
+  }
+
+  /**
+   * Pick a saved storylet back up at the saved page. Nothing is applied or recorded:
+   * the loaded game state already holds the storylet's effects and play. Returns
+   * undefined when the storylet no longer exists.
+   */
+  resumeExecution(storyletId: string, scene?: ScenePosition): ExecutionResult | undefined {
+    const storedStorylet = useNarrativeStore.getState().getStorylet(storyletId);
+    if (!storedStorylet) {
+      return undefined;
+    }
+
+    const storylet = this.normalizeStorylet(storedStorylet);
+    // A page removed since the save was made restarts the scene
+    const position = scene && (!scene.beatId || getBeat(storylet, scene.beatId)) ? scene : startScene(storylet);
+    const result: ExecutionResult = {
+      success: true,
+      storylet,
+      availableChoices: position.complete ? this.filterAvailableChoices(storylet, this.buildExecutionContext()) : [],
+      scene: position,
+      appliedEffects: [],
+      errors: [],
+      warnings: [],
+      executionTime: 0,
+      stateChanges: {}
+    };
+
+    this.currentExecution = result;
+    return result;
+  }
+
   /**
    * Get execution history
    */
@@ -0,0 +1,26 @@
+// In-game calendar definitions: converts raw gameTime minutes into days, weekdays and periods
+
+export interface DayPeriod {
+  id: string; // Referenced by time_of_day triggers and time_advance effects, e.g. 'morning'
+  name: string;
+  startMinute: number; // Minute of the day the period begins
+}
+
+export interface CalendarConfig {
+  minutesPerDay: number;
+  periods: DayPeriod[]; // Each period lasts until the next one starts, wrapping past midnight
+  weekdays: string[];
+  startDay: number; // Day number at gameTime 0
+  startMinuteOfDay: number; // Clock time at gameTime 0
+  startWeekday: number; // Index into weekdays at gameTime 0
+}
+
+export interface CalendarDate {
+  day: number;
+  weekday: string;
+  weekdayIndex: number;
+  minuteOfDay: number;
+  hour: number;
+  minute: number;
+  period?: DayPeriod;
+}
@@ -0,0 +1,12 @@
+// Item catalog definitions: each project declares the items players can carry
+
+export interface ItemDefinition {
+  id: string; // Used as has_item trigger conditions and item effect targets, e.g. 'brass_key'
+  name: string;
+  description: string;
+  stackable: boolean; // When false, the player holds at most one
+  tags: string[];
+}
+
+// Items the player holds, keyed by item id
+export type Inventory = Record<string, number>;
@@ -8,6 +8,7 @@ export interface StoryArc {
   description: string;
   estimatedLength?: number; // in minutes
   prerequisites?: string[]; // Other arc IDs that must be completed first
+  endStoryletIds?: string[]; // Reaching any of these completes the arc; defaults to storylets without choices
   tags?: string[];
   createdAt: string;
   updatedAt: string;
@@ -62,12 +63,14 @@ export interface Clue {
   updatedAt: string;
 }
 
+// Per-playthrough progress through one arc, kept with the game save
 export interface ArcProgress {
   arcId: string;
   currentStoryletId?: string;
   completedStorylets: string[];
   discoveredClues: string[];
-  characterRelationships: { [characterId: string]: number };
+  characterRelationships: { [characterId: string]: number }; // Player relationships as of the latest arc storylet
+  steps?: number; // Advanced by arc_progress effects
   isCompleted: boolean;
   completedAt?: string;
   startedAt: string;
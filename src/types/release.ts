@@ -0,0 +1,50 @@
+// Release pipeline: storylets are promoted dev → stage → live, and publishing freezes the live content for the game build
+
+import type { Storylet, StoryVariableDefinition, ValidationError } from './storylet';
+import type { StoryArc } from './narrative';
+import type { Clue } from './clue';
+import type { Character } from './character';
+import type { ItemDefinition } from './item';
+import type { ResourceDefinition } from './resource';
+
+export type ReleaseStatus = Storylet['status'];
+
+// A changelog entry for one status change of a storylet
+export interface Promotion {
+  id: number;
+  storyletId: string;
+  storyletTitle: string;
+  from: ReleaseStatus;
+  to: ReleaseStatus;
+  promotedAt: string;
+  author: string;
+  note?: string;
+}
+
+export interface PromotionCheck {
+  errors: ValidationError[]; // Block the promotion
+  warnings: ValidationError[];
+}
+
+// The live content of a project at the moment it was published
+export interface ReleaseSnapshot {
+  formatVersion: number;
+  publishedAt: string;
+  contentFingerprint: string;
+  storylets: Storylet[];
+  arcs: StoryArc[]; // Only arcs with live storylets
+  clues: Clue[];
+  characters: Character[];
+  items: ItemDefinition[];
+  resources: ResourceDefinition[];
+  storyVariables: StoryVariableDefinition[];
+}
+
+export interface Release {
+  id: number;
+  number: number; // Counts up from 1 with each publish
+  publishedAt: string;
+  author: string;
+  note?: string;
+  snapshot: ReleaseSnapshot;
+}
@@ -0,0 +1,11 @@
+// Resource registry definitions: each project declares the resources its game tracks
+
+export interface ResourceDefinition {
+  id: string; // Used as trigger conditions and effect targets, e.g. 'money'
+  label: string;
+  icon?: string;
+  min?: number;
+  max?: number;
+  initial: number;
+  allowNegative: boolean; // When false, values never drop below zero even without a min
+}
@@ -0,0 +1,24 @@
+// Revision history: a copy of a storylet, clue or character kept each time it is saved
+
+export type RevisionEntityType = 'storylet' | 'clue' | 'character';
+
+export interface Revision {
+  id: number;
+  entityType: RevisionEntityType;
+  entityId: string;
+  createdAt: string;
+  author: string;
+  changedFields: string[]; // Empty for the revision that created the record
+  snapshot: Record<string, unknown>; // The record as saved
+}
+
+export interface RevisionFieldDiff {
+  field: string;
+  before: unknown; // undefined when the field was added
+  after: unknown; // undefined when the field was removed
+}
+
+export interface RevisionSettings {
+  author: string;
+  limit: number; // Revisions kept per record; older ones are pruned
+}
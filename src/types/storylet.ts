@@ -2,13 +2,81 @@
 
 export interface StoryletTrigger {
   id: string;
-  type: 'resource' | 'relationship' | 'time' | 'clue' | 'storylet_completion' | 'random';
-  condition: string;
+  type: 'resource' | 'relationship' | 'time' | 'day' | 'time_of_day' | 'weekday' | 'clue' | 'storylet_completion' | 'random' | 'variable' | 'skill_check' | 'has_item';
+  condition: string; // For 'time_of_day': a period id or "HH:MM-HH:MM"; for 'weekday': comma-separated day names; for 'has_item': an item id
   value?: number;
+  variableValue?: StoryVariableValue; // Non-numeric comparison value for 'variable' triggers
   operator?: '>' | '<' | '=' | '>=' | '<=' | '!=';
+  skillCheck?: SkillCheck; // Check rolled by 'skill_check' triggers
   description: string;
 }
 
+// Nested boolean conditions: a group combines triggers and sub-groups.
+// 'all' = AND, 'any' = OR, 'none' = NOT (none of the children may hold).
+export interface StoryletConditionGroup {
+  id: string;
+  logic: 'all' | 'any' | 'none';
+  conditions: StoryletCondition[];
+  description?: string;
+}
+
+export type StoryletCondition = StoryletTrigger | StoryletConditionGroup;
+
+// Story variables: named, typed flags and counters declared by authors
+export type StoryVariableType = 'boolean' | 'number' | 'string';
+export type StoryVariableValue = boolean | number | string;
+
+export interface StoryVariableDefinition {
+  name: string;
+  type: StoryVariableType;
+  defaultValue: StoryVariableValue;
+  description?: string;
+}
+
+// Repeat policy: how often a storylet may fire. Storylets without one are freely repeatable.
+export interface StoryletRepeatPolicy {
+  mode: 'once' | 'repeatable' | 'limited' | 'cooldown';
+  maxPlays?: number; // 'limited': total plays allowed
+  cooldownMinutes?: number; // 'cooldown': game minutes between plays
+}
+
+// How often a storylet has been entered during the current game
+export interface StoryletPlayRecord {
+  count: number;
+  lastPlayedAt: number; // Game time in minutes
+}
+
+// Outcome weight modifier: adds `perPoint` weight for every point of a resource,
+// numeric story variable or character attribute (true flags count as 1)
+export interface ChoiceOutcomeModifier {
+  id: string;
+  source: 'resource' | 'variable' | 'attribute';
+  target: string; // Resource id, variable name, or attribute id/name
+  characterId?: string; // Whose attribute, for 'attribute' modifiers
+  perPoint: number;
+}
+
+// Skill check: a character's attribute or trait, plus optional dice and modifiers, against a difficulty
+export interface SkillCheck {
+  characterId: string; // The player character or a companion
+  stat: string; // Attribute or trait id/name
+  statType: 'attribute' | 'trait';
+  dice?: { count: number; sides: number };
+  modifiers?: ChoiceOutcomeModifier[];
+  difficulty: number; // Passes when the total reaches this
+}
+
+// One weighted result of a choice, e.g. success (70) and failure (30)
+export interface StoryletChoiceOutcome {
+  id: string;
+  label: string;
+  weight: number;
+  modifiers?: ChoiceOutcomeModifier[];
+  effects: StoryletEffect[]; // Applied after the choice's own effects
+  nextStoryletId?: string; // Overrides the choice's nextStoryletId
+  skillCheckResult?: 'success' | 'failure'; // Only eligible when the choice's skill check had this result
+}
+
 export interface StoryletChoice {
   id: string;
   text: string;
@@ -20,13 +88,40 @@ export interface StoryletChoice {
   nextStoryletId?: string; // Links to the next storylet when this choice is selected
   createNewStorylet?: boolean; // Flag to indicate this choice should create a new storylet
   clueId?: string; // Links to a clue when this choice provides clue access
+  outcomes?: StoryletChoiceOutcome[]; // One is rolled by weight when the choice is taken
+  skillCheck?: SkillCheck; // Rolled when the choice is taken to narrow its outcomes
+}
+
+// Inline choice on a storylet page; it moves between pages without leaving the storylet
+export interface StoryletBeatChoice {
+  id: string;
+  text: string;
+  effects: StoryletEffect[];
+  nextBeatId?: string; // Defaults to the following page
+}
+
+// One page of a multi-page storylet, shown after the storylet's opening content
+export interface StoryletBeat {
+  id: string;
+  content: string;
+  effects: StoryletEffect[]; // Applied when the page is reached
+  choices?: StoryletBeatChoice[]; // Without any the reader just continues
+}
+
+// Where a reader is within a multi-page storylet
+export interface ScenePosition {
+  beatId?: string; // Page being shown; unset on the opening content
+  complete: boolean; // Set once no page is left, when the storylet's own choices are offered
 }
 
 export interface StoryletEffect {
   id: string;
-  type: 'resource' | 'relationship' | 'clue_discovery' | 'storylet_unlock' | 'arc_progress' | 'time_advance';
-  target: string;
-  value?: number;
+  type: 'resource' | 'relationship' | 'clue_discovery' | 'storylet_unlock' | 'storylet_lock' | 'arc_progress' | 'arc_complete' | 'time_advance' | 'set_variable' | 'item_grant' | 'item_remove' | 'schedule_event';
+  target: string; // For 'time_advance': "period:<id>" advances to the next start of that period; for unlock/lock: a storylet id or "choice:<id>"; for 'schedule_event': the storylet to fire, if any
+  value?: number; // For item effects: how many, default 1; for 'schedule_event': delay in minutes
+  variableValue?: StoryVariableValue; // Non-numeric value assigned by 'set_variable' effects
+  scheduleAt?: string; // For 'schedule_event': calendar time instead of a delay, "period:<id>", "HH:MM" or "day:<n> HH:MM"
+  scheduledEffects?: StoryletEffect[]; // For 'schedule_event': effects applied when the event comes due
   operator?: '+' | '-' | '=' | '*';
   description: string;
 }
@@ -36,7 +131,9 @@ export interface Storylet {
   title: string;
   description: string;
   content: string;
+  beats?: StoryletBeat[]; // Further pages; the storylet's choices appear once the last is reached
   triggers: StoryletTrigger[];
+  conditions?: StoryletConditionGroup; // Evaluated together with (AND) the flat triggers
   choices: StoryletChoice[];
   effects: StoryletEffect[];
   storyArc?: string;
@@ -45,16 +142,36 @@ export interface Storylet {
   priority: number;
   estimatedPlayTime: number;
   prerequisites?: string[];
+  repeat?: StoryletRepeatPolicy;
+  startsLocked?: boolean; // Hidden until a storylet_unlock effect opens it
   createdAt?: Date;
   updatedAt?: Date;
 }
 
+// A storylet or set of effects queued by a 'schedule_event' effect, delivered once gameTime reaches dueAt
+export interface ScheduledEvent {
+  id: string;
+  dueAt: number; // Game time in minutes
+  scheduledAt: number; // Game time the event was queued
+  storyletId?: string;
+  effects: StoryletEffect[];
+  sourceEffectId: string;
+}
+
+// Per-playthrough unlock (true) and lock (false) overrides, keyed by storylet or choice id
+export interface UnlockState {
+  storylets: Record<string, boolean>;
+  choices: Record<string, boolean>;
+}
+
 export interface StoryletFormData {
   id?: string;
   title: string;
   description: string;
   content: string;
+  beats?: StoryletBeat[]; // Further pages; the storylet's choices appear once the last is reached
   triggers: StoryletTrigger[];
+  conditions?: StoryletConditionGroup; // Evaluated together with (AND) the flat triggers
   choices: StoryletChoice[];
   effects: StoryletEffect[];
   storyArc?: string;
@@ -63,6 +180,8 @@ export interface StoryletFormData {
   priority: number;
   estimatedPlayTime: number;
   prerequisites?: string[];
+  repeat?: StoryletRepeatPolicy;
+  startsLocked?: boolean; // Hidden until a storylet_unlock effect opens it
 }
 
 export interface ValidationError {
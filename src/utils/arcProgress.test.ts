@@ -0,0 +1,61 @@
+/**
+ * Tests for story arc progression
+ * Covers arc status, end storylet detection and completion tracking
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createArcProgress, enterArcStorylet, finishArcStorylet, getArcCompletion, getArcStatus, isArcEndStorylet } from './arcProgress';
+import type { StoryArc } from '../types/narrative';
+
+const arc = (overrides: Partial<StoryArc> = {}): StoryArc => ({
+  id: 'case',
+  name: 'The Case',
+  description: '',
+  createdAt: '',
+  updatedAt: '',
+  ...overrides
+});
+
+const start = { id: 'start', storyArc: 'case', choices: [{ id: 'go', text: 'Go on', effects: [], nextStoryletId: 'middle' }] };
+const middle = { id: 'middle', storyArc: 'case', choices: [] };
+const drawn = { id: 'drawn', storyArc: 'case', choices: [{ id: 'leave', text: 'Leave', effects: [] }] };
+
+describe('arcProgress', () => {
+  it('derives arc status from prerequisites and progress', () => {
+    const finale = arc({ id: 'finale', prerequisites: ['case'] });
+
+    expect(getArcStatus(finale, {})).toBe('locked');
+    expect(getArcStatus(arc(), {})).toBe('available');
+    expect(getArcStatus(arc(), { case: createArcProgress('case', 'now') })).toBe('in_progress');
+
+    const completed = { ...createArcProgress('case', 'now'), isCompleted: true };
+    expect(getArcStatus(finale, { case: completed })).toBe('available');
+  });
+
+  it('ends at explicit end storylets, or at storylets without choices', () => {
+    expect(isArcEndStorylet(arc(), start)).toBe(false);
+    expect(isArcEndStorylet(arc(), middle)).toBe(true);
+    expect(isArcEndStorylet(arc(), drawn)).toBe(false);
+    expect(isArcEndStorylet(arc({ endStoryletIds: ['start'] }), start)).toBe(true);
+    expect(isArcEndStorylet(arc({ endStoryletIds: ['start'] }), middle)).toBe(false);
+  });
+
+  it('tracks finished storylets and clues until the arc completes', () => {
+    let progress = enterArcStorylet(createArcProgress('case', 't0'), arc(), start, { detective: 10 }, 't1');
+    progress = finishArcStorylet(progress, 'start', ['note', 'note']);
+
+    expect(progress).toMatchObject({ currentStoryletId: 'start', completedStorylets: ['start'], discoveredClues: ['note'], isCompleted: false });
+    expect(getArcCompletion(arc(), progress, [start, middle])).toBe(0.5);
+
+    progress = enterArcStorylet(progress, arc(), middle, { detective: 20 }, 't2');
+
+    expect(progress).toMatchObject({
+      currentStoryletId: 'middle',
+      completedStorylets: ['start', 'middle'],
+      characterRelationships: { detective: 20 },
+      isCompleted: true,
+      completedAt: 't2'
+    });
+    expect(getArcCompletion(arc(), progress, [start, middle])).toBe(1);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Story arc progression
+ *
+ * Tracks where a playthrough is in each arc. An arc starts when its first
+ * storylet is entered, provided every prerequisite arc is complete, and
+ * completes when one of its end storylets is reached.
+ */
+
+import type { ArcProgress, StoryArc } from '../types/narrative';
+import type { StoryletChoice } from '../types/storylet';
+
+interface ArcStorylet {
+  id?: string;
+  storyArc?: string;
+  choices: StoryletChoice[];
+}
+
+export type ArcStatus = 'locked' | 'available' | 'in_progress' | 'completed';
+
+export const ARC_STATUS_LABELS: Record<ArcStatus, string> = {
+  locked: 'Locked',
+  available: 'Not started',
+  in_progress: 'In progress',
+  completed: 'Completed'
+};
+
+export function createArcProgress(arcId: string, now: string): ArcProgress {
+  return {
+    arcId,
+    completedStorylets: [],
+    discoveredClues: [],
+    characterRelationships: {},
+    isCompleted: false,
+    startedAt: now
+  };
+}
+
+/**
+ * Prerequisite arcs that still need completing before this arc can start
+ */
+export function getMissingArcPrerequisites(arc: StoryArc, progress: Record<string, ArcProgress>): string[] {
+  return (arc.prerequisites || []).filter(arcId => !progress[arcId]?.isCompleted);
+}
+
+export function getArcStatus(arc: StoryArc, progress: Record<string, ArcProgress>): ArcStatus {
+  const current = progress[arc.id];
+  if (current?.isCompleted) return 'completed';
+  if (current) return 'in_progress';
+  return getMissingArcPrerequisites(arc, progress).length > 0 ? 'locked' : 'available';
+}
+
+/**
+ * Whether reaching a storylet ends its arc: an explicit end storylet, or, when the
+ * arc names none, a storylet without choices. Choices that lead nowhere do not end
+ * it, since arcs driven by drawing storylets are made of those.
+ */
+export function isArcEndStorylet(arc: StoryArc, storylet: ArcStorylet): boolean {
+  if (arc.endStoryletIds && arc.endStoryletIds.length > 0) {
+    return !!storylet.id && arc.endStoryletIds.includes(storylet.id);
+  }
+  return storylet.choices.length === 0;
+}
+
+/**
+ * Record that a storylet of the arc was entered, completing the arc at an end storylet
+ */
+export function enterArcStorylet(
+  progress: ArcProgress,
+  arc: StoryArc,
+  storylet: ArcStorylet,
+  relationships: Record<string, number>,
+  now: string
+): ArcProgress {
+  const next: ArcProgress = { ...progress, currentStoryletId: storylet.id, characterRelationships: { ...relationships } };
+  if (!progress.isCompleted && isArcEndStorylet(arc, storylet)) {
+    return completeArc(addArcStorylet(next, storylet.id), now);
+  }
+  return next;
+}
+
+/**
+ * Record a finished storylet and any clues found in it
+ */
+export function finishArcStorylet(progress: ArcProgress, storyletId: string | undefined, discoveredClues: string[] = []): ArcProgress {
+  const withStorylet = addArcStorylet(progress, storyletId);
+  const newClues = [...new Set(discoveredClues)].filter(clueId => !withStorylet.discoveredClues.includes(clueId));
+  return newClues.length > 0
+    ? { ...withStorylet, discoveredClues: [...withStorylet.discoveredClues, ...newClues] }
+    : withStorylet;
+}
+
+/**
+ * Move an arc on by a number of steps; only end storylets and arc_complete effects complete it
+ */
+export function advanceArc(progress: ArcProgress, steps: number): ArcProgress {
+  return { ...progress, steps: (progress.steps ?? 0) + steps };
+}
+
+export function completeArc(progress: ArcProgress, now: string): ArcProgress {
+  return progress.isCompleted ? progress : { ...progress, isCompleted: true, completedAt: now };
+}
+
+/**
+ * Share of the arc's storylets finished so far, 0-1
+ */
+export function getArcCompletion(arc: StoryArc, progress: ArcProgress | undefined, storylets: ArcStorylet[]): number {
+  if (progress?.isCompleted) return 1;
+  const arcStorylets = storylets.filter(storylet => storylet.storyArc === arc.id);
+  if (!progress || arcStorylets.length === 0) return 0;
+  const finished = arcStorylets.filter(storylet => storylet.id && progress.completedStorylets.includes(storylet.id)).length;
+  return finished / arcStorylets.length;
+}
+
+function addArcStorylet(progress: ArcProgress, storyletId: string | undefined): ArcProgress {
+  if (!storyletId || progress.completedStorylets.includes(storyletId)) {
+    return progress;
+  }
+  return { ...progress, completedStorylets: [...progress.completedStorylets, storyletId] };
+}
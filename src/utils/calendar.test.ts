@@ -0,0 +1,73 @@
+/**
+ * Tests for the in-game calendar
+ * Covers date conversion, period lookup, advancing to periods and calendar triggers
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CALENDAR,
+  evaluateCalendarTrigger,
+  formatGameTime,
+  getCalendarDate,
+  getMinutesUntilPeriod,
+  getTimeAdvanceMinutes,
+  validateCalendar
+} from './calendar';
+
+describe('calendar', () => {
+  it('converts game minutes into days, weekdays and periods', () => {
+    expect(formatGameTime(0)).toBe('Day 1, Monday 08:00 (Morning)');
+    expect(formatGameTime(2 * 1440 + 10 * 60 + 30)).toBe('Day 3, Wednesday 18:30 (Evening)');
+    // 03:00 belongs to the night period that started the previous day
+    expect(getCalendarDate(19 * 60).period?.id).toBe('night');
+    expect(getCalendarDate(7 * 1440).weekday).toBe('Monday');
+  });
+
+  it('supports custom day lengths and start dates', () => {
+    const calendar = {
+      ...DEFAULT_CALENDAR,
+      minutesPerDay: 600,
+      periods: [{ id: 'day', name: 'Day', startMinute: 0 }, { id: 'dusk', name: 'Dusk', startMinute: 480 }],
+      weekdays: ['Sun', 'Moon'],
+      startDay: 10,
+      startMinuteOfDay: 0,
+      startWeekday: 1
+    };
+
+    expect(getCalendarDate(1100, calendar)).toMatchObject({ day: 11, weekday: 'Sun', minuteOfDay: 500 });
+    expect(formatGameTime(1100, calendar)).toBe('Day 11, Sun 08:20 (Dusk)');
+  });
+
+  it('advances to the next start of a period', () => {
+    expect(getMinutesUntilPeriod(0, 'morning')).toBe(22 * 60);
+    expect(getMinutesUntilPeriod(0, 'Evening')).toBe(10 * 60);
+    expect(getTimeAdvanceMinutes({ id: 'e', type: 'time_advance', target: 'period:morning', description: '' }, 14 * 60)).toBe(8 * 60);
+    expect(getTimeAdvanceMinutes({ id: 'e', type: 'time_advance', target: 'time', value: 30, description: '' }, 0)).toBe(30);
+    expect(() => getMinutesUntilPeriod(0, 'brunch')).toThrow('Unknown day period: brunch');
+  });
+
+  it('evaluates day, weekday and time-of-day triggers', () => {
+    const saturdayNight = 5 * 1440 + 15 * 60; // Day 6, 23:00
+
+    expect(evaluateCalendarTrigger({ id: 't', type: 'day', condition: 'day', operator: '=', value: 6, description: '' }, saturdayNight)).toBe(true);
+    expect(evaluateCalendarTrigger({ id: 't', type: 'weekday', condition: 'saturday,sunday', description: '' }, saturdayNight)).toBe(true);
+    expect(evaluateCalendarTrigger({ id: 't', type: 'weekday', condition: 'Saturday', operator: '!=', description: '' }, saturdayNight)).toBe(false);
+    expect(evaluateCalendarTrigger({ id: 't', type: 'time_of_day', condition: 'night', description: '' }, saturdayNight)).toBe(true);
+    expect(evaluateCalendarTrigger({ id: 't', type: 'time_of_day', condition: '22:00-02:00', description: '' }, saturdayNight)).toBe(true);
+    expect(evaluateCalendarTrigger({ id: 't', type: 'time_of_day', condition: '09:00-17:00', description: '' }, saturdayNight)).toBe(false);
+  });
+
+  it('rejects unusable calendar settings', () => {
+    expect(validateCalendar(DEFAULT_CALENDAR)).toEqual([]);
+    expect(validateCalendar({
+      ...DEFAULT_CALENDAR,
+      weekdays: [],
+      periods: [{ id: 'a', name: 'A', startMinute: 0 }, { id: 'a', name: 'B', startMinute: 2000 }]
+    })).toEqual([
+      'At least one weekday is required',
+      'Starting weekday must be one of the weekdays',
+      'Period id "a" is used more than once',
+      'Period "B" must start within the day'
+    ]);
+  });
+});
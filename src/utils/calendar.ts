@@ -0,0 +1,196 @@
+/**
+ * In-game calendar
+ *
+ * gameTime stays a plain minute counter; these helpers turn it into
+ * "Day 3, Friday 18:30 (Evening)" and evaluate day, weekday and
+ * time-of-day triggers against it.
+ */
+
+import type { CalendarConfig, CalendarDate, DayPeriod } from '../types/calendar';
+import type { StoryletEffect, StoryletTrigger } from '../types/storylet';
+
+export const DEFAULT_CALENDAR: CalendarConfig = {
+  minutesPerDay: 1440,
+  periods: [
+    { id: 'morning', name: 'Morning', startMinute: 6 * 60 },
+    { id: 'afternoon', name: 'Afternoon', startMinute: 12 * 60 },
+    { id: 'evening', name: 'Evening', startMinute: 18 * 60 },
+    { id: 'night', name: 'Night', startMinute: 22 * 60 }
+  ],
+  weekdays: ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'],
+  startDay: 1,
+  startMinuteOfDay: 8 * 60,
+  startWeekday: 0
+};
+
+const WINDOW_PATTERN = /^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/;
+
+/**
+ * Format a minute of the day as HH:MM
+ */
+export function formatClockTime(minuteOfDay: number): string {
+  const hour = Math.floor(minuteOfDay / 60);
+  const minute = minuteOfDay % 60;
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Parse HH:MM into a minute of the day
+ */
+export function parseClockTime(text: string): number | undefined {
+  const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+  if (!match) return undefined;
+  const hour = parseInt(match[1], 10);
+  const minute = parseInt(match[2], 10);
+  return minute < 60 ? hour * 60 + minute : undefined;
+}
+
+/**
+ * Check a calendar configuration for values the helpers cannot work with
+ */
+export function validateCalendar(calendar: CalendarConfig): string[] {
+  const errors: string[] = [];
+
+  if (!Number.isInteger(calendar.minutesPerDay) || calendar.minutesPerDay < 1) {
+    errors.push('Day length must be a positive whole number of minutes');
+  }
+  if (calendar.weekdays.length === 0) {
+    errors.push('At least one weekday is required');
+  }
+  if (calendar.startWeekday < 0 || calendar.startWeekday >= calendar.weekdays.length) {
+    errors.push('Starting weekday must be one of the weekdays');
+  }
+  if (calendar.startMinuteOfDay < 0 || calendar.startMinuteOfDay >= calendar.minutesPerDay) {
+    errors.push('Starting time must fall within the day');
+  }
+
+  const ids = new Set<string>();
+  calendar.periods.forEach(period => {
+    if (!period.id.trim() || !period.name.trim()) {
+      errors.push('Every period needs an id and a name');
+    } else if (ids.has(period.id)) {
+      errors.push(`Period id "${period.id}" is used more than once`);
+    }
+    ids.add(period.id);
+    if (period.startMinute < 0 || period.startMinute >= calendar.minutesPerDay) {
+      errors.push(`Period "${period.name}" must start within the day`);
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * Find the period in effect at a minute of the day
+ */
+export function getPeriodAt(minuteOfDay: number, calendar: CalendarConfig): DayPeriod | undefined {
+  const periods = [...calendar.periods].sort((a, b) => a.startMinute - b.startMinute);
+  // Before the first period starts, the last period carries over from the previous day
+  return [...periods].reverse().find(period => period.startMinute <= minuteOfDay) ?? periods[periods.length - 1];
+}
+
+/**
+ * Convert gameTime minutes into a calendar date
+ */
+export function getCalendarDate(gameTime: number, calendar: CalendarConfig = DEFAULT_CALENDAR): CalendarDate {
+  const absoluteMinute = calendar.startMinuteOfDay + gameTime;
+  const dayOffset = Math.floor(absoluteMinute / calendar.minutesPerDay);
+  const minuteOfDay = absoluteMinute - dayOffset * calendar.minutesPerDay;
+  const weekdayCount = Math.max(1, calendar.weekdays.length);
+  const weekdayIndex = (((calendar.startWeekday + dayOffset) % weekdayCount) + weekdayCount) % weekdayCount;
+
+  return {
+    day: calendar.startDay + dayOffset,
+    weekday: calendar.weekdays[weekdayIndex] ?? '',
+    weekdayIndex,
+    minuteOfDay,
+    hour: Math.floor(minuteOfDay / 60),
+    minute: minuteOfDay % 60,
+    period: getPeriodAt(minuteOfDay, calendar)
+  };
+}
+
+/**
+ * Display string for gameTime, e.g. "Day 3, Friday 18:30 (Evening)"
+ */
+export function formatGameTime(gameTime: number, calendar: CalendarConfig = DEFAULT_CALENDAR): string {
+  const date = getCalendarDate(gameTime, calendar);
+  const weekday = date.weekday ? ` ${date.weekday}` : '';
+  const period = date.period ? ` (${date.period.name})` : '';
+  return `Day ${date.day},${weekday} ${formatClockTime(date.minuteOfDay)}${period}`;
+}
+
+/**
+ * Minutes from gameTime until the next start of a period (always in the future)
+ */
+export function getMinutesUntilPeriod(gameTime: number, periodId: string, calendar: CalendarConfig = DEFAULT_CALENDAR): number {
+  const period = calendar.periods.find(p => p.id === periodId || p.name.toLowerCase() === periodId.toLowerCase());
+  if (!period) {
+    throw new Error(`Unknown day period: ${periodId}`);
+  }
+
+  const { minuteOfDay } = getCalendarDate(gameTime, calendar);
+  const minutes = period.startMinute - minuteOfDay;
+  return minutes > 0 ? minutes : minutes + calendar.minutesPerDay;
+}
+
+/**
+ * Minutes a time_advance effect moves the clock.
+ * Targets of the form "period:<id>" advance to the next start of that period;
+ * anything else advances by the effect value in minutes.
+ */
+export function getTimeAdvanceMinutes(effect: StoryletEffect, gameTime: number, calendar: CalendarConfig = DEFAULT_CALENDAR): number {
+  if (effect.target?.startsWith('period:')) {
+    return getMinutesUntilPeriod(gameTime, effect.target.slice('period:'.length).trim(), calendar);
+  }
+  return effect.value || 0;
+}
+
+/**
+ * Check whether a minute of the day falls inside a period id/name or an "HH:MM-HH:MM" window
+ */
+export function isWithinTimeOfDay(minuteOfDay: number, condition: string, calendar: CalendarConfig): boolean {
+  const window = condition.trim().match(WINDOW_PATTERN);
+  if (window) {
+    const start = parseInt(window[1], 10) * 60 + parseInt(window[2], 10);
+    const end = parseInt(window[3], 10) * 60 + parseInt(window[4], 10);
+    // Windows such as 22:00-02:00 wrap past midnight
+    return start <= end
+      ? minuteOfDay >= start && minuteOfDay < end
+      : minuteOfDay >= start || minuteOfDay < end;
+  }
+
+  const period = getPeriodAt(minuteOfDay, calendar);
+  const wanted = condition.trim().toLowerCase();
+  return !!period && (period.id.toLowerCase() === wanted || period.name.toLowerCase() === wanted);
+}
+
+/**
+ * Evaluate 'day', 'time_of_day' and 'weekday' triggers
+ */
+export function evaluateCalendarTrigger(trigger: StoryletTrigger, gameTime: number, calendar: CalendarConfig = DEFAULT_CALENDAR): boolean {
+  const date = getCalendarDate(gameTime, calendar);
+
+  switch (trigger.type) {
+    case 'day': {
+      const target = trigger.value || 0;
+      switch (trigger.operator || '>=') {
+        case '>': return date.day > target;
+        case '<': return date.day < target;
+        case '=': return date.day === target;
+        case '>=': return date.day >= target;
+        case '<=': return date.day <= target;
+        case '!=': return date.day !== target;
+        default: return false;
+      }
+    }
+    case 'time_of_day':
+      return isWithinTimeOfDay(date.minuteOfDay, trigger.condition, calendar) === (trigger.operator !== '!=');
+    case 'weekday': {
+      const weekdays = trigger.condition.split(',').map(day => day.trim().toLowerCase()).filter(Boolean);
+      return weekdays.includes(date.weekday.toLowerCase()) === (trigger.operator !== '!=');
+    }
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for weighted choice outcomes
+ * Covers modifier sources, weighted picks and chance summaries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeOutcomeChances, getOutcomeWeights, pickOutcome, type OutcomeWeightContext } from './choiceOutcomes';
+import { validateStorylet } from './dataValidation';
+import { deserializeStorylet, serializeStorylet } from '../db/serialization';
+import type { StoryletChoice, StoryletChoiceOutcome } from '../types/storylet';
+import type { Character } from '../types/character';
+
+const outcome = (id: string, weight: number, overrides: Partial<StoryletChoiceOutcome> = {}): StoryletChoiceOutcome => ({
+  id,
+  label: id,
+  weight,
+  effects: [],
+  ...overrides
+});
+
+const context: OutcomeWeightContext = {
+  resources: { knowledge: 20 },
+  variables: { trusted: true, suspicion: 4 },
+  characters: [{ id: 'detective', attributes: [{ id: 'lockpicking', name: 'Lockpicking', value: 3 }] } as unknown as Character]
+};
+
+describe('choiceOutcomes', () => {
+  it('adjusts weights by resources, variables and character attributes', () => {
+    const outcomes = [
+      outcome('success', 10, {
+        modifiers: [
+          { id: 'm1', source: 'resource', target: 'knowledge', perPoint: 0.5 },
+          { id: 'm2', source: 'variable', target: 'trusted', perPoint: 5 },
+          { id: 'm3', source: 'attribute', target: 'Lockpicking', characterId: 'detective', perPoint: 2 }
+        ]
+      }),
+      outcome('failure', 10, { modifiers: [{ id: 'm4', source: 'variable', target: 'suspicion', perPoint: -5 }] })
+    ];
+
+    expect(getOutcomeWeights(outcomes, context)).toEqual({ success: 31, failure: 0 });
+  });
+
+  it('picks outcomes across the roll range', () => {
+    const outcomes = [outcome('success', 70), outcome('failure', 30)];
+    const weights = { success: 70, failure: 30 };
+
+    expect(pickOutcome(outcomes, weights, 0).id).toBe('success');
+    expect(pickOutcome(outcomes, weights, 0.69).id).toBe('success');
+    expect(pickOutcome(outcomes, weights, 0.7).id).toBe('failure');
+    expect(pickOutcome(outcomes, { success: 0, failure: 0 }, 0.9).id).toBe('success');
+    expect(describeOutcomeChances(outcomes, weights)).toBe('success 70% / failure 30%');
+  });
+
+  it('keeps outcomes and the events they schedule through a save and reload', () => {
+    const choice: StoryletChoice = {
+      id: 'bribe',
+      text: 'Bribe the guard',
+      effects: [],
+      outcomes: [
+        outcome('taken', 70, {
+          modifiers: [{ id: 'm1', source: 'resource', target: 'money', perPoint: 1 }],
+          effects: [{
+            id: 'report',
+            type: 'schedule_event',
+            target: 'guard_reports',
+            value: 60,
+            scheduledEffects: [
+              { id: 'suspicion', type: 'set_variable', target: 'suspicion', variableValue: 'high', description: 'The guard talks' },
+              { id: 'fine', type: 'resource', target: 'money', value: 10, operator: '-', description: 'Fined' }
+            ],
+            description: 'The guard reports you'
+          }]
+        }),
+        outcome('refused', 30, { nextStoryletId: 'cell' })
+      ]
+    };
+    const { sanitizedData } = validateStorylet({
+      title: 'The guard post',
+      description: 'A bored guard',
+      content: 'The guard eyes your purse.',
+      status: 'dev',
+      triggers: [],
+      choices: [choice],
+      effects: []
+    });
+
+    expect(deserializeStorylet(serializeStorylet(sanitizedData)).choices).toEqual([choice]);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Weighted choice outcomes
+ *
+ * A choice with outcomes rolls one of them when taken. Base weights are
+ * adjusted by resources, story variables and character attributes, so a
+ * skilled or well-stocked player succeeds more often.
+ */
+
+import type { ChoiceOutcomeModifier, StoryletChoiceOutcome, StoryVariableValue } from '../types/storylet';
+import type { Character } from '../types/character';
+
+export interface OutcomeWeightContext {
+  resources: Record<string, number>;
+  variables: Record<string, StoryVariableValue>;
+  characters: Character[];
+}
+
+export const OUTCOME_MODIFIER_SOURCE_LABELS: Record<ChoiceOutcomeModifier['source'], string> = {
+  resource: 'Resource',
+  variable: 'Story variable',
+  attribute: 'Character attribute'
+};
+
+/**
+ * Current value of a modifier's source; missing values count as 0
+ */
+export function getModifierSourceValue(modifier: ChoiceOutcomeModifier, context: OutcomeWeightContext): number {
+  switch (modifier.source) {
+    case 'resource':
+      return context.resources[modifier.target] ?? 0;
+    case 'variable': {
+      const value = context.variables[modifier.target];
+      return typeof value === 'number' ? value : value === true ? 1 : 0;
+    }
+    case 'attribute': {
+      const character = context.characters.find(c => c.id === modifier.characterId);
+      const attribute = character?.attributes.find(a => a.id === modifier.target || a.name === modifier.target);
+      return attribute?.value ?? 0;
+    }
+  }
+}
+
+/**
+ * Effective weight of each outcome after modifiers, never below zero
+ */
+export function getOutcomeWeights(outcomes: StoryletChoiceOutcome[], context: OutcomeWeightContext): Record<string, number> {
+  return Object.fromEntries(outcomes.map(outcome => {
+    const bonus = (outcome.modifiers || []).reduce(
+      (sum, modifier) => sum + modifier.perPoint * getModifierSourceValue(modifier, context),
+      0
+    );
+    return [outcome.id, Math.max(0, outcome.weight + bonus)];
+  }));
+}
+
+/**
+ * Pick an outcome from a roll in [0, 1). When every weight is zero the first outcome is used.
+ */
+export function pickOutcome(outcomes: StoryletChoiceOutcome[], weights: Record<string, number>, roll: number): StoryletChoiceOutcome {
+  const total = outcomes.reduce((sum, outcome) => sum + (weights[outcome.id] ?? 0), 0);
+  if (total <= 0) {
+    return outcomes[0];
+  }
+
+  let remaining = roll * total;
+  for (const outcome of outcomes) {
+    remaining -= weights[outcome.id] ?? 0;
+    if (remaining < 0) {
+      return outcome;
+    }
+  }
+  return outcomes[outcomes.length - 1];
+}
+
+/**
+ * Chance of each outcome as a fraction of the total weight
+ */
+export function getOutcomeChances(outcomes: StoryletChoiceOutcome[], weights: Record<string, number>): Record<string, number> {
+  const total = outcomes.reduce((sum, outcome) => sum + (weights[outcome.id] ?? 0), 0);
+  return Object.fromEntries(outcomes.map(outcome => [
+    outcome.id,
+    total > 0 ? (weights[outcome.id] ?? 0) / total : outcome === outcomes[0] ? 1 : 0
+  ]));
+}
+
+/**
+ * Summary such as "Success 70% / Failure 30%"
+ */
+export function describeOutcomeChances(outcomes: StoryletChoiceOutcome[], weights: Record<string, number>): string {
+  const chances = getOutcomeChances(outcomes, weights);
+  return outcomes.map(outcome => `${outcome.label || 'Outcome'} ${Math.round(chances[outcome.id] * 100)}%`).join(' / ');
+}
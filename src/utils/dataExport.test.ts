@@ -333,7 +333,7 @@ describe('DataImporter', () => {
 
       const result = DataImporter.validateImportData(dataWithNoArrays);
       expect(result.isValid).toBe(false);
-      expect(result.errors).toContain('No valid data found (storylets, arcs, or clues)');
+      expect(result.errors).toContain('No valid data found (storylets, arcs, clues, or items)');
     });
   });
 
@@ -719,6 +719,18 @@ describe('DataImporter', () => {
       expect(result.clues).toHaveLength(0);
       expect(result.errors).toHaveLength(0);
     });
+
+    it('should keep item ids so storylets still refer to them', () => {
+      const itemData: ExportData = JSON.parse(DataExporter.exportItems([
+        { id: 'lockpick', name: 'Lockpick', description: 'Opens doors', stackable: true, tags: ['tool'] }
+      ]));
+      itemData.data.items!.push({ id: 'Bad Id', name: '', description: '', stackable: false, tags: [] });
+
+      const result = DataImporter.processImportData(itemData);
+
+      expect(result.items).toEqual([{ id: 'lockpick', name: 'Lockpick', description: 'Opens doors', stackable: true, tags: ['tool'] }]);
+      expect(result.errors).toEqual(['Item 2: Missing or invalid id, Missing or invalid name']);
+    });
   });
 
   describe('Edge Cases and Error Handling', () => {
@@ -1,5 +1,7 @@
 import type { StoryArc } from '../types/narrative';
 import type { Clue } from '../types/clue';
+import type { ItemDefinition } from '../types/item';
+import { ITEM_ID_PATTERN } from './items';
 
 // Use the storylet interface from the narrative store
 interface Storylet {
@@ -27,6 +29,7 @@ export interface ExportData {
     storylets?: Storylet[];
     arcs?: StoryArc[];
     clues?: Clue[];
+    items?: ItemDefinition[];
   };
   metadata: {
     exportedBy?: string;
@@ -41,6 +44,7 @@ export interface ImportResult {
     storylets: number;
     arcs: number;
     clues: number;
+    items: number;
   };
   errors: string[];
   warnings: string[];
@@ -104,20 +108,39 @@ export class DataExporter {
   }
 
   /**
-   * Export all data (storylets, arcs, clues) to JSON format
+   * Export the item catalog to JSON format
+   */
+  static exportItems(items: ItemDefinition[], metadata?: Partial<ExportData['metadata']>): string {
+    const exportData: ExportData = {
+      version: this.CURRENT_VERSION,
+      timestamp: new Date().toISOString(),
+      data: { items },
+      metadata: {
+        description: `Export of ${items.length} items`,
+        tags: ['items'],
+        ...metadata
+      }
+    };
+
+    return JSON.stringify(exportData, null, 2);
+  }
+
+  /**
+   * Export all data (storylets, arcs, clues, item catalog) to JSON format
    */
   static exportAll(
     storylets: Storylet[], 
     arcs: StoryArc[], 
     clues: Clue[], 
+    items: ItemDefinition[] = [],
     metadata?: Partial<ExportData['metadata']>
   ): string {
     const exportData: ExportData = {
       version: this.CURRENT_VERSION,
       timestamp: new Date().toISOString(),
-      data: { storylets, arcs, clues },
+      data: { storylets, arcs, clues, items },
       metadata: {
-        description: `Complete export: ${storylets.length} storylets, ${arcs.length} arcs, ${clues.length} clues`,
+        description: `Complete export: ${storylets.length} storylets, ${arcs.length} arcs, ${clues.length} clues, ${items.length} items`,
         tags: ['complete', 'storylets', 'arcs', 'clues'],
         ...metadata
       }
@@ -179,9 +202,10 @@ export class DataImporter {
     const hasStorylets = Array.isArray(data.data.storylets);
     const hasArcs = Array.isArray(data.data.arcs);
     const hasClues = Array.isArray(data.data.clues);
+    const hasItems = Array.isArray(data.data.items);
 
-    if (!hasStorylets && !hasArcs && !hasClues) {
-      errors.push('No valid data found (storylets, arcs, or clues)');
+    if (!hasStorylets && !hasArcs && !hasClues && !hasItems) {
+      errors.push('No valid data found (storylets, arcs, clues, or items)');
     }
 
     return { isValid: errors.length === 0, errors };
@@ -270,6 +294,23 @@ export class DataImporter {
     return errors;
   }
 
+  /**
+   * Validate an item catalog entry
+   */
+  static validateItem(item: Partial<ItemDefinition>): string[] {
+    const errors: string[] = [];
+
+    if (!item.id || typeof item.id !== 'string' || !ITEM_ID_PATTERN.test(item.id)) {
+      errors.push('Missing or invalid id');
+    }
+
+    if (!item.name || typeof item.name !== 'string') {
+      errors.push('Missing or invalid name');
+    }
+
+    return errors;
+  }
+
   /**
    * Parse and validate import file
    */
@@ -299,6 +340,7 @@ export class DataImporter {
     storylets: Storylet[];
     arcs: StoryArc[];
     clues: Clue[];
+    items: ItemDefinition[];
     errors: string[];
     warnings: string[];
   } {
@@ -307,6 +349,7 @@ export class DataImporter {
     const storylets: Storylet[] = [];
     const arcs: StoryArc[] = [];
     const clues: Clue[] = [];
+    const items: ItemDefinition[] = [];
 
     // Process storylets
     if (data.data.storylets) {
@@ -379,6 +422,24 @@ export class DataImporter {
       });
     }
 
-    return { storylets, arcs, clues, errors, warnings };
+    // Process items: ids are kept because storylet triggers and effects refer to them
+    if (data.data.items) {
+      data.data.items.forEach((item, index) => {
+        const itemErrors = this.validateItem(item);
+        if (itemErrors.length > 0) {
+          errors.push(`Item ${index + 1}: ${itemErrors.join(', ')}`);
+        } else {
+          items.push({
+            id: item.id,
+            name: item.name,
+            description: item.description || '',
+            stackable: !!item.stackable,
+            tags: item.tags || []
+          });
+        }
+      });
+    }
+
+    return { storylets, arcs, clues, items, errors, warnings };
   }
 }
\ No newline at end of file
@@ -3,6 +3,8 @@
  */
 
 import { sanitizeMetadata, sanitizeStoryletContent, sanitizeJsonData } from './sanitization';
+import { isConditionGroup } from './storyletConditions';
+import type { StoryletChoice, StoryletChoiceOutcome, StoryletConditionGroup, StoryletEffect, StoryletTrigger } from '../types/storylet';
 
 export interface ValidationResult {
   isValid: boolean;
@@ -77,6 +79,55 @@ function validateEnum(data: any, field: string, allowedValues: string[]): string
 /**
  * Storylet validator
  */
+// Storylet choices, triggers, conditions and effects keep their ids, operators and values
+// as written, however deeply they nest; only the text shown to players is sanitized
+
+function sanitizeEffect(effect: StoryletEffect): StoryletEffect {
+  return {
+    ...effect,
+    description: sanitizeMetadata(effect.description || ''),
+    ...(Array.isArray(effect.scheduledEffects) && { scheduledEffects: effect.scheduledEffects.map(sanitizeEffect) })
+  };
+}
+
+function sanitizeTrigger(trigger: StoryletTrigger): StoryletTrigger {
+  return { ...trigger, description: sanitizeMetadata(trigger.description || '') };
+}
+
+function sanitizeConditionGroup(group: StoryletConditionGroup): StoryletConditionGroup {
+  return {
+    ...group,
+    ...(group.description !== undefined && { description: sanitizeMetadata(group.description) }),
+    conditions: group.conditions.map(condition => isConditionGroup(condition) ? sanitizeConditionGroup(condition) : sanitizeTrigger(condition))
+  };
+}
+
+function sanitizeOutcome(outcome: StoryletChoiceOutcome): StoryletChoiceOutcome {
+  return {
+    ...outcome,
+    label: sanitizeMetadata(outcome.label || ''),
+    effects: Array.isArray(outcome.effects) ? outcome.effects.map(sanitizeEffect) : []
+  };
+}
+
+// Choice text is a template like the content
+function sanitizeChoice(choice: StoryletChoice): StoryletChoice {
+  return {
+    ...choice,
+    text: sanitizeStoryletContent(choice.text || ''),
+    ...(choice.description !== undefined && { description: sanitizeMetadata(choice.description) }),
+    ...(Array.isArray(choice.requirements) && { requirements: choice.requirements.map(sanitizeTrigger) }),
+    effects: Array.isArray(choice.effects) ? choice.effects.map(sanitizeEffect) : [],
+    ...(Array.isArray(choice.outcomes) && { outcomes: choice.outcomes.map(sanitizeOutcome) })
+  };
+}
+
+const isObjectArray = (value: unknown): value is object[] =>
+  Array.isArray(value) && value.every(item => typeof item === 'object' && item !== null);
+
+const isConditionGroupData = (group: StoryletConditionGroup): boolean =>
+  isObjectArray(group.conditions) && group.conditions.every(condition => !isConditionGroup(condition) || isConditionGroupData(condition));
+
 export function validateStorylet(data: any): ValidationResult {
   const errors: ValidationError[] = [];
   const warnings: ValidationWarning[] = [];
@@ -121,14 +172,41 @@ export function validateStorylet(data: any): ValidationResult {
     }
   }
 
-  if (data.choices !== undefined && !Array.isArray(data.choices)) {
+  if (data.choices !== undefined && !isObjectArray(data.choices)) {
     errors.push({ field: 'choices', message: 'choices must be an array', code: 'INVALID_TYPE', severity: 'error' });
   }
 
-  if (data.effects !== undefined && !Array.isArray(data.effects)) {
+  if (data.effects !== undefined && !isObjectArray(data.effects)) {
     errors.push({ field: 'effects', message: 'effects must be an array', code: 'INVALID_TYPE', severity: 'error' });
   }
 
+  if (data.triggers !== undefined && !isObjectArray(data.triggers)) {
+    errors.push({ field: 'triggers', message: 'triggers must be an array', code: 'INVALID_TYPE', severity: 'error' });
+  }
+
+  if (data.beats !== undefined && (!Array.isArray(data.beats) || data.beats.some((beat: { content?: unknown } | null) => typeof beat?.content !== 'string'))) {
+    errors.push({ field: 'beats', message: 'beats must be an array of pages with content', code: 'INVALID_TYPE', severity: 'error' });
+  }
+
+  if (data.conditions !== undefined && (typeof data.conditions !== 'object' || data.conditions === null || !isConditionGroupData(data.conditions))) {
+    errors.push({ field: 'conditions', message: 'conditions must be a condition group', code: 'INVALID_TYPE', severity: 'error' });
+  }
+
+  if (data.repeat !== undefined && (typeof data.repeat !== 'object' || data.repeat === null)) {
+    errors.push({ field: 'repeat', message: 'repeat must be a repeat policy', code: 'INVALID_TYPE', severity: 'error' });
+  } else if (data.repeat !== undefined) {
+    const modeError = validateEnum(data.repeat, 'mode', ['once', 'repeatable', 'limited', 'cooldown']);
+    if (modeError) errors.push({ field: 'repeat', message: `repeat ${modeError}`, code: 'VALIDATION_ERROR', severity: 'error' });
+
+    if (data.repeat.maxPlays !== undefined && (typeof data.repeat.maxPlays !== 'number' || data.repeat.maxPlays < 1)) {
+      errors.push({ field: 'repeat', message: 'repeat.maxPlays must be a positive number', code: 'INVALID_RANGE', severity: 'error' });
+    }
+
+    if (data.repeat.cooldownMinutes !== undefined && (typeof data.repeat.cooldownMinutes !== 'number' || data.repeat.cooldownMinutes < 0)) {
+      errors.push({ field: 'repeat', message: 'repeat.cooldownMinutes must be zero or more', code: 'INVALID_RANGE', severity: 'error' });
+    }
+  }
+
   // Add warnings
   if (!data.tags || data.tags.length === 0) {
     warnings.push({ field: 'tags', message: 'Consider adding tags to improve organization' });
@@ -147,9 +225,10 @@ export function validateStorylet(data: any): ValidationResult {
       description: sanitizeMetadata(data.description || ''),
       content: sanitizeStoryletContent(data.content || ''),
       tags: data.tags ? data.tags.map((tag: string) => sanitizeMetadata(tag)) : [],
-      choices: data.choices ? sanitizeJsonData(data.choices, 5) : [],
-      effects: data.effects ? sanitizeJsonData(data.effects, 5) : [],
-      triggers: data.triggers ? sanitizeJsonData(data.triggers, 5) : []
+      choices: data.choices ? data.choices.map(sanitizeChoice) : [],
+      effects: data.effects ? data.effects.map(sanitizeEffect) : [],
+      triggers: data.triggers ? data.triggers.map(sanitizeTrigger) : [],
+      conditions: data.conditions ? sanitizeConditionGroup(data.conditions) : undefined
     };
   }
 
@@ -1,7 +1,7 @@
 /**
  * Debug utilities to check database state and troubleshoot visual editor issues
  */
-import { db, deserializeStorylet, deserializeStoryArc } from '../lib/db';
+import { db, deserializeStorylet, deserializeStoryArc } from '../db/database';
 import { useNarrativeStore } from '../stores/useNarrativeStore';
 
 /**
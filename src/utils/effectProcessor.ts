@@ -1,9 +1,18 @@
 // Effect processing utilities for storylet choices
-import type { StoryletEffect } from '../types/storylet';
+import type { StoryletEffect, StoryVariableValue } from '../types/storylet';
+import type { Character } from '../types/character';
+import type { Clue } from '../types/clue';
 import { useCharacterStore } from '../stores/useCharacterStore';
 import { useClueStore } from '../stores/useClueStore';
 import { useNarrativeStore } from '../stores/useNarrativeStore';
 import { useCoreGameStore } from '../stores/useCoreGameStore';
+import { getDefaultVariableValues } from './storyVariables';
+import { formatGameTime } from './calendar';
+import { getEffectTargets, getRelationshipMaxValues, reduceEffect, type EffectRules, type EffectState } from './effectReducer';
+import { RELATIONSHIP_BOUNDS } from '../constants/game';
+import { parseUnlockTarget } from './storyletUnlocks';
+import { advanceArc, completeArc, createArcProgress, getArcCompletion } from './arcProgress';
+import { formatItemLabel, getItemDefinition } from './items';
 
 export interface EffectProcessorContext {
   playerId?: string;
@@ -21,8 +30,12 @@ export interface EffectResult {
     relationships?: { characterId: string; oldValue: number; newValue: number }[];
     cluesDiscovered?: string[];
     storyletsUnlocked?: string[];
+    storyletsLocked?: string[];
     arcProgress?: { arcId: string; progress: number }[];
     timeAdvanced?: number;
+    variables?: Record<string, StoryVariableValue>;
+    inventory?: Record<string, number>;
+    eventsScheduled?: { storyletId?: string; dueAt: number }[];
   };
 }
 
@@ -53,10 +66,12 @@ export const processStoryletEffect = async (
         break;
         
       case 'storylet_unlock':
+      case 'storylet_lock':
         await processStoryletUnlockEffect(effect, result);
         break;
         
       case 'arc_progress':
+      case 'arc_complete':
         await processArcProgressEffect(effect, result);
         break;
         
@@ -64,6 +79,19 @@ export const processStoryletEffect = async (
         await processTimeAdvanceEffect(effect, result);
         break;
         
+      case 'set_variable':
+        await processVariableEffect(effect, result);
+        break;
+        
+      case 'item_grant':
+      case 'item_remove':
+        await processItemEffect(effect, result);
+        break;
+        
+      case 'schedule_event':
+        await processScheduleEffect(effect, result);
+        break;
+        
       default:
         result.error = `Unknown effect type: ${effect.type}`;
         return result;
@@ -79,57 +107,56 @@ export const processStoryletEffect = async (
   return result;
 };
 
+// Current store state and rules in the shape the effect reducer works on
+const getEffectState = (): EffectState => {
+  const { resources, gameTime, variables, unlocks, inventory, scheduledEvents } = useCoreGameStore.getState();
+  return {
+    resources: { ...resources },
+    relationships: useCharacterStore.getState().getPlayerRelationships(),
+    discoveredClues: useClueStore.getState().getDiscoveredClueIds(),
+    gameTime,
+    variables: { ...getDefaultVariableValues(useNarrativeStore.getState().storyVariables), ...variables },
+    unlocks,
+    inventory,
+    scheduledEvents
+  };
+};
+
+const getEffectRules = (): EffectRules => ({
+  resourceDefinitions: useCoreGameStore.getState().resourceDefinitions,
+  itemDefinitions: useCoreGameStore.getState().itemDefinitions,
+  calendar: useNarrativeStore.getState().calendar,
+  relationshipMaxValues: getRelationshipMaxValues(useCharacterStore.getState().characters),
+  variableDefinitions: useNarrativeStore.getState().storyVariables,
+  ...getEffectTargets(useNarrativeStore.getState().storylets)
+});
+
 const processResourceEffect = async (
   effect: StoryletEffect,
   result: EffectResult
 ): Promise<void> => {
   const { target, value = 0, operator = '+' } = effect;
   
-  const { resources, updateResource, setResource } = useCoreGameStore.getState();
+  const before = getEffectState();
+  const { state } = reduceEffect(before, effect, getEffectRules());
+  const oldValue = before.resources[target] ?? 0;
+  const newValue = state.resources[target];
   
-  // Check if target is a valid resource in the core game store
-  const validResources = ['energy', 'social', 'knowledge', 'money'] as const;
-  const resourceKey = validResources.find(key => key === target);
-  
-  if (!resourceKey) {
-    throw new Error(`Unknown resource: ${target}. Valid resources are: ${validResources.join(', ')}`);
-  }
-  
-  const oldValue = resources[resourceKey];
-  let newValue = oldValue;
-  
-  switch (operator) {
-    case '+':
-      updateResource(resourceKey, value);
-      newValue = resources[resourceKey] + value;
-      break;
-    case '-':
-      updateResource(resourceKey, -value);
-      newValue = Math.max(0, resources[resourceKey] - value);
-      break;
-    case '=':
-      setResource(resourceKey, value);
-      newValue = Math.max(0, value);
-      break;
-    case '*':
-      const multipliedValue = Math.max(0, resources[resourceKey] * value);
-      setResource(resourceKey, multipliedValue);
-      newValue = multipliedValue;
-      break;
-  }
+  useCoreGameStore.getState().setResource(target, newValue);
   
   result.changes.resources = { [target]: newValue };
   result.message = `${target}: ${oldValue} → ${newValue} (${operator}${value})`;
 };
 
-const processRelationshipEffect = async (
-  effect: StoryletEffect,
-  result: EffectResult
-): Promise<void> => {
-  const { target: characterId, value = 0, operator = '+' } = effect;
-  
-  // Get character store instance
-  const { getCharacter } = useCharacterStore.getState();
+/**
+ * Write the player's relationship with a character to the character store,
+ * starting it at the default if the character has none yet
+ */
+export const commitPlayerRelationship = async (
+  characterId: string,
+  value: number
+): Promise<{ character: Character; oldValue: number }> => {
+  const { getCharacter, addRelationship, updateRelationship } = useCharacterStore.getState();
   const character = getCharacter(characterId);
   
   if (!character) {
@@ -140,54 +167,64 @@ const processRelationshipEffect = async (
   let playerRelationship = character.relationships.find(r => r.characterId === 'player');
   
   if (!playerRelationship) {
-    // Create new relationship
-    const { addRelationship } = useCharacterStore.getState();
     await addRelationship(characterId, {
       characterId: 'player',
       type: 'trust',
-      value: 50,
-      maxValue: 100,
+      value: RELATIONSHIP_BOUNDS.DEFAULT,
+      maxValue: RELATIONSHIP_BOUNDS.MAX,
       description: 'Relationship with player'
     });
     
     // Refetch character after adding relationship
-    const updatedCharacter = getCharacter(characterId);
-    playerRelationship = updatedCharacter?.relationships.find(r => r.characterId === 'player');
+    playerRelationship = useCharacterStore.getState().getCharacter(characterId)?.relationships.find(r => r.characterId === 'player');
   }
   
   if (!playerRelationship) {
     throw new Error('Failed to create player relationship');
   }
   
-  const oldValue = playerRelationship.value;
-  let newValue = oldValue;
-  
-  switch (operator) {
-    case '+':
-      newValue = oldValue + value;
-      break;
-    case '-':
-      newValue = oldValue - value;
-      break;
-    case '=':
-      newValue = value;
-      break;
-    case '*':
-      newValue = oldValue * value;
-      break;
-  }
-  
-  // Clamp to bounds
-  const maxValue = playerRelationship.maxValue || 100;
-  newValue = Math.max(0, Math.min(maxValue, newValue));
-  
-  // Update relationship
-  const { updateRelationship } = useCharacterStore.getState();
   await updateRelationship(characterId, playerRelationship.id, {
-    value: newValue,
+    value,
     lastUpdated: new Date()
   });
   
+  return { character, oldValue: playerRelationship.value };
+};
+
+/**
+ * Record a clue found through a storylet in the clue store
+ */
+export const commitClueDiscovery = async (
+  clueId: string,
+  discovery: { discoveredBy?: string; storyletId?: string; discoveryContext?: string } = {}
+): Promise<Clue> => {
+  const { getClue, discoverClue } = useClueStore.getState();
+  const clue = getClue(clueId);
+  
+  if (!clue) {
+    throw new Error(`Clue not found: ${clueId}`);
+  }
+  
+  await discoverClue(clueId, {
+    discoveryMethod: 'storylet',
+    discoveredBy: discovery.discoveredBy || 'player',
+    storyletId: discovery.storyletId,
+    discoveryContext: discovery.discoveryContext
+  });
+  
+  return clue;
+};
+
+const processRelationshipEffect = async (
+  effect: StoryletEffect,
+  result: EffectResult
+): Promise<void> => {
+  const { target: characterId } = effect;
+  
+  const { state } = reduceEffect(getEffectState(), effect, getEffectRules());
+  const newValue = state.relationships[characterId];
+  const { character, oldValue } = await commitPlayerRelationship(characterId, newValue);
+  
   result.changes.relationships = [{
     characterId,
     oldValue,
@@ -205,22 +242,19 @@ const processClueDiscoveryEffect = async (
 ): Promise<void> => {
   const { target: clueId } = effect;
   
-  const { getClue, discoverClue } = useClueStore.getState();
-  const clue = getClue(clueId);
-  
+  const clue = useClueStore.getState().getClue(clueId);
   if (!clue) {
     throw new Error(`Clue not found: ${clueId}`);
   }
   
-  if (clue.isDiscovered) {
+  const { diff } = reduceEffect(getEffectState(), effect, getEffectRules());
+  if (!diff.discoveredClues) {
     result.message = `Clue "${clue.title}" was already discovered`;
     return;
   }
   
-  // Discover the clue
-  await discoverClue(clueId, {
-    discoveryMethod: 'storylet',
-    discoveredBy: context.playerId || 'player',
+  await commitClueDiscovery(clueId, {
+    discoveredBy: context.playerId,
     storyletId: context.currentStoryletId,
     discoveryContext: effect.description
   });
@@ -244,19 +278,22 @@ const processStoryletUnlockEffect = async (
   effect: StoryletEffect,
   result: EffectResult
 ): Promise<void> => {
-  const { target: storyletId } = effect;
-  
-  const { getStorylet } = useNarrativeStore.getState();
-  const storylet = getStorylet(storyletId);
-  
-  if (!storylet) {
-    throw new Error(`Storylet not found: ${storyletId}`);
+  const { state } = reduceEffect(getEffectState(), effect, getEffectRules());
+  useCoreGameStore.getState().setUnlocks(state.unlocks);
+  
+  const { kind, id } = parseUnlockTarget(effect.target);
+  const { storylets, getStorylet } = useNarrativeStore.getState();
+  const storylet = kind === 'storylet' ? getStorylet(id) : storylets.find(s => s.choices.some(choice => choice.id === id));
+  
+  const verb = effect.type === 'storylet_lock' ? 'Locked' : 'Unlocked';
+  if (effect.type === 'storylet_lock') {
+    result.changes.storyletsLocked = [effect.target];
+  } else {
+    result.changes.storyletsUnlocked = [effect.target];
   }
-  
-  // In a full implementation, this would update the storylet's unlock status
-  // For now, we'll just record that it was unlocked
-  result.changes.storyletsUnlocked = [storyletId];
-  result.message = `Unlocked storylet: "${storylet.title}"`;
+  result.message = kind === 'storylet'
+    ? `${verb} storylet: "${storylet?.title ?? id}"`
+    : `${verb} choice in "${storylet?.title ?? id}"`;
 };
 
 const processArcProgressEffect = async (
@@ -265,33 +302,91 @@ const processArcProgressEffect = async (
 ): Promise<void> => {
   const { target: arcId, value = 1 } = effect;
   
-  const { getArc } = useNarrativeStore.getState();
+  const { getArc, storylets } = useNarrativeStore.getState();
   const arc = getArc(arcId);
   
   if (!arc) {
     throw new Error(`Arc not found: ${arcId}`);
   }
   
-  // In a full implementation, this would update arc progress
+  const gameStore = useCoreGameStore.getState();
+  const now = new Date().toISOString();
+  const current = gameStore.arcProgress[arcId] || createArcProgress(arcId, now);
+  const progress = effect.type === 'arc_complete' ? completeArc(current, now) : advanceArc(current, value);
+  gameStore.updateArcProgress(progress);
+
   result.changes.arcProgress = [{
     arcId,
-    progress: value
+    progress: Math.round(getArcCompletion(arc, progress, storylets) * 100)
   }];
   
-  result.message = `Advanced "${arc.name}" progress by ${value}`;
+  result.message = effect.type === 'arc_complete'
+    ? `Completed arc "${arc.name}"`
+    : `Advanced arc "${arc.name}" by ${value}`;
 };
 
 const processTimeAdvanceEffect = async (
   effect: StoryletEffect,
   result: EffectResult
 ): Promise<void> => {
-  const { value = 1 } = effect;
+  const { diff, state } = reduceEffect(getEffectState(), effect, getEffectRules());
+  const minutes = diff.gameTime ?? 0;
   
-  const { advanceTime } = useCoreGameStore.getState();
-  advanceTime(value);
+  useCoreGameStore.getState().advanceTime(minutes);
   
-  result.changes.timeAdvanced = value;
-  result.message = `Advanced time by ${value} minutes`;
+  result.changes.timeAdvanced = minutes;
+  result.message = `Advanced time by ${minutes} minutes to ${formatGameTime(state.gameTime, useNarrativeStore.getState().calendar)}`;
+};
+
+const processVariableEffect = async (
+  effect: StoryletEffect,
+  result: EffectResult
+): Promise<void> => {
+  const { target: name } = effect;
+  
+  const before = getEffectState();
+  const { state } = reduceEffect(before, effect, getEffectRules());
+  const oldValue = before.variables[name];
+  const newValue = state.variables[name];
+  
+  useCoreGameStore.getState().setVariable(name, newValue);
+  
+  result.changes.variables = { [name]: newValue };
+  result.message = `${name}: ${String(oldValue)} → ${String(newValue)}`;
+};
+
+const processItemEffect = async (
+  effect: StoryletEffect,
+  result: EffectResult
+): Promise<void> => {
+  const { target: itemId } = effect;
+  
+  const gameStore = useCoreGameStore.getState();
+  const before = gameStore.inventory[itemId] ?? 0;
+  const { state } = reduceEffect(getEffectState(), effect, getEffectRules());
+  const after = state.inventory[itemId] ?? 0;
+  
+  gameStore.setInventory(state.inventory);
+  
+  const label = formatItemLabel(getItemDefinition(gameStore.itemDefinitions, itemId), itemId);
+  result.changes.inventory = { [itemId]: after };
+  result.message = effect.type === 'item_grant'
+    ? `Gained ${label} (${before} → ${after})`
+    : `Lost ${label} (${before} → ${after})`;
+};
+
+// Queues the event only; the execution engine delivers it when game time reaches it
+const processScheduleEffect = async (
+  effect: StoryletEffect,
+  result: EffectResult
+): Promise<void> => {
+  const { diff, state } = reduceEffect(getEffectState(), effect, getEffectRules());
+  useCoreGameStore.getState().setScheduledEvents(state.scheduledEvents);
+  
+  const storylet = effect.target ? useNarrativeStore.getState().getStorylet(effect.target) : undefined;
+  const [event] = diff.scheduledEvents ?? [];
+  result.changes.eventsScheduled = [{ storyletId: event.storyletId, dueAt: event.dueAt }];
+  result.message = `Scheduled ${storylet ? `"${storylet.title}"` : `${event.effects.length} effect(s)`} for ${formatGameTime(event.dueAt, useNarrativeStore.getState().calendar)}`;
 };
 
 // Batch process multiple effects
@@ -326,9 +421,10 @@ export const getGameResources = (): Record<string, number> => {
   return { ...resources };
 };
 
-// Validate if effect can be processed
+// Validate if effect can be processed, by reducing it against the current state without committing
 export const validateEffect = (effect: StoryletEffect): { valid: boolean; error?: string } => {
-  if (!effect.target?.trim()) {
+  // Scheduled events may carry only effects; the reducer checks they have one or the other
+  if (effect.type !== 'schedule_event' && !effect.target?.trim()) {
     return { valid: false, error: 'Effect target is required' };
   }
   
@@ -340,5 +436,11 @@ export const validateEffect = (effect: StoryletEffect): { valid: boolean; error?
     return { valid: false, error: 'Relationship effects require a numeric value' };
   }
   
+  try {
+    reduceEffect(getEffectState(), effect, getEffectRules());
+  } catch (error) {
+    return { valid: false, error: error instanceof Error ? error.message : 'Unknown error' };
+  }
+  
   return { valid: true };
 };
\ No newline at end of file
@@ -0,0 +1,116 @@
+/**
+ * Tests for the storylet effect reducer
+ * Covers clamping, diffs, unchanged input state and combined effect runs
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RESOURCE_DEFINITIONS } from '../constants/game';
+import { DEFAULT_CALENDAR } from './calendar';
+import { getEffectTargets, mergeEffectDiffs, reduceEffect, reduceEffects, type EffectRules, type EffectState } from './effectReducer';
+import type { StoryletEffect } from '../types/storylet';
+
+const rules: EffectRules = {
+  resourceDefinitions: DEFAULT_RESOURCE_DEFINITIONS,
+  itemDefinitions: [{ id: 'lockpick', name: 'Lockpick', description: '', stackable: true, tags: [] }],
+  calendar: DEFAULT_CALENDAR,
+  relationshipMaxValues: { mentor: 80 }
+};
+
+const createState = (): EffectState => ({
+  resources: { energy: 100, money: 10 },
+  relationships: { mentor: 70 },
+  discoveredClues: [],
+  gameTime: 0,
+  variables: { suspicion: 2 },
+  unlocks: { storylets: {}, choices: {} },
+  inventory: {},
+  scheduledEvents: []
+});
+
+const effect = (overrides: Partial<StoryletEffect>): StoryletEffect => ({
+  id: 'effect',
+  type: 'resource',
+  target: 'energy',
+  description: '',
+  ...overrides
+});
+
+describe('effectReducer', () => {
+  it('clamps every operator to the resource bounds without mutating the input', () => {
+    const state = createState();
+
+    const multiplied = reduceEffect(state, effect({ target: 'money', operator: '*', value: -3 }), rules);
+    expect(multiplied.state.resources.money).toBe(0);
+    expect(multiplied.diff).toEqual({ resources: { money: -10 } });
+
+    const spent = reduceEffect(state, effect({ operator: '-', value: 150 }), rules);
+    expect(spent.state.resources.energy).toBe(0);
+    expect(state.resources.energy).toBe(100);
+
+    expect(() => reduceEffect(state, effect({ target: 'mana', value: 1 }), rules)).toThrow('Unknown resource: mana');
+  });
+
+  it('clamps relationships, including multiplication, to the character cap', () => {
+    const state = createState();
+
+    expect(reduceEffect(state, effect({ type: 'relationship', target: 'mentor', operator: '*', value: 2 }), rules).state.relationships.mentor).toBe(80);
+    expect(reduceEffect(state, effect({ type: 'relationship', target: 'mentor', operator: '-', value: 100 }), rules).state.relationships.mentor).toBe(0);
+    // New relationships start from the default
+    expect(reduceEffect(state, effect({ type: 'relationship', target: 'rival', value: 5 }), rules).diff).toEqual({ relationships: { rival: 5 } });
+  });
+
+  it('combines a run of effects into one state and diff', () => {
+    const { state, diff } = reduceEffects(createState(), [
+      effect({ value: -10 }),
+      effect({ value: -5 }),
+      effect({ type: 'clue_discovery', target: 'torn_letter' }),
+      effect({ type: 'clue_discovery', target: 'torn_letter' }),
+      effect({ type: 'time_advance', target: 'period:evening' }),
+      effect({ type: 'set_variable', target: 'suspicion', operator: '+', value: 3 }),
+      effect({ type: 'storylet_unlock', target: 'next' }),
+      effect({ type: 'storylet_lock', target: 'choice:bribe' })
+    ], rules);
+
+    expect(state.resources.energy).toBe(85);
+    expect(state.discoveredClues).toEqual(['torn_letter']);
+    expect(state.gameTime).toBe(10 * 60);
+    expect(diff).toEqual({
+      resources: { energy: -15 },
+      discoveredClues: ['torn_letter'],
+      gameTime: 10 * 60,
+      variables: { suspicion: 5 },
+      unlocks: { storylets: { next: true }, choices: { bribe: false } }
+    });
+    expect(mergeEffectDiffs(diff, { gameTime: 30 }).gameTime).toBe(10 * 60 + 30);
+  });
+
+  it('grants and removes catalog items', () => {
+    const granted = reduceEffect(createState(), effect({ type: 'item_grant', target: 'lockpick', value: 2 }), rules);
+    expect(granted.state.inventory).toEqual({ lockpick: 2 });
+    expect(granted.diff).toEqual({ inventory: { lockpick: 2 } });
+
+    const removed = reduceEffect(granted.state, effect({ type: 'item_remove', target: 'lockpick', value: 5 }), rules);
+    expect(removed.state.inventory).toEqual({});
+    expect(removed.diff).toEqual({ inventory: { lockpick: -2 } });
+
+    expect(() => reduceEffect(createState(), effect({ type: 'item_grant', target: 'crowbar' }), rules)).toThrow('Unknown item: crowbar');
+  });
+
+  it('holds variables and storylet targets to the declared ones when given', () => {
+    const declared: EffectRules = {
+      ...rules,
+      variableDefinitions: [{ name: 'met_detective', type: 'boolean', defaultValue: false }, { name: 'suspicion', type: 'number', defaultValue: 0 }],
+      ...getEffectTargets([{ id: 'letter', choices: [{ id: 'reply' }] }])
+    };
+
+    expect(reduceEffect(createState(), effect({ type: 'set_variable', target: 'met_detective', variableValue: true }), declared).state.variables.met_detective).toBe(true);
+    expect(() => reduceEffect(createState(), effect({ type: 'set_variable', target: 'mood', variableValue: 'calm' }), declared)).toThrow('Unknown story variable: mood');
+    expect(() => reduceEffect(createState(), effect({ type: 'set_variable', target: 'suspicion', variableValue: 'high' }), declared)).toThrow('Variable suspicion expects a number value');
+    expect(reduceEffect(createState(), effect({ type: 'storylet_unlock', target: 'choice:reply' }), declared).state.unlocks.choices).toEqual({ reply: true });
+    expect(() => reduceEffect(createState(), effect({ type: 'storylet_unlock', target: 'choice:shout' }), declared)).toThrow('Choice not found: shout');
+    expect(() => reduceEffect(createState(), effect({ type: 'schedule_event', target: 'ghost', value: 60 }), declared)).toThrow('Storylet not found: ghost');
+
+    // Without declarations anything goes, as in a bare reducer call
+    expect(reduceEffect(createState(), effect({ type: 'set_variable', target: 'mood', variableValue: 'calm' }), rules).state.variables.mood).toBe('calm');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Storylet effect reducer
+ *
+ * The one definition of what an effect does to game state. The execution
+ * engine, effectProcessor and the sandbox all reduce effects through here
+ * and only differ in how they commit the result.
+ */
+
+import type { ScheduledEvent, StoryletEffect, StoryVariableDefinition, StoryVariableValue, UnlockState } from '../types/storylet';
+import type { Character } from '../types/character';
+import type { CalendarConfig } from '../types/calendar';
+import type { ResourceDefinition } from '../types/resource';
+import type { Inventory, ItemDefinition } from '../types/item';
+import { RELATIONSHIP_BOUNDS } from '../constants/game';
+import { clampResourceValue, getResourceDefinition } from './resources';
+import { getTimeAdvanceMinutes } from './calendar';
+import { applyVariableOperation, getVariableOperand, isVariableValueOfType } from './storyVariables';
+import { createUnlockState, parseUnlockTarget, setUnlocked } from './storyletUnlocks';
+import { addItems, getItemDefinition, removeItems } from './items';
+import { scheduleEvent } from './scheduledEvents';
+
+export const EFFECT_TYPES: StoryletEffect['type'][] = [
+  'resource',
+  'relationship',
+  'clue_discovery',
+  'storylet_unlock',
+  'storylet_lock',
+  'arc_progress',
+  'arc_complete',
+  'time_advance',
+  'set_variable',
+  'item_grant',
+  'item_remove',
+  'schedule_event'
+];
+
+export interface EffectState {
+  resources: Record<string, number>;
+  relationships: Record<string, number>;
+  discoveredClues: string[];
+  gameTime: number;
+  variables: Record<string, StoryVariableValue>;
+  unlocks: UnlockState;
+  inventory: Inventory;
+  scheduledEvents: ScheduledEvent[];
+}
+
+export interface EffectDiff {
+  resources?: Record<string, number>; // Change in value
+  relationships?: Record<string, number>; // Change in value
+  discoveredClues?: string[]; // Newly discovered only
+  gameTime?: number; // Minutes advanced
+  variables?: Record<string, StoryVariableValue>; // New values
+  unlocks?: UnlockState; // New unlock (true) or lock (false) overrides
+  inventory?: Record<string, number>; // Change in count
+  scheduledEvents?: ScheduledEvent[]; // Newly queued only
+}
+
+export interface EffectRules {
+  resourceDefinitions: ResourceDefinition[];
+  itemDefinitions: ItemDefinition[];
+  calendar: CalendarConfig;
+  relationshipMaxValues?: Record<string, number>; // Per-character cap, defaults to RELATIONSHIP_BOUNDS.MAX
+  variableDefinitions?: StoryVariableDefinition[]; // When given, set_variable only accepts these, at their declared type
+  storyletIds?: string[]; // When given, unlock, lock and schedule effects only accept these storylets
+  choiceIds?: string[]; // When given, unlock and lock effects only accept these choices
+}
+
+export interface EffectReduction {
+  state: EffectState;
+  diff: EffectDiff;
+}
+
+const applyNumericOperator = (current: number, operator: StoryletEffect['operator'], operand: number): number => {
+  switch (operator ?? '+') {
+    case '-': return current - operand;
+    case '=': return operand;
+    case '*': return current * operand;
+    default: return current + operand;
+  }
+};
+
+/**
+ * Apply one effect to a state without touching any store.
+ * Throws for effects that cannot apply, e.g. an unregistered resource.
+ */
+export function reduceEffect(state: EffectState, effect: StoryletEffect, rules: EffectRules): EffectReduction {
+  switch (effect.type) {
+    case 'resource': {
+      const definition = getResourceDefinition(rules.resourceDefinitions, effect.target);
+      if (!definition) {
+        throw new Error(`Unknown resource: ${effect.target}. Valid resources are: ${rules.resourceDefinitions.map(d => d.id).join(', ')}`);
+      }
+      const before = state.resources[effect.target] ?? 0;
+      const after = clampResourceValue(applyNumericOperator(before, effect.operator, effect.value ?? 0), definition);
+      return {
+        state: { ...state, resources: { ...state.resources, [effect.target]: after } },
+        diff: { resources: { [effect.target]: after - before } }
+      };
+    }
+
+    case 'relationship': {
+      // A character the player has no relationship with yet starts from the default
+      const before = state.relationships[effect.target] ?? RELATIONSHIP_BOUNDS.DEFAULT;
+      const max = rules.relationshipMaxValues?.[effect.target] ?? RELATIONSHIP_BOUNDS.MAX;
+      const after = Math.max(RELATIONSHIP_BOUNDS.MIN, Math.min(max, applyNumericOperator(before, effect.operator, effect.value ?? 0)));
+      return {
+        state: { ...state, relationships: { ...state.relationships, [effect.target]: after } },
+        diff: { relationships: { [effect.target]: after - before } }
+      };
+    }
+
+    case 'clue_discovery':
+      if (state.discoveredClues.includes(effect.target)) {
+        return { state, diff: {} };
+      }
+      return {
+        state: { ...state, discoveredClues: [...state.discoveredClues, effect.target] },
+        diff: { discoveredClues: [effect.target] }
+      };
+
+    case 'time_advance': {
+      const minutes = getTimeAdvanceMinutes(effect, state.gameTime, rules.calendar);
+      return {
+        state: { ...state, gameTime: state.gameTime + minutes },
+        diff: { gameTime: minutes }
+      };
+    }
+
+    case 'set_variable': {
+      const definition = rules.variableDefinitions?.find(d => d.name === effect.target);
+      if (rules.variableDefinitions && !definition) {
+        throw new Error(`Unknown story variable: ${effect.target}`);
+      }
+      const value = applyVariableOperation(state.variables[effect.target] ?? definition?.defaultValue, effect.operator || '=', getVariableOperand(effect));
+      if (definition && !isVariableValueOfType(value, definition.type)) {
+        throw new Error(`Variable ${effect.target} expects a ${definition.type} value`);
+      }
+      return {
+        state: { ...state, variables: { ...state.variables, [effect.target]: value } },
+        diff: { variables: { [effect.target]: value } }
+      };
+    }
+
+    case 'storylet_unlock':
+    case 'storylet_lock': {
+      const { kind, id } = parseUnlockTarget(effect.target);
+      const knownIds = kind === 'storylet' ? rules.storyletIds : rules.choiceIds;
+      if (knownIds && !knownIds.includes(id)) {
+        throw new Error(kind === 'storylet' ? `Storylet not found: ${id}` : `Choice not found: ${id}`);
+      }
+      const unlocked = effect.type === 'storylet_unlock';
+      return {
+        state: { ...state, unlocks: setUnlocked(state.unlocks, effect.target, unlocked) },
+        diff: { unlocks: setUnlocked(createUnlockState(), effect.target, unlocked) }
+      };
+    }
+
+    case 'item_grant': {
+      const definition = getItemDefinition(rules.itemDefinitions, effect.target);
+      if (!definition) {
+        throw new Error(`Unknown item: ${effect.target}`);
+      }
+      const before = state.inventory[effect.target] ?? 0;
+      const inventory = addItems(state.inventory, definition, effect.value ?? 1);
+      return {
+        state: { ...state, inventory },
+        diff: { inventory: { [effect.target]: inventory[effect.target] - before } }
+      };
+    }
+
+    // Removing more than is held just empties the slot
+    case 'item_remove': {
+      const before = state.inventory[effect.target] ?? 0;
+      const inventory = removeItems(state.inventory, effect.target, effect.value ?? 1);
+      return {
+        state: { ...state, inventory },
+        diff: { inventory: { [effect.target]: (inventory[effect.target] ?? 0) - before } }
+      };
+    }
+
+    // Queued for later; the events' own effects are reduced when they come due
+    case 'schedule_event': {
+      if (effect.target && rules.storyletIds && !rules.storyletIds.includes(effect.target)) {
+        throw new Error(`Storylet not found: ${effect.target}`);
+      }
+      const scheduledEvents = scheduleEvent(state.scheduledEvents, effect, state.gameTime, rules.calendar);
+      return {
+        state: { ...state, scheduledEvents },
+        diff: { scheduledEvents: scheduledEvents.slice(state.scheduledEvents.length) }
+      };
+    }
+
+    // Arc progress lives outside the reduced state
+    case 'arc_progress':
+    case 'arc_complete':
+      return { state, diff: {} };
+
+    default:
+      throw new Error(`Unknown effect type: ${(effect as StoryletEffect).type}`);
+  }
+}
+
+/**
+ * Combine two diffs as if their effects had been applied in order
+ */
+export function mergeEffectDiffs(first: EffectDiff, second: EffectDiff): EffectDiff {
+  const merged: EffectDiff = { ...first };
+
+  (['resources', 'relationships', 'inventory'] as const).forEach(key => {
+    if (!second[key]) return;
+    const totals = { ...merged[key] };
+    Object.entries(second[key]!).forEach(([id, change]) => {
+      totals[id] = (totals[id] ?? 0) + change;
+    });
+    merged[key] = totals;
+  });
+
+  if (second.discoveredClues) {
+    merged.discoveredClues = [...(merged.discoveredClues ?? []), ...second.discoveredClues];
+  }
+  if (second.scheduledEvents) {
+    merged.scheduledEvents = [...(merged.scheduledEvents ?? []), ...second.scheduledEvents];
+  }
+  if (second.gameTime !== undefined) {
+    merged.gameTime = (merged.gameTime ?? 0) + second.gameTime;
+  }
+  if (second.variables) {
+    merged.variables = { ...merged.variables, ...second.variables };
+  }
+  if (second.unlocks) {
+    merged.unlocks = {
+      storylets: { ...merged.unlocks?.storylets, ...second.unlocks.storylets },
+      choices: { ...merged.unlocks?.choices, ...second.unlocks.choices }
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Apply effects in order, returning the final state and the combined diff
+ */
+export function reduceEffects(state: EffectState, effects: StoryletEffect[], rules: EffectRules): EffectReduction {
+  return effects.reduce<EffectReduction>((acc, effect) => {
+    const next = reduceEffect(acc.state, effect, rules);
+    return { state: next.state, diff: mergeEffectDiffs(acc.diff, next.diff) };
+  }, { state, diff: {} });
+}
+
+/**
+ * Storylet and choice ids that unlock, lock and schedule effects may target
+ */
+export function getEffectTargets(storylets: { id?: string; choices: { id: string }[] }[]): Pick<EffectRules, 'storyletIds' | 'choiceIds'> {
+  return {
+    storyletIds: storylets.flatMap(storylet => storylet.id ? [storylet.id] : []),
+    choiceIds: storylets.flatMap(storylet => storylet.choices.map(choice => choice.id))
+  };
+}
+
+/**
+ * Per-character relationship caps from each character's player relationship
+ */
+export function getRelationshipMaxValues(characters: Character[]): Record<string, number> {
+  const maxValues: Record<string, number> = {};
+  characters.forEach(character => {
+    const relationship = character.relationships.find(rel => rel.characterId === 'player');
+    if (relationship?.maxValue !== undefined) {
+      maxValues[character.id] = relationship.maxValue;
+    }
+  });
+  return maxValues;
+}
@@ -0,0 +1,45 @@
+/**
+ * Tests for saved game helpers
+ * Covers slot labels and restoring relationships and clue discoveries
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyDiscoveredClues, applyPlayerRelationships, AUTOSAVE_SLOT, getSaveSlotLabel, getSaveSlots, isSaveSlot, QUICKSAVE_SLOT } from './gameSaves';
+import type { Character } from '../types/character';
+import type { Clue, ClueDiscovery } from '../types/clue';
+
+const character = (id: string, playerValue?: number) => ({
+  id,
+  relationships: playerValue === undefined ? [] : [{ id: `${id}-player`, characterId: 'player', type: 'trust', value: playerValue }]
+}) as unknown as Character;
+
+const clue = (id: string, isDiscovered: boolean) => ({ id, isDiscovered }) as Clue;
+
+describe('gameSaves', () => {
+  it('lists the quicksave, autosave and numbered slots', () => {
+    expect(getSaveSlots().slice(0, 3)).toEqual([QUICKSAVE_SLOT, AUTOSAVE_SLOT, 1]);
+    expect(getSaveSlotLabel(AUTOSAVE_SLOT)).toBe('Autosave');
+    expect(getSaveSlotLabel(QUICKSAVE_SLOT)).toBe('Quicksave');
+    expect(getSaveSlotLabel(2)).toBe('Slot 2');
+    expect(isSaveSlot(99)).toBe(false);
+  });
+
+  it('restores saved player relationships, adding any that are missing', () => {
+    const [detective, butler, maid] = applyPlayerRelationships(
+      [character('detective', 10), character('butler'), character('maid', 5)],
+      { detective: 40, butler: -20 }
+    );
+
+    expect(detective.relationships).toEqual([expect.objectContaining({ characterId: 'player', value: 40 })]);
+    expect(butler.relationships).toEqual([expect.objectContaining({ characterId: 'player', value: -20 })]);
+    expect(maid.relationships[0].value).toBe(5);
+  });
+
+  it('marks exactly the saved clues discovered', () => {
+    const discoveries = [{ clueId: 'letter' }, { clueId: 'knife' }] as ClueDiscovery[];
+    const restored = applyDiscoveredClues([clue('letter', false), clue('knife', true)], discoveries, ['letter']);
+
+    expect(restored.clues.map(c => c.isDiscovered)).toEqual([true, false]);
+    expect(restored.discoveries).toEqual([{ clueId: 'letter' }]);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Saved games
+ *
+ * A save holds one playthrough in a numbered slot. Slots 1 to SAVE_SLOT_COUNT
+ * belong to the player; the autosave and quicksave slots are written by the
+ * game itself. Capturing and restoring the stores is left to GameSaveManager.
+ */
+
+import type { Character } from '../types/character';
+import type { Clue, ClueDiscovery } from '../types/clue';
+
+export const AUTOSAVE_SLOT = 0;
+export const QUICKSAVE_SLOT = -1;
+export const SAVE_SLOT_COUNT = 5;
+
+/**
+ * Every slot in display order: quicksave, autosave, then the numbered slots
+ */
+export function getSaveSlots(): number[] {
+  return [QUICKSAVE_SLOT, AUTOSAVE_SLOT, ...Array.from({ length: SAVE_SLOT_COUNT }, (_, i) => i + 1)];
+}
+
+export function isSaveSlot(slot: number): boolean {
+  return getSaveSlots().includes(slot);
+}
+
+export function getSaveSlotLabel(slot: number): string {
+  if (slot === AUTOSAVE_SLOT) return 'Autosave';
+  if (slot === QUICKSAVE_SLOT) return 'Quicksave';
+  return `Slot ${slot}`;
+}
+
+/**
+ * Set each character's relationship with the player to its saved value.
+ * Characters the save knows nothing about, e.g. created since, keep theirs.
+ */
+export function applyPlayerRelationships(characters: Character[], relationships: Record<string, number>): Character[] {
+  return characters.map(character => {
+    const value = relationships[character.id];
+    if (value === undefined) {
+      return character;
+    }
+
+    const existing = character.relationships.find(rel => rel.characterId === 'player');
+    return {
+      ...character,
+      relationships: existing
+        ? character.relationships.map(rel => rel === existing ? { ...rel, value } : rel)
+        : [...character.relationships, { id: crypto.randomUUID(), characterId: 'player', type: 'trust', value }]
+    };
+  });
+}
+
+/**
+ * Mark exactly the saved clues discovered, dropping discovery records for the rest
+ */
+export function applyDiscoveredClues(
+  clues: Clue[],
+  discoveries: ClueDiscovery[],
+  discoveredClueIds: string[]
+): { clues: Clue[]; discoveries: ClueDiscovery[] } {
+  const discovered = new Set(discoveredClueIds);
+  return {
+    clues: clues.map(clue => clue.isDiscovered === discovered.has(clue.id) ? clue : { ...clue, isDiscovered: discovered.has(clue.id) }),
+    discoveries: discoveries.filter(discovery => discovered.has(discovery.clueId))
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Tests for the item catalog and inventory helpers
+ * Covers stacking, removal, has_item triggers and catalog validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { addItems, evaluateItemTrigger, formatItemLabel, removeItems, validateItemDefinitions } from './items';
+import type { ItemDefinition } from '../types/item';
+import type { StoryletTrigger } from '../types/storylet';
+
+const lockpick: ItemDefinition = { id: 'lockpick', name: 'Lockpick', description: '', stackable: true, tags: [] };
+const badge: ItemDefinition = { id: 'badge', name: 'Police Badge', description: '', stackable: false, tags: ['key'] };
+
+const hasItem = (overrides: Partial<StoryletTrigger> = {}): StoryletTrigger => ({
+  id: 'trigger',
+  type: 'has_item',
+  condition: 'lockpick',
+  description: '',
+  ...overrides
+});
+
+describe('items', () => {
+  it('stacks stackable items and holds others once', () => {
+    const inventory = addItems(addItems({}, lockpick, 2), lockpick, 1);
+    expect(inventory).toEqual({ lockpick: 3 });
+    expect(addItems(addItems(inventory, badge, 1), badge, 2)).toEqual({ lockpick: 3, badge: 1 });
+    expect(formatItemLabel(lockpick, 'lockpick', 3)).toBe('Lockpick ×3');
+  });
+
+  it('removes items without going below zero', () => {
+    const inventory = { lockpick: 3, badge: 1 };
+
+    expect(removeItems(inventory, 'lockpick', 1)).toEqual({ lockpick: 2, badge: 1 });
+    expect(removeItems(inventory, 'lockpick', 5)).toEqual({ badge: 1 });
+    expect(inventory).toEqual({ lockpick: 3, badge: 1 });
+  });
+
+  it('checks has_item triggers against the held count', () => {
+    expect(evaluateItemTrigger(hasItem(), {})).toBe(false);
+    expect(evaluateItemTrigger(hasItem(), { lockpick: 1 })).toBe(true);
+    expect(evaluateItemTrigger(hasItem({ operator: '>=', value: 3 }), { lockpick: 2 })).toBe(false);
+    expect(evaluateItemTrigger(hasItem({ operator: '=', value: 0 }), {})).toBe(true);
+  });
+
+  it('reports duplicate and malformed catalog entries', () => {
+    expect(validateItemDefinitions([lockpick, badge])).toEqual([]);
+    expect(validateItemDefinitions([lockpick, { ...badge, id: 'lockpick' }, { ...badge, id: 'Bad Id', name: ' ' }])).toEqual([
+      'Item id "lockpick" is used more than once',
+      'Item id "Bad Id" must use lowercase letters, numbers and underscores',
+      'Item "Bad Id" needs a name'
+    ]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Item catalog and inventory helpers
+ *
+ * Projects declare their own items; the player's inventory holds counts
+ * per item id. Non-stackable items are held at most once.
+ */
+
+import type { Inventory, ItemDefinition } from '../types/item';
+import type { StoryletTrigger } from '../types/storylet';
+
+export const ITEM_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Find an item definition by id
+ */
+export function getItemDefinition(definitions: ItemDefinition[], id: string): ItemDefinition | undefined {
+  return definitions.find(definition => definition.id === id);
+}
+
+/**
+ * Add items, holding non-stackable ones at most once
+ */
+export function addItems(inventory: Inventory, definition: ItemDefinition, count: number): Inventory {
+  const held = (inventory[definition.id] ?? 0) + Math.max(0, count);
+  return { ...inventory, [definition.id]: definition.stackable ? held : Math.min(1, held) };
+}
+
+/**
+ * Remove up to `count` of an item; items that run out leave the inventory
+ */
+export function removeItems(inventory: Inventory, id: string, count: number): Inventory {
+  const held = Math.max(0, (inventory[id] ?? 0) - Math.max(0, count));
+  const next = { ...inventory, [id]: held };
+  if (held === 0) {
+    delete next[id];
+  }
+  return next;
+}
+
+/**
+ * has_item triggers compare the held count with their value, by default "at least one"
+ */
+export function evaluateItemTrigger(trigger: StoryletTrigger, inventory: Inventory): boolean {
+  const held = inventory[trigger.condition] ?? 0;
+  const target = trigger.value ?? 1;
+
+  switch (trigger.operator || '>=') {
+    case '>': return held > target;
+    case '<': return held < target;
+    case '=': return held === target;
+    case '>=': return held >= target;
+    case '<=': return held <= target;
+    case '!=': return held !== target;
+    default: return false;
+  }
+}
+
+/**
+ * Display label with count, e.g. "Lockpick ×3"
+ */
+export function formatItemLabel(definition: ItemDefinition | undefined, id: string, count?: number): string {
+  const name = definition?.name || id;
+  return count !== undefined && count !== 1 ? `${name} ×${count}` : name;
+}
+
+/**
+ * Check a catalog for duplicate ids and missing names
+ */
+export function validateItemDefinitions(definitions: ItemDefinition[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  definitions.forEach(definition => {
+    if (!ITEM_ID_PATTERN.test(definition.id)) {
+      errors.push(`Item id "${definition.id}" must use lowercase letters, numbers and underscores`);
+    } else if (ids.has(definition.id)) {
+      errors.push(`Item id "${definition.id}" is used more than once`);
+    }
+    ids.add(definition.id);
+
+    if (!definition.name.trim()) {
+      errors.push(`Item "${definition.id}" needs a name`);
+    }
+  });
+
+  return errors;
+}
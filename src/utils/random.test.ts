@@ -0,0 +1,55 @@
+/**
+ * Tests for seedable random numbers
+ * Verifies sequences replay from a seed and resume from a saved state
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SeededRandom, deriveRandomState, nextRandom, rollPercent } from './random';
+
+describe('SeededRandom', () => {
+  it('replays the same sequence for the same seed', () => {
+    const first = new SeededRandom(1234);
+    const second = new SeededRandom(1234);
+
+    const a = Array.from({ length: 5 }, () => first.next());
+    const b = Array.from({ length: 5 }, () => second.next());
+
+    expect(a).toEqual(b);
+    expect(new Set(a).size).toBe(5);
+    a.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+
+  it('resumes from a saved state', () => {
+    const random = new SeededRandom(99);
+    random.next();
+    const saved = random.getState();
+    const expected = random.next();
+
+    const restored = new SeededRandom(1);
+    restored.setState(saved);
+
+    expect(restored.next()).toBe(expected);
+    expect(restored.getSeed()).toBe(99);
+  });
+
+  it('matches the stateless step function', () => {
+    const random = new SeededRandom(7);
+    expect(random.next()).toBe(nextRandom(7).value);
+  });
+
+  it('derives repeatable streams that differ from the sequence they come from', () => {
+    const stream = new SeededRandom(deriveRandomState(7, 1));
+
+    expect(deriveRandomState(7, 1)).toBe(deriveRandomState(7, 1));
+    expect(deriveRandomState(7, 1)).not.toBe(deriveRandomState(7, 2));
+    expect(stream.next()).not.toBe(nextRandom(7).value);
+  });
+
+  it('rolls percentages against the supplied generator', () => {
+    expect(rollPercent(() => 0.25, 30)).toBe(true);
+    expect(rollPercent(() => 0.35, 30)).toBe(false);
+  });
+});
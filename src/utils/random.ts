@@ -0,0 +1,84 @@
+/**
+ * Seedable pseudo-random numbers
+ *
+ * Uses mulberry32: a 32-bit state that is cheap to store in saves and
+ * sandbox sessions, so playthroughs can be replayed exactly.
+ */
+
+export interface RandomState {
+  seed: number;
+  state: number;
+}
+
+/**
+ * Create a new random seed (the only place that uses Math.random)
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+/**
+ * Advance a mulberry32 state, returning the next value in [0, 1) and the new state
+ */
+export function nextRandom(state: number): { value: number; state: number } {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  return { value, state: nextState };
+}
+
+/**
+ * Start an independent sequence from a state, so rolls made for one purpose do not
+ * repeat or shift those made for another
+ */
+export function deriveRandomState(state: number, stream: number): number {
+  return Math.floor(nextRandom((state ^ Math.imul(stream, 0x9e3779b9)) >>> 0).value * 0x100000000) >>> 0;
+}
+
+/**
+ * Roll against a percentage chance
+ */
+export function rollPercent(random: () => number, probability: number): boolean {
+  return random() * 100 < probability;
+}
+
+export class SeededRandom {
+  private seed: number;
+  private state: number;
+
+  constructor(seed: number = generateSeed()) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /**
+   * Next value in [0, 1)
+   */
+  next(): number {
+    const result = nextRandom(this.state);
+    this.state = result.state;
+    return result.value;
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getState(): RandomState {
+    return { seed: this.seed, state: this.state };
+  }
+
+  setState(state: RandomState): void {
+    this.seed = state.seed >>> 0;
+    this.state = state.state >>> 0;
+  }
+
+  /**
+   * Restart the sequence from a new seed
+   */
+  reseed(seed: number): void {
+    this.setState({ seed, state: seed });
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Tests for release pipeline helpers
+ * Covers promotion checks, release checks and live snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkPromotion, checkRelease, createReleaseSnapshot, getNextStatus, type ReleaseContent, type ReleaseStorylet } from './release';
+import type { StoryArc } from '../types/narrative';
+import type { Clue } from '../types/clue';
+
+const storylet = (id: string, status: ReleaseStorylet['status'], nextStoryletId?: string): ReleaseStorylet => ({
+  id,
+  title: `Storylet ${id}`,
+  description: 'A storylet',
+  content: 'Long enough content for the validator to accept without a warning about length.',
+  triggers: [],
+  choices: [{ id: `${id}-choice`, text: 'Continue', effects: [], nextStoryletId }],
+  effects: [],
+  status,
+  storyArc: 'case',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-02T00:00:00.000Z')
+});
+
+const content = (storylets: ReleaseStorylet[]): ReleaseContent => ({
+  storylets,
+  arcs: [{ id: 'case' }, { id: 'unused' }] as StoryArc[],
+  clues: [{ id: 'letter' }] as Clue[],
+  characters: [],
+  items: [],
+  resources: [],
+  storyVariables: []
+});
+
+describe('release', () => {
+  it('steps through dev, stage and live', () => {
+    expect(getNextStatus('dev')).toBe('stage');
+    expect(getNextStatus('stage')).toBe('live');
+    expect(getNextStatus('live')).toBeUndefined();
+  });
+
+  it('blocks promotions on validation errors and unknown references', () => {
+    const broken = { ...storylet('intro', 'dev', 'missing'), content: '' };
+    const { errors } = checkPromotion(broken, 'stage', content([broken]));
+
+    expect(errors.map(error => error.message)).toEqual(expect.arrayContaining([
+      'Content is required',
+      'Choice 1 refers to unknown storylet "missing"'
+    ]));
+  });
+
+  it('blocks promotions that would lead to storylets still behind', () => {
+    const intro = storylet('intro', 'stage', 'hall');
+    const hall = storylet('hall', 'dev');
+
+    expect(checkPromotion(intro, 'live', content([intro, hall])).errors).toEqual([
+      expect.objectContaining({ message: 'Choice 1 refers to "Storylet hall", which is still in dev', path: 'choices[0].nextStoryletId' })
+    ]);
+    expect(checkPromotion(intro, 'live', content([intro, { ...hall, status: 'live' }])).errors).toEqual([]);
+  });
+
+  it('never blocks moving a storylet back', () => {
+    const broken = { ...storylet('intro', 'live', 'missing'), content: '' };
+    expect(checkPromotion(broken, 'dev', content([broken]))).toEqual({ errors: [], warnings: [] });
+  });
+
+  it('rechecks live storylets before publishing', () => {
+    const intro = storylet('intro', 'live', 'hall');
+    const hall = storylet('hall', 'stage');
+
+    expect(checkRelease(content([intro, hall])).errors).toEqual([
+      expect.objectContaining({ message: '"Storylet intro": Choice 1 refers to "Storylet hall", which is still in stage' })
+    ]);
+  });
+
+  it('snapshots only live storylets and their arcs, frozen', () => {
+    const snapshot = createReleaseSnapshot(
+      content([storylet('intro', 'live'), storylet('draft', 'dev')]),
+      new Date('2024-02-01T00:00:00.000Z')
+    );
+
+    expect(snapshot.publishedAt).toBe('2024-02-01T00:00:00.000Z');
+    expect(snapshot.storylets.map(published => published.id)).toEqual(['intro']);
+    expect(snapshot.storylets[0]).toMatchObject({ tags: [], priority: 1, createdAt: '2024-01-01T00:00:00.000Z' });
+    expect(snapshot.arcs.map(arc => arc.id)).toEqual(['case']);
+    expect(snapshot.clues).toEqual([{ id: 'letter' }]);
+    expect(Object.isFrozen(snapshot.storylets[0].choices)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Release pipeline helpers
+ *
+ * Storylets move dev → stage → live. Promoting one runs the storylet
+ * validators and cross-reference checks, and is blocked by any error: content
+ * in a status may only lead to storylets that are at least as far along, since
+ * a live build would otherwise reach storylets it does not contain. Publishing
+ * snapshots only the live storylets, with the catalog they can refer to.
+ */
+
+import type { Storylet, StoryletFormData, StoryVariableDefinition, ValidationError } from '../types/storylet';
+import type { StoryArc } from '../types/narrative';
+import type { Clue } from '../types/clue';
+import type { Character } from '../types/character';
+import type { ItemDefinition } from '../types/item';
+import type { ResourceDefinition } from '../types/resource';
+import type { PromotionCheck, ReleaseSnapshot, ReleaseStatus } from '../types/release';
+import { collectStoryletReferences, validateContentReferences, validateStoryletForm, validateStoryletIntegrity } from './storyletValidation';
+import { getContentFingerprint } from './saveFormat';
+
+export const RELEASE_STATUSES: ReleaseStatus[] = ['dev', 'stage', 'live'];
+
+export const RELEASE_FORMAT_VERSION = 1;
+
+// Storylets as the narrative store holds them, where the form defaults may be missing
+export type ReleaseStorylet = Omit<Storylet, 'id' | 'tags' | 'priority' | 'estimatedPlayTime'> &
+  Partial<Pick<Storylet, 'tags' | 'priority' | 'estimatedPlayTime'>> & { id: string };
+
+export interface ReleaseContent {
+  storylets: ReleaseStorylet[];
+  arcs: StoryArc[];
+  clues: Clue[];
+  characters: Character[];
+  items: ItemDefinition[];
+  resources: ResourceDefinition[];
+  storyVariables: StoryVariableDefinition[];
+}
+
+const getStatusRank = (status: ReleaseStatus) => RELEASE_STATUSES.indexOf(status);
+
+export function getNextStatus(status: ReleaseStatus): ReleaseStatus | undefined {
+  return RELEASE_STATUSES[getStatusRank(status) + 1];
+}
+
+export function isPromotion(from: ReleaseStatus, to: ReleaseStatus): boolean {
+  return getStatusRank(to) > getStatusRank(from);
+}
+
+function toStoryletForm(storylet: ReleaseStorylet): StoryletFormData & Storylet & { id: string } {
+  return {
+    ...storylet,
+    tags: storylet.tags || [],
+    priority: storylet.priority ?? 1,
+    estimatedPlayTime: storylet.estimatedPlayTime ?? 5,
+    prerequisites: storylet.prerequisites || []
+  };
+}
+
+/**
+ * Errors that block moving a storylet to a status, and warnings worth a look.
+ * Moving a storylet back is never blocked.
+ */
+export function checkPromotion(storylet: ReleaseStorylet, to: ReleaseStatus, content: ReleaseContent): PromotionCheck {
+  if (!isPromotion(storylet.status, to)) {
+    return { errors: [], warnings: [] };
+  }
+
+  const formData = toStoryletForm(storylet);
+  const form = validateStoryletForm(formData, content.storyVariables, content.resources, content.items);
+  const integrity = validateStoryletIntegrity(formData, content.storylets.map(toStoryletForm));
+  const errors: ValidationError[] = [
+    ...form.errors,
+    ...integrity.errors,
+    ...validateContentReferences(formData, content.storylets.map(other => other.id), content.clues.map(clue => clue.id))
+  ];
+
+  const storylets = new Map(content.storylets.map(other => [other.id, other]));
+  collectStoryletReferences(formData).forEach(reference => {
+    const target = storylets.get(reference.storyletId);
+    if (target && target.id !== storylet.id && getStatusRank(target.status) < getStatusRank(to)) {
+      errors.push({
+        field: reference.field,
+        message: `${reference.label} refers to "${target.title}", which is still in ${target.status}`,
+        path: reference.path
+      });
+    }
+  });
+
+  return { errors, warnings: [...form.warnings, ...integrity.warnings] };
+}
+
+/**
+ * Check every live storylet as if it were being promoted to live again, since
+ * edits to other content can break it after its promotion
+ */
+export function checkRelease(content: ReleaseContent): PromotionCheck {
+  const live = content.storylets.filter(storylet => storylet.status === 'live');
+  const prefix = (storylet: ReleaseStorylet) => (issue: ValidationError) => ({ ...issue, message: `"${storylet.title}": ${issue.message}` });
+
+  const checks = live.map(storylet => ({ storylet, check: checkPromotion({ ...storylet, status: 'stage' }, 'live', content) }));
+  return {
+    errors: checks.flatMap(({ storylet, check }) => check.errors.map(prefix(storylet))),
+    warnings: checks.flatMap(({ storylet, check }) => check.warnings.map(prefix(storylet)))
+  };
+}
+
+function deepFreeze<T>(value: T): T {
+  if (value && typeof value === 'object' && !Object.isFrozen(value)) {
+    Object.values(value).forEach(deepFreeze);
+    Object.freeze(value);
+  }
+  return value;
+}
+
+/**
+ * The live content as a frozen snapshot for the game build. Arcs without a
+ * live storylet are left out; the rest of the catalog has no release status
+ * and is included whole.
+ */
+export function createReleaseSnapshot(content: ReleaseContent, publishedAt: Date = new Date()): ReleaseSnapshot {
+  const storylets = content.storylets.filter(storylet => storylet.status === 'live').map(toStoryletForm);
+  const liveArcs = new Set(storylets.map(storylet => storylet.storyArc).filter(Boolean));
+  const arcs = content.arcs.filter(arc => liveArcs.has(arc.id));
+
+  // Serialized first so the snapshot shares nothing with the stores and stores dates as strings
+  const snapshot: ReleaseSnapshot = JSON.parse(JSON.stringify({
+    formatVersion: RELEASE_FORMAT_VERSION,
+    publishedAt: publishedAt.toISOString(),
+    contentFingerprint: getContentFingerprint({
+      storylets,
+      arcIds: arcs.map(arc => arc.id),
+      clueIds: content.clues.map(clue => clue.id),
+      characterIds: content.characters.map(character => character.id),
+      itemIds: content.items.map(item => item.id)
+    }),
+    storylets,
+    arcs,
+    clues: content.clues,
+    characters: content.characters,
+    items: content.items,
+    resources: content.resources,
+    storyVariables: content.storyVariables
+  }));
+  return deepFreeze(snapshot);
+}
@@ -0,0 +1,50 @@
+/**
+ * Tests for the resource registry helpers
+ * Covers clamping, initial values and registry validation
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ResourceDefinition } from '../types/resource';
+import {
+  clampResourceValue,
+  formatResourceLabel,
+  getInitialResources,
+  validateResourceDefinitions
+} from './resources';
+
+const HEALTH: ResourceDefinition = { id: 'health', label: 'Health', icon: '❤️', min: 0, max: 10, initial: 10, allowNegative: false };
+const DEBT: ResourceDefinition = { id: 'debt', label: 'Debt', min: -50, initial: 0, allowNegative: true };
+
+describe('resources', () => {
+  it('clamps values to each resource\'s bounds', () => {
+    expect(clampResourceValue(15, HEALTH)).toBe(10);
+    expect(clampResourceValue(-3, HEALTH)).toBe(0);
+    expect(clampResourceValue(-30, DEBT)).toBe(-30);
+    expect(clampResourceValue(-80, DEBT)).toBe(-50);
+    // Unregistered resources only stop at zero
+    expect(clampResourceValue(-5, undefined)).toBe(0);
+  });
+
+  it('builds starting values and labels from the registry', () => {
+    expect(getInitialResources([HEALTH, DEBT])).toEqual({ health: 10, debt: 0 });
+    expect(formatResourceLabel(HEALTH, 'health')).toBe('❤️ Health');
+    expect(formatResourceLabel(undefined, 'mana')).toBe('mana');
+  });
+
+  it('reports duplicate ids and inconsistent bounds', () => {
+    expect(validateResourceDefinitions([HEALTH, DEBT])).toEqual([]);
+
+    const errors = validateResourceDefinitions([
+      HEALTH,
+      { ...HEALTH, label: 'Health again' },
+      { id: 'Bad Id', label: '', initial: 0, allowNegative: false },
+      { id: 'mana', label: 'Mana', min: 5, max: 1, initial: 20, allowNegative: false }
+    ]);
+
+    expect(errors).toContain('Resource id "health" is used more than once');
+    expect(errors).toContain('Resource id "Bad Id" must use lowercase letters, numbers and underscores');
+    expect(errors).toContain('Resource "Bad Id" needs a label');
+    expect(errors).toContain('Resource "mana" has a minimum above its maximum');
+    expect(errors).toContain('Resource "mana" starts outside its bounds');
+  });
+});
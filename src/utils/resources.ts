@@ -0,0 +1,83 @@
+/**
+ * Resource registry helpers
+ *
+ * Projects declare their own resources; these helpers apply each
+ * resource's bounds so every system clamps values the same way.
+ */
+
+import type { ResourceDefinition } from '../types/resource';
+
+export const RESOURCE_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Find a resource definition by id
+ */
+export function getResourceDefinition(definitions: ResourceDefinition[], id: string): ResourceDefinition | undefined {
+  return definitions.find(definition => definition.id === id);
+}
+
+/**
+ * Starting values for every registered resource
+ */
+export function getInitialResources(definitions: ResourceDefinition[]): Record<string, number> {
+  return Object.fromEntries(definitions.map(definition => [definition.id, clampResourceValue(definition.initial, definition)]));
+}
+
+/**
+ * Keep a value within a resource's bounds. Unregistered resources only stop at zero.
+ */
+export function clampResourceValue(value: number, definition: ResourceDefinition | undefined): number {
+  if (!definition) {
+    return Math.max(0, value);
+  }
+
+  let lower = definition.min ?? -Infinity;
+  if (!definition.allowNegative) {
+    lower = Math.max(lower, 0);
+  }
+  const upper = definition.max ?? Infinity;
+
+  return Math.min(upper, Math.max(lower, value));
+}
+
+/**
+ * Display label with icon, e.g. "💰 Money"
+ */
+export function formatResourceLabel(definition: ResourceDefinition | undefined, id: string): string {
+  if (!definition) {
+    return id;
+  }
+  return definition.icon ? `${definition.icon} ${definition.label}` : definition.label;
+}
+
+/**
+ * Check a registry for duplicate ids and inconsistent bounds
+ */
+export function validateResourceDefinitions(definitions: ResourceDefinition[]): string[] {
+  const errors: string[] = [];
+  const ids = new Set<string>();
+
+  definitions.forEach(definition => {
+    if (!RESOURCE_ID_PATTERN.test(definition.id)) {
+      errors.push(`Resource id "${definition.id}" must use lowercase letters, numbers and underscores`);
+    } else if (ids.has(definition.id)) {
+      errors.push(`Resource id "${definition.id}" is used more than once`);
+    }
+    ids.add(definition.id);
+
+    if (!definition.label.trim()) {
+      errors.push(`Resource "${definition.id}" needs a label`);
+    }
+    if (definition.min !== undefined && definition.max !== undefined && definition.min > definition.max) {
+      errors.push(`Resource "${definition.id}" has a minimum above its maximum`);
+    }
+    if (!definition.allowNegative && definition.min !== undefined && definition.min < 0) {
+      errors.push(`Resource "${definition.id}" has a negative minimum but does not allow negative values`);
+    }
+    if (clampResourceValue(definition.initial, definition) !== definition.initial) {
+      errors.push(`Resource "${definition.id}" starts outside its bounds`);
+    }
+  });
+
+  return errors;
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for revision history helpers
+ * Covers field diffs, restorable fields and retention pruning
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffRecords, formatRevisionValue, getRestorableFields, getRevisionsToPrune, summarizeRevision } from './revisions';
+
+describe('revisions', () => {
+  it('diffs top-level fields, ignoring bookkeeping fields', () => {
+    const diff = diffRecords(
+      { id: 'intro', title: 'Intro', tags: ['start'], updatedAt: 'then' },
+      { id: 'intro', title: 'Intro', tags: ['start', 'hall'], content: 'New', updatedAt: 'now' }
+    );
+
+    expect(diff).toEqual([
+      { field: 'tags', before: ['start'], after: ['start', 'hall'] },
+      { field: 'content', before: undefined, after: 'New' }
+    ]);
+  });
+
+  it('summarizes created and changed revisions', () => {
+    expect(summarizeRevision({ changedFields: [] })).toBe('Created');
+    expect(summarizeRevision({ changedFields: ['title', 'choices'] })).toBe('Changed title, choices');
+  });
+
+  it('restores every field but the bookkeeping ones', () => {
+    expect(getRestorableFields({ snapshot: { id: 'intro', title: 'Old', createdAt: 'c', updatedAt: 'u' } }))
+      .toEqual({ title: 'Old' });
+  });
+
+  it('prunes all but the newest revisions, keeping at least one', () => {
+    const revisions = [
+      { id: 1, createdAt: '2024-01-01T00:00:00.000Z' },
+      { id: 3, createdAt: '2024-01-03T00:00:00.000Z' },
+      { id: 2, createdAt: '2024-01-03T00:00:00.000Z' }
+    ];
+
+    expect(getRevisionsToPrune(revisions, 2)).toEqual([1]);
+    expect(getRevisionsToPrune(revisions, 0)).toEqual([2, 1]);
+    expect(getRevisionsToPrune(revisions, 5)).toEqual([]);
+  });
+
+  it('formats values for display', () => {
+    expect(formatRevisionValue(undefined)).toBe('(none)');
+    expect(formatRevisionValue('text')).toBe('text');
+    expect(formatRevisionValue([1])).toBe('[\n  1\n]');
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Revision history helpers
+ *
+ * Revisions are compared field by field at the top level of a record, so a
+ * change anywhere inside a storylet's choices shows up as a change to `choices`.
+ * Bookkeeping fields are left out of diffs and restores.
+ */
+
+import type { Revision, RevisionFieldDiff } from '../types/revision';
+
+export const DEFAULT_REVISION_LIMIT = 25;
+
+const UNTRACKED_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// Values are compared as they would be stored, so Dates and their ISO strings match
+function isSameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Fields that differ between two versions of a record, in the newer version's field order
+ */
+export function diffRecords(before: Record<string, unknown>, after: Record<string, unknown>): RevisionFieldDiff[] {
+  const fields = [...new Set([...Object.keys(after), ...Object.keys(before)])]
+    .filter(field => !UNTRACKED_FIELDS.includes(field));
+
+  return fields
+    .filter(field => !isSameValue(before[field], after[field]))
+    .map(field => ({ field, before: before[field], after: after[field] }));
+}
+
+export function summarizeRevision(revision: Pick<Revision, 'changedFields'>): string {
+  return revision.changedFields.length > 0 ? `Changed ${revision.changedFields.join(', ')}` : 'Created';
+}
+
+/**
+ * The fields of a revision to write back when restoring it
+ */
+export function getRestorableFields(revision: Pick<Revision, 'snapshot'>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(revision.snapshot).filter(([field]) => !UNTRACKED_FIELDS.includes(field)));
+}
+
+/**
+ * Ids of the revisions past the retention limit: all but the newest `limit` of one record's history
+ */
+export function getRevisionsToPrune(revisions: Pick<Revision, 'id' | 'createdAt'>[], limit: number): number[] {
+  return [...revisions]
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt) || b.id - a.id)
+    .slice(Math.max(1, limit))
+    .map(revision => revision.id);
+}
+
+export function formatRevisionValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for the saved game format
+ * Covers migrations, content fingerprints and reference diagnostics
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diagnoseSave, getContentFingerprint, migrateSave, SAVE_FORMAT_VERSION, type SaveContentIndex } from './saveFormat';
+import type { DbGameSave } from '../db/database';
+
+const content: SaveContentIndex = {
+  storylets: [{ id: 'hall', updatedAt: '2024-01-01T00:00:00Z' }, { id: 'study' }],
+  arcIds: ['case'],
+  clueIds: ['letter'],
+  characterIds: ['detective'],
+  itemIds: ['key']
+};
+
+const legacySave = (): DbGameSave => ({
+  slot: 1,
+  name: 'Old save',
+  gameTime: 60,
+  resources: { energy: 50 },
+  playerRelationships: { detective: 10 },
+  discoveredClues: ['letter'],
+  completedStorylets: ['hall'],
+  createdAt: new Date(0),
+  updatedAt: new Date(0)
+});
+
+describe('saveFormat', () => {
+  it('upgrades unversioned saves through every migration', () => {
+    const migrated = migrateSave(legacySave());
+
+    expect(migrated).toMatchObject({
+      version: SAVE_FORMAT_VERSION,
+      variables: {},
+      storyletPlays: {},
+      unlocks: { storylets: {}, choices: {} },
+      arcProgress: {},
+      inventory: {},
+      scheduledEvents: [],
+      resources: { energy: 50 }
+    });
+    expect(migrateSave(migrated)).toEqual(migrated);
+    expect(() => migrateSave({ ...legacySave(), version: SAVE_FORMAT_VERSION + 1 })).toThrow('newer than this version');
+  });
+
+  it('fingerprints content independently of order and changes with edits', () => {
+    const fingerprint = getContentFingerprint(content);
+
+    expect(getContentFingerprint({ ...content, storylets: [...content.storylets].reverse() })).toBe(fingerprint);
+    expect(getContentFingerprint({ ...content, storylets: [{ id: 'hall', updatedAt: '2024-02-01T00:00:00Z' }, { id: 'study' }] })).not.toBe(fingerprint);
+    expect(getContentFingerprint({ ...content, clueIds: [] })).not.toBe(fingerprint);
+  });
+
+  it('reports changed content and every missing reference once', () => {
+    const save: DbGameSave = {
+      ...migrateSave(legacySave()),
+      contentFingerprint: 'stale',
+      completedStorylets: ['hall', 'attic'],
+      storyletPlays: { attic: { count: 1, lastPlayedAt: 0 } },
+      arcProgress: {},
+      currentArcId: 'sequel',
+      discoveredClues: ['letter', 'knife'],
+      playerRelationships: { butler: 5 },
+      inventory: { key: 1, lamp: 1 }
+    };
+
+    expect(diagnoseSave(save, content, 1).map(diagnostic => diagnostic.message)).toEqual([
+      `Save upgraded from format 1 to ${SAVE_FORMAT_VERSION}`,
+      'Story content has changed since this save was made',
+      'Missing storylet "attic" (completed, play counts)',
+      'Missing arc "sequel" (current arc)',
+      'Missing clue "knife" (discovered)',
+      'Missing character "butler" (relationships)',
+      'Missing item "lamp" (inventory)'
+    ]);
+    expect(diagnoseSave({ ...save, contentFingerprint: getContentFingerprint(content) }, content)
+      .some(diagnostic => diagnostic.message.startsWith('Story content'))).toBe(false);
+  });
+});
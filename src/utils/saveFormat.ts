@@ -0,0 +1,132 @@
+/**
+ * Saved game format
+ *
+ * Every save records the format version it was written in and a fingerprint of
+ * the story content it was played against. Older saves are upgraded on load by
+ * a chain of migrations, one per version step; references to content that has
+ * since been deleted are reported rather than silently dropped.
+ */
+
+import type { DbGameSave } from '../db/database';
+import { createUnlockState } from './storyletUnlocks';
+
+// Version 1 saves predate the version field; version 2 added the playthrough state beyond resources
+export const SAVE_FORMAT_VERSION = 2;
+
+type SaveMigration = (save: DbGameSave) => DbGameSave;
+
+// Keyed by the version each migration upgrades from
+const SAVE_MIGRATIONS: Record<number, SaveMigration> = {
+  1: save => ({
+    ...save,
+    variables: save.variables || {},
+    storyletPlays: save.storyletPlays || {},
+    unlocks: save.unlocks || createUnlockState(),
+    arcProgress: save.arcProgress || {},
+    inventory: save.inventory || {},
+    scheduledEvents: save.scheduledEvents || []
+  })
+};
+
+export interface SaveContentIndex {
+  storylets: { id: string; updatedAt?: Date | string }[];
+  arcIds: string[];
+  clueIds: string[];
+  characterIds: string[];
+  itemIds: string[];
+}
+
+export interface SaveDiagnostic {
+  severity: 'info' | 'warning';
+  message: string;
+}
+
+export function getSaveVersion(save: DbGameSave): number {
+  return save.version ?? 1;
+}
+
+/**
+ * Upgrade a save to the current format, one version at a time
+ */
+export function migrateSave(save: DbGameSave): DbGameSave {
+  const version = getSaveVersion(save);
+  if (version > SAVE_FORMAT_VERSION) {
+    throw new Error(`Save format ${version} is newer than this version of the game supports (${SAVE_FORMAT_VERSION})`);
+  }
+
+  let migrated = save;
+  for (let from = version; from < SAVE_FORMAT_VERSION; from++) {
+    const migration = SAVE_MIGRATIONS[from];
+    if (!migration) {
+      throw new Error(`No migration from save format ${from}`);
+    }
+    migrated = { ...migration(migrated), version: from + 1 };
+  }
+  return migrated;
+}
+
+/**
+ * Short hash of the story content a playthrough depends on. Adding, removing
+ * or editing a storylet, or adding or removing another piece of content, changes it.
+ */
+export function getContentFingerprint(content: SaveContentIndex): string {
+  const parts = [
+    ...content.storylets.map(storylet => `s:${storylet.id}@${storylet.updatedAt ? new Date(storylet.updatedAt).getTime() : 0}`),
+    ...content.arcIds.map(id => `a:${id}`),
+    ...content.clueIds.map(id => `c:${id}`),
+    ...content.characterIds.map(id => `p:${id}`),
+    ...content.itemIds.map(id => `i:${id}`)
+  ].sort();
+
+  // FNV-1a, 32 bit
+  let hash = 0x811c9dc5;
+  for (const char of parts.join('|')) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * Explain how a migrated save no longer matches the current content: the
+ * upgrade it went through, a changed fingerprint, and every storylet, arc,
+ * clue, character or item it refers to that no longer exists
+ */
+export function diagnoseSave(save: DbGameSave, content: SaveContentIndex, originalVersion: number = getSaveVersion(save)): SaveDiagnostic[] {
+  const diagnostics: SaveDiagnostic[] = [];
+
+  if (originalVersion < SAVE_FORMAT_VERSION) {
+    diagnostics.push({ severity: 'info', message: `Save upgraded from format ${originalVersion} to ${SAVE_FORMAT_VERSION}` });
+  }
+  if (save.contentFingerprint && save.contentFingerprint !== getContentFingerprint(content)) {
+    diagnostics.push({ severity: 'info', message: 'Story content has changed since this save was made' });
+  }
+
+  const report = (kind: string, known: string[], references: { id: string; where: string }[]) => {
+    const existing = new Set(known);
+    const missing = new Map<string, string[]>();
+    references
+      .filter(reference => !existing.has(reference.id))
+      .forEach(reference => missing.set(reference.id, [...(missing.get(reference.id) || []), reference.where]));
+    missing.forEach((where, id) => {
+      diagnostics.push({ severity: 'warning', message: `Missing ${kind} "${id}" (${[...new Set(where)].join(', ')})` });
+    });
+  };
+
+  report('storylet', content.storylets.map(storylet => storylet.id), [
+    ...(save.currentStoryletId ? [{ id: save.currentStoryletId, where: 'current storylet' }] : []),
+    ...save.completedStorylets.map(id => ({ id, where: 'completed' })),
+    ...Object.keys(save.storyletPlays || {}).map(id => ({ id, where: 'play counts' })),
+    ...Object.keys(save.unlocks?.storylets || {}).map(id => ({ id, where: 'unlocks' })),
+    ...(save.scheduledEvents || []).flatMap(event => event.storyletId ? [{ id: event.storyletId, where: 'scheduled events' }] : [])
+  ]);
+  report('arc', content.arcIds, [
+    ...(save.currentArcId ? [{ id: save.currentArcId, where: 'current arc' }] : []),
+    ...Object.keys(save.arcProgress || {}).map(id => ({ id, where: 'arc progress' }))
+  ]);
+  report('clue', content.clueIds, save.discoveredClues.map(id => ({ id, where: 'discovered' })));
+  report('character', content.characterIds, Object.keys(save.playerRelationships).map(id => ({ id, where: 'relationships' })));
+  report('item', content.itemIds, Object.keys(save.inventory || {}).map(id => ({ id, where: 'inventory' })));
+
+  return diagnostics;
+}
@@ -0,0 +1,46 @@
+/**
+ * Tests for scheduled storylet events
+ * Covers delays, calendar times and due-order delivery
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getDueEvents, getScheduledTime, scheduleEvent, validateScheduleAt } from './scheduledEvents';
+import { DEFAULT_CALENDAR } from './calendar';
+import type { StoryletEffect } from '../types/storylet';
+
+const schedule = (overrides: Partial<StoryletEffect> = {}): StoryletEffect => ({
+  id: 'letter',
+  type: 'schedule_event',
+  target: 'letter_arrives',
+  description: '',
+  ...overrides
+});
+
+describe('scheduledEvents', () => {
+  // The default calendar starts on day 1 at 08:00
+  it('resolves delays and calendar times to game time', () => {
+    expect(getScheduledTime(schedule({ value: 180 }), 60)).toBe(240);
+    expect(getScheduledTime(schedule({ scheduleAt: 'period:evening' }), 0)).toBe(10 * 60);
+    expect(getScheduledTime(schedule({ scheduleAt: '07:30' }), 0)).toBe(23 * 60 + 30);
+    expect(getScheduledTime(schedule({ scheduleAt: 'day:2 09:00' }), 0, DEFAULT_CALENDAR)).toBe(25 * 60);
+    expect(() => getScheduledTime(schedule({ scheduleAt: 'day:1 07:00' }), 0)).toThrow('has already passed');
+  });
+
+  it('rejects times it cannot read', () => {
+    expect(validateScheduleAt('period:night')).toBeUndefined();
+    expect(validateScheduleAt('day:3')).toBeUndefined();
+    expect(validateScheduleAt('tomorrow')).toContain('Unknown time');
+    expect(validateScheduleAt('day:3 25:99')).toBe('Invalid clock time "25:99"');
+  });
+
+  it('returns due events earliest first, keeping queue order for ties', () => {
+    let queue = scheduleEvent([], schedule({ value: 120 }), 0);
+    queue = scheduleEvent(queue, schedule({ id: 'rent', target: '', value: 60, scheduledEffects: [{ id: 'pay', type: 'resource', target: 'money', value: -10, description: '' }] }), 0);
+    queue = scheduleEvent(queue, schedule({ id: 'visit', target: 'visit', value: 60 }), 0);
+    queue = scheduleEvent(queue, schedule({ id: 'later', target: 'later', value: 500 }), 0);
+
+    expect(getDueEvents(queue, 30)).toEqual([]);
+    expect(getDueEvents(queue, 180).map(event => event.sourceEffectId)).toEqual(['rent', 'visit', 'letter']);
+    expect(() => scheduleEvent(queue, schedule({ target: '' }), 0)).toThrow('Scheduled event needs a storylet or effects');
+  });
+});
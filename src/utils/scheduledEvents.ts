@@ -0,0 +1,110 @@
+/**
+ * Scheduled storylet events
+ *
+ * A schedule_event effect queues a storylet, a set of effects, or both, to
+ * fire later: after a delay in minutes or at a calendar time. The queue is
+ * part of the playthrough state; events come due once gameTime reaches them
+ * and are delivered in due order, several at once when time jumps past them.
+ */
+
+import type { CalendarConfig } from '../types/calendar';
+import type { ScheduledEvent, StoryletEffect } from '../types/storylet';
+import { DEFAULT_CALENDAR, getMinutesUntilPeriod, parseClockTime } from './calendar';
+
+const DAY_PATTERN = /^day:(\d+)(?:\s+(\d{1,2}:\d{2}))?$/;
+
+// Stops a chain of events that keep scheduling each other for the current time
+export const MAX_EVENT_DELIVERIES = 100;
+
+/**
+ * Check a scheduleAt value's format, without resolving it against a calendar
+ */
+export function validateScheduleAt(scheduleAt: string): string | undefined {
+  const text = scheduleAt.trim();
+  if (text.startsWith('period:')) {
+    return text.slice('period:'.length).trim() ? undefined : 'Period time needs a period id, e.g. "period:evening"';
+  }
+  const day = text.match(DAY_PATTERN);
+  if (day) {
+    return day[2] && parseClockTime(day[2]) === undefined ? `Invalid clock time "${day[2]}"` : undefined;
+  }
+  return parseClockTime(text) === undefined
+    ? `Unknown time "${scheduleAt}"; use "period:<id>", "HH:MM" or "day:<n> HH:MM"`
+    : undefined;
+}
+
+/**
+ * Game time a schedule_event effect comes due.
+ * "period:<id>" and "HH:MM" mean their next occurrence; "day:<n> HH:MM" is a
+ * fixed calendar time (midnight when no clock time is given) and must not have passed.
+ * Without scheduleAt the event is due after `value` minutes.
+ */
+export function getScheduledTime(effect: StoryletEffect, gameTime: number, calendar: CalendarConfig = DEFAULT_CALENDAR): number {
+  const scheduleAt = effect.scheduleAt?.trim();
+  if (!scheduleAt) {
+    return gameTime + Math.max(0, effect.value || 0);
+  }
+
+  const error = validateScheduleAt(scheduleAt);
+  if (error) {
+    throw new Error(error);
+  }
+
+  if (scheduleAt.startsWith('period:')) {
+    return gameTime + getMinutesUntilPeriod(gameTime, scheduleAt.slice('period:'.length).trim(), calendar);
+  }
+
+  const day = scheduleAt.match(DAY_PATTERN);
+  if (day) {
+    const minuteOfDay = day[2] ? parseClockTime(day[2])! : 0;
+    const dueAt = (parseInt(day[1], 10) - calendar.startDay) * calendar.minutesPerDay + minuteOfDay - calendar.startMinuteOfDay;
+    if (dueAt < gameTime) {
+      throw new Error(`Scheduled time "${scheduleAt}" has already passed`);
+    }
+    return dueAt;
+  }
+
+  const minuteOfDay = parseClockTime(scheduleAt)!;
+  const now = (((calendar.startMinuteOfDay + gameTime) % calendar.minutesPerDay) + calendar.minutesPerDay) % calendar.minutesPerDay;
+  const minutes = minuteOfDay - now;
+  return gameTime + (minutes > 0 ? minutes : minutes + calendar.minutesPerDay);
+}
+
+/**
+ * Queue the event a schedule_event effect describes
+ */
+export function scheduleEvent(
+  queue: ScheduledEvent[],
+  effect: StoryletEffect,
+  gameTime: number,
+  calendar: CalendarConfig = DEFAULT_CALENDAR
+): ScheduledEvent[] {
+  if (!effect.target && !(effect.scheduledEffects && effect.scheduledEffects.length > 0)) {
+    throw new Error('Scheduled event needs a storylet or effects');
+  }
+
+  const event: ScheduledEvent = {
+    id: `${effect.id}@${gameTime}#${queue.length}`,
+    dueAt: getScheduledTime(effect, gameTime, calendar),
+    scheduledAt: gameTime,
+    storyletId: effect.target || undefined,
+    effects: effect.scheduledEffects || [],
+    sourceEffectId: effect.id
+  };
+  return [...queue, event];
+}
+
+/**
+ * Events due by gameTime, earliest first (queue order breaks ties)
+ */
+export function getDueEvents(queue: ScheduledEvent[], gameTime: number): ScheduledEvent[] {
+  return queue
+    .map((event, index) => ({ event, index }))
+    .filter(({ event }) => event.dueAt <= gameTime)
+    .sort((a, b) => a.event.dueAt - b.event.dueAt || a.index - b.index)
+    .map(({ event }) => event);
+}
+
+export function removeScheduledEvent(queue: ScheduledEvent[], eventId: string): ScheduledEvent[] {
+  return queue.filter(event => event.id !== eventId);
+}
@@ -0,0 +1,92 @@
+/**
+ * Tests for skill checks
+ * Covers stat lookup, exact dice odds, rolls and outcome filtering
+ */
+
+import { describe, it, expect } from 'vitest';
+import { describeSkillCheck, getOutcomesForSkillCheck, getSkillCheckChance, rollSkillCheck } from './skillChecks';
+import type { OutcomeWeightContext } from './choiceOutcomes';
+import { validateStorylet } from './dataValidation';
+import { deserializeStorylet, serializeStorylet } from '../db/serialization';
+import type { SkillCheck, StoryletChoiceOutcome, StoryletConditionGroup, StoryletTrigger } from '../types/storylet';
+import type { Character } from '../types/character';
+
+const context: OutcomeWeightContext = {
+  resources: { knowledge: 4 },
+  variables: {},
+  characters: [{
+    id: 'detective',
+    name: 'Detective',
+    attributes: [{ id: 'lockpicking', name: 'Lockpicking', value: 3 }],
+    traits: [{ id: 'stubborn', name: 'Stubborn', type: 'personality', value: 2, description: '' }]
+  } as unknown as Character]
+};
+
+const check = (overrides: Partial<SkillCheck> = {}): SkillCheck => ({
+  characterId: 'detective',
+  stat: 'lockpicking',
+  statType: 'attribute',
+  difficulty: 10,
+  ...overrides
+});
+
+describe('skillChecks', () => {
+  it('computes exact odds from stats, modifiers and dice', () => {
+    // Without dice the check is decided by the stat alone
+    expect(getSkillCheckChance(check({ difficulty: 3 }), context)).toBe(1);
+    expect(getSkillCheckChance(check({ stat: 'Stubborn', statType: 'trait', difficulty: 3 }), context)).toBe(0);
+
+    // 3 + 2d6 >= 10 needs 7 or more on 2d6: 21/36
+    expect(getSkillCheckChance(check({ dice: { count: 2, sides: 6 } }), context)).toBeCloseTo(21 / 36);
+
+    // Half a point per knowledge adds 2, so 5 or more on 2d6: 30/36
+    const withModifier = check({
+      dice: { count: 2, sides: 6 },
+      modifiers: [{ id: 'study', source: 'resource', target: 'knowledge', perPoint: 0.5 }]
+    });
+    expect(getSkillCheckChance(withModifier, context)).toBeCloseTo(30 / 36);
+    expect(describeSkillCheck(withModifier, context)).toBe('Detective Lockpicking 3 + 2 + 2d6 vs 10 (83%)');
+  });
+
+  it('rolls dice from the random source and filters outcomes by the result', () => {
+    const result = rollSkillCheck(check({ dice: { count: 2, sides: 6 } }), context, () => 0.5);
+    expect(result.roll).toEqual([4, 4]);
+    expect(result.total).toBe(11);
+    expect(result.success).toBe(true);
+
+    const outcomes: StoryletChoiceOutcome[] = [
+      { id: 'clean', label: 'Clean', weight: 1, effects: [], skillCheckResult: 'success' },
+      { id: 'caught', label: 'Caught', weight: 1, effects: [], skillCheckResult: 'failure' },
+      { id: 'noise', label: 'Noise', weight: 1, effects: [] }
+    ];
+    expect(getOutcomesForSkillCheck(outcomes, false).map(o => o.id)).toEqual(['caught', 'noise']);
+  });
+
+  it('keeps storylet skill checks and their modifiers through a save and reload', () => {
+    const trigger: StoryletTrigger = {
+      id: 'pick-lock',
+      type: 'skill_check',
+      condition: '',
+      skillCheck: check({
+        dice: { count: 2, sides: 6 },
+        modifiers: [{ id: 'study', source: 'resource', target: 'knowledge', perPoint: 0.5 }]
+      }),
+      description: 'Pick the lock'
+    };
+    const conditions: StoryletConditionGroup = { id: 'root', logic: 'all', conditions: [{ id: 'nested', logic: 'any', conditions: [trigger] }] };
+    const { sanitizedData } = validateStorylet({
+      title: 'The locked door',
+      description: 'A door with a stiff lock',
+      content: 'The lock has not been oiled in years.',
+      status: 'dev',
+      triggers: [trigger],
+      conditions,
+      choices: [],
+      effects: []
+    });
+    const saved = deserializeStorylet(serializeStorylet(sanitizedData));
+
+    expect(saved.triggers).toEqual([trigger]);
+    expect(saved.conditions).toEqual(conditions);
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Skill checks
+ *
+ * A check adds a character's attribute or trait, any modifiers and an
+ * optional dice roll, and passes when the total reaches the difficulty.
+ * Without dice the check is deterministic.
+ */
+
+import type { SkillCheck, StoryletChoiceOutcome } from '../types/storylet';
+import type { Character } from '../types/character';
+import { getModifierSourceValue, type OutcomeWeightContext } from './choiceOutcomes';
+
+export interface SkillCheckResult {
+  stat: number;
+  bonus: number;
+  roll: number[];
+  total: number;
+  difficulty: number;
+  success: boolean;
+  chance: number; // Chance of success before the roll
+}
+
+/**
+ * A blank check: one d20 against 10
+ */
+export function createSkillCheck(): SkillCheck {
+  return { characterId: '', stat: '', statType: 'attribute', dice: { count: 1, sides: 20 }, difficulty: 10 };
+}
+
+/**
+ * Value of a character's attribute or trait, matched by id or name; missing values count as 0
+ */
+export function getCharacterStat(characters: Character[], check: Pick<SkillCheck, 'characterId' | 'stat' | 'statType'>): number {
+  return findCharacterStat(characters, check)?.value ?? 0;
+}
+
+function findCharacterStat(characters: Character[], check: Pick<SkillCheck, 'characterId' | 'stat' | 'statType'>) {
+  const character = characters.find(c => c.id === check.characterId);
+  const stats = check.statType === 'trait' ? character?.traits : character?.attributes;
+  return stats?.find(s => s.id === check.stat || s.name === check.stat);
+}
+
+/**
+ * Stat plus modifiers, before any dice
+ */
+function getSkillCheckBase(check: SkillCheck, context: OutcomeWeightContext): { stat: number; bonus: number } {
+  const stat = getCharacterStat(context.characters, check);
+  const bonus = (check.modifiers || []).reduce(
+    (sum, modifier) => sum + modifier.perPoint * getModifierSourceValue(modifier, context),
+    0
+  );
+  return { stat, bonus };
+}
+
+/**
+ * Probability of each dice total, keyed by total
+ */
+function getDiceDistribution(count: number, sides: number): Map<number, number> {
+  let distribution = new Map<number, number>([[0, 1]]);
+  for (let die = 0; die < count; die++) {
+    const next = new Map<number, number>();
+    distribution.forEach((probability, total) => {
+      for (let face = 1; face <= sides; face++) {
+        next.set(total + face, (next.get(total + face) ?? 0) + probability / sides);
+      }
+    });
+    distribution = next;
+  }
+  return distribution;
+}
+
+/**
+ * Exact chance that the check passes
+ */
+export function getSkillCheckChance(check: SkillCheck, context: OutcomeWeightContext): number {
+  const { stat, bonus } = getSkillCheckBase(check, context);
+  const needed = check.difficulty - stat - bonus;
+
+  if (!check.dice || check.dice.count <= 0 || check.dice.sides <= 0) {
+    return needed <= 0 ? 1 : 0;
+  }
+
+  let chance = 0;
+  getDiceDistribution(check.dice.count, check.dice.sides).forEach((probability, total) => {
+    if (total >= needed) {
+      chance += probability;
+    }
+  });
+  return Math.min(1, chance);
+}
+
+/**
+ * Roll a check with the given random source in [0, 1)
+ */
+export function rollSkillCheck(check: SkillCheck, context: OutcomeWeightContext, random: () => number): SkillCheckResult {
+  const { stat, bonus } = getSkillCheckBase(check, context);
+  const roll: number[] = [];
+  if (check.dice && check.dice.sides > 0) {
+    for (let die = 0; die < check.dice.count; die++) {
+      roll.push(Math.floor(random() * check.dice.sides) + 1);
+    }
+  }
+
+  const total = stat + bonus + roll.reduce((sum, face) => sum + face, 0);
+  return {
+    stat,
+    bonus,
+    roll,
+    total,
+    difficulty: check.difficulty,
+    success: total >= check.difficulty,
+    chance: getSkillCheckChance(check, context)
+  };
+}
+
+/**
+ * Outcomes still in play after a check: those tagged with its result, plus untagged ones
+ */
+export function getOutcomesForSkillCheck(outcomes: StoryletChoiceOutcome[], success: boolean): StoryletChoiceOutcome[] {
+  const result = success ? 'success' : 'failure';
+  return outcomes.filter(outcome => !outcome.skillCheckResult || outcome.skillCheckResult === result);
+}
+
+/**
+ * Summary such as "Detective Lockpicking 3 + 2d6 vs 10 (58%)"
+ */
+export function describeSkillCheck(check: SkillCheck, context: OutcomeWeightContext): string {
+  const character = context.characters.find(c => c.id === check.characterId);
+  const { stat, bonus } = getSkillCheckBase(check, context);
+  const statName = findCharacterStat(context.characters, check)?.name ?? (check.stat || 'stat');
+  const parts = [`${character?.name ?? 'Unknown'} ${statName} ${stat}`];
+  if (bonus !== 0) {
+    parts.push(`${bonus > 0 ? '+' : '-'} ${Math.abs(bonus)}`);
+  }
+  if (check.dice && check.dice.count > 0) {
+    parts.push(`+ ${check.dice.count}d${check.dice.sides}`);
+  }
+  return `${parts.join(' ')} vs ${check.difficulty} (${Math.round(getSkillCheckChance(check, context) * 100)}%)`;
+}
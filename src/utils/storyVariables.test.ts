@@ -0,0 +1,35 @@
+/**
+ * Tests for story variable helpers
+ * Covers comparisons, operators and type handling
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyVariableOperation, compareVariableValue, getDefaultVariableValues, parseVariableValue } from './storyVariables';
+
+describe('storyVariables', () => {
+  it('compares numbers with every operator and other types by equality only', () => {
+    expect(compareVariableValue(5, '>', 3)).toBe(true);
+    expect(compareVariableValue(5, '<=', 3)).toBe(false);
+    expect(compareVariableValue('night', '=', 'night')).toBe(true);
+    expect(compareVariableValue(true, '!=', false)).toBe(true);
+    expect(compareVariableValue('b', '>', 'a')).toBe(false);
+    expect(compareVariableValue(undefined, '=', false)).toBe(false);
+  });
+
+  it('applies arithmetic operators to numbers only', () => {
+    expect(applyVariableOperation(2, '+', 3)).toBe(5);
+    expect(applyVariableOperation(undefined, '-', 1)).toBe(-1);
+    expect(applyVariableOperation(4, '*', 2)).toBe(8);
+    expect(applyVariableOperation(false, '=', true)).toBe(true);
+    expect(() => applyVariableOperation('a', '+', 1)).toThrow("Operator '+' can only be used with number variables");
+  });
+
+  it('builds defaults and parses form input', () => {
+    expect(getDefaultVariableValues([
+      { name: 'met', type: 'boolean', defaultValue: false },
+      { name: 'chapter', type: 'string', defaultValue: 'one' }
+    ])).toEqual({ met: false, chapter: 'one' });
+    expect(parseVariableValue('true', 'boolean')).toBe(true);
+    expect(parseVariableValue('2.5', 'number')).toBe(2.5);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Story variable helpers
+ *
+ * Variables are author-declared flags, counters and strings. Numeric
+ * variables support the full operator set; booleans and strings only
+ * support assignment and (in)equality.
+ */
+
+import type {
+  StoryletEffect,
+  StoryletTrigger,
+  StoryVariableDefinition,
+  StoryVariableType,
+  StoryVariableValue
+} from '../types/storylet';
+
+export const VARIABLE_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Default value for a freshly declared variable of the given type
+ */
+export function getDefaultValueForType(type: StoryVariableType): StoryVariableValue {
+  switch (type) {
+    case 'boolean':
+      return false;
+    case 'number':
+      return 0;
+    case 'string':
+      return '';
+  }
+}
+
+/**
+ * Map declared variables to their starting values
+ */
+export function getDefaultVariableValues(definitions: StoryVariableDefinition[]): Record<string, StoryVariableValue> {
+  return Object.fromEntries(definitions.map(definition => [definition.name, definition.defaultValue]));
+}
+
+/**
+ * Check that a value matches the declared variable type
+ */
+export function isVariableValueOfType(value: unknown, type: StoryVariableType): value is StoryVariableValue {
+  return typeof value === type;
+}
+
+/**
+ * Parse raw form input into a value of the declared type
+ */
+export function parseVariableValue(raw: string, type: StoryVariableType): StoryVariableValue {
+  switch (type) {
+    case 'boolean':
+      return raw === 'true';
+    case 'number':
+      return parseFloat(raw) || 0;
+    case 'string':
+      return raw;
+  }
+}
+
+/**
+ * The value a variable trigger compares against or a set_variable effect applies
+ */
+export function getVariableOperand(item: Pick<StoryletTrigger | StoryletEffect, 'value' | 'variableValue'>): StoryVariableValue | undefined {
+  return item.variableValue ?? item.value;
+}
+
+/**
+ * Compare a variable's current value with a trigger's expected value
+ */
+export function compareVariableValue(
+  actual: StoryVariableValue | undefined,
+  operator: NonNullable<StoryletTrigger['operator']> = '=',
+  expected: StoryVariableValue | undefined
+): boolean {
+  if (actual === undefined || expected === undefined) {
+    return false;
+  }
+
+  if (operator === '=') return actual === expected;
+  if (operator === '!=') return actual !== expected;
+
+  if (typeof actual !== 'number' || typeof expected !== 'number') {
+    return false;
+  }
+
+  switch (operator) {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    default: return false;
+  }
+}
+
+/**
+ * Apply a set_variable operator to the current value
+ */
+export function applyVariableOperation(
+  current: StoryVariableValue | undefined,
+  operator: NonNullable<StoryletEffect['operator']> = '=',
+  operand: StoryVariableValue | undefined
+): StoryVariableValue {
+  if (operand === undefined) {
+    throw new Error('Variable effects require a value');
+  }
+
+  if (operator === '=') {
+    return operand;
+  }
+
+  if (typeof operand !== 'number' || (current !== undefined && typeof current !== 'number')) {
+    throw new Error(`Operator '${operator}' can only be used with number variables`);
+  }
+
+  const base = current ?? 0;
+  switch (operator) {
+    case '+': return base + operand;
+    case '-': return base - operand;
+    case '*': return base * operand;
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Tests for multi-page storylets
+ * Covers page order, inline choices and where a scene ends
+ */
+
+import { describe, it, expect } from 'vitest';
+import { advanceScene, getBeatChoices, getPageContent, startScene } from './storyletBeats';
+import type { StoryletBeat } from '../types/storylet';
+
+const beats: StoryletBeat[] = [
+  { id: 'door', content: 'A locked door.', effects: [], choices: [
+    { id: 'knock', text: 'Knock', effects: [], nextBeatId: 'hall' },
+    { id: 'walk-away', text: 'Walk away', effects: [{ id: 'left', type: 'resource', target: 'energy', value: 1, operator: '+', description: '' }] }
+  ] },
+  { id: 'hall', content: 'A long hall.', effects: [{ id: 'tired', type: 'resource', target: 'energy', value: -1, operator: '+', description: '' }] }
+];
+
+describe('storyletBeats', () => {
+  it('walks the pages in order and through inline choices', () => {
+    const storylet = { content: 'Opening', beats };
+    const opening = startScene(storylet);
+
+    expect(opening).toEqual({ complete: false });
+    expect(getPageContent(storylet, opening)).toBe('Opening');
+    expect(getBeatChoices(storylet, opening)).toEqual([]);
+
+    const door = advanceScene(storylet, opening).position;
+    expect(getBeatChoices(storylet, door).map(choice => choice.id)).toEqual(['knock', 'walk-away']);
+    expect(() => advanceScene(storylet, door)).toThrow('This page needs a choice to continue');
+
+    const knocked = advanceScene(storylet, door, 'knock');
+    expect(knocked.position).toEqual({ beatId: 'hall', complete: true });
+    expect(knocked.effects.map(effect => effect.id)).toEqual(['tired']);
+    expect(getPageContent(storylet, knocked.position)).toBe('A long hall.');
+  });
+
+  it('falls through to the next page and ends scenes with nowhere left to go', () => {
+    expect(startScene({ content: 'Single page' })).toEqual({ complete: true });
+
+    const storylet = { content: 'Opening', beats };
+    const walkedAway = advanceScene(storylet, { beatId: 'door', complete: false }, 'walk-away');
+    expect(walkedAway.position).toEqual({ beatId: 'hall', complete: true });
+    expect(walkedAway.effects.map(effect => effect.id)).toEqual(['left', 'tired']);
+
+    const lastPage = { content: 'Opening', beats: [beats[0]] };
+    expect(advanceScene(lastPage, { beatId: 'door', complete: false }, 'walk-away').position).toEqual({ beatId: 'door', complete: true });
+    expect(() => advanceScene(lastPage, { beatId: 'door', complete: true })).toThrow('The scene has no more pages');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Multi-page storylets
+ *
+ * A storylet's opening content is its first page and its beats follow as
+ * further pages. A page either offers inline choices, which move between
+ * pages without leaving the storylet, or simply continues to the next one.
+ * The storylet's own choices are offered once there is no page left.
+ */
+
+import type { ScenePosition, StoryletBeat, StoryletBeatChoice, StoryletEffect } from '../types/storylet';
+
+interface SceneStorylet {
+  content: string;
+  beats?: StoryletBeat[];
+}
+
+export function getBeat(storylet: SceneStorylet, beatId: string | undefined): StoryletBeat | undefined {
+  return beatId ? (storylet.beats || []).find(beat => beat.id === beatId) : undefined;
+}
+
+/**
+ * Inline choices on the page being shown; the opening content has none
+ */
+export function getBeatChoices(storylet: SceneStorylet, position: ScenePosition): StoryletBeatChoice[] {
+  return position.complete ? [] : getBeat(storylet, position.beatId)?.choices || [];
+}
+
+export function getPageContent(storylet: SceneStorylet, position: ScenePosition): string {
+  return getBeat(storylet, position.beatId)?.content ?? storylet.content;
+}
+
+/**
+ * Whether a page ends the scene by itself: it has no inline choices and no page follows it
+ */
+function isFinalPage(storylet: SceneStorylet, beatId: string | undefined): boolean {
+  const beats = storylet.beats || [];
+  const index = beatId ? beats.findIndex(beat => beat.id === beatId) : -1;
+  return !getBeat(storylet, beatId)?.choices?.length && index + 1 >= beats.length;
+}
+
+export function startScene(storylet: SceneStorylet): ScenePosition {
+  return { complete: isFinalPage(storylet, undefined) };
+}
+
+/**
+ * Turn the page, through an inline choice when the page has any. Returns the new
+ * position and the effects to apply: the choice's, then those of the page reached.
+ */
+export function advanceScene(
+  storylet: SceneStorylet,
+  position: ScenePosition,
+  choiceId?: string
+): { position: ScenePosition; effects: StoryletEffect[] } {
+  if (position.complete) {
+    throw new Error('The scene has no more pages');
+  }
+
+  const choices = getBeatChoices(storylet, position);
+  const choice = choices.find(c => c.id === choiceId);
+  if (choices.length > 0 && !choice) {
+    throw new Error(choiceId ? `Page choice "${choiceId}" not found` : 'This page needs a choice to continue');
+  }
+
+  const beats = storylet.beats || [];
+  const nextBeatId = choice?.nextBeatId ?? beats[beats.findIndex(beat => beat.id === position.beatId) + 1]?.id;
+  const nextBeat = getBeat(storylet, nextBeatId);
+  if (nextBeatId && !nextBeat) {
+    throw new Error(`Page "${nextBeatId}" not found`);
+  }
+
+  // An inline choice with nowhere left to go ends the scene on its own page
+  const next: ScenePosition = nextBeat
+    ? { beatId: nextBeat.id, complete: isFinalPage(storylet, nextBeat.id) }
+    : { beatId: position.beatId, complete: true };
+
+  return { position: next, effects: [...(choice?.effects || []), ...(nextBeat?.effects || [])] };
+}
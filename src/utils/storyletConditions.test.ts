@@ -0,0 +1,97 @@
+/**
+ * Tests for storylet condition trees
+ * Covers evaluation, single triggers, migration from flat triggers and readable descriptions
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeCondition,
+  evaluateCondition,
+  evaluateTrigger,
+  migrateTriggersToConditions,
+  type TriggerState
+} from './storyletConditions';
+import { DEFAULT_CALENDAR } from './calendar';
+import type { StoryletConditionGroup, StoryletTrigger } from '../types/storylet';
+
+const trigger = (id: string, description: string): StoryletTrigger => ({
+  id,
+  type: 'clue',
+  condition: id,
+  description
+});
+
+describe('storyletConditions', () => {
+  const met = new Set(['a', 'c']);
+  const evaluate = (t: StoryletTrigger) => met.has(t.id);
+
+  it('evaluates nested AND / OR / NOT groups', () => {
+    const tree: StoryletConditionGroup = {
+      id: 'root',
+      logic: 'all',
+      conditions: [
+        { id: 'or', logic: 'any', conditions: [trigger('a', 'A'), trigger('b', 'B')] },
+        { id: 'not', logic: 'none', conditions: [trigger('b', 'B')] }
+      ]
+    };
+
+    expect(evaluateCondition(tree, evaluate)).toBe(true);
+    expect(evaluateCondition({ ...tree, logic: 'none' }, evaluate)).toBe(false);
+  });
+
+  it('treats empty groups as satisfied', () => {
+    expect(evaluateCondition({ id: 'all', logic: 'all', conditions: [] }, evaluate)).toBe(true);
+    expect(evaluateCondition({ id: 'any', logic: 'any', conditions: [] }, evaluate)).toBe(true);
+    expect(evaluateCondition({ id: 'none', logic: 'none', conditions: [] }, evaluate)).toBe(true);
+  });
+
+  it('migrates flat triggers into an equivalent AND group', () => {
+    const existing: StoryletConditionGroup = { id: 'existing', logic: 'any', conditions: [trigger('c', 'C')] };
+    const migrated = migrateTriggersToConditions({
+      triggers: [trigger('a', 'A'), trigger('b', 'B')],
+      conditions: existing
+    });
+
+    expect(migrated.triggers).toEqual([]);
+    expect(migrated.conditions?.logic).toBe('all');
+    expect(migrated.conditions?.conditions).toHaveLength(3);
+    expect(migrated.conditions?.conditions[2]).toBe(existing);
+  });
+
+  it('describes trees as readable text', () => {
+    const tree: StoryletConditionGroup = {
+      id: 'root',
+      logic: 'all',
+      conditions: [
+        { id: 'or', logic: 'any', conditions: [trigger('a', 'has clue'), trigger('b', 'trust > 60')] },
+        { id: 'not', logic: 'none', conditions: [trigger('c', 'intro done')] }
+      ]
+    };
+
+    expect(describeCondition(tree)).toBe('(has clue OR trust > 60) AND NOT intro done');
+  });
+
+  it('checks single triggers against game state and leaves rolls to the caller', () => {
+    const state: TriggerState = {
+      resources: { energy: 40 },
+      relationships: {},
+      discoveredClues: ['a'],
+      completedStorylets: [],
+      gameTime: 90,
+      variables: { met_detective: true },
+      inventory: {},
+      calendar: DEFAULT_CALENDAR
+    };
+    const check = (overrides: Partial<StoryletTrigger>, roll = () => false) =>
+      evaluateTrigger({ ...trigger('t', ''), ...overrides }, state, roll);
+
+    expect(check({ type: 'resource', condition: 'energy', operator: '>=', value: 40 })).toBe(true);
+    expect(check({ type: 'relationship', condition: 'stranger', operator: '>=', value: 50 })).toBe(true);
+    expect(check({ type: 'time', condition: 'gameTime', operator: '<', value: 60 })).toBe(false);
+    expect(check({ type: 'variable', condition: 'met_detective', operator: '=', variableValue: true })).toBe(true);
+    expect(check({ type: 'variable', condition: 'unset', operator: '=', variableValue: false })).toBe(false);
+    expect(check({ type: 'clue', condition: 'a' })).toBe(true);
+    expect(check({ type: 'random', value: 50 }, () => true)).toBe(true);
+    expect(check({ type: 'skill_check' })).toBe(false);
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Boolean condition trees for storylet availability
+ *
+ * Groups combine triggers with AND ('all'), OR ('any') or NOT ('none').
+ * Flat trigger lists are treated as an implicit 'all' group. Single
+ * triggers are checked by evaluateTrigger, which the execution engine and
+ * the sandbox share so both offer the same storylets and choices.
+ */
+
+import type { StoryletCondition, StoryletConditionGroup, StoryletTrigger, StoryVariableValue } from '../types/storylet';
+import type { CalendarConfig } from '../types/calendar';
+import type { Inventory } from '../types/item';
+import { RELATIONSHIP_BOUNDS } from '../constants/game';
+import { evaluateCalendarTrigger } from './calendar';
+import { evaluateItemTrigger } from './items';
+import { compareVariableValue, getVariableOperand } from './storyVariables';
+
+export const CONDITION_LOGIC_LABELS: Record<StoryletConditionGroup['logic'], string> = {
+  all: 'All of',
+  any: 'Any of',
+  none: 'None of'
+};
+
+/**
+ * Check whether a condition node is a group rather than a single trigger
+ */
+export function isConditionGroup(condition: StoryletCondition): condition is StoryletConditionGroup {
+  return (condition as StoryletConditionGroup).logic !== undefined && Array.isArray((condition as StoryletConditionGroup).conditions);
+}
+
+/**
+ * Create an empty condition group
+ */
+export function createConditionGroup(logic: StoryletConditionGroup['logic'] = 'all'): StoryletConditionGroup {
+  return {
+    id: crypto.randomUUID(),
+    logic,
+    conditions: []
+  };
+}
+
+/**
+ * Convert a flat trigger list into an equivalent 'all' group
+ */
+export function triggersToConditionGroup(triggers: StoryletTrigger[]): StoryletConditionGroup {
+  return {
+    ...createConditionGroup('all'),
+    conditions: [...triggers]
+  };
+}
+
+/**
+ * Migrate a storylet's flat triggers into its condition tree.
+ * The result is logically equivalent to the original storylet.
+ */
+export function migrateTriggersToConditions<T extends { triggers: StoryletTrigger[]; conditions?: StoryletConditionGroup }>(storylet: T): T {
+  if (storylet.triggers.length === 0) {
+    return storylet;
+  }
+
+  const migrated = triggersToConditionGroup(storylet.triggers);
+  if (storylet.conditions) {
+    migrated.conditions.push(storylet.conditions);
+  }
+
+  return {
+    ...storylet,
+    triggers: [],
+    conditions: migrated
+  };
+}
+
+export interface TriggerState {
+  resources: Record<string, number>;
+  relationships: Record<string, number>;
+  discoveredClues: string[];
+  completedStorylets: string[];
+  gameTime: number;
+  variables: Record<string, StoryVariableValue>;
+  inventory: Inventory;
+  calendar: CalendarConfig;
+}
+
+const compareNumbers = (actual: number, operator: StoryletTrigger['operator'], expected: number): boolean => {
+  switch (operator ?? '>=') {
+    case '>': return actual > expected;
+    case '<': return actual < expected;
+    case '=': return actual === expected;
+    case '>=': return actual >= expected;
+    case '<=': return actual <= expected;
+    case '!=': return actual !== expected;
+    default: return false;
+  }
+};
+
+/**
+ * Check a single trigger against the game state.
+ * Random and skill check triggers are passed to roll, since each caller owns its random stream.
+ */
+export function evaluateTrigger(trigger: StoryletTrigger, state: TriggerState, roll: (trigger: StoryletTrigger) => boolean): boolean {
+  switch (trigger.type) {
+    case 'resource':
+      return compareNumbers(state.resources[trigger.condition] ?? 0, trigger.operator, trigger.value || 0);
+    case 'relationship':
+      // Characters the player has not met yet start where relationship effects do
+      return compareNumbers(state.relationships[trigger.condition] ?? RELATIONSHIP_BOUNDS.DEFAULT, trigger.operator, trigger.value || 0);
+    case 'time':
+      return compareNumbers(state.gameTime, trigger.operator, trigger.value || 0);
+    case 'day':
+    case 'time_of_day':
+    case 'weekday':
+      return evaluateCalendarTrigger(trigger, state.gameTime, state.calendar);
+    case 'clue':
+      return state.discoveredClues.includes(trigger.condition);
+    case 'storylet_completion':
+      return state.completedStorylets.includes(trigger.condition);
+    case 'variable':
+      return compareVariableValue(state.variables[trigger.condition], trigger.operator || '=', getVariableOperand(trigger));
+    case 'has_item':
+      return evaluateItemTrigger(trigger, state.inventory);
+    case 'random':
+    case 'skill_check':
+      return roll(trigger);
+    default:
+      console.warn(`Unknown trigger type: ${(trigger as StoryletTrigger).type}`);
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition tree using the supplied trigger evaluator
+ */
+export function evaluateCondition(condition: StoryletCondition, evaluateTrigger: (trigger: StoryletTrigger) => boolean): boolean {
+  if (!isConditionGroup(condition)) {
+    return evaluateTrigger(condition);
+  }
+
+  switch (condition.logic) {
+    case 'all':
+      return condition.conditions.every(child => evaluateCondition(child, evaluateTrigger));
+    case 'any':
+      return condition.conditions.length === 0 || condition.conditions.some(child => evaluateCondition(child, evaluateTrigger));
+    case 'none':
+      return !condition.conditions.some(child => evaluateCondition(child, evaluateTrigger));
+    default:
+      return false;
+  }
+}
+
+/**
+ * Collect every trigger in a condition tree, depth first
+ */
+export function collectConditionTriggers(condition: StoryletCondition): StoryletTrigger[] {
+  if (!isConditionGroup(condition)) {
+    return [condition];
+  }
+  return condition.conditions.flatMap(child => collectConditionTriggers(child));
+}
+
+/**
+ * Collect every group in a condition tree, including the root
+ */
+export function collectConditionGroups(condition: StoryletCondition): StoryletConditionGroup[] {
+  if (!isConditionGroup(condition)) {
+    return [];
+  }
+  return [condition, ...condition.conditions.flatMap(child => collectConditionGroups(child))];
+}
+
+/**
+ * Render a condition tree as readable text, e.g. "(has clue OR trust > 60) AND NOT (intro done)"
+ */
+export function describeCondition(condition: StoryletCondition): string {
+  if (!isConditionGroup(condition)) {
+    return condition.description || `${condition.type}: ${condition.condition}`;
+  }
+
+  if (condition.description) {
+    return condition.description;
+  }
+
+  const parts = condition.conditions.map(child =>
+    isConditionGroup(child) && child.conditions.length > 1 ? `(${describeCondition(child)})` : describeCondition(child)
+  );
+
+  switch (condition.logic) {
+    case 'all':
+      return parts.join(' AND ');
+    case 'any':
+      return parts.join(' OR ');
+    case 'none':
+      return parts.length > 1 ? `NOT (${parts.join(' OR ')})` : `NOT ${parts[0] ?? ''}`.trim();
+    default:
+      return parts.join(', ');
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Tests for storylet repeat policies
+ * Covers once, limited, cooldown and the default repeatable behavior
+ */
+
+import { describe, it, expect } from 'vitest';
+import { checkRepeatPolicy, describeRepeatPolicy, recordPlay } from './storyletRepeat';
+
+describe('storyletRepeat', () => {
+  it('allows unplayed storylets and storylets without a policy', () => {
+    expect(checkRepeatPolicy({ mode: 'once' }, undefined, 0).available).toBe(true);
+    expect(checkRepeatPolicy(undefined, { count: 10, lastPlayedAt: 0 }, 0).available).toBe(true);
+  });
+
+  it('enforces play limits and cooldowns against game time', () => {
+    expect(checkRepeatPolicy({ mode: 'once' }, { count: 1, lastPlayedAt: 0 }, 500)).toEqual({
+      available: false,
+      reason: 'Storylet can only be played once'
+    });
+    expect(checkRepeatPolicy({ mode: 'limited', maxPlays: 3 }, { count: 2, lastPlayedAt: 0 }, 0).available).toBe(true);
+    expect(checkRepeatPolicy({ mode: 'limited', maxPlays: 3 }, { count: 3, lastPlayedAt: 0 }, 0).available).toBe(false);
+    expect(checkRepeatPolicy({ mode: 'cooldown', cooldownMinutes: 30 }, { count: 1, lastPlayedAt: 10 }, 39).available).toBe(false);
+    expect(checkRepeatPolicy({ mode: 'cooldown', cooldownMinutes: 30 }, { count: 1, lastPlayedAt: 10 }, 40).available).toBe(true);
+  });
+
+  it('records plays and describes policies', () => {
+    expect(recordPlay(recordPlay(undefined, 5), 20)).toEqual({ count: 2, lastPlayedAt: 20 });
+    expect(describeRepeatPolicy(undefined)).toBe('Repeatable');
+    expect(describeRepeatPolicy({ mode: 'limited', maxPlays: 2 })).toBe('Up to 2 play(s)');
+    expect(describeRepeatPolicy({ mode: 'cooldown', cooldownMinutes: 60 })).toBe('Repeatable every 60 game minute(s)');
+  });
+});
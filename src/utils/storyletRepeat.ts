@@ -0,0 +1,75 @@
+/**
+ * Storylet repeat policies
+ *
+ * Decides whether a storylet may fire again given how often and how
+ * recently (in game minutes) it has been played.
+ */
+
+import type { StoryletPlayRecord, StoryletRepeatPolicy } from '../types/storylet';
+
+export const REPEAT_MODE_LABELS: Record<StoryletRepeatPolicy['mode'], string> = {
+  once: 'Once only',
+  repeatable: 'Repeatable',
+  limited: 'Limited plays',
+  cooldown: 'Cooldown'
+};
+
+/**
+ * Check a repeat policy; returns the reason when the storylet is unavailable
+ */
+export function checkRepeatPolicy(
+  policy: StoryletRepeatPolicy | undefined,
+  record: StoryletPlayRecord | undefined,
+  gameTime: number
+): { available: boolean; reason?: string } {
+  if (!policy || !record || record.count === 0) {
+    return { available: true };
+  }
+
+  switch (policy.mode) {
+    case 'once':
+      return { available: false, reason: 'Storylet can only be played once' };
+    case 'limited': {
+      const maxPlays = policy.maxPlays ?? 1;
+      return record.count >= maxPlays
+        ? { available: false, reason: `Storylet play limit reached (${record.count}/${maxPlays})` }
+        : { available: true };
+    }
+    case 'cooldown': {
+      const readyAt = record.lastPlayedAt + (policy.cooldownMinutes ?? 0);
+      return gameTime < readyAt
+        ? { available: false, reason: `Storylet is on cooldown for ${readyAt - gameTime} more minute(s)` }
+        : { available: true };
+    }
+    case 'repeatable':
+      return { available: true };
+  }
+}
+
+/**
+ * Add one play to a storylet's record
+ */
+export function recordPlay(record: StoryletPlayRecord | undefined, gameTime: number): StoryletPlayRecord {
+  return {
+    count: (record?.count ?? 0) + 1,
+    lastPlayedAt: gameTime
+  };
+}
+
+/**
+ * Human-readable summary of a repeat policy
+ */
+export function describeRepeatPolicy(policy: StoryletRepeatPolicy | undefined): string {
+  if (!policy) {
+    return REPEAT_MODE_LABELS.repeatable;
+  }
+
+  switch (policy.mode) {
+    case 'limited':
+      return `Up to ${policy.maxPlays ?? 1} play(s)`;
+    case 'cooldown':
+      return `Repeatable every ${policy.cooldownMinutes ?? 0} game minute(s)`;
+    default:
+      return REPEAT_MODE_LABELS[policy.mode];
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Tests for storylet text templates
+ * Covers interpolation, conditional blocks, variants and escaping
+ */
+
+import { describe, it, expect } from 'vitest';
+import { renderStoryletText, validateStoryletText, type StoryletTextContext } from './storyletText';
+import { validateStorylet } from './dataValidation';
+import { deserializeStorylet, serializeStorylet } from '../db/serialization';
+
+const context: StoryletTextContext = {
+  resources: { money: 120 },
+  variables: { suspicion: 4, met_detective: false, weather: 'rain' },
+  characters: [
+    { id: 'alice', name: 'Alice Smith', displayName: 'Detective Smith' },
+    { id: 'bob', name: 'Bob' }
+  ],
+  discoveredClues: ['muddy-boots'],
+  completedStorylets: ['intro'],
+  gameTime: 90
+};
+
+describe('storyletText', () => {
+  it('prints resources, variables, character names and time', () => {
+    expect(renderStoryletText(
+      'You have {{resource.money}} coins. {{character.alice}} and {{character.bob}} watch. Suspicion: {{var.suspicion}}, {{time}} minutes in.',
+      context
+    )).toBe('You have 120 coins. Detective Smith and Bob watch. Suspicion: 4, 90 minutes in.');
+  });
+
+  it('renders conditional blocks, including else, negation and comparisons', () => {
+    expect(renderStoryletText('{{#if clue.muddy-boots}}Mud on the floor.{{else}}A clean floor.{{/if}}', context)).toBe('Mud on the floor.');
+    expect(renderStoryletText('{{#if not storylet.intro}}Welcome.{{else}}Welcome back.{{/if}}', context)).toBe('Welcome back.');
+    expect(renderStoryletText('{{#if var.suspicion >= 3}}{{#if var.weather = rain}}Wet and watched.{{/if}}{{/if}}', context)).toBe('Wet and watched.');
+    expect(renderStoryletText('{{#if var.met_detective}}Hello again.{{/if}}', context)).toBe('');
+  });
+
+  it('picks random variants from the supplied generator and cycles by visit count', () => {
+    expect(renderStoryletText('{{random: a | b | c}}', { ...context, random: () => 0.7 })).toBe('c');
+    expect(renderStoryletText('{{random: a | b | c}}', context)).toBe('a');
+    expect(renderStoryletText('{{cycle: first | second}}', { ...context, visitCount: 3 })).toBe('second');
+  });
+
+  it('escapes printed values and sanitizes the result', () => {
+    const rendered = renderStoryletText('<b>{{var.weather}}</b><script>alert(1)</script>', {
+      ...context,
+      variables: { weather: '<img src=x onerror=alert(1)>' }
+    });
+
+    expect(rendered).toContain('<b>');
+    expect(rendered).not.toContain('<img');
+    expect(rendered).not.toContain('<script');
+  });
+
+  it('renders choice text saved and reloaded through the storylet validator', () => {
+    const { sanitizedData } = validateStorylet({
+      title: 'The hallway',
+      description: 'Boots by the door',
+      content: 'Someone came in from the rain.',
+      status: 'dev',
+      triggers: [],
+      choices: [{ id: 'ask', text: '{{#if clue.a}}Show the boots and {{/if}}Ask him', effects: [] }],
+      effects: []
+    });
+    const [choice] = deserializeStorylet(serializeStorylet(sanitizedData)).choices;
+
+    expect(renderStoryletText(choice.text, context)).toBe('Ask him');
+    expect(renderStoryletText(choice.text, { ...context, discoveredClues: ['a'] })).toBe('Show the boots and Ask him');
+  });
+
+  it('reports unbalanced blocks and unknown tags', () => {
+    expect(validateStoryletText('{{#if clue.a}}open')).toEqual(['1 {{#if}} block(s) not closed with {{/if}}']);
+    expect(validateStoryletText('{{/if}}{{money}}{{#if luck}}x{{/if}}')).toEqual([
+      '{{/if}} without a matching {{#if}}',
+      'Unknown tag "{{money}}"',
+      'Unknown condition "{{#if luck}}"'
+    ]);
+    expect(validateStoryletText('{{resource.money}} {{time}} {{cycle: a | b}}{{#if time > 60}}late{{/if}}')).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Storylet text templates
+ *
+ * Content and choice text may contain `{{ }}` tags:
+ * - Values: {{resource.money}}, {{var.suspicion}}, {{character.alice}}, {{time}}
+ * - Conditionals: {{#if clue.muddy-boots}}...{{else}}...{{/if}}
+ *   (clue.<id>, storylet.<id>, var.<name>, resource.<name>, optional
+ *   comparison such as `var.suspicion >= 3`, and a leading `not`)
+ * - Variants: {{random: a | b | c}} and {{cycle: a | b | c}}
+ *
+ * Printed game values are HTML-escaped and the final text is passed through
+ * sanitizeStoryletContent, so templates render no more markup than plain content.
+ */
+
+import type { StoryletTrigger, StoryVariableValue } from '../types/storylet';
+import { escapeHtml, sanitizeStoryletContent } from './sanitization';
+import { compareVariableValue } from './storyVariables';
+
+export interface StoryletTextContext {
+  resources: Record<string, number>;
+  variables: Record<string, StoryVariableValue>;
+  characters: { id: string; name: string; displayName?: string }[];
+  discoveredClues: string[];
+  completedStorylets: string[];
+  gameTime?: number;
+  visitCount?: number; // Selects the {{cycle:}} variant
+  random?: () => number; // Selects the {{random:}} variant; the first variant is used without one
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'tag'; expression: string }
+  | { kind: 'if'; condition: string; then: TemplateNode[]; else: TemplateNode[] };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const COMPARISON_PATTERN = /^(.+?)\s*(>=|<=|!=|=|>|<)\s*(.+)$/;
+const VALUE_NAMESPACES = ['resource', 'var', 'character'];
+const CONDITION_NAMESPACES = ['clue', 'storylet', 'var', 'resource'];
+
+/**
+ * Parse a template into nodes, collecting structural errors
+ */
+function parseTemplate(template: string): { nodes: TemplateNode[]; errors: string[] } {
+  const root: TemplateNode[] = [];
+  const stack: { node: Extract<TemplateNode, { kind: 'if' }>; inElse: boolean }[] = [];
+  const errors: string[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current().push({ kind: 'text', text: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+
+    const tag = match[1].trim();
+    if (tag.startsWith('#if ')) {
+      const node: Extract<TemplateNode, { kind: 'if' }> = { kind: 'if', condition: tag.slice(4).trim(), then: [], else: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.inElse) {
+        errors.push('{{else}} without a matching {{#if}}');
+      } else {
+        top.inElse = true;
+      }
+    } else if (tag === '/if') {
+      if (!stack.pop()) {
+        errors.push('{{/if}} without a matching {{#if}}');
+      }
+    } else {
+      current().push({ kind: 'tag', expression: tag });
+    }
+  }
+
+  if (lastIndex < template.length) {
+    current().push({ kind: 'text', text: template.slice(lastIndex) });
+  }
+  if (stack.length > 0) {
+    errors.push(`${stack.length} {{#if}} block(s) not closed with {{/if}}`);
+  }
+
+  return { nodes: root, errors };
+}
+
+function splitReference(reference: string): { namespace: string; key: string } {
+  const dot = reference.indexOf('.');
+  return dot === -1
+    ? { namespace: reference, key: '' }
+    : { namespace: reference.slice(0, dot), key: reference.slice(dot + 1) };
+}
+
+function parseVariants(expression: string): { mode: 'random' | 'cycle'; variants: string[] } | null {
+  const match = expression.match(/^(random|cycle)\s*:([\s\S]*)$/);
+  if (!match) return null;
+  return { mode: match[1] as 'random' | 'cycle', variants: match[2].split('|').map(variant => variant.trim()) };
+}
+
+function resolveValue(reference: string, context: StoryletTextContext): StoryVariableValue | undefined {
+  const { namespace, key } = splitReference(reference);
+  switch (namespace) {
+    case 'time':
+      return context.gameTime ?? 0;
+    case 'resource':
+      return context.resources[key] ?? 0;
+    case 'var':
+      return context.variables[key];
+    case 'character': {
+      const character = context.characters.find(c => c.id === key || c.name === key);
+      return character ? character.displayName || character.name : undefined;
+    }
+    default:
+      return undefined;
+  }
+}
+
+function parseLiteral(text: string): StoryVariableValue {
+  const trimmed = text.trim().replace(/^(['"])(.*)\1$/, '$2');
+  if (trimmed === 'true') return true;
+  if (trimmed === 'false') return false;
+  const number = Number(trimmed);
+  return trimmed !== '' && !Number.isNaN(number) ? number : trimmed;
+}
+
+function evaluateTextCondition(condition: string, context: StoryletTextContext): boolean {
+  const negated = /^not\s+/.test(condition);
+  const expression = negated ? condition.replace(/^not\s+/, '') : condition;
+  const comparison = expression.match(COMPARISON_PATTERN);
+
+  let result: boolean;
+  if (comparison) {
+    const operator = comparison[2] as NonNullable<StoryletTrigger['operator']>;
+    result = compareVariableValue(resolveValue(comparison[1].trim(), context), operator, parseLiteral(comparison[3]));
+  } else {
+    const { namespace, key } = splitReference(expression.trim());
+    switch (namespace) {
+      case 'clue':
+        result = context.discoveredClues.includes(key);
+        break;
+      case 'storylet':
+        result = context.completedStorylets.includes(key);
+        break;
+      default:
+        result = Boolean(resolveValue(expression.trim(), context));
+    }
+  }
+
+  return negated ? !result : result;
+}
+
+function renderNodes(nodes: TemplateNode[], context: StoryletTextContext): string {
+  return nodes.map(node => {
+    switch (node.kind) {
+      case 'text':
+        return node.text;
+      case 'if':
+        return renderNodes(evaluateTextCondition(node.condition, context) ? node.then : node.else, context);
+      case 'tag': {
+        const variants = parseVariants(node.expression);
+        if (variants) {
+          const index = variants.mode === 'cycle'
+            ? (context.visitCount ?? 0) % variants.variants.length
+            : Math.floor((context.random?.() ?? 0) * variants.variants.length);
+          return variants.variants[index];
+        }
+        const value = resolveValue(node.expression, context);
+        return value === undefined ? '' : escapeHtml(String(value));
+      }
+    }
+  }).join('');
+}
+
+/**
+ * Render a storylet template against the current game state
+ */
+export function renderStoryletText(template: string, context: StoryletTextContext): string {
+  if (!template.includes('{{')) {
+    return sanitizeStoryletContent(template);
+  }
+  return sanitizeStoryletContent(renderNodes(parseTemplate(template).nodes, context));
+}
+
+/**
+ * Check a template for unbalanced blocks and unknown tags
+ */
+export function validateStoryletText(template: string): string[] {
+  const { nodes, errors } = parseTemplate(template);
+
+  const visit = (list: TemplateNode[]) => list.forEach(node => {
+    if (node.kind === 'if') {
+      const expression = node.condition.replace(/^not\s+/, '');
+      const reference = (expression.match(COMPARISON_PATTERN)?.[1] ?? expression).trim();
+      const { namespace, key } = splitReference(reference);
+      if (namespace !== 'time' && (!CONDITION_NAMESPACES.includes(namespace) || !key)) {
+        errors.push(`Unknown condition "{{#if ${node.condition}}}"`);
+      }
+      visit(node.then);
+      visit(node.else);
+    } else if (node.kind === 'tag' && !parseVariants(node.expression) && node.expression !== 'time') {
+      const { namespace, key } = splitReference(node.expression);
+      if (!VALUE_NAMESPACES.includes(namespace) || !key) {
+        errors.push(`Unknown tag "{{${node.expression}}}"`);
+      }
+    }
+  });
+  visit(nodes);
+
+  return errors;
+}
@@ -0,0 +1,45 @@
+/**
+ * Storylet and choice lock state
+ *
+ * Each playthrough keeps explicit unlock/lock overrides set by
+ * storylet_unlock and storylet_lock effects. Anything without an
+ * override falls back to how it was authored: storylets are open unless
+ * marked startsLocked, choices unless their unlocked flag is false.
+ */
+
+import type { StoryletChoice, UnlockState } from '../types/storylet';
+
+// Effect targets of the form "choice:<choiceId>" address a choice instead of a storylet
+export const CHOICE_UNLOCK_PREFIX = 'choice:';
+
+export function createUnlockState(): UnlockState {
+  return { storylets: {}, choices: {} };
+}
+
+/**
+ * Split an unlock/lock effect target into what it addresses
+ */
+export function parseUnlockTarget(target: string): { kind: 'storylet' | 'choice'; id: string } {
+  return target.startsWith(CHOICE_UNLOCK_PREFIX)
+    ? { kind: 'choice', id: target.slice(CHOICE_UNLOCK_PREFIX.length) }
+    : { kind: 'storylet', id: target };
+}
+
+/**
+ * Record an unlock (true) or lock (false) for an effect target
+ */
+export function setUnlocked(state: UnlockState, target: string, unlocked: boolean): UnlockState {
+  const { kind, id } = parseUnlockTarget(target);
+  return kind === 'choice'
+    ? { ...state, choices: { ...state.choices, [id]: unlocked } }
+    : { ...state, storylets: { ...state.storylets, [id]: unlocked } };
+}
+
+export function isStoryletUnlocked(storylet: { id?: string; startsLocked?: boolean }, state: UnlockState): boolean {
+  const override = storylet.id ? state.storylets[storylet.id] : undefined;
+  return override ?? !storylet.startsLocked;
+}
+
+export function isChoiceUnlocked(choice: StoryletChoice, state: UnlockState): boolean {
+  return state.choices[choice.id] ?? choice.unlocked !== false;
+}
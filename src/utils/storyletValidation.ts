@@ -1,6 +1,333 @@
-import { type StoryletFormData, type ValidationError, type StoryletValidationResult } from '../types/storylet';
+import { type StoryletFormData, type StoryletTrigger, type StoryletEffect, type StoryletChoice, type SkillCheck, type ValidationError, type StoryletValidationResult, type StoryVariableDefinition } from '../types/storylet';
+import { collectConditionGroups, collectConditionTriggers, CONDITION_LOGIC_LABELS } from './storyletConditions';
+import { getVariableOperand, isVariableValueOfType } from './storyVariables';
+import { validateStoryletText } from './storyletText';
+import { validateScheduleAt } from './scheduledEvents';
+import { parseUnlockTarget } from './storyletUnlocks';
+import type { ResourceDefinition } from '../types/resource';
+import type { ItemDefinition } from '../types/item';
 
-export const validateStoryletForm = (formData: StoryletFormData): StoryletValidationResult => {
+const validateSkillCheck = (check: SkillCheck, label: string, field: string, path: string, errors: ValidationError[]) => {
+  if (!check.characterId) {
+    errors.push({ field, message: `${label} must name a character`, path: `${path}.characterId` });
+  }
+  if (!check.stat?.trim()) {
+    errors.push({ field, message: `${label} must name an attribute or trait`, path: `${path}.stat` });
+  }
+  if (!Number.isFinite(check.difficulty)) {
+    errors.push({ field, message: `${label} must have a difficulty`, path: `${path}.difficulty` });
+  }
+  if (check.dice && (!Number.isInteger(check.dice.count) || check.dice.count < 1 || !Number.isInteger(check.dice.sides) || check.dice.sides < 2)) {
+    errors.push({ field, message: `${label} dice must be at least one die with two or more sides`, path: `${path}.dice` });
+  }
+};
+
+const validateTrigger = (trigger: StoryletTrigger, label: string, field: string, path: string, errors: ValidationError[]) => {
+  if (trigger.type === 'skill_check') {
+    if (trigger.skillCheck) {
+      validateSkillCheck(trigger.skillCheck, `${label} skill check`, field, `${path}.skillCheck`, errors);
+    } else {
+      errors.push({ field, message: `${label} must define a skill check`, path: `${path}.skillCheck` });
+    }
+    return;
+  }
+
+  if (!trigger.condition?.trim()) {
+    errors.push({
+      field,
+      message: `${label} must have a condition`,
+      path: `${path}.condition`
+    });
+  }
+  
+  if ((trigger.type === 'resource' || trigger.type === 'day') && !trigger.value && trigger.value !== 0) {
+    errors.push({
+      field,
+      message: `${label} of type '${trigger.type}' must have a value`,
+      path: `${path}.value`
+    });
+  }
+};
+
+const validateChoiceOutcomes = (choice: StoryletChoice, label: string, path: string, errors: ValidationError[]) => {
+  if (choice.skillCheck) {
+    validateSkillCheck(choice.skillCheck, `${label} skill check`, 'choices', `${path}.skillCheck`, errors);
+  }
+  (choice.requirements || []).forEach((trigger, index) => {
+    validateTrigger(trigger, `${label} requirement ${index + 1}`, 'choices', `${path}.requirements[${index}]`, errors);
+  });
+
+  if (!choice.outcomes || choice.outcomes.length === 0) {
+    return;
+  }
+
+  choice.outcomes.forEach((outcome, index) => {
+    if (!outcome.label?.trim()) {
+      errors.push({ field: 'choices', message: `${label} outcome ${index + 1} must have a label`, path: `${path}.outcomes[${index}].label` });
+    }
+    if (!Number.isFinite(outcome.weight) || outcome.weight < 0) {
+      errors.push({ field: 'choices', message: `${label} outcome ${index + 1} must have a weight of zero or more`, path: `${path}.outcomes[${index}].weight` });
+    }
+    if (outcome.skillCheckResult && !choice.skillCheck) {
+      errors.push({ field: 'choices', message: `${label} outcome ${index + 1} depends on a skill check the choice does not have`, path: `${path}.outcomes[${index}].skillCheckResult` });
+    }
+    outcome.effects.forEach((effect, effectIndex) => {
+      if (!effect.target?.trim()) {
+        errors.push({ field: 'choices', message: `${label} outcome ${index + 1} effect ${effectIndex + 1} must have a target`, path: `${path}.outcomes[${index}].effects[${effectIndex}].target` });
+      }
+    });
+  });
+
+  if (choice.outcomes.every(outcome => !(outcome.weight > 0) && !(outcome.modifiers && outcome.modifiers.length > 0))) {
+    errors.push({ field: 'choices', message: `${label} needs at least one outcome with a positive weight`, path: `${path}.outcomes` });
+  }
+};
+
+// Every trigger and effect in a storylet, including conditions and choices, with its form path
+const collectTriggerReferences = (formData: StoryletFormData): { trigger: StoryletTrigger; path: string }[] => [
+  ...formData.triggers.map((trigger, index) => ({ trigger, path: `triggers[${index}]` })),
+  ...(formData.conditions ? collectConditionTriggers(formData.conditions) : []).map(trigger => ({ trigger, path: `conditions.${trigger.id}` })),
+  ...formData.choices.flatMap((choice, choiceIndex) =>
+    (choice.requirements || []).map((trigger, index) => ({ trigger, path: `choices[${choiceIndex}].requirements[${index}]` }))
+  )
+];
+
+// Effects with the delayed effects of any schedule_event among them
+const withScheduledEffects = (effect: StoryletEffect, path: string): { effect: StoryletEffect; path: string }[] => [
+  { effect, path },
+  ...(effect.scheduledEffects || []).flatMap((scheduled, index) => withScheduledEffects(scheduled, `${path}.scheduledEffects[${index}]`))
+];
+
+const collectEffectReferences = (formData: StoryletFormData): { effect: StoryletEffect; path: string }[] => [
+  ...formData.effects.map((effect, index) => ({ effect, path: `effects[${index}]` })),
+  ...formData.choices.flatMap((choice, choiceIndex) => [
+    ...choice.effects.map((effect, index) => ({ effect, path: `choices[${choiceIndex}].effects[${index}]` })),
+    ...(choice.outcomes || []).flatMap((outcome, outcomeIndex) =>
+      outcome.effects.map((effect, index) => ({ effect, path: `choices[${choiceIndex}].outcomes[${outcomeIndex}].effects[${index}]` }))
+    )
+  ]),
+  ...(formData.beats || []).flatMap((beat, beatIndex) => [
+    ...beat.effects.map((effect, index) => ({ effect, path: `beats[${beatIndex}].effects[${index}]` })),
+    ...(beat.choices || []).flatMap((choice, choiceIndex) =>
+      choice.effects.map((effect, index) => ({ effect, path: `beats[${beatIndex}].choices[${choiceIndex}].effects[${index}]` }))
+    )
+  ])
+].flatMap(({ effect, path }) => withScheduledEffects(effect, path));
+
+/**
+ * Check that scheduled events have something to deliver and a time format the engine understands
+ */
+export const validateScheduledEvents = (formData: StoryletFormData): ValidationError[] => {
+  const errors: ValidationError[] = [];
+
+  collectEffectReferences(formData)
+    .filter(({ effect }) => effect.type === 'schedule_event')
+    .forEach(({ effect, path }) => {
+      if (!effect.target && !(effect.scheduledEffects && effect.scheduledEffects.length > 0)) {
+        errors.push({ field: 'effects', message: 'Scheduled event needs a storylet or effects', path: `${path}.target` });
+      }
+      const timeError = effect.scheduleAt?.trim() ? validateScheduleAt(effect.scheduleAt) : undefined;
+      if (timeError) {
+        errors.push({ field: 'effects', message: timeError, path: `${path}.scheduleAt` });
+      }
+    });
+
+  return errors;
+};
+
+/**
+ * Check the pages of a multi-page storylet and where their inline choices lead
+ */
+export const validateStoryletBeats = (formData: StoryletFormData): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const beats = formData.beats || [];
+  beats.forEach((beat, index) => {
+    const label = `Page ${index + 2}`;
+    if (!beat.content?.trim()) {
+      errors.push({ field: 'beats', message: `${label} must have content`, path: `beats[${index}].content` });
+    }
+    validateStoryletText(beat.content || '').forEach(message => {
+      errors.push({ field: 'beats', message: `${label} template: ${message}`, path: `beats[${index}].content` });
+    });
+    (beat.choices || []).forEach((choice, choiceIndex) => {
+      if (!choice.text?.trim()) {
+        errors.push({ field: 'beats', message: `${label} choice ${choiceIndex + 1} must have text`, path: `beats[${index}].choices[${choiceIndex}].text` });
+      }
+      if (choice.nextBeatId && !beats.some(other => other.id === choice.nextBeatId)) {
+        errors.push({ field: 'beats', message: `${label} choice ${choiceIndex + 1} leads to a missing page`, path: `beats[${index}].choices[${choiceIndex}].nextBeatId` });
+      }
+    });
+  });
+
+  return errors;
+};
+
+/**
+ * Check variable triggers and set_variable effects against the declared story variables
+ */
+export const validateVariableReferences = (formData: StoryletFormData, variables: StoryVariableDefinition[]): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const declared = new Map(variables.map(variable => [variable.name, variable]));
+
+  collectTriggerReferences(formData)
+    .filter(({ trigger }) => trigger.type === 'variable')
+    .forEach(({ trigger, path }) => {
+      const variable = declared.get(trigger.condition);
+      if (!variable) {
+        errors.push({ field: 'triggers', message: `Unknown variable "${trigger.condition}"`, path: `${path}.condition` });
+        return;
+      }
+      if (!isVariableValueOfType(getVariableOperand(trigger), variable.type)) {
+        errors.push({ field: 'triggers', message: `Variable "${variable.name}" must be compared with a ${variable.type} value`, path: `${path}.value` });
+      }
+      if (variable.type !== 'number' && trigger.operator && !['=', '!='].includes(trigger.operator)) {
+        errors.push({ field: 'triggers', message: `Variable "${variable.name}" only supports equality comparisons`, path: `${path}.operator` });
+      }
+    });
+
+  collectEffectReferences(formData)
+    .filter(({ effect }) => effect.type === 'set_variable')
+    .forEach(({ effect, path }) => {
+      const variable = declared.get(effect.target);
+      if (!variable) {
+        errors.push({ field: 'effects', message: `Unknown variable "${effect.target}"`, path: `${path}.target` });
+        return;
+      }
+      if (!isVariableValueOfType(getVariableOperand(effect), variable.type)) {
+        errors.push({ field: 'effects', message: `Variable "${variable.name}" must be set to a ${variable.type} value`, path: `${path}.value` });
+      }
+      if (variable.type !== 'number' && effect.operator && effect.operator !== '=') {
+        errors.push({ field: 'effects', message: `Variable "${variable.name}" can only be assigned with "="`, path: `${path}.operator` });
+      }
+    });
+
+  return errors;
+};
+
+/**
+ * Check resource triggers and effects against the project's resource registry
+ */
+export const validateResourceReferences = (formData: StoryletFormData, resources: ResourceDefinition[]): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const registered = new Set(resources.map(resource => resource.id));
+
+  collectTriggerReferences(formData)
+    .filter(({ trigger }) => trigger.type === 'resource' && trigger.condition?.trim() && !registered.has(trigger.condition))
+    .forEach(({ trigger, path }) => {
+      errors.push({ field: 'triggers', message: `Unknown resource "${trigger.condition}"`, path: `${path}.condition` });
+    });
+
+  collectEffectReferences(formData)
+    .filter(({ effect }) => effect.type === 'resource' && effect.target?.trim() && !registered.has(effect.target))
+    .forEach(({ effect, path }) => {
+      errors.push({ field: 'effects', message: `Unknown resource "${effect.target}"`, path: `${path}.target` });
+    });
+
+  return errors;
+};
+
+export const validateItemReferences = (formData: StoryletFormData, items: ItemDefinition[]): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const catalog = new Set(items.map(item => item.id));
+
+  collectTriggerReferences(formData)
+    .filter(({ trigger }) => trigger.type === 'has_item' && !catalog.has(trigger.condition))
+    .forEach(({ trigger, path }) => {
+      errors.push({ field: 'triggers', message: trigger.condition?.trim() ? `Unknown item "${trigger.condition}"` : 'Item condition needs an item', path: `${path}.condition` });
+    });
+
+  collectEffectReferences(formData)
+    .filter(({ effect }) => (effect.type === 'item_grant' || effect.type === 'item_remove') && !catalog.has(effect.target))
+    .forEach(({ effect, path }) => {
+      errors.push({ field: 'effects', message: effect.target?.trim() ? `Unknown item "${effect.target}"` : 'Item effect needs an item', path: `${path}.target` });
+    });
+
+  return errors;
+};
+
+export interface StoryletReference {
+  storyletId: string;
+  label: string; // What refers to the storylet, e.g. "Choice 2"
+  field: string;
+  path: string;
+}
+
+/**
+ * Every storylet a storylet can lead to, unlock, lock, schedule or require
+ */
+export const collectStoryletReferences = (formData: StoryletFormData): StoryletReference[] => {
+  const references: StoryletReference[] = [];
+
+  formData.choices.forEach((choice, choiceIndex) => {
+    if (choice.nextStoryletId) {
+      references.push({ storyletId: choice.nextStoryletId, label: `Choice ${choiceIndex + 1}`, field: 'choices', path: `choices[${choiceIndex}].nextStoryletId` });
+    }
+    (choice.outcomes || []).forEach((outcome, outcomeIndex) => {
+      if (outcome.nextStoryletId) {
+        references.push({
+          storyletId: outcome.nextStoryletId,
+          label: `Choice ${choiceIndex + 1} outcome ${outcomeIndex + 1}`,
+          field: 'choices',
+          path: `choices[${choiceIndex}].outcomes[${outcomeIndex}].nextStoryletId`
+        });
+      }
+    });
+  });
+
+  collectEffectReferences(formData).forEach(({ effect, path }) => {
+    if ((effect.type === 'storylet_unlock' || effect.type === 'storylet_lock') && effect.target?.trim()) {
+      const target = parseUnlockTarget(effect.target);
+      if (target.kind === 'storylet') {
+        references.push({ storyletId: target.id, label: effect.type === 'storylet_unlock' ? 'Unlock effect' : 'Lock effect', field: 'effects', path: `${path}.target` });
+      }
+    }
+    if (effect.type === 'schedule_event' && effect.target?.trim()) {
+      references.push({ storyletId: effect.target, label: 'Scheduled event', field: 'effects', path: `${path}.target` });
+    }
+  });
+
+  (formData.prerequisites || []).forEach((storyletId, index) => {
+    references.push({ storyletId, label: 'Prerequisite', field: 'prerequisites', path: `prerequisites[${index}]` });
+  });
+
+  return references;
+};
+
+/**
+ * Check that the storylets and clues a storylet refers to exist
+ */
+export const validateContentReferences = (formData: StoryletFormData, storyletIds: string[], clueIds: string[]): ValidationError[] => {
+  const errors: ValidationError[] = [];
+  const storylets = new Set(storyletIds);
+  const clues = new Set(clueIds);
+
+  collectStoryletReferences(formData)
+    .filter(reference => !storylets.has(reference.storyletId))
+    .forEach(reference => {
+      errors.push({ field: reference.field, message: `${reference.label} refers to unknown storylet "${reference.storyletId}"`, path: reference.path });
+    });
+
+  formData.choices.forEach((choice, index) => {
+    if (choice.clueId && !clues.has(choice.clueId)) {
+      errors.push({ field: 'choices', message: `Choice ${index + 1} refers to unknown clue "${choice.clueId}"`, path: `choices[${index}].clueId` });
+    }
+  });
+
+  collectEffectReferences(formData)
+    .filter(({ effect }) => effect.type === 'clue_discovery' && effect.target?.trim() && !clues.has(effect.target))
+    .forEach(({ effect, path }) => {
+      errors.push({ field: 'effects', message: `Unknown clue "${effect.target}"`, path: `${path}.target` });
+    });
+
+  return errors;
+};
+
+export const validateStoryletForm = (
+  formData: StoryletFormData,
+  variables?: StoryVariableDefinition[],
+  resources?: ResourceDefinition[],
+  items?: ItemDefinition[]
+): StoryletValidationResult => {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
@@ -23,6 +350,10 @@ export const validateStoryletForm = (formData: StoryletFormData): StoryletValida
     warnings.push({ field: 'content', message: 'Content seems short, consider adding more detail' });
   }
 
+  validateStoryletText(formData.content || '').forEach(message => {
+    errors.push({ field: 'content', message: `Content template: ${message}` });
+  });
+
   // Choice validation
   if (formData.choices.length === 0) {
     errors.push({ field: 'choices', message: 'At least one choice is required' });
@@ -35,28 +366,45 @@ export const validateStoryletForm = (formData: StoryletFormData): StoryletValida
           path: `choices[${index}].text`
         });
       }
+
+      validateStoryletText(choice.text || '').forEach(message => {
+        errors.push({
+          field: 'choices',
+          message: `Choice ${index + 1} text template: ${message}`,
+          path: `choices[${index}].text`
+        });
+      });
+
+      validateChoiceOutcomes(choice, `Choice ${index + 1}`, `choices[${index}]`, errors);
     });
   }
 
+  // Page validation
+  errors.push(...validateStoryletBeats(formData));
+  errors.push(...validateScheduledEvents(formData));
+
   // Trigger validation
   formData.triggers.forEach((trigger, index) => {
-    if (!trigger.condition?.trim()) {
-      errors.push({
-        field: 'triggers',
-        message: `Trigger ${index + 1} must have a condition`,
-        path: `triggers[${index}].condition`
-      });
-    }
-    
-    if (trigger.type === 'resource' && !trigger.value && trigger.value !== 0) {
-      errors.push({
-        field: 'triggers',
-        message: `Trigger ${index + 1} of type 'resource' must have a value`,
-        path: `triggers[${index}].value`
-      });
-    }
+    validateTrigger(trigger, `Trigger ${index + 1}`, 'triggers', `triggers[${index}]`, errors);
   });
 
+  // Condition tree validation
+  if (formData.conditions) {
+    collectConditionTriggers(formData.conditions).forEach((trigger, index) => {
+      validateTrigger(trigger, `Condition ${index + 1}`, 'conditions', `conditions.${trigger.id}`, errors);
+    });
+
+    collectConditionGroups(formData.conditions).forEach(group => {
+      if (group.conditions.length === 0) {
+        warnings.push({
+          field: 'conditions',
+          message: `"${CONDITION_LOGIC_LABELS[group.logic]}" condition group is empty`,
+          path: `conditions.${group.id}`
+        });
+      }
+    });
+  }
+
   // Effect validation
   formData.effects.forEach((effect, index) => {
     if (!effect.target?.trim()) {
@@ -67,7 +415,7 @@ export const validateStoryletForm = (formData: StoryletFormData): StoryletValida
       });
     }
     
-    if (!effect.value && effect.value !== 0) {
+    if (getVariableOperand(effect) === undefined) {
       warnings.push({
         field: 'effects',
         message: `Effect ${index + 1} has no value specified`,
@@ -76,6 +424,21 @@ export const validateStoryletForm = (formData: StoryletFormData): StoryletValida
     }
   });
 
+  // Story variable references
+  if (variables) {
+    errors.push(...validateVariableReferences(formData, variables));
+  }
+
+  // Resource references
+  if (resources) {
+    errors.push(...validateResourceReferences(formData, resources));
+  }
+
+  // Item references
+  if (items) {
+    errors.push(...validateItemReferences(formData, items));
+  }
+
   // Business logic validation
   if (formData.priority < 1 || formData.priority > 10) {
     warnings.push({ field: 'priority', message: 'Priority should be between 1-10' });